@@ -0,0 +1,150 @@
+// public/sw.js
+//
+// Offline support: the app shell, recent threat, image and analysis lists
+// and the imagery they point at are cached so the last known picture stays
+// readable without a connection. Bump the version suffixes to drop caches
+// from an older release.
+
+const SHELL_CACHE = "c2-shell-v2";
+// Also cleared on logout by src/lib/serviceWorker.ts
+const API_CACHE = "c2-api-v1";
+const MEDIA_CACHE = "c2-media-v1";
+const CURRENT_CACHES = [SHELL_CACHE, API_CACHE, MEDIA_CACHE];
+
+const SHELL_FILES = [
+  "/",
+  "/index.html",
+  "/manifest.webmanifest",
+  "/icons/icon.svg",
+  "/icons/icon-192.png",
+  "/icons/icon-512.png",
+];
+
+const MAX_API_ENTRIES = 100;
+const MAX_MEDIA_ENTRIES = 300;
+
+const CACHED_API_PATH = /\/satellite\/(threats|images|analyses)\//;
+const CACHED_MEDIA_PATH = /\/media\/.+\.(png|jpe?g|webp|gif)$/i;
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then((cache) => cache.addAll(SHELL_FILES))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((names) =>
+        Promise.all(
+          names
+            // Offline basemap packages (c2-tiles:<id>) are kept
+            .filter(
+              (name) =>
+                name.startsWith("c2-") &&
+                !name.startsWith("c2-tiles:") &&
+                !CURRENT_CACHES.includes(name)
+            )
+            .map((name) => caches.delete(name))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+// Drops the oldest entries, caches keep insertion order
+const trimCache = async (name, maxEntries) => {
+  const cache = await caches.open(name);
+  const keys = await cache.keys();
+  await Promise.all(
+    keys
+      .slice(0, Math.max(0, keys.length - maxEntries))
+      .map((key) => cache.delete(key))
+  );
+};
+
+// Stored under `key`, the request itself unless several share one entry
+const fetchAndCache = async (request, cacheName, maxEntries, key = request) => {
+  const response = await fetch(request);
+  // Redirected responses cannot answer a navigation from the cache
+  if (response.ok && !response.redirected) {
+    const cache = await caches.open(cacheName);
+    // Re-adding moves the entry to the end for trimming
+    await cache.delete(key, { ignoreVary: true });
+    await cache.put(key, response.clone());
+    if (maxEntries) trimCache(cacheName, maxEntries);
+  }
+  return response;
+};
+
+// A network that connects but never answers falls back to the cache after
+// this long; the response still refreshes the cache when it arrives
+const NETWORK_TIMEOUT_MS = 4000;
+
+const networkFirst = async (request, cacheName, maxEntries, key = request) => {
+  const network = fetchAndCache(request, cacheName, maxEntries, key);
+  // Handled below, but may settle after the cached copy was served
+  network.catch(() => {});
+  // Authorization varies per request, the cache is cleared on logout
+  const cached = () => caches.match(key, { cacheName, ignoreVary: true });
+
+  let timer;
+  const timeout = new Promise((resolve) => {
+    timer = setTimeout(resolve, NETWORK_TIMEOUT_MS);
+  });
+  try {
+    const response = await Promise.race([network, timeout]);
+    if (response) return response;
+    // Without a cached copy there is nothing better than waiting
+    return (await cached()) ?? (await network);
+  } catch (error) {
+    const fallback = await cached();
+    if (fallback) return fallback;
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+const cacheFirst = async (request, cacheName, maxEntries) => {
+  const cached = await caches.match(request, { cacheName });
+  if (cached) return cached;
+  const response = await fetch(request);
+  // Cross-origin images arrive opaque, with status 0
+  if (response.ok || response.type === "opaque") {
+    const cache = await caches.open(cacheName);
+    await cache.put(request, response.clone());
+    if (maxEntries) trimCache(cacheName, maxEntries);
+  }
+  return response;
+};
+
+// Every route serves the same index.html, so navigations share its entry
+// rather than adding one per deep link
+const appShell = (request) =>
+  networkFirst(request, SHELL_CACHE, 0, "/index.html");
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  // Range requests stream COGs, MBTiles and PMTiles, not cached here
+  if (request.method !== "GET" || request.headers.has("Range")) return;
+  const url = new URL(request.url);
+
+  if (request.mode === "navigate") {
+    event.respondWith(appShell(request));
+  } else if (CACHED_API_PATH.test(url.pathname)) {
+    event.respondWith(networkFirst(request, API_CACHE, MAX_API_ENTRIES));
+  } else if (CACHED_MEDIA_PATH.test(url.pathname)) {
+    event.respondWith(cacheFirst(request, MEDIA_CACHE, MAX_MEDIA_ENTRIES));
+  } else if (
+    url.origin === self.location.origin &&
+    url.pathname.startsWith("/assets/")
+  ) {
+    // Built assets have hashed names, so they never change
+    event.respondWith(cacheFirst(request, SHELL_CACHE));
+  }
+});
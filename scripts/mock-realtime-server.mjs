@@ -0,0 +1,183 @@
+// scripts/mock-realtime-server.mjs
+//
+// Minimal WebSocket server that streams fake realtime feed events.
+// Run with `npm run mock:realtime` and start the client with
+// VITE_WS_URL=ws://localhost:8001/api/ws/feed/
+//
+// Options:
+//   --port <n>        listen port (default 8001)
+//   --interval <ms>   delay between events (default 5000)
+//   --gap-every <n>   skip a sequence number every n events to exercise resync
+import { createServer } from "node:http";
+import { createHash } from "node:crypto";
+
+const args = process.argv.slice(2);
+const option = (name, fallback) => {
+  const index = args.indexOf(`--${name}`);
+  return index !== -1 ? Number(args[index + 1]) : fallback;
+};
+
+const PORT = option("port", 8001);
+const INTERVAL = option("interval", 5000);
+const GAP_EVERY = option("gap-every", 0);
+const WS_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+
+const THREAT_TYPES = ["vehicle", "aircraft", "vessel", "structure", "troops"];
+const SEVERITIES = ["low", "medium", "high", "critical"];
+
+const clients = new Set();
+const threats = [];
+const analyses = new Map();
+let seq = 0;
+let nextId = 100000;
+
+// Encode a single unmasked text frame
+const encodeFrame = (text) => {
+  const payload = Buffer.from(text);
+  let header;
+  if (payload.length < 126) {
+    header = Buffer.from([0x81, payload.length]);
+  } else if (payload.length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x81;
+    header[1] = 126;
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x81;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+const broadcast = (event) => {
+  seq += 1;
+  if (GAP_EVERY && seq % GAP_EVERY === 0) {
+    seq += 1;
+  }
+  const frame = encodeFrame(JSON.stringify({ ...event, seq }));
+  clients.forEach((socket) => socket.write(frame));
+  console.log(`[mock-realtime] #${seq} ${event.type}`);
+};
+
+const pick = (items) => items[Math.floor(Math.random() * items.length)];
+
+const randomThreat = () => {
+  const threatType = pick(THREAT_TYPES);
+  const severity = pick(SEVERITIES);
+  return {
+    id: nextId++,
+    analysis: 1,
+    satellite_image: 1,
+    image_name: "mock-scene.tif",
+    threat_type: threatType,
+    threat_type_display: threatType[0].toUpperCase() + threatType.slice(1),
+    severity,
+    severity_display: severity[0].toUpperCase() + severity.slice(1),
+    // Roughly inside Nigeria, matching the dashboard's default view
+    location_coords: [
+      +(6 + Math.random() * 6).toFixed(5),
+      +(4 + Math.random() * 8).toFixed(5),
+    ],
+    confidence: +(0.5 + Math.random() * 0.5).toFixed(2),
+    description: `Mock ${threatType} detection`,
+    detected_at: new Date().toISOString(),
+    verified: false,
+    acknowledged: false,
+    notes: "",
+  };
+};
+
+const advanceAnalysis = () => {
+  const id = pick([1, 2, 3]);
+  const current = analyses.get(id) ?? { id, status: "pending" };
+  const status =
+    current.status === "pending"
+      ? "processing"
+      : current.status === "processing"
+      ? "completed"
+      : "pending";
+  const update = {
+    id,
+    status,
+    threat_count: status === "completed" ? threats.length : 0,
+    processing_time:
+      status === "completed" ? +(Math.random() * 60).toFixed(1) : null,
+    completed_at: status === "completed" ? new Date().toISOString() : null,
+  };
+  analyses.set(id, update);
+  broadcast({ type: "analysis.status", analysis: update });
+};
+
+const tick = () => {
+  const roll = Math.random();
+  if (roll < 0.5 || threats.length === 0) {
+    const threat = randomThreat();
+    threats.push(threat);
+    broadcast({ type: "threat.created", threat });
+  } else if (roll < 0.65) {
+    const threat = pick(threats);
+    threat.verified = true;
+    broadcast({ type: "threat.verified", threat });
+  } else if (roll < 0.8) {
+    const threat = pick(threats);
+    threat.acknowledged = true;
+    threat.notes = "Acknowledged by mock operator";
+    broadcast({ type: "threat.acknowledged", threat });
+  } else {
+    advanceAnalysis();
+  }
+};
+
+const server = createServer((_req, res) => {
+  res.writeHead(426, { "Content-Type": "text/plain" });
+  res.end("WebSocket endpoint only\n");
+});
+
+server.on("upgrade", (req, socket) => {
+  const key = req.headers["sec-websocket-key"];
+  if (!key) {
+    socket.destroy();
+    return;
+  }
+
+  const accept = createHash("sha1")
+    .update(key + WS_GUID)
+    .digest("base64");
+  socket.write(
+    [
+      "HTTP/1.1 101 Switching Protocols",
+      "Upgrade: websocket",
+      "Connection: Upgrade",
+      `Sec-WebSocket-Accept: ${accept}`,
+      "",
+      "",
+    ].join("\r\n")
+  );
+
+  clients.add(socket);
+  console.log(`[mock-realtime] client connected (${clients.size})`);
+
+  socket.on("data", (data) => {
+    // Opcode 0x8 is a close frame; everything else from the client,
+    // including its auth message, is ignored
+    if ((data[0] & 0x0f) === 0x8) {
+      socket.end();
+    }
+  });
+  socket.on("close", () => {
+    clients.delete(socket);
+    console.log(`[mock-realtime] client disconnected (${clients.size})`);
+  });
+  socket.on("error", () => clients.delete(socket));
+});
+
+setInterval(tick, INTERVAL);
+setInterval(() => broadcast({ type: "ping" }), 15000);
+
+server.listen(PORT, () => {
+  console.log(
+    `[mock-realtime] listening on ws://localhost:${PORT}/api/ws/feed/`
+  );
+});
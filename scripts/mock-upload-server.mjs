@@ -0,0 +1,199 @@
+// scripts/mock-upload-server.mjs
+//
+// Minimal HTTP server implementing the resumable chunked upload protocol.
+// Run with `npm run mock:upload` and start the client with
+// VITE_UPLOAD_API_URL=http://localhost:8002/api
+//
+// Chunks are checksum-verified and discarded; only session state is kept, in
+// memory, so resuming works for as long as the server keeps running.
+//
+// Options:
+//   --port <n>          listen port (default 8002)
+//   --fail-rate <0-1>   fraction of chunk requests answered with 503
+//   --latency <ms>      delay before answering each chunk (default 0)
+import { createServer } from "node:http";
+import { createHash, randomUUID } from "node:crypto";
+
+const args = process.argv.slice(2);
+const option = (name, fallback) => {
+  const index = args.indexOf(`--${name}`);
+  return index !== -1 ? Number(args[index + 1]) : fallback;
+};
+
+const PORT = option("port", 8002);
+const FAIL_RATE = option("fail-rate", 0);
+const LATENCY = option("latency", 0);
+
+const sessions = new Map();
+let nextImageId = 200000;
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers":
+    "Authorization, Content-Type, X-Chunk-Checksum",
+};
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    ...CORS_HEADERS,
+    "Content-Type": "application/json",
+  });
+  res.end(body === undefined ? "" : JSON.stringify(body));
+};
+
+const readBody = (req) =>
+  new Promise((resolve, reject) => {
+    const parts = [];
+    req.on("data", (part) => parts.push(part));
+    req.on("end", () => resolve(Buffer.concat(parts)));
+    req.on("error", reject);
+  });
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const toSession = (session) => ({
+  upload_id: session.id,
+  chunk_size: session.chunkSize,
+  total_chunks: session.totalChunks,
+  received_chunks: [...session.received].sort((a, b) => a - b),
+});
+
+const createSession = async (req, res) => {
+  const init = JSON.parse((await readBody(req)).toString() || "{}");
+  if (!init.filename || !init.file_size || !init.chunk_size) {
+    return send(res, 400, {
+      detail: "filename, file_size and chunk_size are required",
+    });
+  }
+
+  const session = {
+    id: randomUUID(),
+    name: init.name || init.filename,
+    description: init.description || "",
+    acquisitionDate: init.acquisition_date || null,
+    fileSize: init.file_size,
+    chunkSize: init.chunk_size,
+    totalChunks: Math.ceil(init.file_size / init.chunk_size),
+    received: new Set(),
+  };
+  sessions.set(session.id, session);
+  console.log(
+    `[mock-upload] session ${session.id} for ${init.filename} (${session.totalChunks} chunks)`
+  );
+  send(res, 201, toSession(session));
+};
+
+const receiveChunk = async (req, res, session, index) => {
+  const body = await readBody(req);
+  if (LATENCY) await sleep(LATENCY);
+
+  if (Math.random() < FAIL_RATE) {
+    console.log(
+      `[mock-upload] ${session.id} chunk ${index}: simulated failure`
+    );
+    return send(res, 503, { detail: "Simulated failure" });
+  }
+  if (index < 0 || index >= session.totalChunks) {
+    return send(res, 400, { detail: "Chunk index out of range" });
+  }
+
+  const expected = String(req.headers["x-chunk-checksum"] || "").replace(
+    /^sha256=/,
+    ""
+  );
+  const actual = createHash("sha256").update(body).digest("hex");
+  if (expected !== actual) {
+    console.log(
+      `[mock-upload] ${session.id} chunk ${index}: checksum mismatch`
+    );
+    return send(res, 422, { detail: "Chunk checksum mismatch" });
+  }
+
+  session.received.add(index);
+  console.log(
+    `[mock-upload] ${session.id} chunk ${index} (${session.received.size}/${session.totalChunks})`
+  );
+  send(res, 200, toSession(session));
+};
+
+const completeSession = (res, session) => {
+  if (session.received.size < session.totalChunks) {
+    return send(res, 409, {
+      detail: `Missing ${session.totalChunks - session.received.size} chunks`,
+    });
+  }
+
+  sessions.delete(session.id);
+  console.log(`[mock-upload] session ${session.id} complete`);
+  // Reported as already optimized so the job tracker does not poll for it
+  send(res, 201, {
+    id: nextImageId++,
+    name: session.name,
+    description: session.description,
+    upload_date: new Date().toISOString(),
+    acquisition_date: session.acquisitionDate,
+    bounds: null,
+    image_url: "",
+    thumbnail_url: "",
+    map_overlay_url: "",
+    status: "optimized",
+    analyzed: false,
+    analysis_count: 0,
+    resolution: null,
+    file_size: session.fileSize,
+  });
+};
+
+const server = createServer(async (req, res) => {
+  if (req.method === "OPTIONS") {
+    res.writeHead(204, CORS_HEADERS);
+    return res.end();
+  }
+
+  const { pathname } = new URL(req.url, `http://localhost:${PORT}`);
+  const match = pathname.match(
+    /^\/api\/satellite\/uploads\/(?:([\w-]+)\/(?:(chunks)\/(\d+)\/|(complete)\/)?)?$/
+  );
+  if (!match) {
+    return send(res, 404, { detail: "Not found" });
+  }
+
+  const [, id, chunks, index, complete] = match;
+  try {
+    if (!id) {
+      return req.method === "POST"
+        ? await createSession(req, res)
+        : send(res, 405, { detail: "Method not allowed" });
+    }
+
+    const session = sessions.get(id);
+    if (!session) {
+      return send(res, 404, { detail: "Upload not found" });
+    }
+
+    if (chunks && req.method === "PUT") {
+      return await receiveChunk(req, res, session, Number(index));
+    }
+    if (complete && req.method === "POST") {
+      return completeSession(res, session);
+    }
+    if (!chunks && !complete && req.method === "GET") {
+      return send(res, 200, toSession(session));
+    }
+    if (!chunks && !complete && req.method === "DELETE") {
+      sessions.delete(id);
+      return send(res, 204);
+    }
+    send(res, 405, { detail: "Method not allowed" });
+  } catch (error) {
+    console.error("[mock-upload]", error);
+    send(res, 500, { detail: "Internal error" });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(
+    `[mock-upload] listening on http://localhost:${PORT}/api/satellite/uploads/`
+  );
+});
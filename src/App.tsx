@@ -8,7 +8,11 @@ import DashboardPage from "./components/Dashboard";
 import ProfilePage from "./pages/ProfilePage";
 import SettingsPage from "./pages/SettingsPage";
 import AnalysisPage from "./pages/AnalysisPage";
+import ThreatsPage from "./pages/ThreatsPage";
+import ThreatDetailPage from "./pages/ThreatDetailPage";
 import ProtectedRoute from "./components/ProtectedRoute";
+import JobsTray from "./components/JobsTray";
+import OfflineBanner from "./components/OfflineBanner";
 
 function App() {
   return (
@@ -36,6 +40,24 @@ function App() {
             }
           />
 
+          <Route
+            path="/threats"
+            element={
+              <ProtectedRoute>
+                <ThreatsPage />
+              </ProtectedRoute>
+            }
+          />
+
+          <Route
+            path="/threats/:id"
+            element={
+              <ProtectedRoute>
+                <ThreatDetailPage />
+              </ProtectedRoute>
+            }
+          />
+
           <Route
             path="/profile"
             element={
@@ -57,6 +79,8 @@ function App() {
           <Route path="/" element={<Navigate to="/dashboard" replace />} />
           <Route path="*" element={<Navigate to="/dashboard" replace />} />
         </Routes>
+        <JobsTray />
+        <OfflineBanner />
       </BrowserRouter>
     </Provider>
   );
@@ -0,0 +1,62 @@
+import { BellRing, X } from "lucide-react";
+import { useAppDispatch, useAppSelector } from "../store";
+import { alertDismissed, allAlertsDismissed } from "../store/slices/alertSlice";
+import type { AlertEvent } from "../types";
+
+interface AlertBannerProps {
+  onShowAlert: (event: AlertEvent) => void;
+  // Moves down to clear the drawing hint
+  lowered: boolean;
+}
+
+// Alerts with the banner action stay pinned over the map until dismissed
+const AlertBanner = ({ onShowAlert, lowered }: AlertBannerProps) => {
+  const dispatch = useAppDispatch();
+  const history = useAppSelector((state) => state.alert.history);
+  const pinned = history.filter(
+    (event) => event.actions.includes("banner") && !event.dismissed
+  );
+
+  if (pinned.length === 0) return null;
+  const [latest] = pinned;
+
+  return (
+    <div
+      className={`absolute ${
+        lowered ? "top-16" : "top-4"
+      } left-1/2 -translate-x-1/2 z-1200 flex items-center gap-3 px-4 py-2 bg-red-700 border border-red-500 rounded-lg shadow-2xl text-white max-w-xl`}
+    >
+      <BellRing className="w-5 h-5 shrink-0 animate-pulse" />
+      <button
+        onClick={() => onShowAlert(latest)}
+        className="flex-1 min-w-0 text-left"
+        title="Show on map"
+      >
+        <div className="text-sm font-bold truncate">{latest.rule_name}</div>
+        <div className="text-xs text-red-100">
+          {latest.threat_ids.length} detection
+          {latest.threat_ids.length === 1 ? "" : "s"} ·{" "}
+          {new Date(latest.fired_at).toLocaleTimeString()}
+          {pinned.length > 1 && ` · ${pinned.length - 1} more alerts`}
+        </div>
+      </button>
+      {pinned.length > 1 && (
+        <button
+          onClick={() => dispatch(allAlertsDismissed())}
+          className="text-xs text-red-100 hover:text-white whitespace-nowrap"
+        >
+          Dismiss all
+        </button>
+      )}
+      <button
+        onClick={() => dispatch(alertDismissed(latest.id))}
+        className="text-red-100 hover:text-white"
+        aria-label="Dismiss alert"
+      >
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+export default AlertBanner;
@@ -0,0 +1,427 @@
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import {
+  AlertTriangle,
+  BellRing,
+  LocateFixed,
+  Pencil,
+  Plus,
+  Trash2,
+} from "lucide-react";
+import toast from "react-hot-toast";
+import { useAppDispatch, useAppSelector } from "../store";
+import {
+  addAlertRule,
+  historyCleared,
+  ruleRemoved,
+  ruleUpdated,
+} from "../store/slices/alertSlice";
+import {
+  ALERT_ACTIONS,
+  ALERT_ACTION_LABELS,
+  describeRule,
+} from "../lib/alertRules";
+import { requestNotificationPermission } from "../lib/alertActions";
+import {
+  SEVERITIES,
+  SEVERITY_COLORS,
+  THREAT_TYPE_LABELS,
+} from "../lib/threatStyle";
+import type { AlertEvent, AlertRule } from "../types";
+
+type RuleDraft = Omit<AlertRule, "id" | "created_at">;
+
+interface AlertRulesPanelProps {
+  onShowAlert: (event: AlertEvent) => void;
+}
+
+const EMPTY_RULE: RuleDraft = {
+  name: "",
+  enabled: true,
+  severities: ["critical", "high"],
+  threat_types: [],
+  aoi_id: null,
+  min_confidence: 0.7,
+  actions: ["toast", "banner"],
+};
+
+const inputClass =
+  "w-full px-2 py-1 bg-gray-900 border border-gray-700 rounded text-sm text-white focus:outline-none focus:border-red-600";
+
+const iconButtonClass =
+  "p-1 rounded text-gray-400 hover:text-white hover:bg-gray-700 transition-colors";
+
+const chipClass = (active: boolean) =>
+  `px-2 py-0.5 rounded-full border text-xs capitalize transition-colors ${
+    active
+      ? "bg-red-600 border-red-600 text-white"
+      : "bg-gray-900 border-gray-700 text-gray-300 hover:border-gray-500"
+  }`;
+
+const toggled = <T,>(list: T[], value: T): T[] =>
+  list.includes(value)
+    ? list.filter((item) => item !== value)
+    : [...list, value];
+
+const RuleForm = ({
+  initial,
+  threatTypes,
+  submitLabel,
+  onSubmit,
+  onCancel,
+}: {
+  initial: RuleDraft;
+  threatTypes: string[];
+  submitLabel: string;
+  onSubmit: (rule: RuleDraft) => void;
+  onCancel: () => void;
+}) => {
+  const aois = useAppSelector((state) => state.aoi.items);
+  const [rule, setRule] = useState(initial);
+  const update = (changes: Partial<RuleDraft>) =>
+    setRule((current) => ({ ...current, ...changes }));
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (rule.name.trim() && rule.actions.length > 0) {
+          onSubmit({ ...rule, name: rule.name.trim() });
+        }
+      }}
+      className="bg-gray-800 rounded-lg p-3 border border-red-600 space-y-3"
+    >
+      <input
+        autoFocus
+        value={rule.name}
+        onChange={(e) => update({ name: e.target.value })}
+        className={inputClass}
+        placeholder="Rule name"
+      />
+
+      <div className="space-y-1">
+        <div className="text-xs text-gray-400">Severity (none for any)</div>
+        <div className="flex flex-wrap gap-1">
+          {SEVERITIES.map((severity) => (
+            <button
+              key={severity}
+              type="button"
+              onClick={() =>
+                update({ severities: toggled(rule.severities, severity) })
+              }
+              className={chipClass(rule.severities.includes(severity))}
+            >
+              {severity}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <div className="text-xs text-gray-400">Type (none for any)</div>
+        <div className="flex flex-wrap gap-1">
+          {threatTypes.map((type) => (
+            <button
+              key={type}
+              type="button"
+              onClick={() =>
+                update({ threat_types: toggled(rule.threat_types, type) })
+              }
+              className={chipClass(rule.threat_types.includes(type))}
+            >
+              {THREAT_TYPE_LABELS[type] ?? type}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <label className="block space-y-1">
+        <span className="text-xs text-gray-400">Inside</span>
+        <select
+          value={rule.aoi_id ?? ""}
+          onChange={(e) => update({ aoi_id: e.target.value || null })}
+          className={inputClass}
+        >
+          <option value="">Anywhere</option>
+          {aois.map((aoi) => (
+            <option key={aoi.id} value={aoi.id}>
+              {aoi.name}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="block space-y-1">
+        <span className="text-xs text-gray-400">
+          Confidence at least {Math.round(rule.min_confidence * 100)}%
+        </span>
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          value={rule.min_confidence}
+          onChange={(e) =>
+            update({ min_confidence: parseFloat(e.target.value) })
+          }
+          className="w-full accent-red-600"
+        />
+      </label>
+
+      <div className="space-y-1">
+        <div className="text-xs text-gray-400">Actions</div>
+        {ALERT_ACTIONS.map((action) => (
+          <label
+            key={action}
+            className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer"
+          >
+            <input
+              type="checkbox"
+              checked={rule.actions.includes(action)}
+              onChange={() =>
+                update({ actions: toggled(rule.actions, action) })
+              }
+              className="accent-red-600"
+            />
+            {ALERT_ACTION_LABELS[action]}
+          </label>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={!rule.name.trim() || rule.actions.length === 0}
+          className="flex-1 px-3 py-1 bg-red-600 hover:bg-red-700 disabled:opacity-50 text-white text-xs font-medium rounded transition-colors"
+        >
+          {submitLabel}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-3 py-1 text-xs text-gray-400 hover:text-white transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+};
+
+// Geofence alert rules and the alerts they have raised
+const AlertRulesPanel = ({ onShowAlert }: AlertRulesPanelProps) => {
+  const dispatch = useAppDispatch();
+  const { rules, history, enabled } = useAppSelector((state) => state.alert);
+  const aois = useAppSelector((state) => state.aoi.items);
+  const threats = useAppSelector((state) => state.threat.threats);
+  // Rule being edited, "new" for a new one
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const threatTypes = useMemo(
+    () =>
+      Array.from(
+        new Set([
+          ...Object.keys(THREAT_TYPE_LABELS),
+          ...threats.map((threat) => threat.threat_type),
+        ])
+      ),
+    [threats]
+  );
+
+  const handleSubmit = async (draft: RuleDraft) => {
+    if (editingId === "new") {
+      dispatch(addAlertRule(draft));
+    } else if (editingId) {
+      dispatch(ruleUpdated({ id: editingId, changes: draft }));
+    }
+    setEditingId(null);
+
+    if (
+      draft.actions.includes("notification") &&
+      (await requestNotificationPermission()) !== "granted"
+    ) {
+      toast.error("Browser notifications are blocked for this site");
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider">
+          Alert Rules
+        </h3>
+        {editingId === null && (
+          <button
+            onClick={() => setEditingId("new")}
+            className={iconButtonClass}
+            title="New rule"
+          >
+            <Plus className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {!enabled && (
+        <div className="flex items-start gap-2 p-2 bg-yellow-500/10 border border-yellow-500/40 rounded-lg text-xs text-yellow-300">
+          <AlertTriangle className="w-4 h-4 shrink-0" />
+          <span>
+            Threat alerts are turned off.{" "}
+            <Link to="/settings" className="underline hover:text-yellow-200">
+              Enable them in Settings
+            </Link>{" "}
+            for rules to fire.
+          </span>
+        </div>
+      )}
+
+      {editingId === "new" && (
+        <RuleForm
+          initial={{ ...EMPTY_RULE, name: `Rule ${rules.length + 1}` }}
+          threatTypes={threatTypes}
+          submitLabel="Create rule"
+          onSubmit={handleSubmit}
+          onCancel={() => setEditingId(null)}
+        />
+      )}
+
+      <div className="space-y-2">
+        {rules.length === 0 && editingId === null ? (
+          <p className="text-gray-500 text-sm">
+            Add a rule to be alerted when matching threats are detected
+          </p>
+        ) : (
+          rules.map((rule) =>
+            editingId === rule.id ? (
+              <RuleForm
+                key={rule.id}
+                initial={rule}
+                threatTypes={threatTypes}
+                submitLabel="Save rule"
+                onSubmit={handleSubmit}
+                onCancel={() => setEditingId(null)}
+              />
+            ) : (
+              <div
+                key={rule.id}
+                className="bg-gray-800 rounded-lg p-3 border border-gray-700"
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <label className="flex-1 flex items-start gap-2 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={rule.enabled}
+                      onChange={(e) =>
+                        dispatch(
+                          ruleUpdated({
+                            id: rule.id,
+                            changes: { enabled: e.target.checked },
+                          })
+                        )
+                      }
+                      className="mt-1 accent-red-600"
+                      title={rule.enabled ? "Disable rule" : "Enable rule"}
+                    />
+                    <div>
+                      <div
+                        className={`text-sm font-medium ${
+                          rule.enabled ? "text-white" : "text-gray-500"
+                        }`}
+                      >
+                        {rule.name}
+                      </div>
+                      <div className="text-xs text-gray-400">
+                        {describeRule(rule, aois)}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {rule.actions
+                          .map((action) => ALERT_ACTION_LABELS[action])
+                          .join(", ")}
+                      </div>
+                    </div>
+                  </label>
+                  <div className="flex items-center">
+                    <button
+                      onClick={() => setEditingId(rule.id)}
+                      disabled={editingId !== null}
+                      className={iconButtonClass}
+                      title="Edit"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => dispatch(ruleRemoved(rule.id))}
+                      className={`${iconButtonClass} hover:text-red-500`}
+                      title="Delete"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              </div>
+            )
+          )
+        )}
+      </div>
+
+      <div className="border-t border-gray-800 pt-3 space-y-2">
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider">
+            Alert History
+          </h3>
+          {history.length > 0 && (
+            <button
+              onClick={() => dispatch(historyCleared())}
+              className="text-xs text-gray-400 hover:text-white transition-colors"
+            >
+              Clear
+            </button>
+          )}
+        </div>
+        {history.length === 0 ? (
+          <p className="text-gray-500 text-sm">No alerts yet</p>
+        ) : (
+          history.map((event) => {
+            const firstThreat = threats.find((threat) =>
+              event.threat_ids.includes(threat.id)
+            );
+            return (
+              <div
+                key={event.id}
+                className="flex items-start gap-2 bg-gray-800 rounded-lg p-2 border border-gray-700"
+              >
+                <BellRing
+                  className="w-4 h-4 mt-0.5 shrink-0"
+                  style={{
+                    color: firstThreat
+                      ? SEVERITY_COLORS[firstThreat.severity]
+                      : undefined,
+                  }}
+                />
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm text-white truncate">
+                    {event.rule_name}
+                  </div>
+                  <div className="text-xs text-gray-400">
+                    {event.threat_ids.length} detection
+                    {event.threat_ids.length === 1 ? "" : "s"} ·{" "}
+                    {new Date(event.fired_at).toLocaleString()}
+                  </div>
+                </div>
+                <button
+                  onClick={() => onShowAlert(event)}
+                  disabled={!firstThreat}
+                  className={`${iconButtonClass} disabled:opacity-40`}
+                  title={firstThreat ? "Show on map" : "No longer loaded"}
+                >
+                  <LocateFixed className="w-4 h-4" />
+                </button>
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AlertRulesPanel;
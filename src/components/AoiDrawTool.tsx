@@ -0,0 +1,186 @@
+import { useEffect, useState } from "react";
+import {
+  Circle,
+  CircleMarker,
+  Polygon,
+  Polyline,
+  Rectangle,
+  useMapEvents,
+} from "react-leaflet";
+import { aoiRing, distance } from "../lib/aoiGeometry";
+import type { AoiShape, AoiShapeType } from "../types";
+
+type LatLng = [number, number];
+
+interface AoiDrawToolProps {
+  mode: AoiShapeType;
+  // Buffered line width either side of the line, in meters
+  buffer: number;
+  onComplete: (shape: AoiShape) => void;
+  onCancel: () => void;
+}
+
+const DRAW_HINTS: Record<AoiShapeType, string> = {
+  polygon:
+    "Click to add corners, then click the first corner or double-click to finish",
+  rectangle: "Click two opposite corners",
+  circle: "Click the center, then click the edge",
+  line: "Click to add points, double-click to finish",
+};
+
+// Clicks closer than this, in pixels, land on the same point
+const SNAP_DISTANCE = 10;
+
+const previewStyle = {
+  color: "#ef4444",
+  weight: 2,
+  dashArray: "6 4",
+  fillOpacity: 0.1,
+  interactive: false,
+};
+
+// Draws a new area of interest with clicks on the map
+const AoiDrawTool = ({
+  mode,
+  buffer,
+  onComplete,
+  onCancel,
+}: AoiDrawToolProps) => {
+  const [points, setPoints] = useState<LatLng[]>([]);
+  const [cursor, setCursor] = useState<LatLng | null>(null);
+
+  const map = useMapEvents({
+    click: (event) => {
+      const point: LatLng = [event.latlng.lat, event.latlng.lng];
+      switch (mode) {
+        case "polygon":
+          if (points.length >= 3 && near(point, points[0])) {
+            finish(points);
+            return;
+          }
+          setPoints((prev) => [...prev, point]);
+          break;
+        case "line":
+          setPoints((prev) => [...prev, point]);
+          break;
+        case "rectangle":
+          if (points.length === 0) setPoints([point]);
+          else onComplete({ type: "rectangle", bounds: [points[0], point] });
+          break;
+        case "circle":
+          if (points.length === 0) setPoints([point]);
+          else {
+            onComplete({
+              type: "circle",
+              center: points[0],
+              radius: distance(points[0], point),
+            });
+          }
+          break;
+      }
+    },
+    dblclick: () => finish(points),
+    mousemove: (event) => setCursor([event.latlng.lat, event.latlng.lng]),
+  });
+
+  const near = (a: LatLng, b: LatLng) =>
+    map.latLngToContainerPoint(a).distanceTo(map.latLngToContainerPoint(b)) <
+    SNAP_DISTANCE;
+
+  const finish = (vertices: LatLng[]) => {
+    // A double-click also lands as two clicks on the same spot
+    const distinct = vertices.filter(
+      (point, i) => i === 0 || !near(point, vertices[i - 1])
+    );
+    if (mode === "polygon" && distinct.length >= 3) {
+      onComplete({ type: "polygon", coordinates: distinct });
+    } else if (mode === "line" && distinct.length >= 2) {
+      onComplete({ type: "line", coordinates: distinct, buffer });
+    }
+  };
+
+  useEffect(() => {
+    const container = map.getContainer();
+    const zoomOnDoubleClick = map.doubleClickZoom.enabled();
+    map.doubleClickZoom.disable();
+    container.style.cursor = "crosshair";
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onCancel();
+    };
+    document.addEventListener("keydown", handleKeyDown);
+
+    return () => {
+      if (zoomOnDoubleClick) map.doubleClickZoom.enable();
+      container.style.cursor = "";
+      document.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [map, onCancel]);
+
+  const path = cursor ? [...points, cursor] : points;
+  const start = points[0];
+
+  return (
+    <>
+      {mode === "polygon" && path.length >= 3 && (
+        <Polygon positions={path} pathOptions={previewStyle} />
+      )}
+      {(mode === "polygon" || mode === "line") && path.length >= 2 && (
+        <Polyline
+          positions={path}
+          pathOptions={{ ...previewStyle, weight: 2 }}
+        />
+      )}
+      {mode === "line" && path.length >= 2 && (
+        <Polygon
+          positions={aoiRing({ type: "line", coordinates: path, buffer })}
+          pathOptions={{ ...previewStyle, weight: 1 }}
+        />
+      )}
+      {mode === "rectangle" && start && cursor && (
+        <Rectangle bounds={[start, cursor]} pathOptions={previewStyle} />
+      )}
+      {mode === "circle" && start && cursor && (
+        <Circle
+          center={start}
+          radius={distance(start, cursor)}
+          pathOptions={previewStyle}
+        />
+      )}
+      {points.map((point, i) => (
+        <CircleMarker
+          key={i}
+          center={point}
+          radius={4}
+          pathOptions={{
+            color: "#ffffff",
+            fillColor: "#ef4444",
+            fillOpacity: 1,
+            interactive: false,
+          }}
+        />
+      ))}
+    </>
+  );
+};
+
+// Instructions shown over the map while drawing
+export const AoiDrawHint = ({
+  mode,
+  onCancel,
+}: {
+  mode: AoiShapeType;
+  onCancel: () => void;
+}) => (
+  <div className="absolute top-4 left-1/2 -translate-x-1/2 z-1000 flex items-center gap-3 px-4 py-2 bg-gray-900 border border-gray-700 rounded-lg shadow-2xl text-sm text-gray-300">
+    <span>{DRAW_HINTS[mode]}</span>
+    <button
+      onClick={onCancel}
+      className="px-2 py-0.5 text-xs text-gray-400 hover:text-white bg-gray-800 hover:bg-gray-700 rounded transition-colors"
+    >
+      Cancel (Esc)
+    </button>
+  </div>
+);
+
+export default AoiDrawTool;
@@ -0,0 +1,52 @@
+import { useMemo } from "react";
+import { Polygon, Tooltip } from "react-leaflet";
+import { aoiRing } from "../lib/aoiGeometry";
+import type { AreaOfInterest } from "../types";
+
+interface AoiLayerProps {
+  aois: AreaOfInterest[];
+  selectedId: string | null;
+  // Off while drawing, so clicks reach the draw tool
+  interactive: boolean;
+  onSelect: (id: string) => void;
+}
+
+// Outlines of the saved areas of interest
+const AoiLayer = ({
+  aois,
+  selectedId,
+  interactive,
+  onSelect,
+}: AoiLayerProps) => {
+  const rings = useMemo(
+    () => aois.map((aoi) => ({ aoi, ring: aoiRing(aoi.shape) })),
+    [aois]
+  );
+
+  return (
+    <>
+      {rings.map(({ aoi, ring }) => {
+        const selected = aoi.id === selectedId;
+        return (
+          <Polygon
+            // Remount to apply a change of interactivity
+            key={`${aoi.id}-${interactive}`}
+            positions={ring}
+            pathOptions={{
+              color: selected ? "#ef4444" : "#f59e0b",
+              weight: selected ? 3 : 2,
+              dashArray: selected ? undefined : "8 6",
+              fillOpacity: selected ? 0.06 : 0.02,
+              interactive,
+            }}
+            eventHandlers={{ click: () => onSelect(aoi.id) }}
+          >
+            {interactive && <Tooltip sticky>{aoi.name}</Tooltip>}
+          </Polygon>
+        );
+      })}
+    </>
+  );
+};
+
+export default AoiLayer;
@@ -0,0 +1,348 @@
+import React, { useRef, useState } from "react";
+import {
+  Circle,
+  Download,
+  LocateFixed,
+  Pencil,
+  Pentagon,
+  RefreshCw,
+  Route,
+  Square,
+  Trash2,
+  Upload,
+} from "lucide-react";
+import toast from "react-hot-toast";
+import { useAppDispatch, useAppSelector } from "../store";
+import {
+  addAois,
+  aoiSelected,
+  removeAoi,
+  setAoiSync,
+  syncAois,
+  updateAoi,
+} from "../store/slices/aoiSlice";
+import { AOI_SHAPE_LABELS, aoiArea, formatArea } from "../lib/aoiGeometry";
+import { aoisToGeoJSON, shapesFromGeoJSON } from "../lib/aoiGeoJson";
+import { downloadBlob, fileDate } from "../lib/download";
+import type { AoiShape, AoiShapeType, AreaOfInterest } from "../types";
+
+interface AoiPanelProps {
+  drawMode: AoiShapeType | null;
+  onDrawModeChange: (mode: AoiShapeType | null) => void;
+  // Buffered line width either side of the line, in meters
+  lineBuffer: number;
+  onLineBufferChange: (buffer: number) => void;
+  // Drawn shape waiting for a name
+  pendingShape: AoiShape | null;
+  onPendingDone: () => void;
+  onZoomTo: (aoi: AreaOfInterest) => void;
+}
+
+const DRAW_TOOLS: { mode: AoiShapeType; icon: React.ReactNode }[] = [
+  { mode: "polygon", icon: <Pentagon className="w-4 h-4" /> },
+  { mode: "rectangle", icon: <Square className="w-4 h-4" /> },
+  { mode: "circle", icon: <Circle className="w-4 h-4" /> },
+  { mode: "line", icon: <Route className="w-4 h-4" /> },
+];
+
+const inputClass =
+  "w-full px-2 py-1 bg-gray-900 border border-gray-700 rounded text-sm text-white focus:outline-none focus:border-red-600";
+
+const iconButtonClass =
+  "p-1 rounded text-gray-400 hover:text-white hover:bg-gray-700 transition-colors";
+
+const NameForm = ({
+  initialName,
+  submitLabel,
+  onSubmit,
+  onCancel,
+}: {
+  initialName: string;
+  submitLabel: string;
+  onSubmit: (name: string) => void;
+  onCancel: () => void;
+}) => {
+  const [name, setName] = useState(initialName);
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (name.trim()) onSubmit(name.trim());
+      }}
+      className="flex gap-2"
+    >
+      <input
+        autoFocus
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        onKeyDown={(e) => e.key === "Escape" && onCancel()}
+        className={inputClass}
+        placeholder="Area name"
+      />
+      <button
+        type="submit"
+        disabled={!name.trim()}
+        className="px-3 py-1 bg-red-600 hover:bg-red-700 disabled:opacity-50 text-white text-xs font-medium rounded transition-colors"
+      >
+        {submitLabel}
+      </button>
+    </form>
+  );
+};
+
+// Drawing, naming, selecting and sharing areas of interest
+const AoiPanel = ({
+  drawMode,
+  onDrawModeChange,
+  lineBuffer,
+  onLineBufferChange,
+  pendingShape,
+  onPendingDone,
+  onZoomTo,
+}: AoiPanelProps) => {
+  const dispatch = useAppDispatch();
+  const { items, selectedId, syncEnabled, syncing, lastSyncedAt, error } =
+    useAppSelector((state) => state.aoi);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      const shapes = shapesFromGeoJSON(
+        JSON.parse(await file.text()),
+        file.name.replace(/\.[^.]+$/, "")
+      );
+      dispatch(addAois(shapes));
+      toast.success(
+        `Imported ${shapes.length} area${shapes.length === 1 ? "" : "s"}`
+      );
+    } catch (error) {
+      toast.error(
+        `Could not import ${file.name}: ${
+          error instanceof Error ? error.message : "invalid file"
+        }`
+      );
+    }
+  };
+
+  const handleExport = () => {
+    downloadBlob(
+      new Blob([JSON.stringify(aoisToGeoJSON(items), null, 2)], {
+        type: "application/geo+json",
+      }),
+      `areas-of-interest-${fileDate()}.geojson`
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider">
+        Areas of Interest
+      </h3>
+
+      <div className="space-y-2">
+        <div className="grid grid-cols-4 gap-1">
+          {DRAW_TOOLS.map((tool) => (
+            <button
+              key={tool.mode}
+              onClick={() =>
+                onDrawModeChange(drawMode === tool.mode ? null : tool.mode)
+              }
+              className={`flex items-center justify-center py-2 rounded-lg border transition-colors ${
+                drawMode === tool.mode
+                  ? "bg-red-600 border-red-600 text-white"
+                  : "bg-gray-800 border-gray-700 text-gray-300 hover:border-gray-500"
+              }`}
+              title={`Draw ${AOI_SHAPE_LABELS[tool.mode].toLowerCase()}`}
+            >
+              {tool.icon}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-2 text-xs text-gray-400">
+          Line buffer:
+          <input
+            type="number"
+            min={0.1}
+            step={0.1}
+            value={lineBuffer / 1000}
+            onChange={(e) => {
+              const km = parseFloat(e.target.value);
+              if (km > 0) onLineBufferChange(km * 1000);
+            }}
+            className="w-20 px-2 py-0.5 bg-gray-900 border border-gray-700 rounded text-xs text-white focus:outline-none focus:border-red-600"
+          />
+          km each side
+        </label>
+      </div>
+
+      {pendingShape && (
+        <div className="bg-gray-800 rounded-lg p-3 border border-red-600 space-y-2">
+          <div className="text-xs text-gray-400">
+            New {AOI_SHAPE_LABELS[pendingShape.type].toLowerCase()} ·{" "}
+            {formatArea(aoiArea(pendingShape))}
+          </div>
+          <NameForm
+            initialName={`Area ${items.length + 1}`}
+            submitLabel="Save"
+            onSubmit={(name) => {
+              dispatch(addAois([{ name, shape: pendingShape }]));
+              onPendingDone();
+            }}
+            onCancel={onPendingDone}
+          />
+          <button
+            onClick={onPendingDone}
+            className="text-xs text-gray-400 hover:text-white transition-colors"
+          >
+            Discard
+          </button>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {items.length === 0 ? (
+          <p className="text-gray-500 text-sm">
+            Draw or import an area to filter the map to it
+          </p>
+        ) : (
+          items.map((aoi) => {
+            const selected = aoi.id === selectedId;
+            return (
+              <div
+                key={aoi.id}
+                className={`bg-gray-800 rounded-lg p-3 border transition-colors ${
+                  selected
+                    ? "border-red-600"
+                    : "border-gray-700 hover:border-gray-500"
+                }`}
+              >
+                {renamingId === aoi.id ? (
+                  <NameForm
+                    initialName={aoi.name}
+                    submitLabel="Rename"
+                    onSubmit={(name) => {
+                      dispatch(updateAoi(aoi.id, { name }));
+                      setRenamingId(null);
+                    }}
+                    onCancel={() => setRenamingId(null)}
+                  />
+                ) : (
+                  <div className="flex items-start justify-between gap-2">
+                    <button
+                      onClick={() =>
+                        dispatch(aoiSelected(selected ? null : aoi.id))
+                      }
+                      className="flex-1 text-left"
+                      title={selected ? "Show everything" : "Filter to area"}
+                    >
+                      <div className="text-sm font-medium text-white">
+                        {aoi.name}
+                      </div>
+                      <div className="text-xs text-gray-400">
+                        {AOI_SHAPE_LABELS[aoi.shape.type]} ·{" "}
+                        {formatArea(aoiArea(aoi.shape))}
+                      </div>
+                    </button>
+                    <div className="flex items-center">
+                      <button
+                        onClick={() => onZoomTo(aoi)}
+                        className={iconButtonClass}
+                        title="Zoom to area"
+                      >
+                        <LocateFixed className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => setRenamingId(aoi.id)}
+                        className={iconButtonClass}
+                        title="Rename"
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => dispatch(removeAoi(aoi.id))}
+                        className={`${iconButtonClass} hover:text-red-500`}
+                        title="Delete"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-gray-800 hover:bg-gray-700 border border-gray-700 rounded-lg text-xs text-gray-300 transition-colors"
+        >
+          <Upload className="w-4 h-4" />
+          Import GeoJSON
+        </button>
+        <button
+          onClick={handleExport}
+          disabled={items.length === 0}
+          className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-gray-800 hover:bg-gray-700 disabled:opacity-50 border border-gray-700 rounded-lg text-xs text-gray-300 transition-colors"
+        >
+          <Download className="w-4 h-4" />
+          Export
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".geojson,.json,application/geo+json,application/json"
+          onChange={handleImport}
+          className="hidden"
+        />
+      </div>
+
+      <div className="border-t border-gray-800 pt-3 space-y-1">
+        <div className="flex items-center justify-between">
+          <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={syncEnabled}
+              onChange={(e) => dispatch(setAoiSync(e.target.checked))}
+              className="accent-red-600"
+            />
+            Sync with server
+          </label>
+          {syncEnabled && (
+            <button
+              onClick={() => dispatch(syncAois())}
+              disabled={syncing}
+              className={iconButtonClass}
+              title="Sync now"
+            >
+              <RefreshCw
+                className={`w-4 h-4 ${syncing ? "animate-spin" : ""}`}
+              />
+            </button>
+          )}
+        </div>
+        <p className={`text-xs ${error ? "text-red-400" : "text-gray-500"}`}>
+          {!syncEnabled
+            ? "Areas are saved in this browser only"
+            : error
+            ? `Sync failed: ${error}`
+            : syncing
+            ? "Syncing…"
+            : lastSyncedAt
+            ? `Last synced ${new Date(lastSyncedAt).toLocaleString()}`
+            : "Not synced yet"}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default AoiPanel;
@@ -0,0 +1,123 @@
+import { useMemo } from "react";
+import { MapPinned } from "lucide-react";
+import { aoiArea, formatArea } from "../lib/aoiGeometry";
+import { SEVERITIES, SEVERITY_COLORS } from "../lib/threatStyle";
+import type {
+  AnalysisResult,
+  AreaOfInterest,
+  SatelliteImage,
+  ThreatDetection,
+} from "../types";
+
+interface AoiStatsProps {
+  aoi: AreaOfInterest;
+  // Already filtered to the area
+  threats: ThreatDetection[];
+  images: SatelliteImage[];
+  analyses: AnalysisResult[];
+}
+
+// Detections, imagery and analyses inside the selected area of interest
+const AoiStats = ({ aoi, threats, images, analyses }: AoiStatsProps) => {
+  const area = useMemo(() => aoiArea(aoi.shape), [aoi.shape]);
+
+  const stats = useMemo(() => {
+    const bySeverity = Object.fromEntries(
+      SEVERITIES.map((severity) => [
+        severity,
+        threats.filter((t) => t.severity === severity).length,
+      ])
+    ) as Record<ThreatDetection["severity"], number>;
+    const byType = new Map<string, number>();
+    threats.forEach((threat) => {
+      const type = threat.threat_type_display || threat.threat_type;
+      byType.set(type, (byType.get(type) ?? 0) + 1);
+    });
+    return {
+      bySeverity,
+      topTypes: Array.from(byType)
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, 3),
+      verified: threats.filter((t) => t.verified).length,
+    };
+  }, [threats]);
+
+  // Detections per 100 km²
+  const density = area > 0 ? (threats.length / area) * 1e8 : 0;
+  const peak = Math.max(1, ...Object.values(stats.bySeverity));
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-3 border border-red-600/60 space-y-3">
+      <div className="flex items-center gap-2">
+        <MapPinned className="w-4 h-4 text-red-500" />
+        <span className="text-sm font-semibold text-white truncate">
+          {aoi.name}
+        </span>
+        <span className="ml-auto text-xs text-gray-400">
+          {formatArea(area)}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 text-center">
+        <div>
+          <div className="text-lg font-bold text-white">{threats.length}</div>
+          <div className="text-[10px] text-gray-400">Detections</div>
+        </div>
+        <div>
+          <div className="text-lg font-bold text-white">
+            {density.toLocaleString(undefined, { maximumFractionDigits: 1 })}
+          </div>
+          <div className="text-[10px] text-gray-400">per 100 km²</div>
+        </div>
+        <div>
+          <div className="text-lg font-bold text-white">
+            {threats.length > 0
+              ? Math.round((stats.verified / threats.length) * 100)
+              : 0}
+            %
+          </div>
+          <div className="text-[10px] text-gray-400">Verified</div>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        {SEVERITIES.map((severity) => (
+          <div key={severity} className="flex items-center gap-2 text-xs">
+            <span className="w-14 text-gray-400 capitalize">{severity}</span>
+            <div className="flex-1 h-2 bg-gray-900 rounded">
+              <div
+                className="h-2 rounded"
+                style={{
+                  width: `${(stats.bySeverity[severity] / peak) * 100}%`,
+                  background: SEVERITY_COLORS[severity],
+                }}
+              />
+            </div>
+            <span className="w-6 text-right text-gray-300">
+              {stats.bySeverity[severity]}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {stats.topTypes.length > 0 && (
+        <div className="text-xs text-gray-400">
+          Most detected:{" "}
+          {stats.topTypes
+            .map(([type, count]) => `${type} (${count})`)
+            .join(", ")}
+        </div>
+      )}
+
+      <div className="flex justify-between text-xs text-gray-400">
+        <span>{images.length} images</span>
+        <span>
+          {analyses.length} analyses,{" "}
+          {analyses.filter((a) => a.status === "completed").length} completed
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default AoiStats;
@@ -0,0 +1,27 @@
+import { useEffect } from "react";
+import { useMap } from "react-leaflet";
+import { BasemapTileLayer } from "../lib/basemapLayer";
+import type { BasemapSource } from "../types";
+
+interface BasemapLayerProps {
+  source: BasemapSource;
+}
+
+// Basemap tiles, from offline packages where saved
+const BasemapLayer = ({ source }: BasemapLayerProps) => {
+  const map = useMap();
+
+  useEffect(() => {
+    const layer = new BasemapTileLayer(source);
+    layer.addTo(map);
+    layer.bringToBack();
+
+    return () => {
+      layer.remove();
+    };
+  }, [map, source]);
+
+  return null;
+};
+
+export default BasemapLayer;
@@ -0,0 +1,582 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import {
+  CloudDownload,
+  HardDrive,
+  Layers,
+  Loader2,
+  Plus,
+  Trash2,
+  X,
+} from "lucide-react";
+import toast from "react-hot-toast";
+import { useAppSelector } from "../store";
+import { aoiBounds } from "../lib/aoiGeometry";
+import { createId } from "../lib/ids";
+import {
+  BASEMAP_KINDS,
+  BASEMAP_KIND_LABELS,
+  isTileArchive,
+  tileArchive,
+} from "../lib/basemaps";
+import {
+  MAX_PACKAGE_TILES,
+  averageTileBytes,
+  countTiles,
+  deleteTilePackage,
+  downloadTilePackage,
+  loadTilePackages,
+  requestPersistentStorage,
+  storageUsage,
+  tileCacheSupported,
+  type StorageUsage,
+  type TileDownloadProgress,
+} from "../lib/tileCache";
+import { formatBytes } from "../lib/format";
+import type { BasemapKind, BasemapSource, OfflineTilePackage } from "../types";
+
+interface BasemapManagerDialogProps {
+  sources: BasemapSource[];
+  onSourcesChange: (sources: BasemapSource[]) => void;
+  onClose: () => void;
+}
+
+const inputClass =
+  "w-full px-2 py-1 bg-gray-800 border border-gray-700 rounded text-sm text-white focus:outline-none focus:border-red-600";
+
+const labelClass = "block text-xs text-gray-400 mb-1";
+
+const URL_PLACEHOLDERS: Record<BasemapKind, string> = {
+  xyz: "http://tiles.local/{z}/{x}/{y}.png",
+  tms: "http://tiles.local/tms/{z}/{x}/{y}.png",
+  mbtiles: "/media/basemaps/area.mbtiles",
+  pmtiles: "/media/basemaps/area.pmtiles",
+};
+
+const EMPTY_SOURCE = {
+  label: "",
+  kind: "xyz" as BasemapKind,
+  url: "",
+  attribution: "",
+  min_zoom: 0,
+  max_zoom: 18,
+};
+
+const SourceForm = ({ onAdd }: { onAdd: (source: BasemapSource) => void }) => {
+  const [draft, setDraft] = useState(EMPTY_SOURCE);
+  const [checking, setChecking] = useState(false);
+  const needsTemplate = draft.kind === "xyz" || draft.kind === "tms";
+  const valid =
+    draft.label.trim() &&
+    draft.url.trim() &&
+    (!needsTemplate ||
+      /\{z\}.*\{x\}.*\{y\}|\{z\}.*\{y\}.*\{x\}/.test(draft.url)) &&
+    draft.min_zoom <= draft.max_zoom;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const source: BasemapSource = {
+      ...draft,
+      id: createId(),
+      label: draft.label.trim(),
+      url: draft.url.trim(),
+      builtin: false,
+    };
+    // Read the archive up front so a wrong file is reported here
+    if (isTileArchive(source.kind)) {
+      setChecking(true);
+      try {
+        const header = await tileArchive(source).getHeader();
+        source.min_zoom = header.minZoom;
+        source.max_zoom = header.maxZoom;
+      } catch (error) {
+        toast.error(
+          `Could not read ${source.url}: ${
+            error instanceof Error ? error.message : "unknown error"
+          }`
+        );
+        return;
+      } finally {
+        setChecking(false);
+      }
+    }
+    onAdd(source);
+    setDraft(EMPTY_SOURCE);
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="bg-gray-800/50 border border-gray-800 rounded-lg p-3 space-y-2"
+    >
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className={labelClass} htmlFor="basemap-label">
+            Name
+          </label>
+          <input
+            id="basemap-label"
+            value={draft.label}
+            onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+            className={inputClass}
+            placeholder="Field tile server"
+          />
+        </div>
+        <div>
+          <label className={labelClass} htmlFor="basemap-kind">
+            Type
+          </label>
+          <select
+            id="basemap-kind"
+            value={draft.kind}
+            onChange={(e) =>
+              setDraft({ ...draft, kind: e.target.value as BasemapKind })
+            }
+            className={inputClass}
+          >
+            {BASEMAP_KINDS.map((kind) => (
+              <option key={kind} value={kind}>
+                {BASEMAP_KIND_LABELS[kind]}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <div>
+        <label className={labelClass} htmlFor="basemap-url">
+          {needsTemplate ? "URL template" : "File URL"}
+        </label>
+        <input
+          id="basemap-url"
+          value={draft.url}
+          onChange={(e) => setDraft({ ...draft, url: e.target.value })}
+          className={inputClass}
+          placeholder={URL_PLACEHOLDERS[draft.kind]}
+        />
+      </div>
+      <div>
+        <label className={labelClass} htmlFor="basemap-attribution">
+          Attribution
+        </label>
+        <input
+          id="basemap-attribution"
+          value={draft.attribution}
+          onChange={(e) => setDraft({ ...draft, attribution: e.target.value })}
+          className={inputClass}
+        />
+      </div>
+      {!isTileArchive(draft.kind) && (
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className={labelClass} htmlFor="basemap-min-zoom">
+              Min zoom
+            </label>
+            <input
+              id="basemap-min-zoom"
+              type="number"
+              min={0}
+              max={22}
+              value={draft.min_zoom}
+              onChange={(e) =>
+                setDraft({ ...draft, min_zoom: Number(e.target.value) })
+              }
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass} htmlFor="basemap-max-zoom">
+              Max zoom
+            </label>
+            <input
+              id="basemap-max-zoom"
+              type="number"
+              min={0}
+              max={22}
+              value={draft.max_zoom}
+              onChange={(e) =>
+                setDraft({ ...draft, max_zoom: Number(e.target.value) })
+              }
+              className={inputClass}
+            />
+          </div>
+        </div>
+      )}
+      <button
+        type="submit"
+        disabled={!valid || checking}
+        className="w-full flex items-center justify-center gap-2 px-3 py-1.5 bg-red-600 hover:bg-red-700 disabled:opacity-50 text-white text-xs font-medium rounded transition-colors"
+      >
+        {checking ? (
+          <Loader2 className="w-4 h-4 animate-spin" />
+        ) : (
+          <Plus className="w-4 h-4" />
+        )}
+        Add basemap
+      </button>
+    </form>
+  );
+};
+
+// Basemap sources and the areas saved for offline use
+const BasemapManagerDialog = ({
+  sources,
+  onSourcesChange,
+  onClose,
+}: BasemapManagerDialogProps) => {
+  const aois = useAppSelector((state) => state.aoi.items);
+  const [packages, setPackages] = useState(loadTilePackages);
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [aoiId, setAoiId] = useState(aois[0]?.id ?? "");
+  const [basemapId, setBasemapId] = useState(sources[0].id);
+  const [minZoom, setMinZoom] = useState(8);
+  const [maxZoom, setMaxZoom] = useState(14);
+  const [progress, setProgress] = useState<TileDownloadProgress | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const aoi = aois.find((item) => item.id === aoiId) ?? null;
+  const source = sources.find((item) => item.id === basemapId) ?? sources[0];
+  const zoomValid =
+    minZoom <= maxZoom &&
+    minZoom >= source.min_zoom &&
+    maxZoom <= source.max_zoom;
+  const tileCount =
+    aoi && zoomValid ? countTiles(aoiBounds(aoi.shape), minZoom, maxZoom) : 0;
+  const estimate = tileCount * averageTileBytes(source.id);
+
+  const refreshUsage = useCallback(() => {
+    storageUsage()
+      .then(setUsage)
+      .catch(() => setUsage(null));
+  }, []);
+
+  useEffect(refreshUsage, [refreshUsage]);
+
+  // Closing the dialog stops a running download
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleDownload = async () => {
+    if (!aoi) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress({ done: 0, total: tileCount, bytes: 0, failed: 0 });
+    try {
+      const saved = await downloadTilePackage(
+        {
+          name: `${aoi.name} · ${source.label}`,
+          bounds: aoiBounds(aoi.shape),
+          min_zoom: minZoom,
+          max_zoom: maxZoom,
+        },
+        source,
+        setProgress,
+        controller.signal
+      );
+      if (saved) {
+        setPackages(loadTilePackages());
+        toast.success(
+          saved.failed_count > 0
+            ? `Saved ${saved.name}; ${saved.failed_count} tiles failed`
+            : `Saved ${saved.name} for offline use`
+        );
+      }
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Could not save the tiles"
+      );
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+      refreshUsage();
+    }
+  };
+
+  const handleDelete = async (item: OfflineTilePackage) => {
+    await deleteTilePackage(item.id);
+    setPackages(loadTilePackages());
+    refreshUsage();
+  };
+
+  const handlePersist = async () => {
+    if (!(await requestPersistentStorage())) {
+      toast.error("The browser did not grant persistent storage");
+    }
+    refreshUsage();
+  };
+
+  const sourceLabel = (id: string) =>
+    sources.find((item) => item.id === id)?.label ?? "Removed basemap";
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-2000 p-4">
+      <div className="bg-gray-900 border border-gray-800 rounded-2xl max-w-3xl w-full max-h-[90vh] flex flex-col shadow-2xl">
+        <div className="flex items-center justify-between p-6 pb-4">
+          <div className="flex items-center gap-2">
+            <Layers className="w-5 h-5 text-red-500" />
+            <h3 className="text-lg font-bold text-white">Basemaps</h3>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition-colors"
+            aria-label="Close basemap settings"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="px-6 pb-6 overflow-y-auto grid grid-cols-2 gap-6">
+          {/* Sources */}
+          <div className="space-y-3">
+            <h4 className="text-sm font-semibold text-white">Sources</h4>
+            <div className="space-y-2">
+              {sources.map((item) => (
+                <div
+                  key={item.id}
+                  className="flex items-center justify-between gap-2 bg-gray-800 border border-gray-700 rounded-lg px-3 py-2"
+                >
+                  <div className="min-w-0">
+                    <div className="text-sm text-white truncate">
+                      {item.label}
+                    </div>
+                    <div
+                      className="text-xs text-gray-400 truncate"
+                      title={item.url}
+                    >
+                      {BASEMAP_KIND_LABELS[item.kind]} · z{item.min_zoom}–
+                      {item.max_zoom}
+                    </div>
+                  </div>
+                  {!item.builtin && (
+                    <button
+                      onClick={() =>
+                        onSourcesChange(
+                          sources.filter((other) => other.id !== item.id)
+                        )
+                      }
+                      className="p-1 rounded text-gray-400 hover:text-red-500 hover:bg-gray-700 transition-colors"
+                      title="Remove basemap"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+            <SourceForm
+              onAdd={(added) => onSourcesChange([...sources, added])}
+            />
+          </div>
+
+          {/* Offline areas */}
+          <div className="space-y-3">
+            <h4 className="text-sm font-semibold text-white">Offline areas</h4>
+            {!tileCacheSupported() ? (
+              <p className="text-sm text-gray-500">
+                This browser cannot store tiles for offline use
+              </p>
+            ) : (
+              <div className="bg-gray-800/50 border border-gray-800 rounded-lg p-3 space-y-2">
+                <div>
+                  <label className={labelClass} htmlFor="offline-aoi">
+                    Area of interest
+                  </label>
+                  <select
+                    id="offline-aoi"
+                    value={aoiId}
+                    onChange={(e) => setAoiId(e.target.value)}
+                    className={inputClass}
+                    disabled={!!progress}
+                  >
+                    {aois.length === 0 && (
+                      <option value="">Draw an area of interest first</option>
+                    )}
+                    {aois.map((item) => (
+                      <option key={item.id} value={item.id}>
+                        {item.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className={labelClass} htmlFor="offline-basemap">
+                    Basemap
+                  </label>
+                  <select
+                    id="offline-basemap"
+                    value={source.id}
+                    onChange={(e) => setBasemapId(e.target.value)}
+                    className={inputClass}
+                    disabled={!!progress}
+                  >
+                    {sources.map((item) => (
+                      <option key={item.id} value={item.id}>
+                        {item.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label className={labelClass} htmlFor="offline-min-zoom">
+                      Min zoom
+                    </label>
+                    <input
+                      id="offline-min-zoom"
+                      type="number"
+                      min={source.min_zoom}
+                      max={source.max_zoom}
+                      value={minZoom}
+                      onChange={(e) => setMinZoom(Number(e.target.value))}
+                      className={inputClass}
+                      disabled={!!progress}
+                    />
+                  </div>
+                  <div>
+                    <label className={labelClass} htmlFor="offline-max-zoom">
+                      Max zoom
+                    </label>
+                    <input
+                      id="offline-max-zoom"
+                      type="number"
+                      min={source.min_zoom}
+                      max={source.max_zoom}
+                      value={maxZoom}
+                      onChange={(e) => setMaxZoom(Number(e.target.value))}
+                      className={inputClass}
+                      disabled={!!progress}
+                    />
+                  </div>
+                </div>
+                <p
+                  className={`text-xs ${
+                    tileCount > MAX_PACKAGE_TILES
+                      ? "text-red-400"
+                      : "text-gray-400"
+                  }`}
+                >
+                  {!zoomValid
+                    ? `Zoom must be within ${source.min_zoom}–${source.max_zoom}`
+                    : `${tileCount.toLocaleString()} tiles, about ${formatBytes(
+                        estimate
+                      )}${
+                        tileCount > MAX_PACKAGE_TILES
+                          ? ` (limit ${MAX_PACKAGE_TILES.toLocaleString()})`
+                          : ""
+                      }`}
+                </p>
+                {source.builtin && source.kind === "xyz" && (
+                  <p className="text-xs text-yellow-500">
+                    Public tile servers may block bulk downloads
+                  </p>
+                )}
+                {progress ? (
+                  <div className="space-y-1">
+                    <div className="h-1.5 bg-gray-700 rounded-full overflow-hidden">
+                      <div
+                        className="h-full bg-red-600 transition-all"
+                        style={{
+                          width: `${(progress.done / progress.total) * 100}%`,
+                        }}
+                      />
+                    </div>
+                    <div className="flex items-center justify-between text-xs text-gray-400">
+                      <span>
+                        {progress.done.toLocaleString()} /{" "}
+                        {progress.total.toLocaleString()} ·{" "}
+                        {formatBytes(progress.bytes)}
+                        {progress.failed > 0 && ` · ${progress.failed} failed`}
+                      </span>
+                      <button
+                        onClick={() => abortRef.current?.abort()}
+                        className="text-gray-400 hover:text-white transition-colors"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <button
+                    onClick={handleDownload}
+                    disabled={
+                      !aoi ||
+                      !zoomValid ||
+                      tileCount === 0 ||
+                      tileCount > MAX_PACKAGE_TILES
+                    }
+                    className="w-full flex items-center justify-center gap-2 px-3 py-1.5 bg-red-600 hover:bg-red-700 disabled:opacity-50 text-white text-xs font-medium rounded transition-colors"
+                  >
+                    <CloudDownload className="w-4 h-4" />
+                    Download area for offline use
+                  </button>
+                )}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              {packages.map((item) => (
+                <div
+                  key={item.id}
+                  className="flex items-start justify-between gap-2 bg-gray-800 border border-gray-700 rounded-lg px-3 py-2"
+                >
+                  <div className="min-w-0">
+                    <div className="text-sm text-white truncate">
+                      {item.name}
+                    </div>
+                    <div className="text-xs text-gray-400">
+                      {sourceLabel(item.basemap_id)} · z{item.min_zoom}–
+                      {item.max_zoom} · {item.tile_count.toLocaleString()} tiles
+                      · {formatBytes(item.bytes)}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {new Date(item.created_at).toLocaleDateString()}
+                      {item.failed_count > 0 &&
+                        ` · ${item.failed_count} tiles missing`}
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => handleDelete(item)}
+                    className="p-1 rounded text-gray-400 hover:text-red-500 hover:bg-gray-700 transition-colors"
+                    title="Delete offline area"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+
+            {usage && (
+              <div className="border-t border-gray-800 pt-3 space-y-2">
+                <div className="flex items-center gap-2 text-xs text-gray-400">
+                  <HardDrive className="w-4 h-4" />
+                  {formatBytes(usage.usage)} of {formatBytes(usage.quota)} used
+                </div>
+                <div className="h-1.5 bg-gray-700 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-gray-400"
+                    style={{
+                      width: `${
+                        usage.quota ? (usage.usage / usage.quota) * 100 : 0
+                      }%`,
+                    }}
+                  />
+                </div>
+                {usage.persisted ? (
+                  <p className="text-xs text-green-500">
+                    Offline data is kept when storage runs low
+                  </p>
+                ) : (
+                  <button
+                    onClick={handlePersist}
+                    className="text-xs text-gray-400 hover:text-white underline transition-colors"
+                  >
+                    Keep offline data when storage runs low
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BasemapManagerDialog;
@@ -0,0 +1,70 @@
+import { useEffect, useRef } from "react";
+import { useMap } from "react-leaflet";
+import toast from "react-hot-toast";
+import { CogLayer, type CogSource } from "../lib/cogLayer";
+import type { LayerRendering } from "../types";
+
+interface CogImageLayerProps {
+  url: string;
+  name: string;
+  opacity: number;
+  rendering: LayerRendering;
+  // Map pane to draw into, the tile pane by default
+  pane?: string;
+  onLoad?: (source: CogSource) => void;
+}
+
+// Streams a satellite image from its Cloud-Optimized GeoTIFF
+const CogImageLayer = ({
+  url,
+  name,
+  opacity,
+  rendering,
+  pane,
+  onLoad,
+}: CogImageLayerProps) => {
+  const map = useMap();
+  const layerRef = useRef<CogLayer | null>(null);
+  // Latest props for layers created after they last changed
+  const renderingRef = useRef(rendering);
+  const onLoadRef = useRef(onLoad);
+
+  useEffect(() => {
+    const layer = new CogLayer(url, {
+      // Leaflet would take an undefined pane over its default
+      ...(pane ? { pane } : {}),
+      rendering: renderingRef.current,
+      onLoad: (source) => onLoadRef.current?.(source),
+      onError: (error) =>
+        toast.error(`Could not stream ${name}: ${error.message}`, {
+          id: `cog-${url}`,
+        }),
+    });
+    layer.addTo(map);
+    layerRef.current = layer;
+
+    return () => {
+      layer.remove();
+      layerRef.current = null;
+    };
+  }, [map, url, name, pane]);
+
+  useEffect(() => {
+    layerRef.current?.setOpacity(opacity);
+  }, [opacity, url, name]);
+
+  useEffect(() => {
+    if (renderingRef.current !== rendering) {
+      renderingRef.current = rendering;
+      layerRef.current?.setRendering(rendering);
+    }
+  }, [rendering]);
+
+  useEffect(() => {
+    onLoadRef.current = onLoad;
+  }, [onLoad]);
+
+  return null;
+};
+
+export default CogImageLayer;
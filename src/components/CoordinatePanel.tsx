@@ -0,0 +1,135 @@
+import React, { useEffect, useRef, useState } from "react";
+import L from "leaflet";
+import { useMapEvents } from "react-leaflet";
+import { Copy, Crosshair, LocateFixed } from "lucide-react";
+import toast from "react-hot-toast";
+import {
+  COORDINATE_FORMATS,
+  COORDINATE_FORMAT_LABELS,
+  formatCoordinate,
+  formatMgrs,
+  parseCoordinate,
+  type CoordinateFormat,
+} from "../lib/coordinates";
+import type { LatLng } from "../lib/projection";
+
+interface CoordinatePanelProps {
+  onGoTo: (position: LatLng) => void;
+}
+
+const FORMAT_KEY = "coordinateFormat";
+
+const storedFormat = (): CoordinateFormat => {
+  const stored = localStorage.getItem(FORMAT_KEY);
+  return COORDINATE_FORMATS.includes(stored as CoordinateFormat)
+    ? (stored as CoordinateFormat)
+    : "mgrs";
+};
+
+// Cursor position readout and go-to box, rendered inside the map
+const CoordinatePanel = ({ onGoTo }: CoordinatePanelProps) => {
+  const [format, setFormat] = useState<CoordinateFormat>(storedFormat);
+  const [cursor, setCursor] = useState<LatLng | null>(null);
+  const [query, setQuery] = useState("");
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  useMapEvents({
+    mousemove: (event) => setCursor([event.latlng.lat, event.latlng.lng]),
+    mouseout: () => setCursor(null),
+  });
+
+  // Keep clicks, scrolling and the cursor on the panel away from the map,
+  // so the readout holds the last position for copying
+  useEffect(() => {
+    const panel = panelRef.current;
+    if (!panel) return;
+    L.DomEvent.disableClickPropagation(panel);
+    L.DomEvent.disableScrollPropagation(panel);
+    L.DomEvent.on(panel, "mousemove", L.DomEvent.stopPropagation);
+    return () => {
+      L.DomEvent.off(panel, "mousemove", L.DomEvent.stopPropagation);
+    };
+  }, []);
+
+  const changeFormat = (next: CoordinateFormat) => {
+    setFormat(next);
+    localStorage.setItem(FORMAT_KEY, next);
+  };
+
+  const readout = cursor
+    ? formatCoordinate(format, cursor[0], cursor[1]) ?? "Outside the UTM grid"
+    : "Move the cursor over the map";
+
+  const copyCursorMgrs = () => {
+    const mgrs = cursor && formatMgrs(cursor[0], cursor[1]);
+    if (!mgrs) return;
+    navigator.clipboard
+      .writeText(mgrs)
+      .then(() => toast.success(`Copied ${mgrs}`))
+      .catch(() => toast.error("Could not copy the coordinate"));
+  };
+
+  const handleGoTo = (event: React.FormEvent) => {
+    event.preventDefault();
+    const position = parseCoordinate(query);
+    if (!position) {
+      toast.error("Enter a position as DD, DMS, UTM or MGRS");
+      return;
+    }
+    onGoTo(position);
+  };
+
+  return (
+    <div
+      ref={panelRef}
+      className="absolute bottom-6 left-1/2 -translate-x-1/2 z-1000 w-[26rem] max-w-[calc(100%-2rem)] bg-gray-900/95 border border-gray-700 rounded-lg shadow-2xl text-xs text-gray-300"
+    >
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-gray-800">
+        <Crosshair className="w-4 h-4 text-gray-400 shrink-0" />
+        <span className="flex-1 font-mono text-white truncate">{readout}</span>
+        <div className="flex bg-gray-800 rounded-md p-0.5">
+          {COORDINATE_FORMATS.map((value) => (
+            <button
+              key={value}
+              onClick={() => changeFormat(value)}
+              className={`px-1.5 py-0.5 rounded ${
+                format === value
+                  ? "bg-gray-700 text-white"
+                  : "text-gray-400 hover:text-white"
+              }`}
+            >
+              {COORDINATE_FORMAT_LABELS[value]}
+            </button>
+          ))}
+        </div>
+      </div>
+      <form onSubmit={handleGoTo} className="flex items-center gap-2 px-3 py-2">
+        <input
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+          placeholder="Go to, e.g. 33U UU 89916 19784"
+          className="flex-1 min-w-0 px-2 py-1 bg-gray-800 border border-gray-700 rounded text-white placeholder-gray-500 focus:outline-none focus:border-red-500"
+        />
+        <button
+          type="submit"
+          disabled={!query.trim()}
+          className="p-1.5 text-gray-300 hover:text-white hover:bg-gray-800 disabled:opacity-50 rounded"
+          title="Go to position"
+        >
+          <LocateFixed className="w-4 h-4" />
+        </button>
+        <button
+          type="button"
+          onClick={copyCursorMgrs}
+          disabled={!cursor}
+          className="p-1.5 text-gray-300 hover:text-white hover:bg-gray-800 disabled:opacity-50 rounded"
+          title="Copy MGRS of the last cursor position"
+        >
+          <Copy className="w-4 h-4" />
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default CoordinatePanel;
@@ -5,15 +5,13 @@ import React, {
   useMemo,
   useRef,
 } from "react";
-import toast from "react-hot-toast";
 import {
   MapContainer,
-  TileLayer,
   ImageOverlay,
   useMap,
-  Marker,
-  Popup,
-  Circle,
+  CircleMarker,
+  Polygon,
+  Tooltip,
 } from "react-leaflet";
 import {
   Menu,
@@ -29,17 +27,101 @@ import {
   Maximize2,
   Minimize2,
   RefreshCw,
-  Download,
   FileText,
   CheckCircle,
   Clock,
   XCircle,
+  Wifi,
+  WifiOff,
+  SlidersHorizontal,
+  GitCompare,
+  CalendarClock,
+  MapPinned,
+  BellRing,
+  ShieldAlert,
+  Move,
+  Settings2,
+  Copy,
+  Ruler,
 } from "lucide-react";
 import "leaflet/dist/leaflet.css";
 import L from "leaflet";
-import type { SatelliteImage, ThreatDetection, AnalysisResult } from "../types";
+import type {
+  SatelliteImageLayer,
+  LayerRenderMode,
+  LayerRendering,
+  ThreatDetection,
+  ThreatSymbolSet,
+  DensitySettings,
+  DistanceUnit,
+  MeasureMode,
+  RangeRingSettings,
+  AnalysisResult,
+  AoiShape,
+  AoiShapeType,
+  AreaOfInterest,
+  AlertEvent,
+  BasemapSource,
+} from "../types";
 import UserMenu from "./UserMenu";
-import { Link } from "react-router-dom";
+import UploadQueueDialog from "./UploadQueueDialog";
+import CogImageLayer from "./CogImageLayer";
+import ThreatMarkerLayer from "./ThreatMarkerLayer";
+import LayerRenderingPanel from "./LayerRenderingPanel";
+import ImageComparison from "./ImageComparison";
+import ReportBuilderDialog from "./ReportBuilderDialog";
+import ExportMenu from "./ExportMenu";
+import TimelineStrip from "./TimelineStrip";
+import ThreatLegend from "./ThreatLegend";
+import ThreatHeatLayer from "./ThreatHeatLayer";
+import HotspotLayer from "./HotspotLayer";
+import DensityControls from "./DensityControls";
+import AoiDrawTool, { AoiDrawHint } from "./AoiDrawTool";
+import AoiLayer from "./AoiLayer";
+import AoiPanel from "./AoiPanel";
+import AoiStats from "./AoiStats";
+import AlertRulesPanel from "./AlertRulesPanel";
+import AlertBanner from "./AlertBanner";
+import ThreatCorrectionPanel from "./ThreatCorrectionPanel";
+import ThreatRelocateMarker from "./ThreatRelocateMarker";
+import VectorOverlayLayer from "./VectorOverlayLayer";
+import VectorLayerPanel from "./VectorLayerPanel";
+import BasemapLayer from "./BasemapLayer";
+import BasemapManagerDialog from "./BasemapManagerDialog";
+import CoordinatePanel from "./CoordinatePanel";
+import MeasureTool, { MeasureToolbar } from "./MeasureTool";
+import RangeRings from "./RangeRings";
+import { Link, useSearchParams } from "react-router-dom";
+import toast from "react-hot-toast";
+import { useAppDispatch, useAppSelector } from "../store";
+import { fetchSatelliteImages } from "../store/slices/satelliteSlice";
+import {
+  correctThreat,
+  fetchThreat,
+  fetchThreats,
+} from "../store/slices/threatSlice";
+import { fetchAnalyses } from "../store/slices/analysisSlice";
+import { addUploadFiles } from "../store/slices/uploadSlice";
+import {
+  imageTime,
+  isInTimeWindow,
+  timeWindowParams,
+} from "../store/slices/timelineSlice";
+import { filterUploadableFiles } from "../lib/uploadFiles";
+import { useRealtimeFeed } from "../hooks/useRealtimeFeed";
+import { SEVERITY_COLORS } from "../lib/threatStyle";
+import { findHotspots, type HexCell } from "../lib/threatDensity";
+import {
+  aoiBounds,
+  aoiContains,
+  aoiIntersectsBounds,
+  aoiRing,
+} from "../lib/aoiGeometry";
+import { aoiSelected } from "../store/slices/aoiSlice";
+import { loadVectorLayers } from "../store/slices/vectorLayerSlice";
+import { loadBasemapSources, saveBasemapSources } from "../lib/basemaps";
+import { formatMgrs } from "../lib/coordinates";
+import { DISTANCE_UNITS, METERS_PER_UNIT } from "../lib/measure";
 
 // Fix Leaflet default icon issue
 delete (L.Icon.Default.prototype as unknown as Record<string, unknown>)
@@ -57,54 +139,54 @@ L.Icon.Default.mergeOptions({
 interface MapBounds {
   center: [number, number];
   zoom: number;
+  // Fit to these bounds instead of the center and zoom
+  fit?: [[number, number], [number, number]];
 }
 
-// API Configuration
-const API_BASE_URL =
-  import.meta.env.VITE_API_URL || "http://localhost:8000/api";
-
-// Custom Hooks
-const useApi = () => {
-  const fetchWithCache = useCallback(
-    async <T,>(url: string, cacheTime = 300000): Promise<T> => {
-      const cacheKey = `cache_${url}`;
-      const cached = sessionStorage.getItem(cacheKey);
-
-      if (cached) {
-        const { data, timestamp } = JSON.parse(cached);
-        if (Date.now() - timestamp < cacheTime) {
-          console.log(`[API Cache Hit] ${url}`, data);
-          return data as T;
-        }
-      }
-
-      console.log(`[API Request] ${url}`);
-      const response = await fetch(`${API_BASE_URL}${url}`, {
-        headers: {
-          Authorization: `Bearer ${localStorage.getItem("accessToken") || ""}`,
-        },
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error(`[API Error] ${url}: ${response.status}`, errorText);
-        throw new Error(
-          `Network response was not ok: ${response.status} ${errorText}`
-        );
-      }
+// Client-side display settings for a satellite image layer
+type LayerSettings = Pick<
+  SatelliteImageLayer,
+  "visible" | "opacity" | "renderMode" | "rendering"
+>;
+
+const DEFAULT_LAYER_SETTINGS: LayerSettings = {
+  visible: true,
+  opacity: 0.8,
+  renderMode: "overlay",
+  // Bands in the usual R, G, B, NIR, SWIR order of multispectral exports
+  rendering: {
+    mode: "composite",
+    composite: [0, 1, 2],
+    index: "ndvi",
+    bandRoles: { red: 0, green: 1, blue: 2, nir: 3, swir: 4 },
+    ramp: "rdylgn",
+    stretch: "percentile",
+  },
+};
 
-      const data = await response.json();
-      console.log(`[API Success] ${url}`, data);
-      sessionStorage.setItem(
-        cacheKey,
-        JSON.stringify({ data, timestamp: Date.now() })
-      );
-      return data as T;
-    },
-    []
-  );
+const SYMBOL_SET_KEY = "threatSymbolSet";
+const BASEMAP_KEY = "basemap";
+const MEASURE_UNIT_KEY = "measureUnit";
+const RANGE_RINGS_KEY = "rangeRings";
+
+const DEFAULT_RANGE_RINGS: RangeRingSettings = { count: 3, interval: 0.5 };
+
+const storedRangeRings = (): RangeRingSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(RANGE_RINGS_KEY) ?? "null");
+    return stored?.count >= 0 && stored?.interval > 0
+      ? { count: stored.count, interval: stored.interval }
+      : DEFAULT_RANGE_RINGS;
+  } catch {
+    return DEFAULT_RANGE_RINGS;
+  }
+};
 
-  return { fetchWithCache };
+const DEFAULT_DENSITY_SETTINGS: DensitySettings = {
+  mode: "off",
+  radius: 25,
+  blur: 15,
+  cellSize: 10,
 };
 
 // Map Control Component - FIXED: Added map resize handler
@@ -118,7 +200,8 @@ const MapController = ({
   const map = useMap();
 
   useEffect(() => {
-    map.setView(bounds.center, bounds.zoom);
+    if (bounds.fit) map.fitBounds(bounds.fit, { padding: [40, 40] });
+    else map.setView(bounds.center, bounds.zoom);
   }, [map, bounds]);
 
   // Invalidate map size when sidebar toggles
@@ -166,105 +249,194 @@ const SidebarButton = ({
   </button>
 );
 
+const RENDER_MODES: { value: LayerRenderMode; label: string; title: string }[] =
+  [
+    {
+      value: "overlay",
+      label: "Static",
+      title: "Rendered overlay image, downloaded in full",
+    },
+    {
+      value: "cog",
+      label: "COG",
+      title: "Stream the Cloud-Optimized GeoTIFF tile by tile",
+    },
+  ];
+
 const LayerControl = ({
   images,
   onToggleVisibility,
   onOpacityChange,
+  onRenderModeChange,
+  onRenderingChange,
+  bandCounts,
   basemaps,
   currentBasemap,
   onBasemapChange,
+  onManageBasemaps,
+  onZoomToBounds,
 }: {
-  images: SatelliteImage[];
+  images: SatelliteImageLayer[];
   onToggleVisibility: (id: number) => void;
   onOpacityChange: (id: number, opacity: number) => void;
-  basemaps: {
-    [key: string]: { label: string; url: string; attribution: string };
-  };
+  onRenderModeChange: (id: number, renderMode: LayerRenderMode) => void;
+  onRenderingChange: (id: number, rendering: LayerRendering) => void;
+  bandCounts: Record<number, number>;
+  basemaps: BasemapSource[];
   currentBasemap: string;
   onBasemapChange: (basemap: string) => void;
-}) => (
-  <div className="space-y-4">
-    <div>
-      <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider mb-3">
-        Base Map
-      </h3>
-      <div className="space-y-2">
-        {Object.entries(basemaps).map(([key, basemap]) => (
+  onManageBasemaps: () => void;
+  onZoomToBounds: (bounds: [[number, number], [number, number]]) => void;
+}) => {
+  const [renderingOpenId, setRenderingOpenId] = useState<number | null>(null);
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider">
+            Base Map
+          </h3>
           <button
-            key={key}
-            onClick={() => onBasemapChange(key)}
-            className={`w-full px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
-              currentBasemap === key
-                ? "bg-red-600 text-white"
-                : "bg-gray-800 text-gray-300 hover:bg-gray-700"
-            }`}
+            onClick={onManageBasemaps}
+            className="p-1 rounded text-gray-400 hover:text-white hover:bg-gray-700 transition-colors"
+            title="Basemap sources and offline areas"
           >
-            {basemap.label}
+            <Settings2 className="w-4 h-4" />
           </button>
-        ))}
+        </div>
+        <div className="space-y-2">
+          {basemaps.map((basemap) => (
+            <button
+              key={basemap.id}
+              onClick={() => onBasemapChange(basemap.id)}
+              className={`w-full px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                currentBasemap === basemap.id
+                  ? "bg-red-600 text-white"
+                  : "bg-gray-800 text-gray-300 hover:bg-gray-700"
+              }`}
+            >
+              {basemap.label}
+            </button>
+          ))}
+        </div>
       </div>
-    </div>
 
-    <div>
-      <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider mb-4">
-        Satellite Layers
-      </h3>
-      {images.length === 0 ? (
-        <p className="text-gray-500 text-sm">No satellite imagery available</p>
-      ) : (
-        images.map((img) => (
-          <div
-            key={img.id}
-            className="bg-gray-800 rounded-lg p-3 border border-gray-700 hover:border-gray-600 transition-colors"
-          >
-            <div className="flex items-center justify-between mb-2">
-              <span className="text-sm font-medium text-white truncate flex-1">
-                {img.name}
-              </span>
-              <button
-                onClick={() => onToggleVisibility(img.id)}
-                className={`p-1.5 rounded transition-colors ${
-                  img.visible
-                    ? "bg-green-600 text-white"
-                    : "bg-gray-700 text-gray-400"
-                }`}
-              >
-                {img.visible ? (
-                  <Eye className="w-4 h-4" />
-                ) : (
-                  <EyeOff className="w-4 h-4" />
-                )}
-              </button>
-            </div>
-            <div className="flex items-center gap-2">
-              <span className="text-xs text-gray-400">Opacity:</span>
-              <input
-                type="range"
-                min="0"
-                max="100"
-                value={img.opacity * 100}
-                onChange={(e) =>
-                  onOpacityChange(img.id, parseInt(e.target.value) / 100)
-                }
-                className="flex-1 h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-red-600"
-              />
-              <span className="text-xs text-gray-400 w-10 text-right">
-                {Math.round(img.opacity * 100)}%
-              </span>
+      <div>
+        <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider mb-4">
+          Satellite Layers
+        </h3>
+        {images.length === 0 ? (
+          <p className="text-gray-500 text-sm">
+            No satellite imagery available
+          </p>
+        ) : (
+          images.map((img) => (
+            <div
+              key={img.id}
+              className="bg-gray-800 rounded-lg p-3 border border-gray-700 hover:border-gray-600 transition-colors"
+            >
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-sm font-medium text-white truncate flex-1">
+                  {img.name}
+                </span>
+                <button
+                  onClick={() => onToggleVisibility(img.id)}
+                  className={`p-1.5 rounded transition-colors ${
+                    img.visible
+                      ? "bg-green-600 text-white"
+                      : "bg-gray-700 text-gray-400"
+                  }`}
+                >
+                  {img.visible ? (
+                    <Eye className="w-4 h-4" />
+                  ) : (
+                    <EyeOff className="w-4 h-4" />
+                  )}
+                </button>
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="text-xs text-gray-400">Opacity:</span>
+                <input
+                  type="range"
+                  min="0"
+                  max="100"
+                  value={img.opacity * 100}
+                  onChange={(e) =>
+                    onOpacityChange(img.id, parseInt(e.target.value) / 100)
+                  }
+                  className="flex-1 h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-red-600"
+                />
+                <span className="text-xs text-gray-400 w-10 text-right">
+                  {Math.round(img.opacity * 100)}%
+                </span>
+              </div>
+              <div className="flex items-center gap-2 mt-2">
+                <span className="text-xs text-gray-400">Source:</span>
+                <div className="flex flex-1 bg-gray-900 rounded-md p-0.5">
+                  {RENDER_MODES.map((mode) => (
+                    <button
+                      key={mode.value}
+                      onClick={() => onRenderModeChange(img.id, mode.value)}
+                      disabled={mode.value === "cog" && !img.image_url}
+                      className={`flex-1 px-2 py-1 rounded text-xs font-medium transition-colors disabled:opacity-40 ${
+                        img.renderMode === mode.value
+                          ? "bg-red-600 text-white"
+                          : "text-gray-400 hover:text-white"
+                      }`}
+                      title={mode.title}
+                    >
+                      {mode.label}
+                    </button>
+                  ))}
+                </div>
+                <button
+                  onClick={() =>
+                    setRenderingOpenId((prev) =>
+                      prev === img.id ? null : img.id
+                    )
+                  }
+                  disabled={img.renderMode !== "cog"}
+                  className={`p-1.5 rounded transition-colors disabled:opacity-40 ${
+                    renderingOpenId === img.id && img.renderMode === "cog"
+                      ? "bg-red-600 text-white"
+                      : "bg-gray-700 text-gray-400 hover:text-white"
+                  }`}
+                  title={
+                    img.renderMode === "cog"
+                      ? "Bands, indices and stretch"
+                      : "Switch to COG to composite bands"
+                  }
+                >
+                  <SlidersHorizontal className="w-4 h-4" />
+                </button>
+              </div>
+              {renderingOpenId === img.id && img.renderMode === "cog" && (
+                <LayerRenderingPanel
+                  rendering={img.rendering}
+                  bandCount={bandCounts[img.id]}
+                  onChange={(rendering) => onRenderingChange(img.id, rendering)}
+                />
+              )}
             </div>
-          </div>
-        ))
-      )}
+          ))
+        )}
+      </div>
+
+      <VectorLayerPanel onZoomTo={onZoomToBounds} />
     </div>
-  </div>
-);
+  );
+};
 
 const ThreatList = ({
   threats,
   onThreatClick,
+  filter,
 }: {
   threats: ThreatDetection[];
   onThreatClick: (threat: ThreatDetection) => void;
+  // Narrowed list, e.g. the detections of a hotspot cell
+  filter?: { label: string; onClear: () => void };
 }) => {
   const getSeverityColor = (severity: string): string => {
     switch (severity) {
@@ -286,6 +458,18 @@ const ThreatList = ({
       <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider mb-4">
         Detected Threats
       </h3>
+      {filter && (
+        <div className="flex items-center justify-between gap-2 px-3 py-2 bg-red-600/10 border border-red-600/40 rounded-lg text-xs text-red-300">
+          <span>{filter.label}</span>
+          <button
+            onClick={filter.onClear}
+            className="text-gray-400 hover:text-white transition-colors"
+            title="Show all threats"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
       {threats.length === 0 ? (
         <p className="text-gray-500 text-sm">No threats detected</p>
       ) : (
@@ -397,170 +581,204 @@ const AnalysesList = ({ analyses }: { analyses: AnalysisResult[] }) => {
 const MilitaryDashboard = () => {
   const [sidebarOpen, setSidebarOpen] = useState(true);
   const [activePanel, setActivePanel] = useState<
-    "layers" | "threats" | "analytics" | "analyses"
+    "layers" | "threats" | "analytics" | "analyses" | "aois" | "alerts"
   >("layers");
   const [fullscreen, setFullscreen] = useState(false);
-  const [satelliteImages, setSatelliteImages] = useState<SatelliteImage[]>([]);
-  const [threats, setThreats] = useState<ThreatDetection[]>([]);
-  const [analyses, setAnalyses] = useState<AnalysisResult[]>([]);
+  const dispatch = useAppDispatch();
+  const images = useAppSelector((state) => state.satellite.images);
+  const threats = useAppSelector((state) => state.threat.threats);
+  const analyses = useAppSelector((state) => state.analysis.analyses);
+  // Per-image display settings, kept client side
+  const [layerSettings, setLayerSettings] = useState<
+    Record<number, Partial<LayerSettings>>
+  >({});
+  // Band counts of streamed images, known once their header is read
+  const [bandCounts, setBandCounts] = useState<Record<number, number>>({});
   const [loading, setLoading] = useState(true);
   const [mapBounds, setMapBounds] = useState<MapBounds>({
     center: [9.082, 8.6753], // Nigeria center
     zoom: 6,
   });
-  const [selectedThreat, setSelectedThreat] = useState<ThreatDetection | null>(
+  const [pickedThreat, setSelectedThreat] = useState<ThreatDetection | null>(
     null
   );
+  // Kept in step with corrections and live updates
+  const selectedThreat =
+    pickedThreat &&
+    (threats.find((t) => t.id === pickedThreat.id) ?? pickedThreat);
+  // Position the selected threat is being dragged to
+  const [relocation, setRelocation] = useState<[number, number] | null>(null);
+  const [goToTarget, setGoToTarget] = useState<[number, number] | null>(null);
   // FIXED: Add counter to trigger map resize
   const [resizeTrigger, setResizeTrigger] = useState(0);
-  const [basemap, setBasemap] = useState<string>("osm");
-  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [basemapSources, setBasemapSources] = useState(loadBasemapSources);
+  const [basemap, setBasemap] = useState<string>(
+    () => localStorage.getItem(BASEMAP_KEY) ?? "osm"
+  );
+  const basemapSource =
+    basemapSources.find((source) => source.id === basemap) ?? basemapSources[0];
+  const [basemapDialogOpen, setBasemapDialogOpen] = useState(false);
+  const [uploadDialogOpen, setUploadDialogOpen] = useState(false);
+  const [reportOpen, setReportOpen] = useState(false);
+  const [compareOpen, setCompareOpen] = useState(false);
+  const [timelineOpen, setTimelineOpen] = useState(false);
+  const [density, setDensity] = useState<DensitySettings>(
+    DEFAULT_DENSITY_SETTINGS
+  );
+  const [selectedCellId, setSelectedCellId] = useState<string | null>(null);
+  const [drawMode, setDrawMode] = useState<AoiShapeType | null>(null);
+  const [lineBuffer, setLineBuffer] = useState(1000);
+  const [pendingShape, setPendingShape] = useState<AoiShape | null>(null);
+  const [measureMode, setMeasureMode] = useState<MeasureMode | null>(null);
+  const [measureUnit, setMeasureUnit] = useState<DistanceUnit>(() => {
+    const stored = localStorage.getItem(MEASURE_UNIT_KEY) as DistanceUnit;
+    return DISTANCE_UNITS.includes(stored) ? stored : "km";
+  });
+  const [rangeRings, setRangeRings] = useState(storedRangeRings);
+  const aois = useAppSelector((state) => state.aoi.items);
+  const selectedAoiId = useAppSelector((state) => state.aoi.selectedId);
+  const selectedAoi = aois.find((aoi) => aoi.id === selectedAoiId) ?? null;
+  const userId = useAppSelector((state) => state.auth.user?.id);
+  const vectorLayers = useAppSelector((state) => state.vectorLayer.items);
+  const visibleVectorLayers = useMemo(
+    () => vectorLayers.filter((layer) => layer.visible),
+    [vectorLayers]
+  );
+  const pinnedAlertsCount = useAppSelector(
+    (state) =>
+      state.alert.history.filter(
+        (event) => event.actions.includes("banner") && !event.dismissed
+      ).length
+  );
+  const [symbolSet, setSymbolSet] = useState<ThreatSymbolSet>(() =>
+    localStorage.getItem(SYMBOL_SET_KEY) === "military" ? "military" : "simple"
+  );
+  const timeWindow = useAppSelector((state) => state.timeline.window);
+  // Window the last fetches were made for
+  const timeWindowRef = useRef(timeWindow);
+  const hasCenteredRef = useRef(false);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  const uploads = useAppSelector((state) => state.uploads.items);
+  const activeUploadsCount = uploads.filter(
+    (i) => i.status === "queued" || i.status === "uploading"
+  ).length;
+  // Expected footprints of files that are not on the server yet
+  const pendingFootprints = uploads.filter(
+    (i) =>
+      i.header?.footprint &&
+      i.status !== "completed" &&
+      i.status !== "cancelled"
+  );
   const sidebarToggleTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(
     null
   );
 
-  const { fetchWithCache } = useApi();
-
-  // Basemap configurations
-  const basemaps = {
-    osm: {
-      label: "OpenStreetMap",
-      url: "https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png",
-      attribution:
-        '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a>',
-    },
-    satellite: {
-      label: "Satellite",
-      url: "https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}",
-      attribution: '&copy; <a href="https://www.esri.com/">Esri</a>',
-    },
-    terrain: {
-      label: "Terrain",
-      url: "https://{s}.tile.opentopomap.org/{z}/{x}/{y}.png",
-      attribution: '&copy; <a href="https://opentopomap.org/">OpenTopoMap</a>',
-    },
-  };
-
-  // Fetch satellite images
-  const fetchSatelliteImages = useCallback(async () => {
-    try {
-      const data = await fetchWithCache<
-        { results: SatelliteImage[] } | SatelliteImage[]
-      >("/satellite/images/", 60000);
-      const images = Array.isArray(data) ? data : data.results || [];
-
-      // DEBUG: Log the raw API response and processed images
-      console.log("[DEBUG] Raw satellite images data:", data);
-      console.log("[DEBUG] Processed images:", images);
-      if (images.length > 0) {
-        console.log("[DEBUG] First image details:", {
-          id: images[0].id,
-          name: images[0].name,
-          image_url: images[0].image_url,
-          bounds: images[0].bounds,
-        });
-      }
-
-      setSatelliteImages(
-        images.map((img) => ({ ...img, visible: true, opacity: 0.8 }))
-      );
-    } catch (error) {
-      console.error("Error fetching satellite images:", error);
-    }
-  }, [fetchWithCache]);
-
-  // Fetch threat detections
-  const fetchThreats = useCallback(async () => {
-    try {
-      const data = await fetchWithCache<
-        | {
-            results:
-              | ThreatDetection[]
-              | {
-                  type: string;
-                  features: { id: number; properties: ThreatDetection }[];
-                };
-          }
-        | ThreatDetection[]
-      >("/satellite/threats/", 30000);
-
-      let threats: ThreatDetection[] = [];
-
-      if (Array.isArray(data)) {
-        threats = data;
-      } else if (data.results) {
-        // Check if results is GeoJSON FeatureCollection
-        if (
-          typeof data.results === "object" &&
-          "type" in data.results &&
-          "features" in data.results
-        ) {
-          const geoResults = data.results as {
-            type: string;
-            features: { id: number; properties: ThreatDetection }[];
-          };
-          if (geoResults.type === "FeatureCollection") {
-            threats = geoResults.features.map((feature) => ({
-              ...feature.properties,
-              id: feature.id,
-            }));
-          }
-        } else if (Array.isArray(data.results)) {
-          threats = data.results;
-        }
-      }
-
-      setThreats(threats);
-    } catch (error) {
-      console.error("Error fetching threats:", error);
-    }
-  }, [fetchWithCache]);
+  const satelliteImages = useMemo<SatelliteImageLayer[]>(
+    () =>
+      images.map((img) => ({
+        ...img,
+        ...DEFAULT_LAYER_SETTINGS,
+        ...layerSettings[img.id],
+      })),
+    [images, layerSettings]
+  );
 
-  // Fetch analysis results
-  const fetchAnalyses = useCallback(async () => {
-    try {
-      const data = await fetchWithCache<
-        { results: AnalysisResult[] } | AnalysisResult[]
-      >("/satellite/analyses/", 60000);
-      const analyses = Array.isArray(data) ? data : data.results || [];
-      setAnalyses(analyses);
-    } catch (error) {
-      console.error("Error fetching analyses:", error);
-    }
-  }, [fetchWithCache]);
+  const refreshImages = useCallback(
+    () =>
+      dispatch(fetchSatelliteImages(timeWindowParams(timeWindowRef.current))),
+    [dispatch]
+  );
+  const refreshThreats = useCallback(
+    () => dispatch(fetchThreats(timeWindowParams(timeWindowRef.current))),
+    [dispatch]
+  );
+  const refreshAnalyses = useCallback(
+    () => dispatch(fetchAnalyses()),
+    [dispatch]
+  );
 
   // Initial data fetch
   useEffect(() => {
     const loadData = async () => {
       setLoading(true);
-      await Promise.all([
-        fetchSatelliteImages(),
-        fetchThreats(),
-        fetchAnalyses(),
-      ]);
+      await Promise.all([refreshImages(), refreshThreats(), refreshAnalyses()]);
       setLoading(false);
     };
     loadData();
-  }, [fetchSatelliteImages, fetchThreats, fetchAnalyses]);
+  }, [refreshImages, refreshThreats, refreshAnalyses]);
+
+  // Narrow the server queries to the timeline window once it settles
+  useEffect(() => {
+    if (timeWindowRef.current === timeWindow) return;
+    timeWindowRef.current = timeWindow;
+
+    const timeoutId = setTimeout(() => {
+      refreshImages();
+      refreshThreats();
+    }, 400);
+    return () => clearTimeout(timeoutId);
+  }, [timeWindow, refreshImages, refreshThreats]);
+
+  useEffect(() => {
+    localStorage.setItem(SYMBOL_SET_KEY, symbolSet);
+  }, [symbolSet]);
+
+  useEffect(() => {
+    localStorage.setItem(BASEMAP_KEY, basemap);
+  }, [basemap]);
+
+  useEffect(() => {
+    localStorage.setItem(MEASURE_UNIT_KEY, measureUnit);
+  }, [measureUnit]);
 
-  // Auto-refresh every 5 minutes
   useEffect(() => {
-    const interval = setInterval(() => {
-      fetchThreats();
-    }, 300000);
-    return () => clearInterval(interval);
-  }, [fetchThreats]);
+    localStorage.setItem(RANGE_RINGS_KEY, JSON.stringify(rangeRings));
+  }, [rangeRings]);
+
+  // Ring spacing keeps its distance when the unit changes
+  const handleMeasureUnitChange = useCallback(
+    (unit: DistanceUnit) => {
+      setRangeRings((rings) => ({
+        ...rings,
+        interval:
+          Math.round(
+            ((rings.interval * METERS_PER_UNIT[measureUnit]) /
+              METERS_PER_UNIT[unit]) *
+              1000
+          ) / 1000,
+      }));
+      setMeasureUnit(unit);
+    },
+    [measureUnit]
+  );
+
+  const handleBasemapSourcesChange = useCallback((sources: BasemapSource[]) => {
+    setBasemapSources(sources);
+    saveBasemapSources(sources);
+  }, []);
+
+  // Map overlays are stored per user; areas and alert rules load with the
+  // store, as alerts are checked on every page
+  useEffect(() => {
+    if (userId === undefined) return;
+    dispatch(loadVectorLayers(userId));
+  }, [dispatch, userId]);
+
+  // Live threat and analysis updates, polling when the socket is down
+  const feedStatus = useRealtimeFeed();
 
-  // Update map bounds when satellite images load
+  // Center on the imagery once, not on every timeline refetch
   useEffect(() => {
-    if (satelliteImages.length > 0 && satelliteImages[0].bounds) {
-      const firstImageBounds = satelliteImages[0].bounds;
+    if (hasCenteredRef.current) return;
+    if (images.length > 0 && images[0].bounds) {
+      const firstImageBounds = images[0].bounds;
       // Center map on first image with appropriate zoom
       const centerLat = (firstImageBounds[0][0] + firstImageBounds[1][0]) / 2;
       const centerLon = (firstImageBounds[0][1] + firstImageBounds[1][1]) / 2;
 
       // Use timeout to avoid cascading render warning
       const timeoutId = setTimeout(() => {
+        hasCenteredRef.current = true;
         setMapBounds({
           center: [centerLat, centerLon],
           zoom: 10,
@@ -569,7 +787,7 @@ const MilitaryDashboard = () => {
 
       return () => clearTimeout(timeoutId);
     }
-  }, [satelliteImages]);
+  }, [images]);
 
   // FIXED: Trigger map resize when sidebar toggles
   useEffect(() => {
@@ -588,179 +806,253 @@ const MilitaryDashboard = () => {
         clearTimeout(sidebarToggleTimeoutRef.current);
       }
     };
-  }, [sidebarOpen, fullscreen]);
+  }, [sidebarOpen, fullscreen, timelineOpen]);
+
+  const updateLayerSettings = useCallback(
+    (id: number, changes: Partial<LayerSettings>) => {
+      setLayerSettings((prev) => ({
+        ...prev,
+        [id]: { ...prev[id], ...changes },
+      }));
+    },
+    []
+  );
 
   const handleToggleVisibility = useCallback((id: number) => {
-    setSatelliteImages((prev) =>
-      prev.map((img) =>
-        img.id === id ? { ...img, visible: !img.visible } : img
-      )
-    );
+    setLayerSettings((prev) => ({
+      ...prev,
+      [id]: {
+        ...prev[id],
+        visible: !(prev[id]?.visible ?? DEFAULT_LAYER_SETTINGS.visible),
+      },
+    }));
   }, []);
 
-  const handleOpacityChange = useCallback((id: number, opacity: number) => {
-    setSatelliteImages((prev) =>
-      prev.map((img) => (img.id === id ? { ...img, opacity } : img))
-    );
+  const handleOpacityChange = useCallback(
+    (id: number, opacity: number) => updateLayerSettings(id, { opacity }),
+    [updateLayerSettings]
+  );
+
+  const handleRenderModeChange = useCallback(
+    (id: number, renderMode: LayerRenderMode) =>
+      updateLayerSettings(id, { renderMode }),
+    [updateLayerSettings]
+  );
+
+  const handleRenderingChange = useCallback(
+    (id: number, rendering: LayerRendering) =>
+      updateLayerSettings(id, { rendering }),
+    [updateLayerSettings]
+  );
+
+  const handleCogLoad = useCallback((id: number, bandCount: number) => {
+    setBandCounts((prev) => ({ ...prev, [id]: bandCount }));
   }, []);
 
   const handleThreatClick = useCallback((threat: ThreatDetection) => {
     setSelectedThreat(threat);
+    setRelocation(null);
     setMapBounds({ center: threat.location_coords, zoom: 14 });
   }, []);
 
-  const handleFileUpload = useCallback(
-    async (event: React.ChangeEvent<HTMLInputElement>) => {
-      const file = event.target.files?.[0];
-      if (!file) return;
-
-      const formData = new FormData();
-      formData.append("original_image", file);
-      formData.append("name", file.name);
-
-      try {
-        const response = await fetch(`${API_BASE_URL}/satellite/images/`, {
-          method: "POST",
-          headers: {
-            Authorization: `Bearer ${
-              localStorage.getItem("accessToken") || ""
-            }`,
+  const handleGoTo = useCallback((position: [number, number]) => {
+    setGoToTarget(position);
+    setMapBounds({ center: position, zoom: 14 });
+  }, []);
+
+  const copyMgrs = (mgrs: string) => {
+    navigator.clipboard
+      .writeText(mgrs)
+      .then(() => toast.success(`Copied ${mgrs}`))
+      .catch(() => toast.error("Could not copy the coordinate"));
+  };
+  const selectedThreatMgrs =
+    selectedThreat &&
+    formatMgrs(
+      selectedThreat.location_coords[0],
+      selectedThreat.location_coords[1]
+    );
+
+  // Threat linked from elsewhere, e.g. /dashboard?threat=42
+  const [searchParams, setSearchParams] = useSearchParams();
+  const linkedThreatId = Number(searchParams.get("threat")) || null;
+  useEffect(() => {
+    if (linkedThreatId === null) return;
+    dispatch(fetchThreat(linkedThreatId))
+      .unwrap()
+      .then(handleThreatClick)
+      .catch((error) => toast.error(`Could not open threat: ${error}`))
+      .finally(() =>
+        setSearchParams(
+          (params) => {
+            params.delete("threat");
+            return params;
           },
-          body: formData,
-        });
+          { replace: true }
+        )
+      );
+  }, [linkedThreatId, dispatch, handleThreatClick, setSearchParams]);
 
-        if (response.ok) {
-          const uploadedImage = await response.json();
-          console.log("[DEBUG] Image uploaded successfully:", uploadedImage);
-
-          // Wait for optimization to complete (poll the image status)
-          let imageReady = false;
-          let attempts = 0;
-          const maxAttempts = 30; // Max 30 attempts = 60 seconds with 2s intervals
-
-          while (!imageReady && attempts < maxAttempts) {
-            await new Promise((resolve) => setTimeout(resolve, 2000)); // Wait 2 seconds
-
-            const checkResponse = await fetch(
-              `${API_BASE_URL}/satellite/images/${uploadedImage.id}/`,
-              {
-                headers: {
-                  Authorization: `Bearer ${
-                    localStorage.getItem("accessToken") || ""
-                  }`,
-                },
-              }
-            );
-
-            if (checkResponse.ok) {
-              const imageData = await checkResponse.json();
-              console.log(
-                `[DEBUG] Image status check (attempt ${attempts + 1}): ${
-                  imageData.status
-                }`
-              );
-
-              if (imageData.status === "optimized") {
-                imageReady = true;
-
-                // Trigger analysis
-                try {
-                  const analysisResponse = await fetch(
-                    `${API_BASE_URL}/satellite/images/${uploadedImage.id}/analyze/`,
-                    {
-                      method: "POST",
-                      headers: {
-                        "Content-Type": "application/json",
-                        Authorization: `Bearer ${
-                          localStorage.getItem("accessToken") || ""
-                        }`,
-                      },
-                      body: JSON.stringify({
-                        analysis_type: "threat_detection",
-                      }),
-                    }
-                  );
+  const handleSaveRelocation = async () => {
+    if (!selectedThreat || !relocation) return;
+    setRelocation(null);
+    try {
+      await dispatch(
+        correctThreat({
+          threat: selectedThreat,
+          correction: { kind: "relocate", location_coords: relocation },
+        })
+      ).unwrap();
+      toast.success("Position corrected");
+    } catch (error) {
+      toast.error(`Position not saved, change undone: ${error}`);
+    }
+  };
 
-                  if (analysisResponse.ok) {
-                    console.log("[DEBUG] Analysis triggered successfully");
-                  }
-                } catch (analysisError) {
-                  console.error("Error triggering analysis:", analysisError);
-                }
-              }
-            }
+  const handleShowAlert = useCallback(
+    (event: AlertEvent) => {
+      const threat = threats.find((t) => event.threat_ids.includes(t.id));
+      if (threat) handleThreatClick(threat);
+    },
+    [threats, handleThreatClick]
+  );
 
-            attempts++;
-          }
-
-          // Refresh the image list
-          await fetchSatelliteImages();
-          await new Promise((resolve) => setTimeout(resolve, 1000));
-          await fetchThreats();
-
-          toast.success("Satellite image uploaded and analysis initiated!", {
-            duration: 4000,
-            icon: "🛰️",
-          });
-        } else {
-          toast.error("Failed to upload image", {
-            duration: 4000,
-          });
-        }
-      } catch (error) {
-        console.error("Error uploading file:", error);
-        toast.error("Error uploading file", {
-          duration: 4000,
-        });
+  // Accept imagery dropped anywhere on the map into the upload queue
+  const handleMapDrop = useCallback(
+    (event: React.DragEvent<HTMLElement>) => {
+      event.preventDefault();
+      setIsDraggingFiles(false);
+
+      const files = filterUploadableFiles(Array.from(event.dataTransfer.files));
+      if (files.length > 0) {
+        dispatch(addUploadFiles(files));
+        setUploadDialogOpen(true);
       }
     },
-    [fetchSatelliteImages, fetchThreats]
+    [dispatch]
   );
 
-  const handleDownloadReport = useCallback(() => {
-    // Ensure threats is an array
-    const threatsArray = Array.isArray(threats) ? threats : [];
-    const imagesArray = Array.isArray(satelliteImages) ? satelliteImages : [];
-    const analysesArray = Array.isArray(analyses) ? analyses : [];
-
-    const reportData = {
-      generated_at: new Date().toISOString(),
-      total_images: imagesArray.length,
-      total_threats: threatsArray.length,
-      critical_threats: threatsArray.filter((t) => t.severity === "critical")
-        .length,
-      high_threats: threatsArray.filter((t) => t.severity === "high").length,
-      analyses: analysesArray.length,
-      threats_by_type: threatsArray.reduce((acc, t) => {
-        acc[t.threat_type] = (acc[t.threat_type] || 0) + 1;
-        return acc;
-      }, {} as Record<string, number>),
-    };
+  const handleLocateFootprint = useCallback(
+    (bounds: [[number, number], [number, number]]) => {
+      setUploadDialogOpen(false);
+      setMapBounds({
+        center: [
+          (bounds[0][0] + bounds[1][0]) / 2,
+          (bounds[0][1] + bounds[1][1]) / 2,
+        ],
+        zoom: 10,
+      });
+    },
+    []
+  );
 
-    const blob = new Blob([JSON.stringify(reportData, null, 2)], {
-      type: "application/json",
-    });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = `intelligence-report-${
-      new Date().toISOString().split("T")[0]
-    }.json`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-  }, [satelliteImages, threats, analyses]);
-
-  const criticalThreatsCount = useMemo(() => {
-    if (!Array.isArray(threats)) return 0;
-    return threats.filter((t) => t.severity === "critical").length;
-  }, [threats]);
-
-  const visibleImages = useMemo(() => {
+  // Everything shown is narrowed to the selected area of interest
+  const aoiImages = useMemo(() => {
     if (!Array.isArray(satelliteImages)) return [];
-    return satelliteImages.filter((img) => img.visible);
-  }, [satelliteImages]);
+    if (!selectedAoi) return satelliteImages;
+    return satelliteImages.filter(
+      (img) => img.bounds && aoiIntersectsBounds(selectedAoi.shape, img.bounds)
+    );
+  }, [satelliteImages, selectedAoi]);
+
+  const aoiThreats = useMemo(() => {
+    if (!Array.isArray(threats)) return [];
+    // Detections dismissed as false positives are left off the map
+    const real = threats.filter((t) => !t.false_positive);
+    if (!selectedAoi) return real;
+    return real.filter((t) =>
+      aoiContains(selectedAoi.shape, t.location_coords)
+    );
+  }, [threats, selectedAoi]);
+
+  const aoiAnalyses = useMemo(() => {
+    if (!Array.isArray(analyses)) return [];
+    if (!selectedAoi) return analyses;
+    const imageIds = new Set(aoiImages.map((img) => img.id));
+    return analyses.filter((a) => imageIds.has(a.satellite_image));
+  }, [analyses, aoiImages, selectedAoi]);
+
+  const criticalThreatsCount = useMemo(
+    () => aoiThreats.filter((t) => t.severity === "critical").length,
+    [aoiThreats]
+  );
+
+  const visibleImages = useMemo(
+    () =>
+      aoiImages.filter(
+        (img) => img.visible && isInTimeWindow(imageTime(img), timeWindow)
+      ),
+    [aoiImages, timeWindow]
+  );
+
+  const windowedThreats = useMemo(
+    () =>
+      aoiThreats.filter((t) =>
+        isInTimeWindow(Date.parse(t.detected_at), timeWindow)
+      ),
+    [aoiThreats, timeWindow]
+  );
+
+  const hotspots = useMemo(
+    () =>
+      density.mode === "hotspots"
+        ? findHotspots(
+            windowedThreats,
+            density.cellSize * 1000,
+            // Grid the area of interest rather than the detections' extent
+            selectedAoi
+              ? L.latLngBounds(aoiBounds(selectedAoi.shape))
+              : undefined
+          )
+        : null,
+    [density.mode, density.cellSize, windowedThreats, selectedAoi]
+  );
+  const selectedCell =
+    hotspots?.cells.find((cell) => cell.id === selectedCellId) ?? null;
+
+  const handleCellClick = useCallback((cell: HexCell) => {
+    setSelectedCellId(cell.id);
+    setActivePanel("threats");
+    setSidebarOpen(true);
+  }, []);
+
+  const handleDrawComplete = useCallback((shape: AoiShape) => {
+    setDrawMode(null);
+    setPendingShape(shape);
+    setActivePanel("aois");
+    setSidebarOpen(true);
+  }, []);
+
+  const handleDrawCancel = useCallback(() => setDrawMode(null), []);
+
+  // Drawing an area and measuring both take over map clicks
+  const handleDrawModeChange = useCallback((mode: AoiShapeType | null) => {
+    setDrawMode(mode);
+    if (mode) setMeasureMode(null);
+  }, []);
+
+  const handleMeasureModeChange = useCallback((mode: MeasureMode | null) => {
+    setMeasureMode(mode);
+    if (mode) setDrawMode(null);
+  }, []);
+
+  const handleMeasureCancel = useCallback(() => setMeasureMode(null), []);
+
+  const handleZoomToBounds = useCallback(
+    (fit: [[number, number], [number, number]]) => {
+      setMapBounds({
+        center: [(fit[0][0] + fit[1][0]) / 2, (fit[0][1] + fit[1][1]) / 2],
+        zoom: 0,
+        fit,
+      });
+    },
+    []
+  );
+
+  const handleZoomToAoi = useCallback(
+    (aoi: AreaOfInterest) => handleZoomToBounds(aoiBounds(aoi.shape)),
+    [handleZoomToBounds]
+  );
 
   return (
     <div className="h-screen bg-gray-900 flex flex-col overflow-hidden">
@@ -793,12 +1085,45 @@ const MilitaryDashboard = () => {
         </div>
 
         <div className="flex items-center gap-4">
+          <div
+            className={`flex items-center gap-2 px-3 py-2 rounded-lg border text-xs font-medium ${
+              feedStatus === "open"
+                ? "border-green-600/40 bg-green-500/10 text-green-500"
+                : "border-yellow-600/40 bg-yellow-500/10 text-yellow-500"
+            }`}
+            title={
+              feedStatus === "open"
+                ? "Receiving live updates"
+                : "Live feed unavailable, polling every 30s"
+            }
+          >
+            {feedStatus === "open" ? (
+              <Wifi className="w-4 h-4" />
+            ) : (
+              <WifiOff className="w-4 h-4" />
+            )}
+            <span className="hidden md:inline">
+              {feedStatus === "open"
+                ? "LIVE"
+                : feedStatus === "connecting"
+                ? "CONNECTING"
+                : "POLLING"}
+            </span>
+          </div>
           <div className="bg-gray-800 px-4 py-2 rounded-lg border border-gray-700">
             <span className="text-xs text-gray-400">Active Threats</span>
             <span className="ml-3 text-lg font-bold text-red-500">
               {criticalThreatsCount}
             </span>
           </div>
+          <Link
+            to="/threats"
+            className="flex items-center gap-2 px-4 py-2 bg-gray-800 hover:bg-gray-700 text-white font-medium rounded-lg transition-colors"
+            title="Triage Threats"
+          >
+            <ShieldAlert className="w-5 h-5" />
+            <span className="hidden sm:inline">Triage</span>
+          </Link>
           <Link
             to="/analysis"
             className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-lg transition-colors"
@@ -808,18 +1133,62 @@ const MilitaryDashboard = () => {
             <span className="hidden sm:inline">Analysis</span>
           </Link>
           <button
-            onClick={handleDownloadReport}
-            className="p-2 text-gray-300 hover:text-white hover:bg-gray-800 rounded-lg transition-colors"
-            title="Download Report"
+            onClick={() => setTimelineOpen((prev) => !prev)}
+            className={`relative p-2 rounded-lg transition-colors ${
+              timelineOpen
+                ? "bg-red-600 text-white"
+                : "text-gray-300 hover:text-white hover:bg-gray-800"
+            }`}
+            title="Timeline"
+          >
+            <CalendarClock className="w-5 h-5" />
+            {timeWindow && !timelineOpen && (
+              <span className="absolute -top-1 -right-1 w-2.5 h-2.5 bg-red-500 rounded-full" />
+            )}
+          </button>
+          <button
+            onClick={() =>
+              handleMeasureModeChange(measureMode ? null : "distance")
+            }
+            className={`p-2 rounded-lg transition-colors ${
+              measureMode
+                ? "bg-red-600 text-white"
+                : "text-gray-300 hover:text-white hover:bg-gray-800"
+            }`}
+            title="Measure"
+          >
+            <Ruler className="w-5 h-5" />
+          </button>
+          <button
+            onClick={() => setCompareOpen((prev) => !prev)}
+            className={`p-2 rounded-lg transition-colors ${
+              compareOpen
+                ? "bg-red-600 text-white"
+                : "text-gray-300 hover:text-white hover:bg-gray-800"
+            }`}
+            title="Compare Images"
           >
-            <Download className="w-5 h-5" />
+            <GitCompare className="w-5 h-5" />
           </button>
+          <ExportMenu threats={windowedThreats} images={visibleImages} />
           <button
-            onClick={() => fileInputRef.current?.click()}
+            onClick={() => setReportOpen(true)}
             className="p-2 text-gray-300 hover:text-white hover:bg-gray-800 rounded-lg transition-colors"
-            title="Upload Satellite Image"
+            title="Intelligence Report"
+          >
+            <FileText className="w-5 h-5" />
+          </button>
+          <button
+            onClick={() => setUploadDialogOpen(true)}
+            className="relative p-2 text-gray-300 hover:text-white hover:bg-gray-800 rounded-lg transition-colors"
+            title="Upload Satellite Images"
           >
             <Upload className="w-5 h-5" />
+            {activeUploadsCount > 0 && (
+              <span className="absolute -top-1 -right-1 bg-blue-600 text-white text-xs font-bold rounded-full w-5 h-5 flex items-center justify-center">
+                {activeUploadsCount}
+              </span>
+            )}
           </button>
           <button
             onClick={() => setFullscreen(!fullscreen)}
@@ -833,9 +1202,9 @@ const MilitaryDashboard = () => {
           </button>
           <button
             onClick={() => {
-              fetchSatelliteImages();
-              fetchThreats();
-              fetchAnalyses();
+              refreshImages();
+              refreshThreats();
+              refreshAnalyses();
             }}
             className="p-2 text-gray-300 hover:text-white hover:bg-gray-800 rounded-lg transition-colors"
             title="Refresh Data"
@@ -850,15 +1219,29 @@ const MilitaryDashboard = () => {
         </div>
       </nav>
 
-      {/* Hidden file input for satellite image upload */}
-      <input
-        type="file"
-        ref={fileInputRef}
-        onChange={handleFileUpload}
-        accept=".tif,.tiff,.geotiff"
-        className="hidden"
-        aria-label="Upload satellite image"
-      />
+      {basemapDialogOpen && (
+        <BasemapManagerDialog
+          sources={basemapSources}
+          onSourcesChange={handleBasemapSourcesChange}
+          onClose={() => setBasemapDialogOpen(false)}
+        />
+      )}
+
+      {reportOpen && (
+        <ReportBuilderDialog
+          threats={threats}
+          images={satelliteImages}
+          basemap={basemapSource}
+          onClose={() => setReportOpen(false)}
+        />
+      )}
+
+      {uploadDialogOpen && (
+        <UploadQueueDialog
+          onClose={() => setUploadDialogOpen(false)}
+          onLocate={handleLocateFootprint}
+        />
+      )}
 
       {/* Main Content */}
       <div className="flex-1 flex overflow-hidden">
@@ -879,6 +1262,19 @@ const MilitaryDashboard = () => {
                 onClick={() => setActivePanel("threats")}
                 badge={criticalThreatsCount}
               />
+              <SidebarButton
+                icon={<MapPinned />}
+                label="Areas of Interest"
+                active={activePanel === "aois"}
+                onClick={() => setActivePanel("aois")}
+              />
+              <SidebarButton
+                icon={<BellRing />}
+                label="Alert Rules"
+                active={activePanel === "alerts"}
+                onClick={() => setActivePanel("alerts")}
+                badge={pinnedAlertsCount}
+              />
               <SidebarButton
                 icon={<FileText />}
                 label="Analyses"
@@ -896,22 +1292,58 @@ const MilitaryDashboard = () => {
             <div className="flex-1 overflow-y-auto p-4">
               {activePanel === "layers" && (
                 <LayerControl
-                  images={satelliteImages}
+                  images={aoiImages}
                   onToggleVisibility={handleToggleVisibility}
                   onOpacityChange={handleOpacityChange}
-                  basemaps={basemaps}
-                  currentBasemap={basemap}
+                  onRenderModeChange={handleRenderModeChange}
+                  onRenderingChange={handleRenderingChange}
+                  bandCounts={bandCounts}
+                  basemaps={basemapSources}
+                  currentBasemap={basemapSource.id}
                   onBasemapChange={setBasemap}
+                  onManageBasemaps={() => setBasemapDialogOpen(true)}
+                  onZoomToBounds={handleZoomToBounds}
                 />
               )}
               {activePanel === "threats" && (
                 <ThreatList
-                  threats={threats}
+                  threats={selectedCell ? selectedCell.threats : aoiThreats}
                   onThreatClick={handleThreatClick}
+                  filter={
+                    selectedCell
+                      ? {
+                          label: `Hotspot cell: ${
+                            selectedCell.threats.length
+                          } detection${
+                            selectedCell.threats.length === 1 ? "" : "s"
+                          }`,
+                          onClear: () => setSelectedCellId(null),
+                        }
+                      : selectedAoi
+                      ? {
+                          label: `Area: ${selectedAoi.name}`,
+                          onClear: () => dispatch(aoiSelected(null)),
+                        }
+                      : undefined
+                  }
+                />
+              )}
+              {activePanel === "aois" && (
+                <AoiPanel
+                  drawMode={drawMode}
+                  onDrawModeChange={handleDrawModeChange}
+                  lineBuffer={lineBuffer}
+                  onLineBufferChange={setLineBuffer}
+                  pendingShape={pendingShape}
+                  onPendingDone={() => setPendingShape(null)}
+                  onZoomTo={handleZoomToAoi}
                 />
               )}
+              {activePanel === "alerts" && (
+                <AlertRulesPanel onShowAlert={handleShowAlert} />
+              )}
               {activePanel === "analyses" && (
-                <AnalysesList analyses={analyses} />
+                <AnalysesList analyses={aoiAnalyses} />
               )}
               {activePanel === "analytics" && (
                 <div className="space-y-4">
@@ -921,7 +1353,7 @@ const MilitaryDashboard = () => {
                   <div className="grid grid-cols-2 gap-3">
                     <div className="bg-gray-800 rounded-lg p-3 border border-gray-700">
                       <div className="text-2xl font-bold text-white">
-                        {threats.length}
+                        {aoiThreats.length}
                       </div>
                       <div className="text-xs text-gray-400">
                         Total Detections
@@ -935,20 +1367,33 @@ const MilitaryDashboard = () => {
                     </div>
                     <div className="bg-gray-800 rounded-lg p-3 border border-gray-700">
                       <div className="text-2xl font-bold text-blue-500">
-                        {satelliteImages.length}
+                        {aoiImages.length}
                       </div>
                       <div className="text-xs text-gray-400">Images</div>
                     </div>
                     <div className="bg-gray-800 rounded-lg p-3 border border-gray-700">
                       <div className="text-2xl font-bold text-green-500">
                         {
-                          analyses.filter((a) => a.status === "completed")
+                          aoiAnalyses.filter((a) => a.status === "completed")
                             .length
                         }
                       </div>
                       <div className="text-xs text-gray-400">Completed</div>
                     </div>
                   </div>
+                  {selectedAoi && (
+                    <AoiStats
+                      aoi={selectedAoi}
+                      threats={windowedThreats}
+                      images={aoiImages}
+                      analyses={aoiAnalyses}
+                    />
+                  )}
+                  <DensityControls
+                    settings={density}
+                    hotspots={hotspots}
+                    onChange={setDensity}
+                  />
                 </div>
               )}
             </div>
@@ -956,188 +1401,411 @@ const MilitaryDashboard = () => {
         )}
 
         {/* Map Container - FIXED: Now resizes properly */}
-        <main className="flex-1 relative transition-all duration-300">
-          {/* Selected Threat Info Panel */}
-          {selectedThreat && !fullscreen && (
-            <div className="absolute top-4 right-4 bg-gray-900 border border-gray-700 rounded-lg p-4 z-1000 max-w-sm shadow-2xl">
-              <div className="flex items-start justify-between mb-3">
-                <div className="flex items-center gap-2">
-                  <MapPin className="w-5 h-5 text-red-500" />
-                  <h3 className="text-white font-bold">Selected Threat</h3>
-                </div>
-                <button
-                  onClick={() => setSelectedThreat(null)}
-                  className="text-gray-400 hover:text-white transition-colors"
-                >
-                  <X className="w-4 h-4" />
-                </button>
-              </div>
-              <div className="space-y-2 text-sm">
-                <div>
-                  <span className="text-gray-400">Type: </span>
+        <div className="flex-1 flex flex-col overflow-hidden">
+          <main
+            className="flex-1 relative transition-all duration-300"
+            onDragOver={(e) => {
+              if (!e.dataTransfer.types.includes("Files")) return;
+              e.preventDefault();
+              setIsDraggingFiles(true);
+            }}
+            onDragLeave={(e) => {
+              if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+                setIsDraggingFiles(false);
+              }
+            }}
+            onDrop={handleMapDrop}
+          >
+            {compareOpen && (
+              <ImageComparison
+                images={satelliteImages}
+                basemap={basemapSource}
+                onClose={() => setCompareOpen(false)}
+              />
+            )}
+            {drawMode && (
+              <AoiDrawHint mode={drawMode} onCancel={handleDrawCancel} />
+            )}
+            {measureMode && (
+              <MeasureToolbar
+                mode={measureMode}
+                unit={measureUnit}
+                onModeChange={handleMeasureModeChange}
+                onUnitChange={handleMeasureUnitChange}
+                onClose={handleMeasureCancel}
+              />
+            )}
+            {!loading && (
+              <AlertBanner
+                onShowAlert={handleShowAlert}
+                lowered={drawMode !== null || measureMode !== null}
+              />
+            )}
+            {isDraggingFiles && (
+              <div className="absolute inset-0 z-1500 bg-red-500/10 border-4 border-dashed border-red-500 flex items-center justify-center pointer-events-none">
+                <div className="bg-gray-900 border border-gray-700 rounded-lg px-6 py-4 flex items-center gap-3 shadow-2xl">
+                  <Upload className="w-6 h-6 text-red-500" />
                   <span className="text-white font-medium">
-                    {selectedThreat.threat_type}
+                    Drop GeoTIFF files to upload
                   </span>
                 </div>
-                <div>
-                  <span className="text-gray-400">Severity: </span>
-                  <span
-                    className={`font-bold ${
-                      selectedThreat.severity === "critical"
-                        ? "text-red-500"
-                        : selectedThreat.severity === "high"
-                        ? "text-orange-500"
-                        : selectedThreat.severity === "medium"
-                        ? "text-yellow-500"
-                        : "text-blue-500"
-                    }`}
+              </div>
+            )}
+            {/* Selected Threat Info Panel */}
+            {selectedThreat && !fullscreen && (
+              <div className="absolute top-4 right-4 bg-gray-900 border border-gray-700 rounded-lg p-4 z-1000 max-w-sm shadow-2xl">
+                <div className="flex items-start justify-between mb-3">
+                  <div className="flex items-center gap-2">
+                    <MapPin className="w-5 h-5 text-red-500" />
+                    <h3 className="text-white font-bold">Selected Threat</h3>
+                  </div>
+                  <button
+                    onClick={() => {
+                      setSelectedThreat(null);
+                      setRelocation(null);
+                    }}
+                    className="text-gray-400 hover:text-white transition-colors"
                   >
-                    {selectedThreat.severity.toUpperCase()}
-                  </span>
-                </div>
-                <div>
-                  <span className="text-gray-400">Confidence: </span>
-                  <span className="text-white">
-                    {Math.round(selectedThreat.confidence * 100)}%
-                  </span>
+                    <X className="w-4 h-4" />
+                  </button>
                 </div>
-                <div>
-                  <span className="text-gray-400">Location: </span>
-                  <span className="text-white text-xs">
-                    {selectedThreat.location_coords[0].toFixed(4)},{" "}
-                    {selectedThreat.location_coords[1].toFixed(4)}
-                  </span>
+                <div className="space-y-2 text-sm">
+                  <div>
+                    <span className="text-gray-400">Type: </span>
+                    <span className="text-white font-medium">
+                      {selectedThreat.threat_type}
+                    </span>
+                  </div>
+                  <div>
+                    <span className="text-gray-400">Severity: </span>
+                    <span
+                      className={`font-bold ${
+                        selectedThreat.severity === "critical"
+                          ? "text-red-500"
+                          : selectedThreat.severity === "high"
+                          ? "text-orange-500"
+                          : selectedThreat.severity === "medium"
+                          ? "text-yellow-500"
+                          : "text-blue-500"
+                      }`}
+                    >
+                      {selectedThreat.severity.toUpperCase()}
+                    </span>
+                  </div>
+                  <div>
+                    <span className="text-gray-400">Confidence: </span>
+                    <span className="text-white">
+                      {Math.round(selectedThreat.confidence * 100)}%
+                    </span>
+                  </div>
+                  <div>
+                    <span className="text-gray-400">Location: </span>
+                    {selectedThreatMgrs && (
+                      <span className="inline-flex items-center gap-1">
+                        <span className="text-white font-mono text-xs">
+                          {selectedThreatMgrs}
+                        </span>
+                        <button
+                          onClick={() => copyMgrs(selectedThreatMgrs)}
+                          className="p-0.5 text-gray-400 hover:text-white transition-colors"
+                          title="Copy MGRS"
+                        >
+                          <Copy className="w-3.5 h-3.5" />
+                        </button>
+                      </span>
+                    )}
+                    <div className="text-gray-400 text-xs">
+                      {selectedThreat.location_coords[0].toFixed(4)},{" "}
+                      {selectedThreat.location_coords[1].toFixed(4)}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1.5 text-xs">
+                    <span className="text-gray-400">Range rings:</span>
+                    <input
+                      type="number"
+                      min={0}
+                      max={10}
+                      value={rangeRings.count}
+                      onChange={(e) => {
+                        const count = Math.round(Number(e.target.value));
+                        if (count >= 0 && count <= 10) {
+                          setRangeRings((rings) => ({ ...rings, count }));
+                        }
+                      }}
+                      className="w-12 px-1.5 py-0.5 bg-gray-800 border border-gray-700 rounded text-white"
+                      title="Number of rings"
+                    />
+                    <span className="text-gray-400">every</span>
+                    <input
+                      type="number"
+                      min={0}
+                      step="any"
+                      value={rangeRings.interval}
+                      onChange={(e) => {
+                        const interval = Number(e.target.value);
+                        if (interval > 0) {
+                          setRangeRings((rings) => ({ ...rings, interval }));
+                        }
+                      }}
+                      className="w-16 px-1.5 py-0.5 bg-gray-800 border border-gray-700 rounded text-white"
+                      title="Distance between rings"
+                    />
+                    <select
+                      value={measureUnit}
+                      onChange={(e) =>
+                        handleMeasureUnitChange(e.target.value as DistanceUnit)
+                      }
+                      className="px-1 py-0.5 bg-gray-800 border border-gray-700 rounded text-white"
+                    >
+                      {DISTANCE_UNITS.map((unit) => (
+                        <option key={unit} value={unit}>
+                          {unit}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <p className="text-gray-300 text-xs mt-2 pt-2 border-t border-gray-700">
+                    {selectedThreat.description}
+                  </p>
+                  <Link
+                    to={`/threats/${selectedThreat.id}`}
+                    className="block text-xs text-red-500 hover:underline"
+                  >
+                    Details, history and notes
+                  </Link>
+                  <div className="pt-2 border-t border-gray-700 space-y-2">
+                    {relocation ? (
+                      <div className="flex gap-2">
+                        <button
+                          onClick={handleSaveRelocation}
+                          className="flex-1 px-3 py-1.5 bg-red-600 hover:bg-red-700 text-white text-xs font-medium rounded-lg transition-colors"
+                        >
+                          Save position
+                        </button>
+                        <button
+                          onClick={() => setRelocation(null)}
+                          className="px-3 py-1.5 text-xs text-gray-400 hover:text-white transition-colors"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    ) : (
+                      <button
+                        onClick={() =>
+                          setRelocation(selectedThreat.location_coords)
+                        }
+                        disabled={selectedThreat.false_positive}
+                        className="w-full flex items-center justify-center gap-2 px-3 py-1.5 bg-gray-800 hover:bg-gray-700 disabled:opacity-50 border border-gray-700 rounded-lg text-xs text-gray-300 transition-colors"
+                      >
+                        <Move className="w-4 h-4" />
+                        Move marker
+                      </button>
+                    )}
+                    <ThreatCorrectionPanel
+                      key={selectedThreat.id}
+                      threat={selectedThreat}
+                    />
+                  </div>
                 </div>
-                <p className="text-gray-300 text-xs mt-2 pt-2 border-t border-gray-700">
-                  {selectedThreat.description}
-                </p>
               </div>
-            </div>
-          )}
+            )}
 
-          {loading ? (
-            <div className="absolute inset-0 flex items-center justify-center bg-gray-900">
-              <div className="text-center">
-                <RefreshCw className="w-12 h-12 text-red-600 animate-spin mx-auto mb-4" />
-                <p className="text-gray-400">Loading intelligence data...</p>
+            {loading ? (
+              <div className="absolute inset-0 flex items-center justify-center bg-gray-900">
+                <div className="text-center">
+                  <RefreshCw className="w-12 h-12 text-red-600 animate-spin mx-auto mb-4" />
+                  <p className="text-gray-400">Loading intelligence data...</p>
+                </div>
               </div>
-            </div>
-          ) : (
-            <MapContainer
-              center={mapBounds.center}
-              zoom={mapBounds.zoom}
-              className="w-full h-full"
-              zoomControl={true}
-            >
-              <MapController bounds={mapBounds} triggerResize={resizeTrigger} />
-              <TileLayer
-                key={basemap}
-                url={basemaps[basemap as keyof typeof basemaps].url}
-                attribution={
-                  basemaps[basemap as keyof typeof basemaps].attribution
-                }
-              />
-              {visibleImages.map((img) => {
-                const logData = {
-                  id: img.id,
-                  name: img.name,
-                  map_overlay_url: img.map_overlay_url,
-                  map_overlay_url_exists: !!img.map_overlay_url,
-                  bounds: img.bounds,
-                  bounds_exists: !!img.bounds,
-                  opacity: img.opacity,
-                  visible: img.visible,
-                };
-                console.log("[DEBUG] Rendering ImageOverlay:", logData);
-                console.log(
-                  "[DEBUG] Map overlay URL value:",
-                  img.map_overlay_url
-                );
-                console.log("[DEBUG] Bounds value:", img.bounds);
-
-                if (!img.map_overlay_url) {
-                  console.warn(
-                    "[DEBUG] WARNING: map_overlay_url is missing or empty!"
+            ) : (
+              <MapContainer
+                center={mapBounds.center}
+                zoom={mapBounds.zoom}
+                className="w-full h-full"
+                zoomControl={true}
+              >
+                <MapController
+                  bounds={mapBounds}
+                  triggerResize={resizeTrigger}
+                />
+                <BasemapLayer source={basemapSource} />
+                {visibleImages.map((img) => {
+                  if (img.renderMode === "cog" && img.image_url) {
+                    return (
+                      <CogImageLayer
+                        key={img.id}
+                        url={img.image_url}
+                        name={img.name}
+                        opacity={img.opacity}
+                        rendering={img.rendering}
+                        onLoad={(source) =>
+                          handleCogLoad(img.id, source.bandCount)
+                        }
+                      />
+                    );
+                  }
+
+                  const logData = {
+                    id: img.id,
+                    name: img.name,
+                    map_overlay_url: img.map_overlay_url,
+                    map_overlay_url_exists: !!img.map_overlay_url,
+                    bounds: img.bounds,
+                    bounds_exists: !!img.bounds,
+                    opacity: img.opacity,
+                    visible: img.visible,
+                  };
+                  console.log("[DEBUG] Rendering ImageOverlay:", logData);
+                  console.log(
+                    "[DEBUG] Map overlay URL value:",
+                    img.map_overlay_url
                   );
-                }
-                if (!img.bounds) {
-                  console.warn("[DEBUG] WARNING: bounds is missing or empty!");
-                }
-
-                return (
-                  <ImageOverlay
-                    key={img.id}
-                    url={img.map_overlay_url || ""}
-                    bounds={
-                      img.bounds || [
-                        [0, 0],
-                        [1, 1],
-                      ]
-                    }
-                    opacity={img.opacity}
-                  />
-                );
-              })}
-              {Array.isArray(threats) &&
-                threats.map((threat) => (
-                  <Marker
-                    key={threat.id}
-                    position={threat.location_coords}
-                    eventHandlers={{
-                      click: () => handleThreatClick(threat),
+                  console.log("[DEBUG] Bounds value:", img.bounds);
+
+                  if (!img.map_overlay_url) {
+                    console.warn(
+                      "[DEBUG] WARNING: map_overlay_url is missing or empty!"
+                    );
+                  }
+                  if (!img.bounds) {
+                    console.warn(
+                      "[DEBUG] WARNING: bounds is missing or empty!"
+                    );
+                  }
+
+                  return (
+                    <ImageOverlay
+                      key={img.id}
+                      url={img.map_overlay_url || ""}
+                      bounds={
+                        img.bounds || [
+                          [0, 0],
+                          [1, 1],
+                        ]
+                      }
+                      opacity={img.opacity}
+                    />
+                  );
+                })}
+                {pendingFootprints.map((item) => (
+                  <Polygon
+                    key={item.id}
+                    positions={item.header?.footprint ?? []}
+                    pathOptions={{
+                      color: "#eab308",
+                      weight: 2,
+                      dashArray: "6 6",
+                      fillOpacity: 0.05,
                     }}
                   >
-                    <Popup>
-                      <div className="p-2">
-                        <h4 className="font-bold text-sm mb-1">
-                          {threat.threat_type}
-                        </h4>
-                        <p className="text-xs text-gray-600 mb-2">
-                          {threat.description}
-                        </p>
-                        <div className="text-xs">
-                          <div>
-                            Severity:{" "}
-                            <span className="font-semibold">
-                              {threat.severity}
-                            </span>
-                          </div>
-                          <div>
-                            Confidence: {Math.round(threat.confidence * 100)}%
-                          </div>
-                        </div>
-                      </div>
-                    </Popup>
-                  </Marker>
+                    <Tooltip sticky>Pending upload: {item.name}</Tooltip>
+                  </Polygon>
                 ))}
-              {selectedThreat && (
-                <Circle
-                  center={selectedThreat.location_coords}
-                  radius={500}
-                  pathOptions={{
-                    color:
-                      selectedThreat.severity === "critical"
-                        ? "red"
-                        : selectedThreat.severity === "high"
-                        ? "orange"
-                        : selectedThreat.severity === "medium"
-                        ? "yellow"
-                        : "blue",
-                    fillColor:
-                      selectedThreat.severity === "critical"
-                        ? "red"
-                        : selectedThreat.severity === "high"
-                        ? "orange"
-                        : selectedThreat.severity === "medium"
-                        ? "yellow"
-                        : "blue",
-                    fillOpacity: 0.2,
-                  }}
+                <VectorOverlayLayer layers={visibleVectorLayers} />
+                <AoiLayer
+                  aois={aois}
+                  selectedId={selectedAoiId}
+                  interactive={!drawMode && !measureMode}
+                  onSelect={(id) => dispatch(aoiSelected(id))}
                 />
-              )}
-            </MapContainer>
+                {pendingShape && (
+                  <Polygon
+                    positions={aoiRing(pendingShape)}
+                    pathOptions={{
+                      color: "#ef4444",
+                      weight: 2,
+                      dashArray: "6 4",
+                      fillOpacity: 0.1,
+                    }}
+                  />
+                )}
+                {drawMode && (
+                  <AoiDrawTool
+                    key={drawMode}
+                    mode={drawMode}
+                    buffer={lineBuffer}
+                    onComplete={handleDrawComplete}
+                    onCancel={handleDrawCancel}
+                  />
+                )}
+                {density.mode === "heatmap" && (
+                  <ThreatHeatLayer
+                    threats={windowedThreats}
+                    radius={density.radius}
+                    blur={density.blur}
+                  />
+                )}
+                {hotspots && (
+                  <HotspotLayer
+                    cells={hotspots.cells}
+                    selectedId={selectedCellId}
+                    onCellClick={handleCellClick}
+                  />
+                )}
+                <ThreatMarkerLayer
+                  threats={windowedThreats}
+                  symbolSet={symbolSet}
+                  onThreatClick={handleThreatClick}
+                />
+                {selectedThreat && relocation && (
+                  <ThreatRelocateMarker
+                    origin={selectedThreat.location_coords}
+                    position={relocation}
+                    onMove={setRelocation}
+                  />
+                )}
+                {selectedThreat && (
+                  <RangeRings
+                    center={selectedThreat.location_coords}
+                    settings={rangeRings}
+                    unit={measureUnit}
+                    color={SEVERITY_COLORS[selectedThreat.severity]}
+                  />
+                )}
+                {measureMode && (
+                  <MeasureTool
+                    key={measureMode}
+                    mode={measureMode}
+                    unit={measureUnit}
+                    onCancel={handleMeasureCancel}
+                  />
+                )}
+                {goToTarget && (
+                  <CircleMarker
+                    center={goToTarget}
+                    radius={8}
+                    pathOptions={{
+                      color: "#ffffff",
+                      weight: 2,
+                      fillColor: "#ef4444",
+                      fillOpacity: 0.8,
+                    }}
+                    eventHandlers={{ click: () => setGoToTarget(null) }}
+                  >
+                    <Tooltip direction="top" offset={[0, -8]}>
+                      {formatMgrs(goToTarget[0], goToTarget[1]) ??
+                        `${goToTarget[0].toFixed(5)}, ${goToTarget[1].toFixed(
+                          5
+                        )}`}
+                      <br />
+                      Click to remove
+                    </Tooltip>
+                  </CircleMarker>
+                )}
+                <CoordinatePanel onGoTo={handleGoTo} />
+              </MapContainer>
+            )}
+            {!loading && (
+              <ThreatLegend
+                symbolSet={symbolSet}
+                onSymbolSetChange={setSymbolSet}
+              />
+            )}
+          </main>
+          {timelineOpen && (
+            <TimelineStrip onClose={() => setTimelineOpen(false)} />
           )}
-        </main>
+        </div>
       </div>
     </div>
   );
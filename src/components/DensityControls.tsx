@@ -0,0 +1,160 @@
+import {
+  HOTSPOT_COLORS,
+  HOTSPOT_LEVELS,
+  NEUTRAL_CELL_COLOR,
+  type HotspotResult,
+} from "../lib/threatDensity";
+import type { DensityMode, DensitySettings } from "../types";
+
+interface DensityControlsProps {
+  settings: DensitySettings;
+  // Analysis of the current time range, when in hotspot mode
+  hotspots: HotspotResult | null;
+  onChange: (settings: DensitySettings) => void;
+}
+
+const MODES: { value: DensityMode; label: string; title: string }[] = [
+  { value: "off", label: "Off", title: "No density layer" },
+  {
+    value: "heatmap",
+    label: "Heatmap",
+    title: "Detections weighted by severity and confidence",
+  },
+  {
+    value: "hotspots",
+    label: "Hotspots",
+    title: "Hex bins with unusual concentrations of detections",
+  },
+];
+
+const segmentClass = (active: boolean) =>
+  `flex-1 px-2 py-1 rounded text-xs font-medium transition-colors ${
+    active ? "bg-red-600 text-white" : "text-gray-400 hover:text-white"
+  }`;
+
+const Slider = ({
+  label,
+  value,
+  min,
+  max,
+  unit,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  unit: string;
+  onChange: (value: number) => void;
+}) => (
+  <div className="flex items-center gap-2">
+    <span className="text-xs text-gray-400 w-14">{label}:</span>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      value={value}
+      onChange={(e) => onChange(parseInt(e.target.value))}
+      className="flex-1 h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-red-600"
+    />
+    <span className="text-xs text-gray-400 w-12 text-right">
+      {value} {unit}
+    </span>
+  </div>
+);
+
+// Heatmap and hotspot settings of the threat density layer
+const DensityControls = ({
+  settings,
+  hotspots,
+  onChange,
+}: DensityControlsProps) => {
+  const update = (changes: Partial<DensitySettings>) =>
+    onChange({ ...settings, ...changes });
+  const hotspotCount =
+    hotspots?.cells.filter((cell) => cell.confidence !== null).length ?? 0;
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider">
+        Threat Density
+      </h3>
+      <div className="flex bg-gray-800 rounded-md p-0.5">
+        {MODES.map((mode) => (
+          <button
+            key={mode.value}
+            onClick={() => update({ mode: mode.value })}
+            className={segmentClass(settings.mode === mode.value)}
+            title={mode.title}
+          >
+            {mode.label}
+          </button>
+        ))}
+      </div>
+
+      {settings.mode === "heatmap" && (
+        <div className="space-y-2">
+          <Slider
+            label="Radius"
+            value={settings.radius}
+            min={5}
+            max={60}
+            unit="px"
+            onChange={(radius) => update({ radius })}
+          />
+          <Slider
+            label="Blur"
+            value={settings.blur}
+            min={1}
+            max={40}
+            unit="px"
+            onChange={(blur) => update({ blur })}
+          />
+        </div>
+      )}
+
+      {settings.mode === "hotspots" && (
+        <div className="space-y-2">
+          <Slider
+            label="Cell"
+            value={settings.cellSize}
+            min={1}
+            max={50}
+            unit="km"
+            onChange={(cellSize) => update({ cellSize })}
+          />
+          {hotspots && hotspots.cellSize > settings.cellSize * 1000 * 1.01 && (
+            <p className="text-[10px] text-yellow-500">
+              Cells widened to {(hotspots.cellSize / 1000).toFixed(1)} km to
+              cover the detections' extent
+            </p>
+          )}
+          <div className="space-y-1 text-xs text-gray-400">
+            {HOTSPOT_LEVELS.map((level) => (
+              <div key={level.confidence} className="flex items-center gap-2">
+                <span
+                  className="w-3 h-3 rounded-sm"
+                  style={{ background: HOTSPOT_COLORS[level.confidence] }}
+                />
+                Hotspot, {level.confidence}% confidence
+              </div>
+            ))}
+            <div className="flex items-center gap-2">
+              <span
+                className="w-3 h-3 rounded-sm opacity-50"
+                style={{ background: NEUTRAL_CELL_COLOR }}
+              />
+              Not significant
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">
+            {hotspotCount} hotspot cell{hotspotCount === 1 ? "" : "s"} in the
+            selected time range. Click a cell to list its detections.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DensityControls;
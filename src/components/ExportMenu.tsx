@@ -0,0 +1,103 @@
+import { useState } from "react";
+import { Download } from "lucide-react";
+import toast from "react-hot-toast";
+import { downloadBlob, fileDate } from "../lib/download";
+import {
+  GIS_FORMATS,
+  GIS_FORMAT_LABELS,
+  exportGis,
+  type GisFormat,
+} from "../lib/gisExport";
+import type { SatelliteImage, ThreatDetection } from "../types";
+
+interface ExportMenuProps {
+  // The threats and images currently shown on the map
+  threats: ThreatDetection[];
+  images: SatelliteImage[];
+}
+
+// Navbar button exporting the filtered detections and image footprints
+const ExportMenu = ({ threats, images }: ExportMenuProps) => {
+  const [open, setOpen] = useState(false);
+  const [includeThreats, setIncludeThreats] = useState(true);
+  const [includeFootprints, setIncludeFootprints] = useState(true);
+
+  const footprints = images.filter((image) => image.bounds);
+  const layers = {
+    threats: includeThreats ? threats : [],
+    images: includeFootprints ? footprints : [],
+  };
+  const empty = layers.threats.length === 0 && layers.images.length === 0;
+
+  const handleExport = (format: GisFormat) => {
+    try {
+      const { blob, fileName } = exportGis(format, layers, fileDate());
+      downloadBlob(blob, fileName);
+      setOpen(false);
+    } catch (error) {
+      toast.error(
+        `Export failed: ${
+          error instanceof Error ? error.message : "unknown error"
+        }`
+      );
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen((prev) => !prev)}
+        className={`p-2 rounded-lg transition-colors ${
+          open
+            ? "bg-red-600 text-white"
+            : "text-gray-300 hover:text-white hover:bg-gray-800"
+        }`}
+        title="Export for GIS"
+      >
+        <Download className="w-5 h-5" />
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-60 bg-gray-900 border border-gray-800 rounded-lg shadow-2xl p-3 space-y-3 z-1100">
+          <div className="space-y-1">
+            <label className="flex items-center gap-2 text-sm text-gray-300">
+              <input
+                type="checkbox"
+                checked={includeThreats}
+                onChange={(e) => setIncludeThreats(e.target.checked)}
+                className="accent-red-600"
+              />
+              Threats ({threats.length})
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-300">
+              <input
+                type="checkbox"
+                checked={includeFootprints}
+                onChange={(e) => setIncludeFootprints(e.target.checked)}
+                className="accent-red-600"
+              />
+              Image footprints ({footprints.length})
+            </label>
+          </div>
+          <div className="grid grid-cols-2 gap-1">
+            {GIS_FORMATS.map((format) => (
+              <button
+                key={format}
+                onClick={() => handleExport(format)}
+                disabled={empty}
+                className="px-2 py-1.5 text-xs text-gray-300 hover:text-white bg-gray-800 hover:bg-gray-700 disabled:opacity-50 rounded transition-colors"
+              >
+                {GIS_FORMAT_LABELS[format]}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500">
+            Filtered by the selected area and time window.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,52 @@
+import { Polygon, Tooltip } from "react-leaflet";
+import {
+  HOTSPOT_COLORS,
+  NEUTRAL_CELL_COLOR,
+  type HexCell,
+} from "../lib/threatDensity";
+
+interface HotspotLayerProps {
+  cells: HexCell[];
+  selectedId: string | null;
+  onCellClick: (cell: HexCell) => void;
+}
+
+// Hex bins colored by the significance of their detection concentration
+const HotspotLayer = ({
+  cells,
+  selectedId,
+  onCellClick,
+}: HotspotLayerProps) => (
+  <>
+    {cells.map((cell) => {
+      const color = cell.confidence
+        ? HOTSPOT_COLORS[cell.confidence]
+        : NEUTRAL_CELL_COLOR;
+      const selected = cell.id === selectedId;
+      return (
+        <Polygon
+          key={cell.id}
+          positions={cell.polygon}
+          pathOptions={{
+            color: selected ? "#ffffff" : color,
+            weight: selected ? 3 : 1,
+            fillColor: color,
+            fillOpacity: cell.confidence ? 0.45 : 0.15,
+          }}
+          eventHandlers={{ click: () => onCellClick(cell) }}
+        >
+          <Tooltip sticky>
+            {cell.threats.length} detection
+            {cell.threats.length === 1 ? "" : "s"}
+            {cell.confidence
+              ? ` · hotspot (${cell.confidence}% confidence)`
+              : ""}
+            {` · z = ${cell.z.toFixed(2)}`}
+          </Tooltip>
+        </Polygon>
+      );
+    })}
+  </>
+);
+
+export default HotspotLayer;
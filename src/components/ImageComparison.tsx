@@ -0,0 +1,618 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import {
+  MapContainer,
+  ImageOverlay,
+  Pane,
+  CircleMarker,
+  Tooltip,
+  useMap,
+} from "react-leaflet";
+import L from "leaflet";
+import toast from "react-hot-toast";
+import {
+  X,
+  Columns2,
+  FlipHorizontal,
+  Zap,
+  Play,
+  Pause,
+  GitCompare,
+  Loader2,
+} from "lucide-react";
+import CogImageLayer from "./CogImageLayer";
+import BasemapLayer from "./BasemapLayer";
+import { useAppDispatch, useAppSelector } from "../store";
+import { analyzeImage } from "../store/slices/satelliteSlice";
+import { apiClient, getErrorMessage } from "../lib/api";
+import type {
+  BasemapSource,
+  SatelliteImageLayer,
+  ThreatDetection,
+} from "../types";
+
+type ComparisonMode = "swipe" | "sideBySide" | "flicker";
+type Bounds = [[number, number], [number, number]];
+
+interface ImageComparisonProps {
+  images: SatelliteImageLayer[];
+  basemap: BasemapSource;
+  onClose: () => void;
+}
+
+const BEFORE_PANE = "compare-before";
+const AFTER_PANE = "compare-after";
+
+const MODES: { value: ComparisonMode; label: string; icon: React.ReactNode }[] =
+  [
+    {
+      value: "swipe",
+      label: "Swipe",
+      icon: <FlipHorizontal className="w-4 h-4" />,
+    },
+    {
+      value: "sideBySide",
+      label: "Side by side",
+      icon: <Columns2 className="w-4 h-4" />,
+    },
+    { value: "flicker", label: "Flicker", icon: <Zap className="w-4 h-4" /> },
+  ];
+
+const FLICKER_INTERVALS = [250, 500, 1000, 2000];
+
+const imageDate = (image: SatelliteImageLayer) =>
+  image.acquisition_date ?? image.upload_date;
+
+const boundsOverlap = (a: Bounds, b: Bounds): boolean => {
+  const [aSouth, aNorth] = [a[0][0], a[1][0]].sort((x, y) => x - y);
+  const [aWest, aEast] = [a[0][1], a[1][1]].sort((x, y) => x - y);
+  const [bSouth, bNorth] = [b[0][0], b[1][0]].sort((x, y) => x - y);
+  const [bWest, bEast] = [b[0][1], b[1][1]].sort((x, y) => x - y);
+  return aSouth < bNorth && bSouth < aNorth && aWest < bEast && bWest < aEast;
+};
+
+// Latest pair of overlapping images, earlier one first
+const defaultPair = (
+  images: SatelliteImageLayer[]
+): [number | null, number | null] => {
+  for (let i = images.length - 1; i > 0; i--) {
+    for (let j = i - 1; j >= 0; j--) {
+      if (boundsOverlap(images[i].bounds!, images[j].bounds!)) {
+        return [images[j].id, images[i].id];
+      }
+    }
+  }
+  return [images[0]?.id ?? null, null];
+};
+
+// Draws an image the same way the main map does
+const ComparisonImage = ({
+  image,
+  pane,
+}: {
+  image: SatelliteImageLayer;
+  pane?: string;
+}) => {
+  if (image.renderMode === "cog" && image.image_url) {
+    return (
+      <CogImageLayer
+        url={image.image_url}
+        name={image.name}
+        opacity={1}
+        rendering={image.rendering}
+        pane={pane}
+      />
+    );
+  }
+  if (!image.map_overlay_url || !image.bounds) return null;
+  return <ImageOverlay url={image.map_overlay_url} bounds={image.bounds} />;
+};
+
+const FitBounds = ({ bounds }: { bounds: L.LatLngBoundsExpression }) => {
+  const map = useMap();
+  const key = JSON.stringify(bounds);
+
+  useEffect(() => {
+    map.fitBounds(JSON.parse(key), { padding: [20, 20] });
+  }, [map, key]);
+
+  return null;
+};
+
+// Clips the image panes at the swipe divider, or hides the after image
+const PaneClip = ({
+  mode,
+  position,
+  showAfter,
+}: {
+  mode: ComparisonMode;
+  position: number;
+  showAfter: boolean;
+}) => {
+  const map = useMap();
+
+  useEffect(() => {
+    const before = map.getPane(BEFORE_PANE);
+    const after = map.getPane(AFTER_PANE);
+    if (!before || !after) return;
+
+    const update = () => {
+      if (mode === "flicker") {
+        before.style.clip = "";
+        after.style.clip = "";
+        after.style.visibility = showAfter ? "visible" : "hidden";
+        return;
+      }
+
+      // Panes move with the map, so clip in layer coordinates
+      const nw = map.containerPointToLayerPoint([0, 0]);
+      const se = map.containerPointToLayerPoint(map.getSize());
+      const x = nw.x + map.getSize().x * position;
+      before.style.clip = `rect(${nw.y}px, ${x}px, ${se.y}px, ${nw.x}px)`;
+      after.style.clip = `rect(${nw.y}px, ${se.x}px, ${se.y}px, ${x}px)`;
+      after.style.visibility = "visible";
+    };
+
+    update();
+    map.on("move zoom resize", update);
+    return () => {
+      map.off("move zoom resize", update);
+    };
+  }, [map, mode, position, showAfter]);
+
+  return null;
+};
+
+const ChangeLayer = ({ detections }: { detections: ThreatDetection[] }) => (
+  <>
+    {detections.map((detection) => (
+      <CircleMarker
+        key={detection.id}
+        center={detection.location_coords}
+        radius={8}
+        pathOptions={{
+          color: "#d946ef",
+          fillColor: "#d946ef",
+          fillOpacity: 0.3 + detection.confidence * 0.5,
+          weight: 2,
+        }}
+      >
+        <Tooltip>
+          {detection.threat_type_display || detection.threat_type} ·{" "}
+          {Math.round(detection.confidence * 100)}%
+        </Tooltip>
+      </CircleMarker>
+    ))}
+  </>
+);
+
+const ImageSelect = ({
+  label,
+  value,
+  images,
+  onChange,
+}: {
+  label: string;
+  value: number | null;
+  images: SatelliteImageLayer[];
+  onChange: (id: number | null) => void;
+}) => (
+  <label className="flex items-center gap-2 text-xs text-gray-400">
+    {label}
+    <select
+      value={value ?? ""}
+      onChange={(e) =>
+        onChange(e.target.value ? parseInt(e.target.value) : null)
+      }
+      className="max-w-48 px-2 py-1.5 bg-gray-800 border border-gray-700 rounded text-sm text-white focus:outline-none focus:border-red-600"
+    >
+      <option value="">
+        {images.length === 0 ? "No overlapping image" : "Select..."}
+      </option>
+      {images.map((image) => (
+        <option key={image.id} value={image.id}>
+          {image.name} · {new Date(imageDate(image)).toLocaleDateString()}
+        </option>
+      ))}
+    </select>
+  </label>
+);
+
+// Compares two images of the same area and their detected changes
+const ImageComparison = ({
+  images,
+  basemap,
+  onClose,
+}: ImageComparisonProps) => {
+  const dispatch = useAppDispatch();
+  const analyses = useAppSelector((state) => state.analysis.analyses);
+  const jobs = useAppSelector((state) => state.jobs.jobs);
+
+  // Only georeferenced images can be compared, oldest first
+  const candidates = useMemo(
+    () =>
+      images
+        .filter((image) => image.bounds)
+        .sort(
+          (a, b) =>
+            new Date(imageDate(a)).getTime() - new Date(imageDate(b)).getTime()
+        ),
+    [images]
+  );
+
+  const [beforeId, setBeforeId] = useState(() => defaultPair(candidates)[0]);
+  const [afterId, setAfterId] = useState(() => defaultPair(candidates)[1]);
+  const [mode, setMode] = useState<ComparisonMode>("swipe");
+  const [position, setPosition] = useState(0.5);
+  const [flickerPlaying, setFlickerPlaying] = useState(true);
+  const [flickerInterval, setFlickerInterval] = useState(500);
+  const [showAfter, setShowAfter] = useState(true);
+  const [showChanges, setShowChanges] = useState(true);
+  const [leftMap, setLeftMap] = useState<L.Map | null>(null);
+  const [rightMap, setRightMap] = useState<L.Map | null>(null);
+  // Change detection started from this view, per image pair
+  const [started, setStarted] = useState<{
+    pair: string;
+    analysisId: number;
+  } | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+  const [changes, setChanges] = useState<{
+    analysisId: number;
+    detections: ThreatDetection[];
+  } | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const before = candidates.find((image) => image.id === beforeId) ?? null;
+  const after = candidates.find((image) => image.id === afterId) ?? null;
+  const afterOptions = before
+    ? candidates.filter(
+        (image) =>
+          image.id !== before.id && boundsOverlap(image.bounds!, before.bounds!)
+      )
+    : [];
+
+  const pair = `${beforeId}:${afterId}`;
+  const latestChangeAnalysis = analyses
+    .filter(
+      (analysis) =>
+        analysis.analysis_type === "change_detection" &&
+        analysis.satellite_image === afterId
+    )
+    .sort(
+      (a, b) =>
+        new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+    )[0];
+  const changeAnalysisId =
+    started?.pair === pair
+      ? started.analysisId
+      : latestChangeAnalysis?.id ?? null;
+  const changeJob = jobs.find(
+    (job) => job.id === `analysis:${changeAnalysisId}`
+  );
+  const changeStatus =
+    changeJob?.status ??
+    analyses.find((analysis) => analysis.id === changeAnalysisId)?.status ??
+    null;
+  const changeDetections =
+    changes && changes.analysisId === changeAnalysisId
+      ? changes.detections
+      : null;
+
+  const fitBounds = useMemo<Bounds | null>(() => {
+    const all = [before?.bounds, after?.bounds].filter((b): b is Bounds => !!b);
+    if (all.length === 0) return null;
+    const lats = all.flatMap((b) => [b[0][0], b[1][0]]);
+    const lngs = all.flatMap((b) => [b[0][1], b[1][1]]);
+    return [
+      [Math.min(...lats), Math.min(...lngs)],
+      [Math.max(...lats), Math.max(...lngs)],
+    ];
+  }, [before?.bounds, after?.bounds]);
+
+  // Load the detections once the change analysis has finished
+  useEffect(() => {
+    if (changeAnalysisId === null || changeStatus !== "completed") return;
+
+    let cancelled = false;
+    apiClient
+      .getAnalysis(changeAnalysisId)
+      .then((analysis) => {
+        if (!cancelled) {
+          setChanges({
+            analysisId: analysis.id,
+            detections: analysis.detections,
+          });
+        }
+      })
+      .catch((error) => {
+        if (!cancelled) {
+          toast.error(`Could not load changes: ${getErrorMessage(error)}`);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [changeAnalysisId, changeStatus]);
+
+  useEffect(() => {
+    if (mode !== "flicker" || !flickerPlaying) return;
+
+    const interval = setInterval(
+      () => setShowAfter((prev) => !prev),
+      flickerInterval
+    );
+    return () => clearInterval(interval);
+  }, [mode, flickerPlaying, flickerInterval]);
+
+  // Keep the side by side maps on the same view
+  useEffect(() => {
+    if (!leftMap || !rightMap) return;
+
+    let syncing = false;
+    const follow = (from: L.Map, to: L.Map) => () => {
+      if (syncing) return;
+      syncing = true;
+      to.setView(from.getCenter(), from.getZoom(), { animate: false });
+      syncing = false;
+    };
+    const fromLeft = follow(leftMap, rightMap);
+    const fromRight = follow(rightMap, leftMap);
+    leftMap.on("move", fromLeft);
+    rightMap.on("move", fromRight);
+    return () => {
+      leftMap.off("move", fromLeft);
+      rightMap.off("move", fromRight);
+    };
+  }, [leftMap, rightMap]);
+
+  const handleBeforeChange = (id: number | null) => {
+    setBeforeId(id);
+    const image = candidates.find((c) => c.id === id);
+    const current = candidates.find((c) => c.id === afterId);
+    if (
+      !image ||
+      !current ||
+      current.id === image.id ||
+      !boundsOverlap(image.bounds!, current.bounds!)
+    ) {
+      setAfterId(null);
+    }
+  };
+
+  const handleDetectChanges = async () => {
+    if (!before || !after) return;
+
+    setIsStarting(true);
+    try {
+      const response = await dispatch(
+        analyzeImage({
+          id: after.id,
+          analysis_type: "change_detection",
+          reference_image: before.id,
+        })
+      ).unwrap();
+      setStarted({ pair, analysisId: response.analysis_id });
+      toast.success("Change detection started");
+    } catch (error) {
+      toast.error(`Change detection could not be started: ${error}`);
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const handleDividerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!event.currentTarget.hasPointerCapture(event.pointerId)) return;
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    setPosition(
+      Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width))
+    );
+  };
+
+  const isChangeRunning =
+    changeStatus === "queued" ||
+    changeStatus === "running" ||
+    changeStatus === "pending" ||
+    changeStatus === "processing";
+
+  const mapLayers = (image: SatelliteImageLayer | null) => (
+    <>
+      <BasemapLayer source={basemap} />
+      {image && <ComparisonImage image={image} />}
+      {fitBounds && <FitBounds bounds={fitBounds} />}
+      {showChanges && changeDetections && (
+        <ChangeLayer detections={changeDetections} />
+      )}
+    </>
+  );
+
+  const dateLabel = (image: SatelliteImageLayer | null) =>
+    image ? new Date(imageDate(image)).toLocaleString() : "—";
+
+  return (
+    <div className="absolute inset-0 z-1100 flex flex-col bg-gray-900">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-3 px-4 py-3 bg-gray-950 border-b border-gray-800">
+        <ImageSelect
+          label="Before"
+          value={beforeId}
+          images={candidates}
+          onChange={handleBeforeChange}
+        />
+        <ImageSelect
+          label="After"
+          value={afterId}
+          images={afterOptions}
+          onChange={setAfterId}
+        />
+
+        <div className="flex bg-gray-800 rounded-md p-0.5">
+          {MODES.map((m) => (
+            <button
+              key={m.value}
+              onClick={() => setMode(m.value)}
+              className={`flex items-center gap-1.5 px-3 py-1.5 rounded text-xs font-medium transition-colors ${
+                mode === m.value
+                  ? "bg-red-600 text-white"
+                  : "text-gray-400 hover:text-white"
+              }`}
+            >
+              {m.icon}
+              {m.label}
+            </button>
+          ))}
+        </div>
+
+        {mode === "flicker" && (
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setFlickerPlaying((prev) => !prev)}
+              className="p-1.5 bg-gray-800 hover:bg-gray-700 rounded text-gray-300"
+              title={flickerPlaying ? "Pause" : "Play"}
+            >
+              {flickerPlaying ? (
+                <Pause className="w-4 h-4" />
+              ) : (
+                <Play className="w-4 h-4" />
+              )}
+            </button>
+            {!flickerPlaying && (
+              <button
+                onClick={() => setShowAfter((prev) => !prev)}
+                className="px-2 py-1 bg-gray-800 hover:bg-gray-700 rounded text-xs text-gray-300"
+              >
+                Show {showAfter ? "before" : "after"}
+              </button>
+            )}
+            <select
+              value={flickerInterval}
+              onChange={(e) => setFlickerInterval(parseInt(e.target.value))}
+              className="px-2 py-1 bg-gray-800 border border-gray-700 rounded text-xs text-white"
+            >
+              {FLICKER_INTERVALS.map((ms) => (
+                <option key={ms} value={ms}>
+                  {ms} ms
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        <div className="flex items-center gap-2 ml-auto">
+          {changeDetections && (
+            <label className="flex items-center gap-1.5 text-xs text-gray-300">
+              <input
+                type="checkbox"
+                checked={showChanges}
+                onChange={(e) => setShowChanges(e.target.checked)}
+                className="accent-fuchsia-500"
+              />
+              Changes ({changeDetections.length})
+            </label>
+          )}
+          <button
+            onClick={handleDetectChanges}
+            disabled={!before || !after || isStarting || isChangeRunning}
+            className="flex items-center gap-2 px-3 py-1.5 bg-fuchsia-700 hover:bg-fuchsia-600 disabled:bg-gray-700 disabled:text-gray-400 text-white text-xs font-medium rounded transition-colors"
+            title="Run change detection of the after image against the before image"
+          >
+            {isStarting || isChangeRunning ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <GitCompare className="w-4 h-4" />
+            )}
+            {isChangeRunning ? "Detecting changes..." : "Detect changes"}
+          </button>
+          {changeStatus === "failed" && (
+            <span className="text-xs text-red-400">
+              Change detection failed
+            </span>
+          )}
+          <button
+            onClick={onClose}
+            className="p-1.5 text-gray-400 hover:text-white hover:bg-gray-800 rounded transition-colors"
+            title="Close comparison"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      {/* Maps */}
+      {!before || !after ? (
+        <div className="flex-1 flex items-center justify-center text-gray-400 text-sm">
+          {candidates.length < 2
+            ? "At least two georeferenced images are needed to compare"
+            : "Pick two images that cover the same area"}
+        </div>
+      ) : mode === "sideBySide" ? (
+        <div className="flex-1 grid grid-cols-2 gap-px bg-gray-800">
+          {[before, after].map((image, i) => (
+            <div key={i} className="relative">
+              <MapContainer
+                ref={i === 0 ? setLeftMap : setRightMap}
+                center={[0, 0]}
+                zoom={2}
+                className="h-full w-full"
+              >
+                {mapLayers(image)}
+              </MapContainer>
+              <div className="absolute top-3 left-3 z-1000 bg-gray-900/90 border border-gray-700 rounded px-2 py-1 text-xs text-white">
+                {i === 0 ? "Before" : "After"} · {dateLabel(image)}
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div ref={containerRef} className="flex-1 relative">
+          <MapContainer center={[0, 0]} zoom={2} className="h-full w-full">
+            <BasemapLayer source={basemap} />
+            <Pane name={BEFORE_PANE} style={{ zIndex: 250 }}>
+              <ComparisonImage image={before} pane={BEFORE_PANE} />
+            </Pane>
+            <Pane name={AFTER_PANE} style={{ zIndex: 260 }}>
+              <ComparisonImage image={after} pane={AFTER_PANE} />
+            </Pane>
+            <PaneClip mode={mode} position={position} showAfter={showAfter} />
+            {fitBounds && <FitBounds bounds={fitBounds} />}
+            {showChanges && changeDetections && (
+              <ChangeLayer detections={changeDetections} />
+            )}
+          </MapContainer>
+
+          {mode === "swipe" ? (
+            <>
+              <div
+                className="absolute top-0 bottom-0 z-1000 w-1 -ml-0.5 bg-white shadow-lg"
+                style={{ left: `${position * 100}%` }}
+              >
+                <div
+                  className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-8 h-8 rounded-full bg-white border-2 border-gray-800 flex items-center justify-center cursor-ew-resize touch-none"
+                  onPointerDown={(e) =>
+                    e.currentTarget.setPointerCapture(e.pointerId)
+                  }
+                  onPointerMove={handleDividerMove}
+                  title="Drag to compare"
+                >
+                  <FlipHorizontal className="w-4 h-4 text-gray-800" />
+                </div>
+              </div>
+              <div className="absolute top-3 left-3 z-1000 bg-gray-900/90 border border-gray-700 rounded px-2 py-1 text-xs text-white">
+                Before · {dateLabel(before)}
+              </div>
+              <div className="absolute top-3 right-3 z-1000 bg-gray-900/90 border border-gray-700 rounded px-2 py-1 text-xs text-white">
+                After · {dateLabel(after)}
+              </div>
+            </>
+          ) : (
+            <div className="absolute top-3 left-1/2 -translate-x-1/2 z-1000 bg-gray-900/90 border border-gray-700 rounded px-3 py-1 text-xs font-medium text-white">
+              {showAfter ? "After" : "Before"} ·{" "}
+              {dateLabel(showAfter ? after : before)}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ImageComparison;
@@ -0,0 +1,153 @@
+import { useEffect, useState } from "react";
+import {
+  ListTodo,
+  ChevronDown,
+  ChevronUp,
+  CheckCircle,
+  Clock,
+  XCircle,
+  RefreshCw,
+  X,
+} from "lucide-react";
+import { useAppDispatch, useAppSelector } from "../store";
+import { useJobTracker } from "../hooks/useJobTracker";
+import {
+  finishedJobsCleared,
+  isJobActive,
+  jobDismissed,
+} from "../store/slices/jobsSlice";
+import type { Job } from "../types";
+
+const formatDuration = (seconds: number): string => {
+  const total = Math.max(0, Math.round(seconds));
+  const minutes = Math.floor(total / 60);
+  const secs = total % 60;
+  return minutes > 0 ? `${minutes}m ${secs}s` : `${secs}s`;
+};
+
+const elapsedSeconds = (job: Job, now: number): number => {
+  if (job.processingTime !== null) return job.processingTime;
+  const end = job.finishedAt ?? now;
+  return (end - job.createdAt) / 1000;
+};
+
+const getStatusIcon = (status: Job["status"]) => {
+  switch (status) {
+    case "completed":
+      return <CheckCircle className="w-4 h-4 text-green-500" />;
+    case "running":
+      return <RefreshCw className="w-4 h-4 text-blue-500 animate-spin" />;
+    case "failed":
+      return <XCircle className="w-4 h-4 text-red-500" />;
+    default:
+      return <Clock className="w-4 h-4 text-yellow-500" />;
+  }
+};
+
+const JobsTrayPanel = () => {
+  const dispatch = useAppDispatch();
+  const jobs = useJobTracker();
+  const [isOpen, setIsOpen] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+
+  const activeCount = jobs.filter(isJobActive).length;
+
+  // Tick elapsed times while something is running and the tray is open
+  useEffect(() => {
+    if (!isOpen || activeCount === 0) return;
+
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isOpen, activeCount]);
+
+  if (jobs.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="fixed bottom-6 right-4 z-1100 w-80">
+      <div className="bg-gray-900 border border-gray-700 rounded-lg shadow-2xl overflow-hidden">
+        <button
+          onClick={() => {
+            setNow(Date.now());
+            setIsOpen(!isOpen);
+          }}
+          className="w-full flex items-center justify-between px-4 py-3 text-white hover:bg-gray-800 transition-colors"
+          aria-expanded={isOpen}
+        >
+          <span className="flex items-center gap-2 text-sm font-semibold">
+            <ListTodo className="w-4 h-4 text-red-500" />
+            Jobs
+            {activeCount > 0 && (
+              <span className="bg-blue-600 text-white text-xs font-bold rounded-full px-2 py-0.5">
+                {activeCount} running
+              </span>
+            )}
+          </span>
+          {isOpen ? (
+            <ChevronDown className="w-4 h-4 text-gray-400" />
+          ) : (
+            <ChevronUp className="w-4 h-4 text-gray-400" />
+          )}
+        </button>
+
+        {isOpen && (
+          <div className="border-t border-gray-800">
+            <div className="max-h-72 overflow-y-auto divide-y divide-gray-800">
+              {jobs.map((job) => (
+                <div key={job.id} className="flex items-start gap-3 px-4 py-3">
+                  <span className="mt-0.5">{getStatusIcon(job.status)}</span>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-white truncate capitalize">
+                      {job.label}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {job.kind === "analysis" ? "Analysis" : "Optimization"} ·{" "}
+                      <span className="capitalize">{job.status}</span> ·{" "}
+                      {formatDuration(elapsedSeconds(job, now))}
+                    </p>
+                    {job.error && (
+                      <p className="text-xs text-red-400 mt-1">{job.error}</p>
+                    )}
+                  </div>
+                  {!isJobActive(job) && (
+                    <button
+                      onClick={() => dispatch(jobDismissed(job.id))}
+                      className="text-gray-500 hover:text-white transition-colors"
+                      aria-label="Dismiss job"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+            {jobs.length > activeCount && (
+              <div className="border-t border-gray-800 px-4 py-2 text-right">
+                <button
+                  onClick={() => dispatch(finishedJobsCleared())}
+                  className="text-xs text-gray-400 hover:text-white transition-colors"
+                >
+                  Clear finished
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Persistent tray listing queued, running and finished background work
+const JobsTray = () => {
+  const { isAuthenticated } = useAppSelector((state) => state.auth);
+
+  if (!isAuthenticated) {
+    return null;
+  }
+
+  return <JobsTrayPanel />;
+};
+
+export default JobsTray;
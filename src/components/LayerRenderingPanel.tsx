@@ -0,0 +1,211 @@
+import {
+  COLOR_RAMP_NAMES,
+  INDEX_LABELS,
+  rampGradient,
+} from "../lib/rasterMath";
+import type {
+  BandRoles,
+  ColorRampName,
+  LayerRendering,
+  SpectralIndex,
+  StretchMode,
+} from "../types";
+
+interface LayerRenderingPanelProps {
+  rendering: LayerRendering;
+  // Unknown until the image header has been streamed
+  bandCount: number | undefined;
+  onChange: (rendering: LayerRendering) => void;
+}
+
+const STRETCHES: { value: StretchMode; label: string; title: string }[] = [
+  { value: "minmax", label: "Min/Max", title: "Full value range" },
+  {
+    value: "percentile",
+    label: "2–98%",
+    title: "Clip the darkest and brightest 2% of pixels",
+  },
+  { value: "equalize", label: "Hist. eq.", title: "Histogram equalization" },
+];
+
+const BAND_ROLES: { key: keyof BandRoles; label: string }[] = [
+  { key: "red", label: "Red" },
+  { key: "green", label: "Green" },
+  { key: "blue", label: "Blue" },
+  { key: "nir", label: "NIR" },
+  { key: "swir", label: "SWIR" },
+];
+
+const COMPOSITE_CHANNELS = ["R", "G", "B"];
+
+const selectClass =
+  "w-full px-2 py-1 bg-gray-900 border border-gray-700 rounded text-xs text-white focus:outline-none focus:border-red-600";
+
+const segmentClass = (active: boolean) =>
+  `flex-1 px-2 py-1 rounded text-xs font-medium transition-colors ${
+    active ? "bg-red-600 text-white" : "text-gray-400 hover:text-white"
+  }`;
+
+// Band compositing, spectral index and stretch settings of a streamed image
+const LayerRenderingPanel = ({
+  rendering,
+  bandCount,
+  onChange,
+}: LayerRenderingPanelProps) => {
+  const bands = Array.from({ length: bandCount ?? 5 }, (_, i) => i);
+  const update = (changes: Partial<LayerRendering>) =>
+    onChange({ ...rendering, ...changes });
+
+  const { red, green, blue, nir } = rendering.bandRoles;
+  const presets: { label: string; composite: [number, number, number] }[] = [
+    { label: "True color", composite: [red, green, blue] },
+    { label: "False color (NIR)", composite: [nir, red, green] },
+  ];
+
+  const bandSelect = (value: number, onSelect: (band: number) => void) => (
+    <select
+      value={value}
+      onChange={(e) => onSelect(parseInt(e.target.value))}
+      className={selectClass}
+    >
+      {bands.map((band) => (
+        <option key={band} value={band}>
+          Band {band + 1}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="mt-3 space-y-3 border-t border-gray-700 pt-3">
+      <div className="flex bg-gray-900 rounded-md p-0.5">
+        <button
+          onClick={() => update({ mode: "composite" })}
+          className={segmentClass(rendering.mode === "composite")}
+        >
+          Composite
+        </button>
+        <button
+          onClick={() => update({ mode: "index" })}
+          className={segmentClass(rendering.mode === "index")}
+        >
+          Index
+        </button>
+      </div>
+
+      {rendering.mode === "composite" ? (
+        <div className="space-y-2">
+          <div className="flex gap-1">
+            {presets.map((preset) => (
+              <button
+                key={preset.label}
+                onClick={() => update({ composite: preset.composite })}
+                className="flex-1 px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-xs text-gray-200 transition-colors"
+              >
+                {preset.label}
+              </button>
+            ))}
+          </div>
+          <div className="grid grid-cols-3 gap-1">
+            {COMPOSITE_CHANNELS.map((channel, i) => (
+              <label key={channel} className="text-xs text-gray-400">
+                {channel}
+                {bandSelect(rendering.composite[i], (band) => {
+                  const composite: [number, number, number] = [
+                    ...rendering.composite,
+                  ];
+                  composite[i] = band;
+                  update({ composite });
+                })}
+              </label>
+            ))}
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <select
+            value={rendering.index}
+            onChange={(e) => update({ index: e.target.value as SpectralIndex })}
+            className={selectClass}
+          >
+            {(Object.keys(INDEX_LABELS) as SpectralIndex[]).map((index) => (
+              <option key={index} value={index}>
+                {INDEX_LABELS[index]}
+              </option>
+            ))}
+          </select>
+          <div className="flex items-center gap-2">
+            <select
+              value={rendering.ramp}
+              onChange={(e) =>
+                update({ ramp: e.target.value as ColorRampName })
+              }
+              className={`${selectClass} w-24`}
+            >
+              {COLOR_RAMP_NAMES.map((ramp) => (
+                <option key={ramp} value={ramp}>
+                  {ramp}
+                </option>
+              ))}
+            </select>
+            <div
+              className="flex-1 h-3 rounded"
+              style={{ background: rampGradient(rendering.ramp) }}
+            />
+          </div>
+          <div className="flex justify-between text-[10px] text-gray-500">
+            <span>Low</span>
+            <span>High</span>
+          </div>
+        </div>
+      )}
+
+      <div>
+        <span className="text-xs text-gray-400">Band roles</span>
+        <div className="grid grid-cols-5 gap-1 mt-1">
+          {BAND_ROLES.map((role) => (
+            <label key={role.key} className="text-[10px] text-gray-500">
+              {role.label}
+              <select
+                value={rendering.bandRoles[role.key]}
+                onChange={(e) =>
+                  update({
+                    bandRoles: {
+                      ...rendering.bandRoles,
+                      [role.key]: parseInt(e.target.value),
+                    },
+                  })
+                }
+                className={`${selectClass} px-1`}
+              >
+                {bands.map((band) => (
+                  <option key={band} value={band}>
+                    {band + 1}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <span className="text-xs text-gray-400">Stretch:</span>
+        <div className="flex flex-1 bg-gray-900 rounded-md p-0.5">
+          {STRETCHES.map((stretch) => (
+            <button
+              key={stretch.value}
+              onClick={() => update({ stretch: stretch.value })}
+              className={segmentClass(rendering.stretch === stretch.value)}
+              title={stretch.title}
+            >
+              {stretch.label}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LayerRenderingPanel;
@@ -0,0 +1,220 @@
+import { useEffect, useState } from "react";
+import {
+  CircleMarker,
+  Polygon,
+  Polyline,
+  Tooltip,
+  useMapEvents,
+} from "react-leaflet";
+import {
+  DISTANCE_UNITS,
+  DISTANCE_UNIT_LABELS,
+  backAzimuth,
+  bearing,
+  formatBearing,
+  formatDistance,
+  formatMeasuredArea,
+  pathLength,
+  polygonArea,
+} from "../lib/measure";
+import type { DistanceUnit, MeasureMode } from "../types";
+
+type LatLng = [number, number];
+
+interface MeasureToolProps {
+  mode: MeasureMode;
+  unit: DistanceUnit;
+  onCancel: () => void;
+}
+
+const MEASURE_MODES: { value: MeasureMode; label: string }[] = [
+  { value: "distance", label: "Distance" },
+  { value: "area", label: "Area" },
+  { value: "bearing", label: "Bearing" },
+];
+
+const MEASURE_HINTS: Record<MeasureMode, string> = {
+  distance: "Click to add points, double-click to finish",
+  area: "Click to add corners, double-click to finish",
+  bearing: "Click the origin, then the target",
+};
+
+const lineStyle = {
+  color: "#facc15",
+  weight: 3,
+  dashArray: "8 6",
+  interactive: false,
+};
+
+// Measures on the map with clicks. A finished measurement stays drawn until
+// the next click starts another.
+const MeasureTool = ({ mode, unit, onCancel }: MeasureToolProps) => {
+  const [points, setPoints] = useState<LatLng[]>([]);
+  const [finished, setFinished] = useState(false);
+  const [cursor, setCursor] = useState<LatLng | null>(null);
+
+  const map = useMapEvents({
+    click: (event) => {
+      const point: LatLng = [event.latlng.lat, event.latlng.lng];
+      if (finished) {
+        setPoints([point]);
+        setFinished(false);
+        return;
+      }
+      // The second click of a double-click lands on the same spot
+      const last = points[points.length - 1];
+      if (last && last[0] === point[0] && last[1] === point[1]) return;
+      setPoints((prev) => [...prev, point]);
+      if (mode === "bearing" && points.length === 1) setFinished(true);
+    },
+    dblclick: () => {
+      if (points.length >= (mode === "area" ? 3 : 2)) setFinished(true);
+    },
+    mousemove: (event) => setCursor([event.latlng.lat, event.latlng.lng]),
+  });
+
+  useEffect(() => {
+    const container = map.getContainer();
+    const zoomOnDoubleClick = map.doubleClickZoom.enabled();
+    map.doubleClickZoom.disable();
+    container.style.cursor = "crosshair";
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onCancel();
+    };
+    document.addEventListener("keydown", handleKeyDown);
+
+    return () => {
+      if (zoomOnDoubleClick) map.doubleClickZoom.enable();
+      container.style.cursor = "";
+      document.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [map, onCancel]);
+
+  const path = !finished && cursor ? [...points, cursor] : points;
+  const end = path[path.length - 1];
+  if (!end) return null;
+
+  let label: string | null = null;
+  if (mode === "distance" && path.length >= 2) {
+    const segment = formatDistance(pathLength(path.slice(-2)), unit);
+    label =
+      path.length > 2
+        ? `${formatDistance(pathLength(path), unit)} (last leg ${segment})`
+        : segment;
+  } else if (mode === "area" && path.length >= 3) {
+    label = `${formatMeasuredArea(
+      polygonArea(path),
+      unit
+    )}, perimeter ${formatDistance(pathLength([...path, path[0]]), unit)}`;
+  } else if (mode === "bearing" && path.length >= 2) {
+    const azimuth = bearing(path[0], path[1]);
+    label = `Az ${formatBearing(azimuth)}, back ${formatBearing(
+      backAzimuth(azimuth)
+    )}, ${formatDistance(pathLength(path), unit)}`;
+  }
+
+  return (
+    <>
+      {mode === "area" && path.length >= 3 && (
+        <Polygon
+          positions={path}
+          pathOptions={{
+            ...lineStyle,
+            fillColor: "#facc15",
+            fillOpacity: 0.15,
+          }}
+        />
+      )}
+      {mode !== "area" && path.length >= 2 && (
+        <Polyline positions={path} pathOptions={lineStyle} />
+      )}
+      {points.map((point, i) => (
+        <CircleMarker
+          key={i}
+          center={point}
+          radius={4}
+          pathOptions={{
+            color: "#111827",
+            fillColor: "#facc15",
+            fillOpacity: 1,
+            interactive: false,
+          }}
+        />
+      ))}
+      {label && (
+        // Keyed by position so the permanent tooltip follows the cursor
+        <CircleMarker
+          key={`${end[0]},${end[1]}`}
+          center={end}
+          radius={0}
+          pathOptions={{ opacity: 0, interactive: false }}
+        >
+          <Tooltip permanent direction="right" offset={[10, 0]}>
+            {label}
+          </Tooltip>
+        </CircleMarker>
+      )}
+    </>
+  );
+};
+
+// Mode and unit switches shown over the map while measuring
+export const MeasureToolbar = ({
+  mode,
+  unit,
+  onModeChange,
+  onUnitChange,
+  onClose,
+}: {
+  mode: MeasureMode;
+  unit: DistanceUnit;
+  onModeChange: (mode: MeasureMode) => void;
+  onUnitChange: (unit: DistanceUnit) => void;
+  onClose: () => void;
+}) => (
+  <div className="absolute top-4 left-1/2 -translate-x-1/2 z-1000 flex flex-col items-center gap-2 px-4 py-2 bg-gray-900 border border-gray-700 rounded-lg shadow-2xl text-sm text-gray-300">
+    <div className="flex items-center gap-3">
+      <div className="flex bg-gray-800 rounded-md p-0.5">
+        {MEASURE_MODES.map(({ value, label }) => (
+          <button
+            key={value}
+            onClick={() => onModeChange(value)}
+            className={`px-2 py-0.5 text-xs rounded ${
+              mode === value
+                ? "bg-gray-700 text-white"
+                : "text-gray-400 hover:text-white"
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      <div className="flex bg-gray-800 rounded-md p-0.5">
+        {DISTANCE_UNITS.map((value) => (
+          <button
+            key={value}
+            onClick={() => onUnitChange(value)}
+            title={DISTANCE_UNIT_LABELS[value]}
+            className={`px-2 py-0.5 text-xs rounded ${
+              unit === value
+                ? "bg-gray-700 text-white"
+                : "text-gray-400 hover:text-white"
+            }`}
+          >
+            {value}
+          </button>
+        ))}
+      </div>
+      <button
+        onClick={onClose}
+        className="px-2 py-0.5 text-xs text-gray-400 hover:text-white bg-gray-800 hover:bg-gray-700 rounded transition-colors"
+      >
+        Done (Esc)
+      </button>
+    </div>
+    <span className="text-xs text-gray-400">{MEASURE_HINTS[mode]}</span>
+  </div>
+);
+
+export default MeasureTool;
@@ -0,0 +1,122 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { AlertTriangle, RefreshCw, WifiOff, X } from "lucide-react";
+import { useAppDispatch, useAppSelector } from "../store";
+import {
+  dismissOfflineWrite,
+  loadOfflineWrites,
+  replayOfflineWrites,
+} from "../store/slices/offlineSlice";
+import type { OfflineWrite } from "../types";
+
+const WRITE_LABELS: Record<OfflineWrite["kind"], string> = {
+  verify: "Verify",
+  acknowledge: "Acknowledge",
+  comment: "Note on",
+};
+
+const OfflineBanner = () => {
+  const dispatch = useAppDispatch();
+  const userId = useAppSelector((state) => state.auth.user?.id);
+  const { online, writes, replaying } = useAppSelector(
+    (state) => state.offline
+  );
+  const [showConflicts, setShowConflicts] = useState(false);
+
+  useEffect(() => {
+    if (userId !== undefined) dispatch(loadOfflineWrites(userId));
+  }, [dispatch, userId]);
+
+  const pending = writes.filter((write) => write.conflict === null).length;
+  const conflicts = writes.filter((write) => write.conflict !== null);
+
+  if (userId === undefined || (online && writes.length === 0)) return null;
+
+  return (
+    <div className="fixed top-3 left-1/2 -translate-x-1/2 z-[1100] w-[min(32rem,calc(100vw-1.5rem))] bg-gray-900 border border-gray-700 rounded-lg shadow-xl text-sm">
+      <div className="flex items-center gap-3 px-4 py-2">
+        {online ? (
+          <RefreshCw
+            className={`w-4 h-4 text-blue-400 shrink-0 ${
+              replaying ? "animate-spin" : ""
+            }`}
+          />
+        ) : (
+          <WifiOff className="w-4 h-4 text-amber-400 shrink-0" />
+        )}
+        <div className="flex-1 text-gray-200">
+          {!online
+            ? "Offline, showing cached data"
+            : pending > 0
+            ? "Back online"
+            : "Some offline changes were rejected"}
+          {pending > 0 && (
+            <span className="text-gray-400">
+              {" "}
+              · {pending} change{pending === 1 ? "" : "s"} waiting to sync
+            </span>
+          )}
+        </div>
+        {online && pending > 0 && (
+          <button
+            onClick={() => dispatch(replayOfflineWrites())}
+            disabled={replaying}
+            className="px-2 py-1 text-xs text-blue-300 hover:text-white hover:bg-gray-800 rounded disabled:opacity-50"
+          >
+            {replaying ? "Syncing…" : "Sync now"}
+          </button>
+        )}
+        {conflicts.length > 0 && (
+          <button
+            onClick={() => setShowConflicts((show) => !show)}
+            className="flex items-center gap-1 px-2 py-1 text-xs text-red-300 hover:text-white hover:bg-gray-800 rounded"
+          >
+            <AlertTriangle className="w-3.5 h-3.5" />
+            {conflicts.length} rejected
+          </button>
+        )}
+      </div>
+
+      {showConflicts && conflicts.length > 0 && (
+        <ul className="border-t border-gray-800 max-h-60 overflow-y-auto">
+          {conflicts.map((write) => (
+            <li
+              key={write.id}
+              className="flex items-start gap-3 px-4 py-2 border-b border-gray-800 last:border-b-0"
+            >
+              <div className="flex-1 min-w-0">
+                <div className="text-gray-200">
+                  {WRITE_LABELS[write.kind]}{" "}
+                  <Link
+                    to={`/threats/${write.threat_id}`}
+                    className="text-blue-400 hover:underline"
+                  >
+                    threat #{write.threat_id}
+                  </Link>
+                </div>
+                {write.kind === "comment" && (
+                  <div className="text-xs text-gray-400 truncate">
+                    {write.body}
+                  </div>
+                )}
+                <div className="text-xs text-red-300">{write.conflict}</div>
+                <div className="text-xs text-gray-500">
+                  Queued {new Date(write.queued_at).toLocaleString()}
+                </div>
+              </div>
+              <button
+                onClick={() => dispatch(dismissOfflineWrite(write.id))}
+                className="p-1 text-gray-400 hover:text-white hover:bg-gray-800 rounded"
+                title="Dismiss"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default OfflineBanner;
@@ -0,0 +1,52 @@
+import { Circle, CircleMarker, Tooltip } from "react-leaflet";
+import { METERS_PER_UNIT, destination, formatDistance } from "../lib/measure";
+import type { DistanceUnit, RangeRingSettings } from "../types";
+
+interface RangeRingsProps {
+  center: [number, number];
+  settings: RangeRingSettings;
+  unit: DistanceUnit;
+  color: string;
+}
+
+// Concentric rings around a point, labelled with their radius at the top
+const RangeRings = ({ center, settings, unit, color }: RangeRingsProps) => {
+  const radii = Array.from(
+    { length: settings.count },
+    (_, i) => (i + 1) * settings.interval * METERS_PER_UNIT[unit]
+  );
+
+  return (
+    <>
+      {radii.map((radius, i) => (
+        <Circle
+          key={radius}
+          center={center}
+          radius={radius}
+          pathOptions={{
+            color,
+            weight: i === radii.length - 1 ? 2 : 1,
+            fillColor: color,
+            // Only the innermost ring is filled, so the area stays readable
+            fillOpacity: i === 0 ? 0.2 : 0,
+            interactive: false,
+          }}
+        />
+      ))}
+      {radii.map((radius) => (
+        <CircleMarker
+          key={`label-${radius}`}
+          center={destination(center, 0, radius)}
+          radius={0}
+          pathOptions={{ opacity: 0, interactive: false }}
+        >
+          <Tooltip permanent direction="center">
+            {formatDistance(radius, unit)}
+          </Tooltip>
+        </CircleMarker>
+      ))}
+    </>
+  );
+};
+
+export default RangeRings;
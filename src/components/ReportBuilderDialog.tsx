@@ -0,0 +1,409 @@
+import { useMemo, useState } from "react";
+import { FileText, Printer, Download, Save, Trash2, X } from "lucide-react";
+import toast from "react-hot-toast";
+import { useAppSelector } from "../store";
+import { downloadBlob, fileDate } from "../lib/download";
+import { basemapUrlTemplate } from "../lib/basemaps";
+import { createId } from "../lib/ids";
+import {
+  BUILTIN_REPORT_TEMPLATES,
+  REPORT_SECTIONS,
+  REPORT_SECTION_LABELS,
+  buildReportHtml,
+  loadReportTemplates,
+  printReport,
+  reportThreats,
+  saveReportTemplates,
+  type ReportOptions,
+} from "../lib/report";
+import { SEVERITIES, type ThreatSeverity } from "../lib/threatStyle";
+import type {
+  BasemapSource,
+  ReportSection,
+  ReportTemplate,
+  SatelliteImage,
+  ThreatDetection,
+} from "../types";
+
+interface ReportBuilderDialogProps {
+  threats: ThreatDetection[];
+  images: SatelliteImage[];
+  // Basemap drawn under the map snapshots
+  basemap: BasemapSource;
+  onClose: () => void;
+}
+
+const DEFAULT_DAYS = 7;
+
+const inputClass =
+  "w-full px-2 py-1 bg-gray-800 border border-gray-700 rounded text-sm text-white focus:outline-none focus:border-red-600";
+
+const labelClass = "block text-xs text-gray-400 mb-1";
+
+// Value for a datetime-local input, in local time
+const toLocalInput = (date: Date) =>
+  new Date(date.getTime() - date.getTimezoneOffset() * 60000)
+    .toISOString()
+    .slice(0, 16);
+
+const ReportBuilderDialog = ({
+  threats,
+  images,
+  basemap,
+  onClose,
+}: ReportBuilderDialogProps) => {
+  const user = useAppSelector((state) => state.auth.user);
+  const aois = useAppSelector((state) => state.aoi.items);
+  const [savedTemplates, setSavedTemplates] = useState<ReportTemplate[]>(() =>
+    user ? loadReportTemplates(user.id) : []
+  );
+  const [draft, setDraft] = useState<ReportTemplate>(
+    BUILTIN_REPORT_TEMPLATES[0]
+  );
+  const [from, setFrom] = useState(() =>
+    toLocalInput(new Date(Date.now() - DEFAULT_DAYS * 24 * 60 * 60 * 1000))
+  );
+  const [to, setTo] = useState(() => toLocalInput(new Date()));
+  const [aoiId, setAoiId] = useState("");
+  const [minSeverity, setMinSeverity] = useState<ThreatSeverity>("low");
+  const [summary, setSummary] = useState("");
+
+  const templates = [...BUILTIN_REPORT_TEMPLATES, ...savedTemplates];
+  const selected = templates.find((template) => template.id === draft.id);
+  const edited =
+    !selected || JSON.stringify(selected) !== JSON.stringify(draft);
+
+  const options: ReportOptions | null = useMemo(() => {
+    if (!from || !to || from > to) return null;
+    const window = {
+      from: new Date(from).toISOString(),
+      to: new Date(to).toISOString(),
+    };
+    return {
+      window,
+      aoi: aois.find((aoi) => aoi.id === aoiId) ?? null,
+      minSeverity,
+      summary,
+    };
+  }, [from, to, aois, aoiId, minSeverity, summary]);
+
+  const included = useMemo(
+    () => (options ? reportThreats(threats, options) : []),
+    [threats, options]
+  );
+
+  const updateDraft = (changes: Partial<ReportTemplate>) =>
+    setDraft((current) => ({ ...current, ...changes }));
+
+  const toggleSection = (section: ReportSection) =>
+    updateDraft({
+      sections: draft.sections.includes(section)
+        ? draft.sections.filter((item) => item !== section)
+        : REPORT_SECTIONS.filter(
+            (item) => item === section || draft.sections.includes(item)
+          ),
+    });
+
+  const storeTemplates = (next: ReportTemplate[]) => {
+    setSavedTemplates(next);
+    if (user) saveReportTemplates(user.id, next);
+  };
+
+  const handleSaveTemplate = () => {
+    if (draft.builtin) {
+      const copy = {
+        ...draft,
+        id: createId(),
+        name:
+          draft.name === selected?.name ? `${draft.name} (copy)` : draft.name,
+        builtin: false,
+      };
+      storeTemplates([...savedTemplates, copy]);
+      setDraft(copy);
+      toast.success(`Template "${copy.name}" saved`);
+    } else {
+      storeTemplates(
+        savedTemplates.map((template) =>
+          template.id === draft.id ? draft : template
+        )
+      );
+      toast.success(`Template "${draft.name}" updated`);
+    }
+  };
+
+  const handleDeleteTemplate = () => {
+    storeTemplates(
+      savedTemplates.filter((template) => template.id !== draft.id)
+    );
+    setDraft(BUILTIN_REPORT_TEMPLATES[0]);
+  };
+
+  const buildHtml = () =>
+    options &&
+    buildReportHtml({
+      template: draft,
+      options,
+      threats: included,
+      images,
+      tileUrl: basemapUrlTemplate(basemap),
+      author: user
+        ? [user.rank, user.full_name || user.email].filter(Boolean).join(" ")
+        : "Unknown",
+      generatedAt: new Date(),
+    });
+
+  const handlePrint = () => {
+    const html = buildHtml();
+    if (html && !printReport(html)) {
+      toast.error("Allow pop-ups for this site to print the report");
+    }
+  };
+
+  const handleDownload = () => {
+    const html = buildHtml();
+    if (!html) return;
+    downloadBlob(
+      new Blob([html], { type: "text/html" }),
+      `intelligence-report-${fileDate()}.html`
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-2000 p-4">
+      <div className="bg-gray-900 border border-gray-800 rounded-2xl max-w-3xl w-full max-h-[90vh] flex flex-col shadow-2xl">
+        <div className="flex items-center justify-between p-6 pb-4">
+          <div className="flex items-center gap-2">
+            <FileText className="w-5 h-5 text-red-500" />
+            <h3 className="text-lg font-bold text-white">
+              Intelligence Report
+            </h3>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition-colors"
+            aria-label="Close report builder"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="px-6 pb-4 overflow-y-auto grid grid-cols-2 gap-6">
+          {/* Contents */}
+          <div className="space-y-3">
+            <h4 className="text-sm font-semibold text-white">Contents</h4>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className={labelClass} htmlFor="report-from">
+                  From
+                </label>
+                <input
+                  id="report-from"
+                  type="datetime-local"
+                  value={from}
+                  onChange={(e) => setFrom(e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className={labelClass} htmlFor="report-to">
+                  To
+                </label>
+                <input
+                  id="report-to"
+                  type="datetime-local"
+                  value={to}
+                  onChange={(e) => setTo(e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+            <div>
+              <label className={labelClass} htmlFor="report-aoi">
+                Area of interest
+              </label>
+              <select
+                id="report-aoi"
+                value={aoiId}
+                onChange={(e) => setAoiId(e.target.value)}
+                className={inputClass}
+              >
+                <option value="">All areas</option>
+                {aois.map((aoi) => (
+                  <option key={aoi.id} value={aoi.id}>
+                    {aoi.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass} htmlFor="report-severity">
+                Minimum severity
+              </label>
+              <select
+                id="report-severity"
+                value={minSeverity}
+                onChange={(e) =>
+                  setMinSeverity(e.target.value as ThreatSeverity)
+                }
+                className={`${inputClass} capitalize`}
+              >
+                {SEVERITIES.map((severity) => (
+                  <option key={severity} value={severity}>
+                    {severity}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass} htmlFor="report-summary">
+                Analyst summary
+              </label>
+              <textarea
+                id="report-summary"
+                value={summary}
+                onChange={(e) => setSummary(e.target.value)}
+                rows={5}
+                placeholder="Assessment opening the analyst notes"
+                className={`${inputClass} resize-none`}
+              />
+            </div>
+            <p className="text-xs text-gray-400">
+              {options
+                ? `${included.length} detections in the report. False positives are left out.`
+                : "The start of the period must come before its end."}
+            </p>
+          </div>
+
+          {/* Template */}
+          <div className="space-y-3">
+            <h4 className="text-sm font-semibold text-white">Template</h4>
+            <div className="flex gap-2">
+              <select
+                value={draft.id}
+                onChange={(e) =>
+                  setDraft(
+                    templates.find(
+                      (template) => template.id === e.target.value
+                    ) ?? BUILTIN_REPORT_TEMPLATES[0]
+                  )
+                }
+                className={inputClass}
+                aria-label="Template"
+              >
+                {templates.map((template) => (
+                  <option key={template.id} value={template.id}>
+                    {template.name}
+                  </option>
+                ))}
+              </select>
+              {!draft.builtin && (
+                <button
+                  onClick={handleDeleteTemplate}
+                  className="p-1.5 rounded text-gray-400 hover:text-red-400 hover:bg-gray-800 transition-colors"
+                  title="Delete template"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+            <div>
+              <label className={labelClass} htmlFor="report-template-name">
+                Template name
+              </label>
+              <input
+                id="report-template-name"
+                value={draft.name}
+                onChange={(e) => updateDraft({ name: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass} htmlFor="report-title">
+                Report title
+              </label>
+              <input
+                id="report-title"
+                value={draft.title}
+                onChange={(e) => updateDraft({ title: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass} htmlFor="report-classification">
+                Classification banner
+              </label>
+              <div className="flex gap-2">
+                <input
+                  id="report-classification"
+                  value={draft.classification}
+                  onChange={(e) =>
+                    updateDraft({ classification: e.target.value })
+                  }
+                  className={`${inputClass} uppercase`}
+                />
+                <input
+                  type="color"
+                  value={draft.classification_color}
+                  onChange={(e) =>
+                    updateDraft({ classification_color: e.target.value })
+                  }
+                  className="w-10 h-8 bg-gray-800 border border-gray-700 rounded cursor-pointer"
+                  aria-label="Banner color"
+                />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <span className={labelClass}>Sections</span>
+              {REPORT_SECTIONS.map((section) => (
+                <label
+                  key={section}
+                  className="flex items-center gap-2 text-sm text-gray-300"
+                >
+                  <input
+                    type="checkbox"
+                    checked={draft.sections.includes(section)}
+                    onChange={() => toggleSection(section)}
+                    disabled={
+                      section === "chips" && !draft.sections.includes("threats")
+                    }
+                    className="accent-red-600"
+                  />
+                  {REPORT_SECTION_LABELS[section]}
+                </label>
+              ))}
+            </div>
+            <button
+              onClick={handleSaveTemplate}
+              disabled={!edited || !draft.name.trim()}
+              className="flex items-center gap-2 px-3 py-1.5 text-xs text-gray-300 hover:text-white bg-gray-800 hover:bg-gray-700 disabled:opacity-50 border border-gray-700 rounded-lg transition-colors"
+            >
+              <Save className="w-4 h-4" />
+              {draft.builtin ? "Save as new template" : "Save template"}
+            </button>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 p-6 pt-4 border-t border-gray-800">
+          <button
+            onClick={handleDownload}
+            disabled={!options}
+            className="flex items-center gap-2 px-4 py-2 text-sm text-gray-300 hover:text-white bg-gray-800 hover:bg-gray-700 disabled:opacity-50 rounded-lg transition-colors"
+          >
+            <Download className="w-4 h-4" />
+            Download HTML
+          </button>
+          <button
+            onClick={handlePrint}
+            disabled={!options}
+            className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-red-600 hover:bg-red-700 disabled:opacity-50 rounded-lg transition-colors"
+          >
+            <Printer className="w-4 h-4" />
+            Print or save as PDF
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReportBuilderDialog;
@@ -0,0 +1,197 @@
+import { useState } from "react";
+import { Ban, RotateCcw, Tags } from "lucide-react";
+import toast from "react-hot-toast";
+import { useAppDispatch } from "../store";
+import { correctThreat } from "../store/slices/threatSlice";
+import {
+  CORRECTION_LABELS,
+  FALSE_POSITIVE_REASONS,
+} from "../lib/threatCorrections";
+import { SEVERITIES, THREAT_TYPE_LABELS } from "../lib/threatStyle";
+import type {
+  FalsePositiveReason,
+  ThreatCorrectionInput,
+  ThreatDetection,
+} from "../types";
+
+interface ThreatCorrectionPanelProps {
+  threat: ThreatDetection;
+  // Called once the server has recorded a correction
+  onCorrected?: () => void;
+}
+
+const inputClass =
+  "w-full px-2 py-1 bg-gray-900 border border-gray-700 rounded text-sm text-white focus:outline-none focus:border-red-600";
+
+// Dismissal and reclassification of a detection the model got wrong
+const ThreatCorrectionPanel = ({
+  threat,
+  onCorrected,
+}: ThreatCorrectionPanelProps) => {
+  const dispatch = useAppDispatch();
+  const [mode, setMode] = useState<"reclassify" | "dismiss" | null>(null);
+  const [threatType, setThreatType] = useState(threat.threat_type);
+  const [severity, setSeverity] = useState(threat.severity);
+  const [reason, setReason] = useState<FalsePositiveReason>("terrain");
+  const [comment, setComment] = useState("");
+
+  const threatTypes = Array.from(
+    new Set([...Object.keys(THREAT_TYPE_LABELS), threat.threat_type])
+  );
+
+  const submit = async (correction: ThreatCorrectionInput) => {
+    setMode(null);
+    setComment("");
+    try {
+      await dispatch(correctThreat({ threat, correction })).unwrap();
+      toast.success(CORRECTION_LABELS[correction.kind]);
+      onCorrected?.();
+    } catch (error) {
+      toast.error(`Correction not saved, change undone: ${error as string}`);
+    }
+  };
+
+  if (threat.false_positive) {
+    return (
+      <div className="flex items-center gap-3 p-3 bg-gray-800 border border-gray-700 rounded-lg">
+        <Ban className="w-4 h-4 text-gray-400 shrink-0" />
+        <div className="flex-1 text-sm">
+          <div className="text-white">Dismissed as false positive</div>
+          {threat.false_positive_reason && (
+            <div className="text-xs text-gray-400">
+              {FALSE_POSITIVE_REASONS[threat.false_positive_reason]}
+            </div>
+          )}
+        </div>
+        <button
+          onClick={() => submit({ kind: "restore" })}
+          className="flex items-center gap-1 px-2 py-1 text-xs text-gray-300 hover:text-white hover:bg-gray-700 rounded transition-colors"
+        >
+          <RotateCcw className="w-3 h-3" />
+          Restore
+        </button>
+      </div>
+    );
+  }
+
+  const reclassified =
+    threatType !== threat.threat_type || severity !== threat.severity;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <button
+          onClick={() => setMode(mode === "reclassify" ? null : "reclassify")}
+          className={`flex-1 flex items-center justify-center gap-2 px-3 py-1.5 rounded-lg border text-xs transition-colors ${
+            mode === "reclassify"
+              ? "bg-gray-700 border-gray-500 text-white"
+              : "bg-gray-800 border-gray-700 text-gray-300 hover:text-white"
+          }`}
+        >
+          <Tags className="w-4 h-4" />
+          Reclassify
+        </button>
+        <button
+          onClick={() => setMode(mode === "dismiss" ? null : "dismiss")}
+          className={`flex-1 flex items-center justify-center gap-2 px-3 py-1.5 rounded-lg border text-xs transition-colors ${
+            mode === "dismiss"
+              ? "bg-gray-700 border-gray-500 text-white"
+              : "bg-gray-800 border-gray-700 text-gray-300 hover:text-white"
+          }`}
+        >
+          <Ban className="w-4 h-4" />
+          False positive
+        </button>
+      </div>
+
+      {mode === "reclassify" && (
+        <div className="p-3 bg-gray-800 border border-gray-700 rounded-lg space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            <select
+              value={threatType}
+              onChange={(e) => setThreatType(e.target.value)}
+              className={inputClass}
+              aria-label="Threat type"
+            >
+              {threatTypes.map((type) => (
+                <option key={type} value={type}>
+                  {THREAT_TYPE_LABELS[type] ?? type}
+                </option>
+              ))}
+            </select>
+            <select
+              value={severity}
+              onChange={(e) =>
+                setSeverity(e.target.value as ThreatDetection["severity"])
+              }
+              className={`${inputClass} capitalize`}
+              aria-label="Severity"
+            >
+              {SEVERITIES.map((s) => (
+                <option key={s} value={s}>
+                  {s}
+                </option>
+              ))}
+            </select>
+          </div>
+          <input
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder="Comment (optional)"
+            className={inputClass}
+          />
+          <button
+            onClick={() =>
+              submit({
+                kind: "reclassify",
+                threat_type: threatType,
+                severity,
+                comment: comment.trim(),
+              })
+            }
+            disabled={!reclassified}
+            className="w-full px-3 py-1 bg-red-600 hover:bg-red-700 disabled:opacity-50 text-white text-xs font-medium rounded transition-colors"
+          >
+            Save classification
+          </button>
+        </div>
+      )}
+
+      {mode === "dismiss" && (
+        <div className="p-3 bg-gray-800 border border-gray-700 rounded-lg space-y-2">
+          <select
+            value={reason}
+            onChange={(e) => setReason(e.target.value as FalsePositiveReason)}
+            className={inputClass}
+            aria-label="Reason"
+          >
+            {Object.entries(FALSE_POSITIVE_REASONS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <input
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder={
+              reason === "other" ? "What is it?" : "Comment (optional)"
+            }
+            className={inputClass}
+          />
+          <button
+            onClick={() =>
+              submit({ kind: "dismiss", reason, comment: comment.trim() })
+            }
+            disabled={reason === "other" && !comment.trim()}
+            className="w-full px-3 py-1 bg-red-600 hover:bg-red-700 disabled:opacity-50 text-white text-xs font-medium rounded transition-colors"
+          >
+            Dismiss detection
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ThreatCorrectionPanel;
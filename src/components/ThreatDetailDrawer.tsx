@@ -0,0 +1,117 @@
+import { Link } from "react-router-dom";
+import { CheckCircle, Eye, ExternalLink, MapPin, X } from "lucide-react";
+import ThreatImageChip from "./ThreatImageChip";
+import ThreatCorrectionPanel from "./ThreatCorrectionPanel";
+import { SEVERITY_COLORS } from "../lib/threatStyle";
+import type { SatelliteImage, ThreatDetection } from "../types";
+
+interface ThreatDetailDrawerProps {
+  threat: ThreatDetection;
+  image: SatelliteImage | undefined;
+  reviewing: boolean;
+  onVerify: () => void;
+  onAcknowledge: () => void;
+  onClose: () => void;
+}
+
+// Side panel with the image around a detection and its review state
+const ThreatDetailDrawer = ({
+  threat,
+  image,
+  reviewing,
+  onVerify,
+  onAcknowledge,
+  onClose,
+}: ThreatDetailDrawerProps) => (
+  <aside className="w-96 shrink-0 bg-gray-900 border-l border-gray-800 flex flex-col overflow-hidden">
+    <div className="flex items-center justify-between px-4 py-3 border-b border-gray-800">
+      <div className="flex items-center gap-2 min-w-0">
+        <span
+          className="w-3 h-3 rounded-full shrink-0"
+          style={{ background: SEVERITY_COLORS[threat.severity] }}
+        />
+        <h2 className="text-white font-bold truncate">
+          {threat.threat_type_display || threat.threat_type} #{threat.id}
+        </h2>
+      </div>
+      <button
+        onClick={onClose}
+        className="text-gray-400 hover:text-white transition-colors"
+        aria-label="Close details"
+      >
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+
+    <div className="flex-1 overflow-y-auto p-4 space-y-4">
+      <ThreatImageChip image={image} point={threat.location_coords} />
+
+      <dl className="grid grid-cols-3 gap-y-2 text-sm">
+        <dt className="text-gray-400">Severity</dt>
+        <dd
+          className="col-span-2 font-bold uppercase"
+          style={{ color: SEVERITY_COLORS[threat.severity] }}
+        >
+          {threat.severity_display || threat.severity}
+        </dd>
+        <dt className="text-gray-400">Confidence</dt>
+        <dd className="col-span-2 text-white">
+          {Math.round(threat.confidence * 100)}%
+        </dd>
+        <dt className="text-gray-400">Image</dt>
+        <dd className="col-span-2 text-white truncate">{threat.image_name}</dd>
+        <dt className="text-gray-400">Detected</dt>
+        <dd className="col-span-2 text-white">
+          {new Date(threat.detected_at).toLocaleString()}
+        </dd>
+        <dt className="text-gray-400">Location</dt>
+        <dd className="col-span-2 text-white flex items-center gap-1">
+          <MapPin className="w-3 h-3 text-gray-400" />
+          {threat.location_coords[0].toFixed(5)},{" "}
+          {threat.location_coords[1].toFixed(5)}
+        </dd>
+      </dl>
+
+      {threat.description && (
+        <p className="text-sm text-gray-300">{threat.description}</p>
+      )}
+
+      <ThreatCorrectionPanel key={threat.id} threat={threat} />
+
+      <Link
+        to={`/threats/${threat.id}`}
+        className="flex items-center gap-2 text-sm text-red-500 hover:underline"
+      >
+        <ExternalLink className="w-4 h-4" />
+        Open details, history and notes
+      </Link>
+
+      {threat.notes && (
+        <div className="p-3 bg-gray-800 rounded-lg text-sm text-gray-300 whitespace-pre-wrap">
+          {threat.notes}
+        </div>
+      )}
+    </div>
+
+    <div className="p-4 border-t border-gray-800 flex gap-2">
+      <button
+        onClick={onVerify}
+        disabled={reviewing || threat.verified}
+        className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white text-sm font-medium rounded-lg transition-colors"
+      >
+        <CheckCircle className="w-4 h-4" />
+        {threat.verified ? "Verified" : "Verify"}
+      </button>
+      <button
+        onClick={onAcknowledge}
+        disabled={reviewing || threat.acknowledged}
+        className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white text-sm font-medium rounded-lg transition-colors"
+      >
+        <Eye className="w-4 h-4" />
+        {threat.acknowledged ? "Acknowledged" : "Acknowledge"}
+      </button>
+    </div>
+  </aside>
+);
+
+export default ThreatDetailDrawer;
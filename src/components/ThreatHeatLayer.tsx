@@ -0,0 +1,60 @@
+import { useEffect, useMemo, useRef } from "react";
+import { useMap } from "react-leaflet";
+import L from "leaflet";
+import "leaflet.heat";
+import { heatPoints } from "../lib/threatDensity";
+import type { ThreatDetection } from "../types";
+
+interface ThreatHeatLayerProps {
+  threats: ThreatDetection[];
+  radius: number;
+  blur: number;
+}
+
+const HEAT_GRADIENT = {
+  0.2: "#3b82f6",
+  0.4: "#22c55e",
+  0.6: "#eab308",
+  0.8: "#f97316",
+  1: "#dc2626",
+};
+
+// Density of detections weighted by severity and confidence
+const ThreatHeatLayer = ({ threats, radius, blur }: ThreatHeatLayerProps) => {
+  const map = useMap();
+  const layerRef = useRef<L.HeatLayer | null>(null);
+  const points = useMemo(() => heatPoints(threats), [threats]);
+  // Latest props for layers created after they last changed
+  const pointsRef = useRef(points);
+  const optionsRef = useRef({ radius, blur });
+
+  useEffect(() => {
+    const layer = L.heatLayer(pointsRef.current, {
+      ...optionsRef.current,
+      max: 1,
+      minOpacity: 0.2,
+      gradient: HEAT_GRADIENT,
+    });
+    layer.addTo(map);
+    layerRef.current = layer;
+
+    return () => {
+      layer.remove();
+      layerRef.current = null;
+    };
+  }, [map]);
+
+  useEffect(() => {
+    pointsRef.current = points;
+    layerRef.current?.setLatLngs(points);
+  }, [points]);
+
+  useEffect(() => {
+    optionsRef.current = { radius, blur };
+    layerRef.current?.setOptions({ radius, blur });
+  }, [radius, blur]);
+
+  return null;
+};
+
+export default ThreatHeatLayer;
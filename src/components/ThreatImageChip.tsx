@@ -0,0 +1,65 @@
+import { useState } from "react";
+import { ImageOff } from "lucide-react";
+import { cropBackground, cropSourceUrl, cropWindow } from "../lib/imageCrop";
+import type { SatelliteImage } from "../types";
+
+interface ThreatImageChipProps {
+  image: SatelliteImage | undefined;
+  point: [number, number];
+  // Width of the area shown, in meters
+  size?: number;
+  className?: string;
+}
+
+// Crop of the rendered image around a detection, with a crosshair on it
+const ThreatImageChip = ({
+  image,
+  point,
+  size = 500,
+  className = "",
+}: ThreatImageChipProps) => {
+  const [failedUrl, setFailedUrl] = useState<string | null>(null);
+  const url = image ? cropSourceUrl(image) : null;
+  const crop = image?.bounds ? cropWindow(image.bounds, point, size) : null;
+
+  if (!url || !crop || failedUrl === url) {
+    return (
+      <div
+        className={`flex flex-col items-center justify-center gap-2 bg-gray-800 border border-gray-700 rounded-lg text-xs text-gray-500 aspect-square ${className}`}
+      >
+        <ImageOff className="w-6 h-6" />
+        {!image ? "Image not loaded" : "No image preview"}
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className={`relative overflow-hidden bg-gray-800 border border-gray-700 rounded-lg aspect-square ${className}`}
+      style={{
+        backgroundImage: `url("${url}")`,
+        ...cropBackground(crop),
+        backgroundRepeat: "no-repeat",
+      }}
+    >
+      {/* Detect a broken image, which a background cannot report */}
+      <img
+        src={url}
+        alt=""
+        className="hidden"
+        onError={() => setFailedUrl(url)}
+      />
+      <div
+        className="absolute w-8 h-8 -ml-4 -mt-4 border-2 border-red-500 rounded-full pointer-events-none"
+        style={{ left: `${crop.pointX * 100}%`, top: `${crop.pointY * 100}%` }}
+      />
+      {crop.width < 1 && crop.height < 1 && (
+        <span className="absolute bottom-1 right-1 px-1 rounded bg-gray-900/80 text-[10px] text-gray-300">
+          {size >= 1000 ? `${size / 1000} km` : `${size} m`}
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default ThreatImageChip;
@@ -0,0 +1,167 @@
+import React, { useState } from "react";
+import { ChevronDown, ChevronUp, Map as MapIcon } from "lucide-react";
+import {
+  REVIEW_STATUS_LABELS,
+  SEVERITIES,
+  SEVERITY_COLORS,
+  SEVERITY_SIZES,
+  THREAT_TYPE_LABELS,
+  confidenceOpacity,
+  threatSymbolUrl,
+  type ThreatReviewStatus,
+} from "../lib/threatStyle";
+import { CANVAS_THRESHOLD } from "../lib/threatLayer";
+import type { ThreatSymbolSet } from "../types";
+
+interface ThreatLegendProps {
+  symbolSet: ThreatSymbolSet;
+  onSymbolSetChange: (symbolSet: ThreatSymbolSet) => void;
+}
+
+const SYMBOL_SETS: { value: ThreatSymbolSet; label: string; title: string }[] =
+  [
+    { value: "simple", label: "Simple", title: "Plain pictograms" },
+    {
+      value: "military",
+      label: "Military",
+      title: "APP-6 / MIL-STD-2525 style hostile frames",
+    },
+  ];
+
+const SectionTitle = ({ children }: { children: React.ReactNode }) => (
+  <div className="text-[10px] font-semibold text-gray-500 uppercase tracking-wider mb-1">
+    {children}
+  </div>
+);
+
+// Map legend explaining the threat symbols
+const ThreatLegend = ({ symbolSet, onSymbolSetChange }: ThreatLegendProps) => {
+  const [open, setOpen] = useState(true);
+
+  return (
+    <div className="absolute bottom-6 left-4 z-1000 w-56 bg-gray-900/95 border border-gray-700 rounded-lg shadow-2xl text-xs text-gray-300">
+      <button
+        onClick={() => setOpen((prev) => !prev)}
+        className="w-full flex items-center justify-between px-3 py-2 font-semibold text-white"
+      >
+        <span className="flex items-center gap-2">
+          <MapIcon className="w-4 h-4" />
+          Legend
+        </span>
+        {open ? (
+          <ChevronDown className="w-4 h-4" />
+        ) : (
+          <ChevronUp className="w-4 h-4" />
+        )}
+      </button>
+
+      {open && (
+        <div className="px-3 pb-3 space-y-3">
+          <div className="flex bg-gray-800 rounded-md p-0.5">
+            {SYMBOL_SETS.map((set) => (
+              <button
+                key={set.value}
+                onClick={() => onSymbolSetChange(set.value)}
+                className={`flex-1 px-2 py-1 rounded font-medium transition-colors ${
+                  symbolSet === set.value
+                    ? "bg-red-600 text-white"
+                    : "text-gray-400 hover:text-white"
+                }`}
+                title={set.title}
+              >
+                {set.label}
+              </button>
+            ))}
+          </div>
+
+          <div>
+            <SectionTitle>Type</SectionTitle>
+            <div className="grid grid-cols-2 gap-1">
+              {Object.entries(THREAT_TYPE_LABELS).map(([type, label]) => (
+                <div key={type} className="flex items-center gap-2">
+                  <img
+                    src={threatSymbolUrl({
+                      threatType: type,
+                      severity: "high",
+                      status: "unreviewed",
+                      set: symbolSet,
+                    })}
+                    alt=""
+                    className="w-5 h-5"
+                  />
+                  {label}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <SectionTitle>Severity (color and size)</SectionTitle>
+            <div className="flex items-end justify-between">
+              {SEVERITIES.map((severity) => (
+                <div key={severity} className="flex flex-col items-center">
+                  <span
+                    className="rounded-full border border-gray-900"
+                    style={{
+                      background: SEVERITY_COLORS[severity],
+                      width: SEVERITY_SIZES[severity] / 2,
+                      height: SEVERITY_SIZES[severity] / 2,
+                    }}
+                  />
+                  <span className="mt-1 capitalize">{severity}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <SectionTitle>Outline</SectionTitle>
+            <div className="space-y-1">
+              {(Object.keys(REVIEW_STATUS_LABELS) as ThreatReviewStatus[]).map(
+                (status) => (
+                  <div key={status} className="flex items-center gap-2">
+                    <img
+                      src={threatSymbolUrl({
+                        threatType: "vehicle",
+                        severity: "medium",
+                        status,
+                        set: symbolSet,
+                      })}
+                      alt=""
+                      className="w-5 h-5"
+                    />
+                    {REVIEW_STATUS_LABELS[status]}
+                  </div>
+                )
+              )}
+            </div>
+          </div>
+
+          <div>
+            <SectionTitle>Confidence (opacity)</SectionTitle>
+            <div
+              className="h-2 rounded"
+              style={{
+                background: `linear-gradient(to right, rgba(220, 38, 38, ${confidenceOpacity(
+                  0
+                )}), rgba(220, 38, 38, 1))`,
+              }}
+            />
+            <div className="flex justify-between mt-0.5 text-[10px] text-gray-500">
+              <span>0%</span>
+              <span>100%</span>
+            </div>
+          </div>
+
+          <p className="text-[10px] text-gray-500">
+            Numbered circles are clusters, colored by their most severe
+            detection. Above {CANVAS_THRESHOLD.toLocaleString()} detections,
+            symbols are drawn as plain points.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ThreatLegend;
@@ -0,0 +1,54 @@
+import { useEffect, useRef } from "react";
+import { useMap } from "react-leaflet";
+import "leaflet.markercluster/dist/MarkerCluster.css";
+import { ThreatLayer } from "../lib/threatLayer";
+import type { ThreatDetection, ThreatSymbolSet } from "../types";
+
+interface ThreatMarkerLayerProps {
+  threats: ThreatDetection[];
+  symbolSet: ThreatSymbolSet;
+  onThreatClick?: (threat: ThreatDetection) => void;
+}
+
+// Clustered threat markers, switching to canvas points for large sets
+const ThreatMarkerLayer = ({
+  threats,
+  symbolSet,
+  onThreatClick,
+}: ThreatMarkerLayerProps) => {
+  const map = useMap();
+  const layerRef = useRef<ThreatLayer | null>(null);
+  const onThreatClickRef = useRef(onThreatClick);
+  const symbolSetRef = useRef(symbolSet);
+
+  useEffect(() => {
+    onThreatClickRef.current = onThreatClick;
+  }, [onThreatClick]);
+
+  useEffect(() => {
+    const layer = new ThreatLayer({
+      symbolSet: symbolSetRef.current,
+      onThreatClick: (threat) => onThreatClickRef.current?.(threat),
+    });
+    layer.addTo(map);
+    layerRef.current = layer;
+
+    return () => {
+      layer.remove();
+      layerRef.current = null;
+    };
+  }, [map]);
+
+  useEffect(() => {
+    symbolSetRef.current = symbolSet;
+    layerRef.current?.setSymbolSet(symbolSet);
+  }, [symbolSet]);
+
+  useEffect(() => {
+    layerRef.current?.setThreats(threats);
+  }, [map, threats]);
+
+  return null;
+};
+
+export default ThreatMarkerLayer;
@@ -0,0 +1,208 @@
+import { useMemo, useState } from "react";
+import { Link2, MessageSquare, Reply, Send } from "lucide-react";
+import toast from "react-hot-toast";
+import type { ThreatComment } from "../types";
+
+interface ThreatNotesThreadProps {
+  comments: ThreatComment[];
+  // Note saved by the last acknowledgement, from before threads existed
+  legacyNote: string;
+  onSubmit: (body: string, parent: number | null) => Promise<void>;
+  // Comment named in the page's #comment-<id> anchor
+  highlightedId: number | null;
+}
+
+// Replies deeper than this are shown at the same indent
+const MAX_DEPTH = 4;
+
+const CommentForm = ({
+  placeholder,
+  autoFocus,
+  onSubmit,
+  onCancel,
+}: {
+  placeholder: string;
+  autoFocus?: boolean;
+  onSubmit: (body: string) => Promise<void>;
+  onCancel?: () => void;
+}) => {
+  const [body, setBody] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const submit = async () => {
+    if (!body.trim() || saving) return;
+    setSaving(true);
+    try {
+      await onSubmit(body.trim());
+      setBody("");
+    } catch {
+      // Reported by the page; the text stays for another try
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <textarea
+        autoFocus={autoFocus}
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        onKeyDown={(e) => {
+          // Ctrl/Cmd + Enter posts, Escape cancels a reply
+          if (e.key === "Enter" && (e.ctrlKey || e.metaKey)) submit();
+          if (e.key === "Escape") onCancel?.();
+        }}
+        rows={3}
+        placeholder={placeholder}
+        className="w-full px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg text-sm text-white focus:outline-none focus:border-red-600 resize-y"
+      />
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <button
+            onClick={onCancel}
+            className="px-3 py-1 text-xs text-gray-400 hover:text-white transition-colors"
+          >
+            Cancel
+          </button>
+        )}
+        <button
+          onClick={submit}
+          disabled={!body.trim() || saving}
+          className="flex items-center gap-2 px-3 py-1 bg-red-600 hover:bg-red-700 disabled:opacity-50 text-white text-xs font-medium rounded transition-colors"
+        >
+          <Send className="w-3 h-3" />
+          {saving ? "Posting…" : "Post"}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// Analyst notes and replies on a threat
+const ThreatNotesThread = ({
+  comments,
+  legacyNote,
+  onSubmit,
+  highlightedId,
+}: ThreatNotesThreadProps) => {
+  const [replyTo, setReplyTo] = useState<number | null>(null);
+
+  const children = useMemo(() => {
+    const byParent = new Map<number | null, ThreatComment[]>();
+    const ids = new Set(comments.map((comment) => comment.id));
+    [...comments]
+      .sort((a, b) => Date.parse(a.created_at) - Date.parse(b.created_at))
+      .forEach((comment) => {
+        // Replies to comments that are gone become top level
+        const parent =
+          comment.parent !== null && ids.has(comment.parent)
+            ? comment.parent
+            : null;
+        byParent.set(parent, [...(byParent.get(parent) ?? []), comment]);
+      });
+    return byParent;
+  }, [comments]);
+
+  const copyLink = (id: number) => {
+    const url = `${window.location.origin}${window.location.pathname}#comment-${id}`;
+    navigator.clipboard
+      .writeText(url)
+      .then(() => toast.success("Link copied"))
+      .catch(() => toast.error("Could not copy the link"));
+  };
+
+  const renderComments = (parent: number | null, depth: number) =>
+    (children.get(parent) ?? []).map((comment) => (
+      <div
+        key={comment.id}
+        className={depth > 0 && depth <= MAX_DEPTH ? "ml-6" : ""}
+      >
+        <div
+          id={`comment-${comment.id}`}
+          className={`p-3 rounded-lg border ${
+            comment.id === highlightedId
+              ? "bg-red-950/30 border-red-600"
+              : "bg-gray-800 border-gray-700"
+          }`}
+        >
+          <div className="flex items-center gap-2 text-xs">
+            <span className="font-medium text-white">
+              {comment.author_full_name || comment.author_username}
+            </span>
+            <span className="text-gray-500">
+              {new Date(comment.created_at).toLocaleString()}
+            </span>
+            <div className="ml-auto flex items-center gap-1">
+              <button
+                onClick={() => setReplyTo(comment.id)}
+                className="p-1 text-gray-400 hover:text-white transition-colors"
+                title="Reply"
+              >
+                <Reply className="w-3 h-3" />
+              </button>
+              <button
+                onClick={() => copyLink(comment.id)}
+                className="p-1 text-gray-400 hover:text-white transition-colors"
+                title="Copy link"
+              >
+                <Link2 className="w-3 h-3" />
+              </button>
+            </div>
+          </div>
+          <p className="mt-1 text-sm text-gray-300 whitespace-pre-wrap">
+            {comment.body}
+          </p>
+        </div>
+        <div className="mt-2 space-y-2">
+          {replyTo === comment.id && (
+            <div className="ml-6">
+              <CommentForm
+                autoFocus
+                placeholder={`Reply to ${
+                  comment.author_full_name || comment.author_username
+                }`}
+                onSubmit={async (body) => {
+                  await onSubmit(body, comment.id);
+                  setReplyTo(null);
+                }}
+                onCancel={() => setReplyTo(null)}
+              />
+            </div>
+          )}
+          {renderComments(comment.id, depth + 1)}
+        </div>
+      </div>
+    ));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <MessageSquare className="w-5 h-5 text-blue-500" />
+        <h2 className="text-lg font-bold text-white">Notes</h2>
+        <span className="text-sm text-gray-500">{comments.length}</span>
+      </div>
+
+      {legacyNote && (
+        <div className="p-3 rounded-lg border border-gray-700 bg-gray-800/60">
+          <div className="text-xs text-gray-500">Acknowledgement note</div>
+          <p className="mt-1 text-sm text-gray-300 whitespace-pre-wrap">
+            {legacyNote}
+          </p>
+        </div>
+      )}
+
+      {comments.length === 0 && !legacyNote && (
+        <p className="text-sm text-gray-500">No notes yet</p>
+      )}
+      <div className="space-y-2">{renderComments(null, 0)}</div>
+
+      <CommentForm
+        placeholder="Add a note (Ctrl + Enter to post)"
+        onSubmit={(body) => onSubmit(body, null)}
+      />
+    </div>
+  );
+};
+
+export default ThreatNotesThread;
@@ -0,0 +1,41 @@
+import { Marker, Polyline, Tooltip } from "react-leaflet";
+import type { LeafletEvent, Marker as LeafletMarker } from "leaflet";
+
+interface ThreatRelocateMarkerProps {
+  // Where the detection is now
+  origin: [number, number];
+  position: [number, number];
+  onMove: (position: [number, number]) => void;
+}
+
+// Draggable stand-in for a threat marker while its position is corrected
+const ThreatRelocateMarker = ({
+  origin,
+  position,
+  onMove,
+}: ThreatRelocateMarkerProps) => (
+  <>
+    <Polyline
+      positions={[origin, position]}
+      pathOptions={{ color: "#ef4444", weight: 2, dashArray: "4 4" }}
+      interactive={false}
+    />
+    <Marker
+      position={position}
+      draggable
+      autoPan
+      eventHandlers={{
+        dragend: (event: LeafletEvent) => {
+          const { lat, lng } = (event.target as LeafletMarker).getLatLng();
+          onMove([lat, lng]);
+        },
+      }}
+    >
+      <Tooltip direction="top" offset={[0, -36]} permanent>
+        Drag to the correct position
+      </Tooltip>
+    </Marker>
+  </>
+);
+
+export default ThreatRelocateMarker;
@@ -0,0 +1,307 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { ChevronLeft, ChevronRight, Play, Pause, X } from "lucide-react";
+import { useAppDispatch, useAppSelector } from "../store";
+import {
+  stepTimeWindow,
+  timeWindowChanged,
+} from "../store/slices/timelineSlice";
+
+interface TimelineStripProps {
+  onClose: () => void;
+}
+
+type DragKind = "brush" | "move" | "start" | "end";
+
+const BINS = 96;
+const DAY = 24 * 60 * 60 * 1000;
+const PLAY_INTERVAL = 1000;
+
+const toTimes = (dates: Record<number, string>) =>
+  Object.values(dates)
+    .map(Date.parse)
+    .filter((time) => !Number.isNaN(time));
+
+const formatDate = (time: number) =>
+  new Date(time).toLocaleDateString(undefined, {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+
+// Histogram of acquisitions and detections with a draggable time window
+const TimelineStrip = ({ onClose }: TimelineStripProps) => {
+  const dispatch = useAppDispatch();
+  const imageDates = useAppSelector((state) => state.timeline.imageDates);
+  const threatDates = useAppSelector((state) => state.timeline.threatDates);
+  const timeWindow = useAppSelector((state) => state.timeline.window);
+  const [playing, setPlaying] = useState(false);
+  const trackRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{
+    kind: DragKind;
+    anchor: number;
+    from: number;
+    to: number;
+  } | null>(null);
+
+  const histogram = useMemo(() => {
+    const imageTimes = toTimes(imageDates);
+    const threatTimes = toTimes(threatDates);
+    if (imageTimes.length + threatTimes.length === 0) return null;
+
+    // A loop rather than Math.min(...), which overflows on long histories
+    let start = Infinity;
+    let end = -Infinity;
+    [imageTimes, threatTimes].forEach((times) =>
+      times.forEach((time) => {
+        start = Math.min(start, time);
+        end = Math.max(end, time);
+      })
+    );
+    // Give a single date some room on both sides
+    if (end - start < DAY) {
+      start -= DAY;
+      end += DAY;
+    }
+    const span = end - start;
+
+    const bin = (time: number) =>
+      Math.min(BINS - 1, Math.floor(((time - start) / span) * BINS));
+    const images = new Array<number>(BINS).fill(0);
+    const threats = new Array<number>(BINS).fill(0);
+    imageTimes.forEach((time) => (images[bin(time)] += 1));
+    threatTimes.forEach((time) => (threats[bin(time)] += 1));
+    const peak = Math.max(...images.map((count, i) => count + threats[i]));
+
+    return { start, end, span, images, threats, peak };
+  }, [imageDates, threatDates]);
+
+  useEffect(() => {
+    if (!playing) return;
+
+    const interval = setInterval(() => {
+      if (!dispatch(stepTimeWindow(1))) {
+        setPlaying(false);
+      }
+    }, PLAY_INTERVAL);
+    return () => clearInterval(interval);
+  }, [playing, dispatch]);
+
+  const windowFrom = timeWindow ? Date.parse(timeWindow.from) : null;
+  const windowTo = timeWindow ? Date.parse(timeWindow.to) : null;
+
+  const timeAt = (clientX: number) => {
+    const rect = trackRef.current?.getBoundingClientRect();
+    if (!rect || !histogram) return 0;
+    const fraction = Math.min(
+      1,
+      Math.max(0, (clientX - rect.left) / rect.width)
+    );
+    return histogram.start + fraction * histogram.span;
+  };
+
+  const handlePointerDown = (
+    event: React.PointerEvent<HTMLDivElement>,
+    kind: DragKind
+  ) => {
+    event.stopPropagation();
+    trackRef.current?.setPointerCapture(event.pointerId);
+    setPlaying(false);
+    dragRef.current = {
+      kind,
+      anchor: timeAt(event.clientX),
+      from: windowFrom ?? 0,
+      to: windowTo ?? 0,
+    };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag || !histogram) return;
+
+    const time = timeAt(event.clientX);
+    let [from, to] = [drag.from, drag.to];
+    switch (drag.kind) {
+      case "brush":
+        [from, to] = [Math.min(drag.anchor, time), Math.max(drag.anchor, time)];
+        break;
+      case "move": {
+        const delta = Math.min(
+          Math.max(time - drag.anchor, histogram.start - drag.from),
+          histogram.end - drag.to
+        );
+        [from, to] = [drag.from + delta, drag.to + delta];
+        break;
+      }
+      case "start":
+        from = Math.min(time, drag.to);
+        break;
+      case "end":
+        to = Math.max(time, drag.from);
+        break;
+    }
+
+    dispatch(
+      timeWindowChanged({
+        from: new Date(from).toISOString(),
+        to: new Date(to).toISOString(),
+      })
+    );
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+    trackRef.current?.releasePointerCapture(event.pointerId);
+    dragRef.current = null;
+  };
+
+  const position = (time: number) =>
+    histogram
+      ? Math.min(
+          100,
+          Math.max(0, ((time - histogram.start) / histogram.span) * 100)
+        )
+      : 0;
+
+  const buttonClass =
+    "p-1.5 rounded text-gray-300 hover:text-white hover:bg-gray-800 transition-colors disabled:opacity-40";
+
+  return (
+    <div className="bg-gray-950 border-t border-gray-800 px-4 py-2 select-none">
+      <div className="flex items-center gap-2 mb-2">
+        <button
+          onClick={() => dispatch(stepTimeWindow(-1))}
+          disabled={!histogram}
+          className={buttonClass}
+          title="Previous date"
+        >
+          <ChevronLeft className="w-4 h-4" />
+        </button>
+        <button
+          onClick={() => setPlaying((prev) => !prev)}
+          disabled={!histogram}
+          className={buttonClass}
+          title={playing ? "Pause" : "Play"}
+        >
+          {playing ? (
+            <Pause className="w-4 h-4" />
+          ) : (
+            <Play className="w-4 h-4" />
+          )}
+        </button>
+        <button
+          onClick={() => dispatch(stepTimeWindow(1))}
+          disabled={!histogram}
+          className={buttonClass}
+          title="Next date"
+        >
+          <ChevronRight className="w-4 h-4" />
+        </button>
+
+        <span className="text-sm font-medium text-white ml-2">
+          {windowFrom !== null && windowTo !== null
+            ? `${formatDate(windowFrom)} – ${formatDate(windowTo)}`
+            : "All time"}
+        </span>
+        {timeWindow && (
+          <button
+            onClick={() => {
+              setPlaying(false);
+              dispatch(timeWindowChanged(null));
+            }}
+            className="px-2 py-0.5 text-xs text-gray-400 hover:text-white bg-gray-800 hover:bg-gray-700 rounded transition-colors"
+          >
+            Show all
+          </button>
+        )}
+
+        <div className="flex items-center gap-3 ml-auto text-xs text-gray-400">
+          <span className="flex items-center gap-1">
+            <span className="w-2.5 h-2.5 rounded-sm bg-blue-500" />
+            Imagery
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="w-2.5 h-2.5 rounded-sm bg-red-500" />
+            Detections
+          </span>
+          <button
+            onClick={onClose}
+            className={buttonClass}
+            title="Hide timeline"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {!histogram ? (
+        <p className="text-xs text-gray-500 py-4 text-center">
+          No dated imagery or detections yet
+        </p>
+      ) : (
+        <>
+          <div
+            ref={trackRef}
+            className="relative h-14 flex items-end gap-px cursor-crosshair bg-gray-900 rounded"
+            onPointerDown={(e) => handlePointerDown(e, "brush")}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            title="Drag to select a time window"
+          >
+            {histogram.images.map((images, i) => {
+              const threats = histogram.threats[i];
+              const binStart = histogram.start + (i / BINS) * histogram.span;
+              const binEnd = binStart + histogram.span / BINS;
+              const inWindow =
+                windowFrom === null ||
+                windowTo === null ||
+                (binEnd >= windowFrom && binStart <= windowTo);
+              return (
+                <div
+                  key={i}
+                  className={`flex-1 flex flex-col justify-end h-full ${
+                    inWindow ? "" : "opacity-30"
+                  }`}
+                >
+                  <div
+                    className="bg-blue-500"
+                    style={{ height: `${(images / histogram.peak) * 100}%` }}
+                  />
+                  <div
+                    className="bg-red-500"
+                    style={{ height: `${(threats / histogram.peak) * 100}%` }}
+                  />
+                </div>
+              );
+            })}
+
+            {windowFrom !== null && windowTo !== null && (
+              <div
+                className="absolute top-0 bottom-0 bg-red-500/10 border-x-2 border-red-500 cursor-grab active:cursor-grabbing"
+                style={{
+                  left: `${position(windowFrom)}%`,
+                  width: `${position(windowTo) - position(windowFrom)}%`,
+                }}
+                onPointerDown={(e) => handlePointerDown(e, "move")}
+              >
+                <div
+                  className="absolute -left-1.5 top-0 bottom-0 w-3 cursor-ew-resize"
+                  onPointerDown={(e) => handlePointerDown(e, "start")}
+                />
+                <div
+                  className="absolute -right-1.5 top-0 bottom-0 w-3 cursor-ew-resize"
+                  onPointerDown={(e) => handlePointerDown(e, "end")}
+                />
+              </div>
+            )}
+          </div>
+          <div className="flex justify-between mt-1 text-[10px] text-gray-500">
+            <span>{formatDate(histogram.start)}</span>
+            <span>{formatDate(histogram.start + histogram.span / 2)}</span>
+            <span>{formatDate(histogram.end)}</span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TimelineStrip;
@@ -0,0 +1,411 @@
+import React, { useEffect, useRef, useState } from "react";
+import {
+  Upload,
+  X,
+  CheckCircle,
+  Clock,
+  XCircle,
+  RefreshCw,
+  RotateCcw,
+  Trash2,
+  AlertTriangle,
+  MapPin,
+} from "lucide-react";
+import { useAppDispatch, useAppSelector } from "../store";
+import {
+  addUploadFiles,
+  cancelUpload,
+  finishedUploadsCleared,
+  removeUpload,
+  retryUpload,
+  setMaxConcurrentUploads,
+  startStagedUploads,
+  uploadUpdated,
+} from "../store/slices/uploadSlice";
+import {
+  UPLOAD_FILE_EXTENSIONS,
+  filterUploadableFiles,
+} from "../lib/uploadFiles";
+import {
+  discardPendingUpload,
+  getPendingUploads,
+  type PendingUpload,
+} from "../lib/chunkedUpload";
+import { formatBytes } from "../lib/format";
+import type { UploadItem } from "../types";
+
+const ANALYSIS_OPTIONS = [
+  { value: "", label: "No analysis" },
+  { value: "threat_detection", label: "Threat detection" },
+  { value: "object_detection", label: "Object detection" },
+  { value: "change_detection", label: "Change detection" },
+];
+
+const getStatusIcon = (status: UploadItem["status"]) => {
+  switch (status) {
+    case "completed":
+      return <CheckCircle className="w-4 h-4 text-green-500" />;
+    case "uploading":
+      return <RefreshCw className="w-4 h-4 text-blue-500 animate-spin" />;
+    case "failed":
+    case "cancelled":
+      return <XCircle className="w-4 h-4 text-red-500" />;
+    default:
+      return <Clock className="w-4 h-4 text-yellow-500" />;
+  }
+};
+
+type Bounds = [[number, number], [number, number]];
+
+const formatResolution = (metres: number): string =>
+  metres >= 1 ? `${metres.toFixed(1)} m` : `${Math.round(metres * 100)} cm`;
+
+const UploadRow: React.FC<{
+  item: UploadItem;
+  onLocate: (bounds: Bounds) => void;
+}> = ({ item, onLocate }) => {
+  const dispatch = useAppDispatch();
+  const editable = item.status === "staged";
+
+  const update = (changes: Partial<UploadItem>) =>
+    dispatch(uploadUpdated({ id: item.id, changes }));
+  const { header } = item;
+  const warnings = [
+    ...(header?.warnings ?? []),
+    ...(item.headerError ? [item.headerError] : []),
+  ];
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-3 border border-gray-700 space-y-3">
+      <div className="flex items-start gap-3">
+        <span className="mt-0.5">{getStatusIcon(item.status)}</span>
+        <div className="flex-1 min-w-0">
+          <p className="text-sm text-white truncate">{item.fileName}</p>
+          <p className="text-xs text-gray-500">
+            {formatBytes(item.fileSize)} ·{" "}
+            <span className="capitalize">{item.status}</span>
+          </p>
+        </div>
+        <div className="flex items-center gap-1">
+          {header?.bounds && (
+            <button
+              onClick={() => onLocate(header.bounds as Bounds)}
+              className="p-1 text-gray-400 hover:text-white transition-colors"
+              title="Show footprint on map"
+            >
+              <MapPin className="w-4 h-4" />
+            </button>
+          )}
+          {(item.status === "queued" || item.status === "uploading") && (
+            <button
+              onClick={() => dispatch(cancelUpload(item.id))}
+              className="p-1 text-gray-400 hover:text-white transition-colors"
+              title="Cancel upload"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          )}
+          {(item.status === "failed" || item.status === "cancelled") && (
+            <button
+              onClick={() => dispatch(retryUpload(item.id))}
+              className="p-1 text-gray-400 hover:text-white transition-colors"
+              title="Retry upload"
+            >
+              <RotateCcw className="w-4 h-4" />
+            </button>
+          )}
+          {item.status !== "uploading" && item.status !== "queued" && (
+            <button
+              onClick={() => dispatch(removeUpload(item.id))}
+              className="p-1 text-gray-400 hover:text-red-400 transition-colors"
+              title="Remove from queue"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {header && (
+        <p className="text-xs text-gray-400">
+          {header.width} × {header.height} px · {header.bandCount} band
+          {header.bandCount === 1 ? "" : "s"}
+          {header.epsg && ` · EPSG:${header.epsg}`}
+          {header.resolution !== null &&
+            ` · ${formatResolution(header.resolution)}`}
+        </p>
+      )}
+      {warnings.map((warning) => (
+        <p
+          key={warning}
+          className="flex items-start gap-1.5 text-xs text-yellow-500"
+        >
+          <AlertTriangle className="w-3.5 h-3.5 mt-px shrink-0" />
+          {warning}
+        </p>
+      ))}
+
+      {editable ? (
+        <div className="grid grid-cols-2 gap-2">
+          <input
+            type="text"
+            value={item.name}
+            onChange={(e) => update({ name: e.target.value })}
+            placeholder="Image name"
+            className="col-span-2 bg-gray-900 border border-gray-700 rounded px-2 py-1.5 text-sm text-white focus:outline-none focus:border-red-500"
+            aria-label="Image name"
+          />
+          <textarea
+            value={item.description}
+            onChange={(e) => update({ description: e.target.value })}
+            placeholder="Description (optional)"
+            rows={2}
+            className="col-span-2 bg-gray-900 border border-gray-700 rounded px-2 py-1.5 text-sm text-white focus:outline-none focus:border-red-500 resize-none"
+            aria-label="Description"
+          />
+          <input
+            type="datetime-local"
+            value={item.acquisitionDate}
+            onChange={(e) => update({ acquisitionDate: e.target.value })}
+            className="bg-gray-900 border border-gray-700 rounded px-2 py-1.5 text-sm text-white focus:outline-none focus:border-red-500"
+            aria-label="Acquisition date"
+          />
+          <select
+            value={item.analysisType}
+            onChange={(e) => update({ analysisType: e.target.value })}
+            className="bg-gray-900 border border-gray-700 rounded px-2 py-1.5 text-sm text-white focus:outline-none focus:border-red-500"
+            aria-label="Analysis after upload"
+          >
+            {ANALYSIS_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      ) : (
+        <>
+          <p className="text-xs text-gray-400 truncate">
+            {item.name}
+            {item.analysisType &&
+              ` · then ${item.analysisType.replace(/_/g, " ")}`}
+          </p>
+          {item.status !== "cancelled" && (
+            <div className="w-full h-1.5 bg-gray-900 rounded-full overflow-hidden">
+              <div
+                className={`h-full transition-all ${
+                  item.status === "failed" ? "bg-red-600" : "bg-blue-500"
+                }`}
+                style={{ width: `${Math.round(item.progress * 100)}%` }}
+              />
+            </div>
+          )}
+        </>
+      )}
+
+      {item.error && <p className="text-xs text-red-400">{item.error}</p>}
+    </div>
+  );
+};
+
+interface UploadQueueDialogProps {
+  onClose: () => void;
+  // Zoom the map to a file's expected footprint
+  onLocate: (bounds: Bounds) => void;
+}
+
+// Batch upload of satellite imagery with per-file metadata and progress
+const UploadQueueDialog: React.FC<UploadQueueDialogProps> = ({
+  onClose,
+  onLocate,
+}) => {
+  const dispatch = useAppDispatch();
+  const { items, maxConcurrent } = useAppSelector((state) => state.uploads);
+  const [isDragging, setIsDragging] = useState(false);
+  const [pendingUploads, setPendingUploads] = useState<PendingUpload[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Chunked uploads interrupted earlier, possibly before a reload
+  useEffect(() => {
+    let cancelled = false;
+    getPendingUploads().then((uploads) => {
+      if (!cancelled) setPendingUploads(uploads);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [items]);
+
+  const interruptedUploads = pendingUploads.filter(
+    (upload) =>
+      !items.some(
+        (i) => i.fileName === upload.fileName && i.fileSize === upload.fileSize
+      )
+  );
+
+  const handleDiscard = async (upload: PendingUpload) => {
+    await discardPendingUpload(upload);
+    setPendingUploads((prev) =>
+      prev.filter((u) => u.fingerprint !== upload.fingerprint)
+    );
+  };
+
+  const stagedCount = items.filter((i) => i.status === "staged").length;
+  const completedCount = items.filter((i) => i.status === "completed").length;
+
+  const handleFiles = (files: File[]) => {
+    const accepted = filterUploadableFiles(files);
+    if (accepted.length > 0) {
+      dispatch(addUploadFiles(accepted));
+    }
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    handleFiles(Array.from(event.dataTransfer.files));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-2000 p-4">
+      <div className="bg-gray-900 border border-gray-800 rounded-2xl max-w-2xl w-full max-h-[90vh] flex flex-col shadow-2xl">
+        <div className="flex items-center justify-between p-6 pb-4">
+          <div className="flex items-center gap-2">
+            <Upload className="w-5 h-5 text-red-500" />
+            <h3 className="text-lg font-bold text-white">
+              Upload Satellite Imagery
+            </h3>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition-colors"
+            aria-label="Close upload dialog"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="px-6 space-y-4 overflow-y-auto">
+          <div
+            onDragOver={(e) => {
+              e.preventDefault();
+              setIsDragging(true);
+            }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={handleDrop}
+            onClick={() => fileInputRef.current?.click()}
+            className={`border-2 border-dashed rounded-lg p-6 text-center cursor-pointer transition-colors ${
+              isDragging
+                ? "border-red-500 bg-red-500/10"
+                : "border-gray-700 hover:border-gray-500"
+            }`}
+          >
+            <Upload className="w-8 h-8 text-gray-500 mx-auto mb-2" />
+            <p className="text-sm text-gray-300">
+              Drop GeoTIFF files here or click to browse
+            </p>
+            <p className="text-xs text-gray-500 mt-1">
+              {UPLOAD_FILE_EXTENSIONS.join(", ")}
+            </p>
+          </div>
+          <input
+            type="file"
+            ref={fileInputRef}
+            onChange={(e) => {
+              handleFiles(Array.from(e.target.files ?? []));
+              e.target.value = "";
+            }}
+            accept={UPLOAD_FILE_EXTENSIONS.join(",")}
+            multiple
+            className="hidden"
+            aria-label="Upload satellite images"
+          />
+
+          {interruptedUploads.length > 0 && (
+            <div className="space-y-2">
+              <h4 className="text-xs font-semibold text-gray-400 uppercase tracking-wider">
+                Interrupted uploads
+              </h4>
+              <p className="text-xs text-gray-500">
+                Add the same file again to resume where it stopped.
+              </p>
+              {interruptedUploads.map((upload) => (
+                <div
+                  key={upload.fingerprint}
+                  className="flex items-center gap-3 bg-gray-800/50 rounded-lg px-3 py-2 border border-gray-700"
+                >
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-white truncate">
+                      {upload.fileName}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {formatBytes(upload.fileSize)} ·{" "}
+                      {Math.round(
+                        (upload.receivedChunks / upload.totalChunks) * 100
+                      )}
+                      % sent
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleDiscard(upload)}
+                    className="p-1 text-gray-400 hover:text-red-400 transition-colors"
+                    title="Discard interrupted upload"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {items.length > 0 && (
+            <div className="space-y-2 pb-2">
+              {items.map((item) => (
+                <UploadRow key={item.id} item={item} onLocate={onLocate} />
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between gap-3 p-6 pt-4 border-t border-gray-800">
+          <label className="flex items-center gap-2 text-xs text-gray-400">
+            Parallel uploads
+            <select
+              value={maxConcurrent}
+              onChange={(e) =>
+                dispatch(setMaxConcurrentUploads(Number(e.target.value)))
+              }
+              className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-white"
+            >
+              {[1, 2, 3, 4].map((n) => (
+                <option key={n} value={n}>
+                  {n}
+                </option>
+              ))}
+            </select>
+          </label>
+          <div className="flex gap-3">
+            {completedCount > 0 && (
+              <button
+                onClick={() => dispatch(finishedUploadsCleared())}
+                className="px-4 py-2 rounded-lg bg-gray-800 hover:bg-gray-700 text-gray-300 hover:text-white border border-gray-700 text-sm font-medium transition-colors"
+              >
+                Clear completed
+              </button>
+            )}
+            <button
+              onClick={() => dispatch(startStagedUploads())}
+              disabled={stagedCount === 0}
+              className="px-4 py-2 rounded-lg bg-red-600 hover:bg-red-700 disabled:bg-gray-700 disabled:text-gray-400 text-white text-sm font-medium transition-colors"
+            >
+              Start {stagedCount > 0 ? stagedCount : ""} upload
+              {stagedCount === 1 ? "" : "s"}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UploadQueueDialog;
@@ -0,0 +1,328 @@
+import React, { useRef, useState } from "react";
+import {
+  ChevronDown,
+  ChevronUp,
+  Eye,
+  EyeOff,
+  Link,
+  Loader2,
+  LocateFixed,
+  SlidersHorizontal,
+  Trash2,
+  Upload,
+} from "lucide-react";
+import toast from "react-hot-toast";
+import { useAppDispatch, useAppSelector } from "../store";
+import {
+  importVectorLayer,
+  vectorLayerMoved,
+  vectorLayerRemoved,
+  vectorLayerUpdated,
+} from "../store/slices/vectorLayerSlice";
+import {
+  VECTOR_FILE_EXTENSIONS,
+  VECTOR_FORMAT_LABELS,
+  vectorBounds,
+} from "../lib/vectorImport";
+import type { VectorLayer, VectorLayerStyle } from "../types";
+
+interface VectorLayerPanelProps {
+  onZoomTo: (bounds: [[number, number], [number, number]]) => void;
+}
+
+const iconButtonClass =
+  "p-1 rounded text-gray-400 hover:text-white hover:bg-gray-700 disabled:opacity-30 disabled:hover:bg-transparent transition-colors";
+
+const STYLE_SLIDERS: {
+  key: Exclude<keyof VectorLayerStyle, "color">;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+}[] = [
+  {
+    key: "weight",
+    label: "Line",
+    min: 0,
+    max: 10,
+    step: 0.5,
+    format: (value) => `${value}px`,
+  },
+  {
+    key: "opacity",
+    label: "Opacity",
+    min: 0,
+    max: 1,
+    step: 0.05,
+    format: (value) => `${Math.round(value * 100)}%`,
+  },
+  {
+    key: "fill_opacity",
+    label: "Fill",
+    min: 0,
+    max: 1,
+    step: 0.05,
+    format: (value) => `${Math.round(value * 100)}%`,
+  },
+  {
+    key: "point_radius",
+    label: "Points",
+    min: 2,
+    max: 20,
+    step: 1,
+    format: (value) => `${value}px`,
+  },
+];
+
+const StyleEditor = ({
+  style,
+  onChange,
+}: {
+  style: VectorLayerStyle;
+  onChange: (style: VectorLayerStyle) => void;
+}) => (
+  <div className="mt-3 pt-3 border-t border-gray-700 space-y-2">
+    <label className="flex items-center gap-2 text-xs text-gray-400">
+      <span className="w-14">Color</span>
+      <input
+        type="color"
+        value={style.color}
+        onChange={(e) => onChange({ ...style, color: e.target.value })}
+        className="h-6 w-10 bg-transparent cursor-pointer"
+      />
+    </label>
+    {STYLE_SLIDERS.map((slider) => (
+      <label
+        key={slider.key}
+        className="flex items-center gap-2 text-xs text-gray-400"
+      >
+        <span className="w-14">{slider.label}</span>
+        <input
+          type="range"
+          min={slider.min}
+          max={slider.max}
+          step={slider.step}
+          value={style[slider.key]}
+          onChange={(e) =>
+            onChange({ ...style, [slider.key]: parseFloat(e.target.value) })
+          }
+          className="flex-1 h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-red-600"
+        />
+        <span className="w-10 text-right">
+          {slider.format(style[slider.key])}
+        </span>
+      </label>
+    ))}
+  </div>
+);
+
+const layerSummary = (layer: VectorLayer) => {
+  const count = layer.data.features.length;
+  return `${VECTOR_FORMAT_LABELS[layer.format]} · ${count} feature${
+    count === 1 ? "" : "s"
+  }`;
+};
+
+// Imported GeoJSON, KML and GPX overlays, listed top layer first
+const VectorLayerPanel = ({ onZoomTo }: VectorLayerPanelProps) => {
+  const dispatch = useAppDispatch();
+  const { items, importing } = useAppSelector((state) => state.vectorLayer);
+  const [url, setUrl] = useState("");
+  const [stylingId, setStylingId] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const runImport = async (source: string, text?: string) => {
+    try {
+      const layer = await dispatch(
+        importVectorLayer({ source, text })
+      ).unwrap();
+      toast.success(
+        `Added ${layer.name} (${layer.data.features.length} features)`
+      );
+      return true;
+    } catch (error) {
+      toast.error(`Could not load ${source}: ${error}`);
+      return false;
+    }
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = "";
+    for (const file of files) {
+      await runImport(file.name, await file.text());
+    }
+  };
+
+  const handleUrl = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await runImport(url.trim())) setUrl("");
+  };
+
+  const updateLayer = (
+    id: string,
+    changes: Partial<Pick<VectorLayer, "visible" | "style">>
+  ) => dispatch(vectorLayerUpdated({ id, changes }));
+
+  return (
+    <div>
+      <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider mb-4">
+        Vector Overlays
+      </h3>
+
+      <div className="space-y-2">
+        {items.length === 0 ? (
+          <p className="text-gray-500 text-sm">
+            Load GeoJSON, KML or GPX to draw it over the map
+          </p>
+        ) : (
+          items.map((layer, index) => {
+            const bounds = vectorBounds(layer.data);
+            return (
+              <div
+                key={layer.id}
+                className="bg-gray-800 rounded-lg p-3 border border-gray-700 hover:border-gray-600 transition-colors"
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span
+                        className="w-3 h-3 rounded-sm shrink-0"
+                        style={{ backgroundColor: layer.style.color }}
+                      />
+                      <span
+                        className="text-sm font-medium text-white truncate"
+                        title={layer.source}
+                      >
+                        {layer.name}
+                      </span>
+                    </div>
+                    <div className="text-xs text-gray-400">
+                      {layerSummary(layer)}
+                    </div>
+                  </div>
+                  <button
+                    onClick={() =>
+                      updateLayer(layer.id, { visible: !layer.visible })
+                    }
+                    className={`p-1.5 rounded transition-colors ${
+                      layer.visible
+                        ? "bg-green-600 text-white"
+                        : "bg-gray-700 text-gray-400"
+                    }`}
+                  >
+                    {layer.visible ? (
+                      <Eye className="w-4 h-4" />
+                    ) : (
+                      <EyeOff className="w-4 h-4" />
+                    )}
+                  </button>
+                </div>
+                <div className="flex items-center justify-end mt-2">
+                  <button
+                    onClick={() =>
+                      dispatch(vectorLayerMoved({ id: layer.id, offset: -1 }))
+                    }
+                    disabled={index === 0}
+                    className={iconButtonClass}
+                    title="Move up"
+                  >
+                    <ChevronUp className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() =>
+                      dispatch(vectorLayerMoved({ id: layer.id, offset: 1 }))
+                    }
+                    disabled={index === items.length - 1}
+                    className={iconButtonClass}
+                    title="Move down"
+                  >
+                    <ChevronDown className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() =>
+                      setStylingId((prev) =>
+                        prev === layer.id ? null : layer.id
+                      )
+                    }
+                    className={`${iconButtonClass} ${
+                      stylingId === layer.id ? "text-white bg-gray-700" : ""
+                    }`}
+                    title="Style"
+                  >
+                    <SlidersHorizontal className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => bounds && onZoomTo(bounds)}
+                    disabled={!bounds}
+                    className={iconButtonClass}
+                    title="Zoom to layer"
+                  >
+                    <LocateFixed className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => dispatch(vectorLayerRemoved(layer.id))}
+                    className={`${iconButtonClass} hover:text-red-500`}
+                    title="Remove"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+                {stylingId === layer.id && (
+                  <StyleEditor
+                    style={layer.style}
+                    onChange={(style) => updateLayer(layer.id, { style })}
+                  />
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      <div className="mt-3 space-y-2">
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={importing}
+          className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-gray-800 hover:bg-gray-700 disabled:opacity-50 border border-gray-700 rounded-lg text-xs text-gray-300 transition-colors"
+        >
+          {importing ? (
+            <Loader2 className="w-4 h-4 animate-spin" />
+          ) : (
+            <Upload className="w-4 h-4" />
+          )}
+          Load file
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          accept={VECTOR_FILE_EXTENSIONS}
+          onChange={handleFile}
+          className="hidden"
+        />
+        <form onSubmit={handleUrl} className="flex gap-2">
+          <input
+            type="url"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            placeholder="https://…/layer.geojson"
+            className="flex-1 min-w-0 px-2 py-1 bg-gray-900 border border-gray-700 rounded text-sm text-white focus:outline-none focus:border-red-600"
+          />
+          <button
+            type="submit"
+            disabled={importing || !url.trim()}
+            className="flex items-center gap-1 px-3 py-1 bg-red-600 hover:bg-red-700 disabled:opacity-50 text-white text-xs font-medium rounded transition-colors"
+            title="Load from URL"
+          >
+            <Link className="w-3.5 h-3.5" />
+            Load
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default VectorLayerPanel;
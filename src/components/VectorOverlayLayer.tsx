@@ -0,0 +1,34 @@
+import { useEffect, useRef } from "react";
+import { useMap } from "react-leaflet";
+import { VectorOverlayGroup } from "../lib/vectorOverlay";
+import type { VectorLayer } from "../types";
+
+interface VectorOverlayLayerProps {
+  // Top layer first
+  layers: VectorLayer[];
+}
+
+// Imported GeoJSON, KML and GPX overlays
+const VectorOverlayLayer = ({ layers }: VectorOverlayLayerProps) => {
+  const map = useMap();
+  const groupRef = useRef<VectorOverlayGroup | null>(null);
+
+  useEffect(() => {
+    const group = new VectorOverlayGroup();
+    group.addTo(map);
+    groupRef.current = group;
+
+    return () => {
+      group.remove();
+      groupRef.current = null;
+    };
+  }, [map]);
+
+  useEffect(() => {
+    groupRef.current?.setLayers(layers);
+  }, [map, layers]);
+
+  return null;
+};
+
+export default VectorOverlayLayer;
@@ -0,0 +1,63 @@
+// src/hooks/useJobTracker.ts
+import { useEffect, useRef } from "react";
+import { toast } from "react-hot-toast";
+import { useAppDispatch, useAppSelector } from "../store";
+import { isJobActive, pollJobs } from "../store/slices/jobsSlice";
+import { fetchThreats } from "../store/slices/threatSlice";
+import type { Job, JobStatus } from "../types";
+
+const TICK_INTERVAL = 1000;
+
+const kindLabel = (job: Job) =>
+  job.kind === "analysis" ? "Analysis" : "Image optimization";
+
+// Drives the jobs slice: polls due jobs and announces finished ones
+export const useJobTracker = (): Job[] => {
+  const dispatch = useAppDispatch();
+  const jobs = useAppSelector((state) => state.jobs.jobs);
+  const previousStatuses = useRef<Map<string, JobStatus>>(new Map());
+
+  const hasWork = jobs.some(
+    (job) =>
+      isJobActive(job) || (job.status === "completed" && job.followUpAnalysis)
+  );
+
+  useEffect(() => {
+    if (!hasWork) return;
+
+    const interval = setInterval(() => {
+      dispatch(pollJobs());
+    }, TICK_INTERVAL);
+    return () => clearInterval(interval);
+  }, [hasWork, dispatch]);
+
+  useEffect(() => {
+    const previous = previousStatuses.current;
+    let analysisCompleted = false;
+
+    jobs.forEach((job) => {
+      const before = previous.get(job.id);
+      if (before && isJobActive({ ...job, status: before })) {
+        if (job.status === "completed") {
+          toast.success(`${kindLabel(job)} finished: ${job.label}`, {
+            id: `job-${job.id}`,
+          });
+          analysisCompleted ||= job.kind === "analysis";
+        } else if (job.status === "failed") {
+          toast.error(`${kindLabel(job)} failed: ${job.label}`, {
+            id: `job-${job.id}`,
+          });
+        }
+      }
+    });
+
+    // New detections arrive with completed analyses
+    if (analysisCompleted) {
+      dispatch(fetchThreats());
+    }
+
+    previousStatuses.current = new Map(jobs.map((job) => [job.id, job.status]));
+  }, [jobs, dispatch]);
+
+  return jobs;
+};
@@ -0,0 +1,63 @@
+// src/hooks/useRealtimeFeed.ts
+import { useEffect, useState } from "react";
+import { useAppDispatch } from "../store";
+import { RealtimeClient } from "../lib/realtime";
+import { fetchThreats, threatReceived } from "../store/slices/threatSlice";
+import {
+  fetchAnalyses,
+  analysisStatusReceived,
+} from "../store/slices/analysisSlice";
+import type { RealtimeConnectionStatus } from "../types";
+
+interface UseRealtimeFeedOptions {
+  // Polling interval used while the socket is down
+  pollInterval?: number;
+}
+
+export const useRealtimeFeed = (
+  options: UseRealtimeFeedOptions = {}
+): RealtimeConnectionStatus => {
+  const { pollInterval = 30000 } = options;
+
+  const dispatch = useAppDispatch();
+  const [status, setStatus] = useState<RealtimeConnectionStatus>("connecting");
+
+  useEffect(() => {
+    const client = new RealtimeClient({
+      onEvent: (event) => {
+        switch (event.type) {
+          case "threat.created":
+          case "threat.updated":
+          case "threat.verified":
+          case "threat.acknowledged":
+            dispatch(threatReceived(event.threat));
+            break;
+          case "analysis.status":
+            dispatch(analysisStatusReceived(event.analysis));
+            break;
+        }
+      },
+      onStatusChange: setStatus,
+      onResync: () => {
+        dispatch(fetchThreats());
+        dispatch(fetchAnalyses());
+      },
+    });
+
+    client.connect();
+    return () => client.disconnect();
+  }, [dispatch]);
+
+  // Fall back to polling while the push channel is unavailable
+  useEffect(() => {
+    if (status === "open") return;
+
+    const interval = setInterval(() => {
+      dispatch(fetchThreats());
+      dispatch(fetchAnalyses());
+    }, pollInterval);
+    return () => clearInterval(interval);
+  }, [status, pollInterval, dispatch]);
+
+  return status;
+};
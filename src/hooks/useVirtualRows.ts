@@ -0,0 +1,71 @@
+// src/hooks/useVirtualRows.ts
+import { useCallback, useEffect, useRef, useState } from "react";
+
+interface UseVirtualRowsOptions {
+  count: number;
+  // Fixed height of every row, in pixels
+  rowHeight: number;
+  // Rows rendered beyond each edge of the viewport
+  overscan?: number;
+}
+
+// Windowing for long fixed-height lists: only the rows in view, plus a few
+// either side, are rendered between spacers of the skipped height
+export const useVirtualRows = ({
+  count,
+  rowHeight,
+  overscan = 8,
+}: UseVirtualRowsOptions) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const observer = new ResizeObserver(() =>
+      setViewportHeight(container.clientHeight)
+    );
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const start = Math.max(0, Math.floor(scrollTop / rowHeight) - overscan);
+  const end = Math.min(
+    count,
+    Math.ceil((scrollTop + viewportHeight) / rowHeight) + overscan
+  );
+
+  const onScroll = useCallback((event: React.UIEvent<HTMLDivElement>) => {
+    setScrollTop(event.currentTarget.scrollTop);
+  }, []);
+
+  // Scroll just far enough to show a row, e.g. one focused from the keyboard
+  const scrollToRow = useCallback(
+    (index: number) => {
+      const container = containerRef.current;
+      if (!container) return;
+      const top = index * rowHeight;
+      if (top < container.scrollTop) {
+        container.scrollTop = top;
+      } else if (
+        top + rowHeight >
+        container.scrollTop + container.clientHeight
+      ) {
+        container.scrollTop = top + rowHeight - container.clientHeight;
+      }
+    },
+    [rowHeight]
+  );
+
+  return {
+    containerRef,
+    onScroll,
+    scrollToRow,
+    start,
+    end,
+    paddingTop: start * rowHeight,
+    paddingBottom: Math.max(0, (count - end) * rowHeight),
+  };
+};
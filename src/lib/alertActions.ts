@@ -0,0 +1,56 @@
+// src/lib/alertActions.ts
+//
+// Browser side of alert actions: system notifications and the alarm tone.
+
+let audioContext: AudioContext | null = null;
+
+export const notificationsSupported = (): boolean =>
+  typeof window !== "undefined" && "Notification" in window;
+
+// Must be called from a user gesture in most browsers
+export const requestNotificationPermission =
+  async (): Promise<NotificationPermission> => {
+    if (!notificationsSupported()) return "denied";
+    if (Notification.permission !== "default") return Notification.permission;
+    return Notification.requestPermission();
+  };
+
+export const showNotification = (
+  title: string,
+  body: string,
+  tag: string
+): void => {
+  if (!notificationsSupported() || Notification.permission !== "granted") {
+    return;
+  }
+  const notification = new Notification(title, { body, tag });
+  notification.onclick = () => {
+    window.focus();
+    notification.close();
+  };
+};
+
+// Three short two-tone beeps
+export const playAlarm = (): void => {
+  try {
+    audioContext ??= new AudioContext();
+    // Autoplay policy suspends contexts created before any interaction
+    void audioContext.resume();
+    const start = audioContext.currentTime;
+    for (let i = 0; i < 3; i++) {
+      const oscillator = audioContext.createOscillator();
+      const gain = audioContext.createGain();
+      const at = start + i * 0.3;
+      oscillator.type = "square";
+      oscillator.frequency.setValueAtTime(880, at);
+      oscillator.frequency.setValueAtTime(660, at + 0.1);
+      gain.gain.setValueAtTime(0.08, at);
+      gain.gain.exponentialRampToValueAtTime(0.001, at + 0.2);
+      oscillator.connect(gain).connect(audioContext.destination);
+      oscillator.start(at);
+      oscillator.stop(at + 0.2);
+    }
+  } catch (error) {
+    console.warn("Alarm could not be played:", error);
+  }
+};
@@ -0,0 +1,79 @@
+// src/lib/alertRules.ts
+//
+// Matching of geofence alert rules against threat detections.
+import { aoiContains } from "./aoiGeometry";
+import { THREAT_TYPE_LABELS } from "./threatStyle";
+import type {
+  AlertAction,
+  AlertRule,
+  AreaOfInterest,
+  ThreatDetection,
+} from "../types";
+
+export const ALERT_ACTION_LABELS: Record<AlertAction, string> = {
+  toast: "Toast",
+  notification: "Browser notification",
+  sound: "Audible alarm",
+  banner: "Pinned banner",
+};
+
+export const ALERT_ACTIONS = Object.keys(ALERT_ACTION_LABELS) as AlertAction[];
+
+export const ruleMatches = (
+  rule: AlertRule,
+  threat: ThreatDetection,
+  aois: AreaOfInterest[]
+): boolean => {
+  if (!rule.enabled || threat.false_positive) return false;
+  if (rule.severities.length > 0 && !rule.severities.includes(threat.severity))
+    return false;
+  if (
+    rule.threat_types.length > 0 &&
+    !rule.threat_types.includes(threat.threat_type)
+  )
+    return false;
+  if (threat.confidence < rule.min_confidence) return false;
+  if (rule.aoi_id !== null) {
+    // A rule whose area was deleted watches nothing
+    const aoi = aois.find((item) => item.id === rule.aoi_id);
+    if (!aoi || !aoiContains(aoi.shape, threat.location_coords)) return false;
+  }
+  return true;
+};
+
+// Threats matched by each rule, leaving out rules without matches
+export const evaluateRules = (
+  rules: AlertRule[],
+  threats: ThreatDetection[],
+  aois: AreaOfInterest[]
+): { rule: AlertRule; threats: ThreatDetection[] }[] =>
+  rules
+    .map((rule) => ({
+      rule,
+      threats: threats.filter((threat) => ruleMatches(rule, threat, aois)),
+    }))
+    .filter((match) => match.threats.length > 0);
+
+// Summary such as "critical or high vehicle, ≥ 70% confidence, in Port area"
+export const describeRule = (
+  rule: AlertRule,
+  aois: AreaOfInterest[]
+): string => {
+  const severities =
+    rule.severities.length > 0 ? `${rule.severities.join(" or ")} ` : "";
+  const types =
+    rule.threat_types.length > 0
+      ? rule.threat_types
+          .map((type) => (THREAT_TYPE_LABELS[type] ?? type).toLowerCase())
+          .join(" or ")
+      : "any";
+  const parts = [`${severities}${types} detections`];
+  if (rule.min_confidence > 0) {
+    parts.push(`≥ ${Math.round(rule.min_confidence * 100)}% confidence`);
+  }
+  if (rule.aoi_id !== null) {
+    const aoi = aois.find((item) => item.id === rule.aoi_id);
+    parts.push(aoi ? `in ${aoi.name}` : "in a deleted area");
+  }
+  return parts.join(", ");
+};
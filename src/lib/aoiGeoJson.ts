@@ -0,0 +1,175 @@
+// src/lib/aoiGeoJson.ts
+//
+// GeoJSON import and export of areas of interest. Exported features carry
+// the original shape in their properties, so circles and buffered lines
+// come back as drawn, while other tools still see plain polygons.
+import { aoiRing } from "./aoiGeometry";
+import type { AoiShape, AreaOfInterest } from "../types";
+
+type Position = [number, number];
+
+interface Geometry {
+  type: string;
+  coordinates?: unknown;
+  geometries?: Geometry[];
+}
+
+interface Feature {
+  type: "Feature";
+  geometry: Geometry | null;
+  properties: Record<string, unknown> | null;
+}
+
+// Buffer for imported lines and points, which have no area of their own
+export const DEFAULT_IMPORT_BUFFER = 1000;
+
+const toPosition = ([lat, lng]: [number, number]): Position => [lng, lat];
+
+const isPosition = (value: unknown): value is number[] =>
+  Array.isArray(value) &&
+  value.length >= 2 &&
+  typeof value[0] === "number" &&
+  typeof value[1] === "number";
+
+const toLatLng = (position: number[]): [number, number] => [
+  position[1],
+  position[0],
+];
+
+const toLatLngs = (value: unknown): [number, number][] =>
+  Array.isArray(value) ? value.filter(isPosition).map(toLatLng) : [];
+
+// Drops the closing position GeoJSON rings repeat
+const openRing = (ring: [number, number][]) => {
+  const first = ring[0];
+  const last = ring[ring.length - 1];
+  return ring.length > 1 && first[0] === last[0] && first[1] === last[1]
+    ? ring.slice(0, -1)
+    : ring;
+};
+
+export const aoisToGeoJSON = (aois: AreaOfInterest[]) => ({
+  type: "FeatureCollection",
+  features: aois.map((aoi) => {
+    const ring = aoiRing(aoi.shape).map(toPosition);
+    return {
+      type: "Feature",
+      geometry: { type: "Polygon", coordinates: [[...ring, ring[0]]] },
+      properties: {
+        name: aoi.name,
+        created_at: aoi.created_at,
+        aoi_shape: aoi.shape,
+      },
+    };
+  }),
+});
+
+const isLatLngList = (value: unknown) =>
+  Array.isArray(value) &&
+  value.every((item) => isPosition(item) && item.length === 2);
+
+// A shape stored by aoisToGeoJSON, validated since files can be edited
+const storedShape = (value: unknown): AoiShape | null => {
+  if (!value || typeof value !== "object") return null;
+  const shape = value as Record<string, unknown>;
+  switch (shape.type) {
+    case "polygon":
+      return isLatLngList(shape.coordinates) &&
+        (shape.coordinates as unknown[]).length >= 3
+        ? (shape as AoiShape)
+        : null;
+    case "rectangle":
+      return isLatLngList(shape.bounds) &&
+        (shape.bounds as unknown[]).length === 2
+        ? (shape as AoiShape)
+        : null;
+    case "circle":
+      return isPosition(shape.center) && typeof shape.radius === "number"
+        ? (shape as AoiShape)
+        : null;
+    case "line":
+      return isLatLngList(shape.coordinates) &&
+        (shape.coordinates as unknown[]).length >= 2 &&
+        typeof shape.buffer === "number"
+        ? (shape as AoiShape)
+        : null;
+    default:
+      return null;
+  }
+};
+
+const geometryShapes = (geometry: Geometry | null): AoiShape[] => {
+  if (!geometry) return [];
+  const coordinates = geometry.coordinates;
+  const polygon = (rings: unknown): AoiShape[] => {
+    const outer = openRing(toLatLngs(Array.isArray(rings) ? rings[0] : []));
+    return outer.length >= 3 ? [{ type: "polygon", coordinates: outer }] : [];
+  };
+
+  switch (geometry.type) {
+    case "Polygon":
+      return polygon(coordinates);
+    case "MultiPolygon":
+      return Array.isArray(coordinates) ? coordinates.flatMap(polygon) : [];
+    case "LineString": {
+      const line = toLatLngs(coordinates);
+      return line.length >= 2
+        ? [{ type: "line", coordinates: line, buffer: DEFAULT_IMPORT_BUFFER }]
+        : [];
+    }
+    case "Point":
+      return isPosition(coordinates)
+        ? [
+            {
+              type: "circle",
+              center: toLatLng(coordinates),
+              radius: DEFAULT_IMPORT_BUFFER,
+            },
+          ]
+        : [];
+    case "GeometryCollection":
+      return (geometry.geometries ?? []).flatMap(geometryShapes);
+    default:
+      return [];
+  }
+};
+
+// Named shapes of a FeatureCollection, Feature or bare geometry
+export const shapesFromGeoJSON = (
+  json: unknown,
+  fallbackName: string
+): { name: string; shape: AoiShape }[] => {
+  if (!json || typeof json !== "object") {
+    throw new Error("Not a GeoJSON document");
+  }
+  const root = json as { type?: string; features?: unknown };
+  const features: Feature[] =
+    root.type === "FeatureCollection" && Array.isArray(root.features)
+      ? root.features
+      : root.type === "Feature"
+      ? [json as Feature]
+      : [{ type: "Feature", geometry: json as Geometry, properties: null }];
+
+  const shapes: { name: string; shape: AoiShape }[] = [];
+  features.forEach((feature, i) => {
+    const properties = feature.properties ?? {};
+    const name =
+      typeof properties.name === "string" && properties.name.trim()
+        ? properties.name.trim()
+        : `${fallbackName} ${i + 1}`;
+
+    const stored = storedShape(properties.aoi_shape);
+    const found = stored ? [stored] : geometryShapes(feature.geometry);
+    found.forEach((shape, part) =>
+      shapes.push({
+        name: found.length > 1 ? `${name} (${part + 1})` : name,
+        shape,
+      })
+    );
+  });
+
+  if (shapes.length === 0) {
+    throw new Error("No polygons, lines or points found");
+  }
+  return shapes;
+};
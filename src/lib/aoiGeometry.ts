@@ -0,0 +1,302 @@
+// src/lib/aoiGeometry.ts
+//
+// Geometry of areas of interest: outlines, point and bounds tests, areas.
+// Areas are regional, so distances are measured on a local equirectangular
+// projection around the area, which is accurate to well under a percent.
+import type { AoiShape, AoiShapeType } from "../types";
+
+type LatLng = [number, number];
+type Bounds = [[number, number], [number, number]];
+type Vec = [number, number];
+
+// Mean earth radius, as used by Leaflet's distance calculations
+const EARTH_RADIUS = 6371000;
+const RAD = Math.PI / 180;
+const CIRCLE_SEGMENTS = 64;
+// Angle between points on round line ends and joins
+const ARC_STEP = Math.PI / 16;
+
+export const AOI_SHAPE_LABELS: Record<AoiShapeType, string> = {
+  polygon: "Polygon",
+  rectangle: "Rectangle",
+  circle: "Circle",
+  line: "Buffered line",
+};
+
+// Projection to meters around a reference latitude
+const projector = (referenceLat: number) => {
+  const scale = Math.cos(referenceLat * RAD);
+  return {
+    project: ([lat, lng]: LatLng): Vec => [
+      EARTH_RADIUS * lng * RAD * scale,
+      EARTH_RADIUS * lat * RAD,
+    ],
+    unproject: ([x, y]: Vec): LatLng => [
+      y / EARTH_RADIUS / RAD,
+      x / EARTH_RADIUS / RAD / scale,
+    ],
+  };
+};
+
+const meanLat = (points: LatLng[]) =>
+  points.reduce((sum, [lat]) => sum + lat, 0) / Math.max(1, points.length);
+
+export const distance = (a: LatLng, b: LatLng): number => {
+  const dLat = (b[0] - a[0]) * RAD;
+  const dLng = (b[1] - a[1]) * RAD;
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(a[0] * RAD) * Math.cos(b[0] * RAD) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS * Math.asin(Math.sqrt(Math.min(1, h)));
+};
+
+const normalizeBounds = ([a, b]: Bounds): Bounds => [
+  [Math.min(a[0], b[0]), Math.min(a[1], b[1])],
+  [Math.max(a[0], b[0]), Math.max(a[1], b[1])],
+];
+
+const circleRing = (center: LatLng, radius: number): LatLng[] => {
+  const { project, unproject } = projector(center[0]);
+  const [cx, cy] = project(center);
+  return Array.from({ length: CIRCLE_SEGMENTS }, (_, i) => {
+    const angle = (2 * Math.PI * i) / CIRCLE_SEGMENTS;
+    return unproject([
+      cx + radius * Math.cos(angle),
+      cy + radius * Math.sin(angle),
+    ]);
+  });
+};
+
+// Points on an arc around `center`, turning clockwise from `from` to `to`
+const arc = (center: Vec, radius: number, from: number, to: number): Vec[] => {
+  const points: Vec[] = [];
+  for (let angle = from; angle > to; angle -= ARC_STEP) {
+    points.push([
+      center[0] + radius * Math.cos(angle),
+      center[1] + radius * Math.sin(angle),
+    ]);
+  }
+  points.push([
+    center[0] + radius * Math.cos(to),
+    center[1] + radius * Math.sin(to),
+  ]);
+  return points;
+};
+
+// Left side of a buffered polyline followed by the round cap at its end
+const bufferSide = (points: Vec[], buffer: number): Vec[] => {
+  const directions = points.slice(1).map((point, i) => {
+    const dx = point[0] - points[i][0];
+    const dy = point[1] - points[i][1];
+    const length = Math.hypot(dx, dy) || 1;
+    return [dx / length, dy / length] as Vec;
+  });
+  const normalAngle = ([dx, dy]: Vec) => Math.atan2(dx, -dy);
+  const offset = (point: Vec, [dx, dy]: Vec): Vec => [
+    point[0] - dy * buffer,
+    point[1] + dx * buffer,
+  ];
+
+  const side: Vec[] = [offset(points[0], directions[0])];
+  for (let i = 1; i < directions.length; i++) {
+    const previous = directions[i - 1];
+    const next = directions[i];
+    const cross = previous[0] * next[1] - previous[1] * next[0];
+    if (cross < 0) {
+      // Outer corner: round join
+      let to = normalAngle(next);
+      const from = normalAngle(previous);
+      if (to > from) to -= 2 * Math.PI;
+      side.push(...arc(points[i], buffer, from, to));
+    } else {
+      // Inner corner: where the two offset edges meet
+      const a = offset(points[i], previous);
+      const b = offset(points[i], next);
+      const denominator = cross || 1;
+      const t =
+        ((b[0] - a[0]) * next[1] - (b[1] - a[1]) * next[0]) / denominator;
+      side.push([a[0] + previous[0] * t, a[1] + previous[1] * t]);
+    }
+  }
+
+  const last = directions[directions.length - 1];
+  const angle = normalAngle(last);
+  side.push(...arc(points[points.length - 1], buffer, angle, angle - Math.PI));
+  return side;
+};
+
+const bufferLine = (coordinates: LatLng[], buffer: number): LatLng[] => {
+  if (coordinates.length < 2) {
+    return coordinates.length === 1 ? circleRing(coordinates[0], buffer) : [];
+  }
+  const { project, unproject } = projector(meanLat(coordinates));
+  const points = coordinates.map(project);
+  return [
+    ...bufferSide(points, buffer),
+    ...bufferSide([...points].reverse(), buffer),
+  ].map(unproject);
+};
+
+// Outline of an area as a polygon ring
+export const aoiRing = (shape: AoiShape): LatLng[] => {
+  switch (shape.type) {
+    case "polygon":
+      return shape.coordinates;
+    case "rectangle": {
+      const [[south, west], [north, east]] = normalizeBounds(shape.bounds);
+      return [
+        [south, west],
+        [north, west],
+        [north, east],
+        [south, east],
+      ];
+    }
+    case "circle":
+      return circleRing(shape.center, shape.radius);
+    case "line":
+      return bufferLine(shape.coordinates, shape.buffer);
+  }
+};
+
+// Imported outlines can have too many vertices to spread into Math.min
+export const aoiBounds = (shape: AoiShape): Bounds => {
+  const bounds: Bounds = [
+    [Infinity, Infinity],
+    [-Infinity, -Infinity],
+  ];
+  aoiRing(shape).forEach(([lat, lng]) => {
+    bounds[0] = [Math.min(bounds[0][0], lat), Math.min(bounds[0][1], lng)];
+    bounds[1] = [Math.max(bounds[1][0], lat), Math.max(bounds[1][1], lng)];
+  });
+  return bounds;
+};
+
+const ringContains = (ring: LatLng[], [lat, lng]: LatLng): boolean => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [latI, lngI] = ring[i];
+    const [latJ, lngJ] = ring[j];
+    if (
+      latI > lat !== latJ > lat &&
+      lng < ((lngJ - lngI) * (lat - latI)) / (latJ - latI) + lngI
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+const segmentDistance = (point: Vec, a: Vec, b: Vec): number => {
+  const dx = b[0] - a[0];
+  const dy = b[1] - a[1];
+  const lengthSquared = dx * dx + dy * dy;
+  const t =
+    lengthSquared > 0
+      ? Math.min(
+          1,
+          Math.max(
+            0,
+            ((point[0] - a[0]) * dx + (point[1] - a[1]) * dy) / lengthSquared
+          )
+        )
+      : 0;
+  return Math.hypot(point[0] - a[0] - t * dx, point[1] - a[1] - t * dy);
+};
+
+export const aoiContains = (shape: AoiShape, point: LatLng): boolean => {
+  switch (shape.type) {
+    case "polygon":
+      return ringContains(shape.coordinates, point);
+    case "rectangle": {
+      const [[south, west], [north, east]] = normalizeBounds(shape.bounds);
+      return (
+        point[0] >= south &&
+        point[0] <= north &&
+        point[1] >= west &&
+        point[1] <= east
+      );
+    }
+    case "circle":
+      return distance(shape.center, point) <= shape.radius;
+    case "line": {
+      const { project } = projector(meanLat(shape.coordinates));
+      const projected = project(point);
+      const points = shape.coordinates.map(project);
+      if (points.length === 1) {
+        return segmentDistance(projected, points[0], points[0]) <= shape.buffer;
+      }
+      return points
+        .slice(1)
+        .some(
+          (end, i) => segmentDistance(projected, points[i], end) <= shape.buffer
+        );
+    }
+  }
+};
+
+const segmentsIntersect = (a: LatLng, b: LatLng, c: LatLng, d: LatLng) => {
+  const orientation = (p: LatLng, q: LatLng, r: LatLng) =>
+    Math.sign((q[1] - p[1]) * (r[0] - p[0]) - (q[0] - p[0]) * (r[1] - p[1]));
+  return (
+    orientation(a, b, c) !== orientation(a, b, d) &&
+    orientation(c, d, a) !== orientation(c, d, b)
+  );
+};
+
+// Whether an area overlaps a [[lat, lng], [lat, lng]] box, e.g. image bounds
+export const aoiIntersectsBounds = (
+  shape: AoiShape,
+  bounds: Bounds
+): boolean => {
+  const [[south, west], [north, east]] = normalizeBounds(bounds);
+  if (shape.type === "circle") {
+    const nearest: LatLng = [
+      Math.min(north, Math.max(south, shape.center[0])),
+      Math.min(east, Math.max(west, shape.center[1])),
+    ];
+    return distance(shape.center, nearest) <= shape.radius;
+  }
+
+  const corners: LatLng[] = [
+    [south, west],
+    [north, west],
+    [north, east],
+    [south, east],
+  ];
+  const ring = aoiRing(shape);
+  const inBox = ([lat, lng]: LatLng) =>
+    lat >= south && lat <= north && lng >= west && lng <= east;
+
+  return (
+    ring.some(inBox) ||
+    corners.some((corner) => aoiContains(shape, corner)) ||
+    ring.some((point, i) => {
+      const next = ring[(i + 1) % ring.length];
+      return corners.some((corner, j) =>
+        segmentsIntersect(point, next, corner, corners[(j + 1) % 4])
+      );
+    })
+  );
+};
+
+// Area in square meters
+export const aoiArea = (shape: AoiShape): number => {
+  if (shape.type === "circle") return Math.PI * shape.radius ** 2;
+
+  const ring = aoiRing(shape);
+  const { project } = projector(meanLat(ring));
+  const points = ring.map(project);
+  let twiceArea = 0;
+  points.forEach(([x, y], i) => {
+    const [nextX, nextY] = points[(i + 1) % points.length];
+    twiceArea += x * nextY - nextX * y;
+  });
+  return Math.abs(twiceArea) / 2;
+};
+
+export const formatArea = (squareMeters: number): string =>
+  squareMeters >= 1e6
+    ? `${(squareMeters / 1e6).toLocaleString(undefined, {
+        maximumFractionDigits: 1,
+      })} km²`
+    : `${Math.round(squareMeters).toLocaleString()} m²`;
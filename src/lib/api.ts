@@ -1,182 +1,563 @@
+// src/lib/api.ts
+import axios, {
+  AxiosError,
+  type AxiosInstance,
+  type AxiosRequestConfig,
+  type InternalAxiosRequestConfig,
+} from "axios";
 import type {
   SatelliteImage,
   ThreatDetection,
   AnalysisResult,
+  AnalysisStatus,
+  AnalysisTriggerResponse,
   ApiResponse,
-  ApiError,
+  ApiErrorResponse,
   ThreatSummary,
+  User,
+  LoginCredentials,
+  RegisterData,
+  AuthTokens,
+  UserStats,
+  RecentActivity,
+  UserPreferences,
+  ChunkedUploadSession,
+  AreaOfInterestRecord,
+  ThreatComment,
+  ThreatCorrection,
 } from "../types";
 
-const API_BASE_URL =
+export const API_BASE_URL =
   import.meta.env.VITE_API_URL || "http://localhost:8000/api";
 
-class ApiClient {
-  private baseUrl: string;
-  private authToken: string | null;
+// Chunked uploads can be pointed at a separate service, e.g. the local mock
+const UPLOAD_API_URL = import.meta.env.VITE_UPLOAD_API_URL || API_BASE_URL;
 
-  constructor(baseUrl: string) {
-    this.baseUrl = baseUrl;
-    this.authToken = localStorage.getItem("accessToken");
+const ACCESS_TOKEN_KEY = "accessToken";
+const REFRESH_TOKEN_KEY = "refreshToken";
+
+// Single error type thrown by every ApiClient method
+export class ApiError extends Error {
+  status: number | null;
+  data: ApiErrorResponse | null;
+  // No response at all: offline, or the server could not be reached
+  network: boolean;
+
+  constructor(
+    message: string,
+    status: number | null = null,
+    data: ApiErrorResponse | null = null,
+    network = false
+  ) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.data = data;
+    this.network = network;
   }
+}
 
-  private getHeaders(): HeadersInit {
-    const headers: HeadersInit = {
-      "Content-Type": "application/json",
-    };
+// Pull a human readable message out of a DRF style error body
+const messageFromBody = (data: ApiErrorResponse | null): string | null => {
+  if (!data || typeof data !== "object") return null;
+  if (data.detail) return data.detail;
+  if (data.error) return data.error;
+  if (data.message) return data.message;
 
-    if (this.authToken) {
-      headers["Authorization"] = `Bearer ${this.authToken}`;
+  // Field validation errors, e.g. { email: ["already exists"] }
+  for (const value of Object.values(data)) {
+    if (Array.isArray(value) && typeof value[0] === "string") {
+      return value[0];
     }
+  }
+
+  return null;
+};
+
+const toApiError = (error: unknown): ApiError => {
+  if (error instanceof ApiError) return error;
 
-    return headers;
+  if (axios.isCancel(error)) {
+    return new ApiError("Request cancelled");
   }
 
-  private async request<T>(
-    endpoint: string,
-    options: RequestInit = {}
-  ): Promise<T> {
-    const url = `${this.baseUrl}${endpoint}`;
-    const config: RequestInit = {
-      ...options,
-      headers: {
-        ...this.getHeaders(),
-        ...options.headers,
-      },
+  if (axios.isAxiosError(error)) {
+    const axiosError = error as AxiosError<ApiErrorResponse>;
+    const data = axiosError.response?.data ?? null;
+    return new ApiError(
+      messageFromBody(data) || axiosError.message || "An error occurred",
+      axiosError.response?.status ?? null,
+      data,
+      !axiosError.response
+    );
+  }
+
+  if (error instanceof Error) {
+    return new ApiError(error.message);
+  }
+
+  // Thunks reject with the message already extracted
+  if (typeof error === "string") {
+    return new ApiError(error);
+  }
+
+  return new ApiError("An unexpected error occurred");
+};
+
+// Helper used by thunks and components to surface a failure to the user
+export const getErrorMessage = (error: unknown): string =>
+  toApiError(error).message;
+
+// Writes failing this way can be queued and replayed later
+export const isNetworkError = (error: unknown): boolean =>
+  error instanceof ApiError && error.network;
+
+// Normalize paginated and plain array list responses
+const toPage = <T>(data: ApiResponse<T> | T[]): ApiResponse<T> => {
+  if (Array.isArray(data)) {
+    return { count: data.length, next: null, previous: null, results: data };
+  }
+  return { ...data, results: data.results || [] };
+};
+
+type ThreatFeatureCollection = {
+  type: "FeatureCollection";
+  features: { id: number; properties: ThreatDetection }[];
+};
+
+type ThreatListResponse =
+  | ThreatDetection[]
+  | ApiResponse<ThreatDetection>
+  | (Omit<ApiResponse<ThreatDetection>, "results"> & {
+      results: ThreatFeatureCollection;
+    });
+
+// The threats endpoint may return results as a GeoJSON FeatureCollection
+const toThreatPage = (
+  data: ThreatListResponse
+): ApiResponse<ThreatDetection> => {
+  if (Array.isArray(data)) return toPage(data);
+
+  const results = data.results as ThreatDetection[] | ThreatFeatureCollection;
+  if (
+    results &&
+    !Array.isArray(results) &&
+    results.type === "FeatureCollection"
+  ) {
+    return {
+      count: data.count,
+      next: data.next,
+      previous: data.previous,
+      results: results.features.map((feature) => ({
+        ...feature.properties,
+        id: feature.id,
+      })),
     };
+  }
+
+  return toPage(data as ApiResponse<ThreatDetection>);
+};
+
+const toQueryParams = (
+  params?: Record<string, string | number | boolean | undefined | null>
+): Record<string, string> | undefined => {
+  if (!params) return undefined;
+
+  const query: Record<string, string> = {};
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && value !== "") {
+      query[key] = String(value);
+    }
+  });
+  return query;
+};
+
+interface AuthHandlers {
+  // Obtain a fresh access token, rejecting when the session cannot be renewed
+  refreshToken: () => Promise<string>;
+  // Called once the session is definitely gone
+  onSessionExpired: () => void;
+}
+
+declare module "axios" {
+  interface AxiosRequestConfig {
+    // Auth endpoints must not trigger the 401 refresh flow themselves
+    skipAuthRefresh?: boolean;
+  }
+}
+
+type RetryableRequestConfig = InternalAxiosRequestConfig & {
+  _retry?: boolean;
+};
+
+export interface SatelliteImageFilters {
+  status?: string;
+  analyzed?: boolean;
+  search?: string;
+  page?: number;
+  date_from?: string;
+  date_to?: string;
+}
+
+export interface AnalysisFilters {
+  status?: string;
+  analysis_type?: string;
+  satellite_image?: number;
+}
+
+export interface AnalysisOptions {
+  // Earlier image of the same area that change detection compares against
+  reference_image?: number;
+}
+
+export interface ThreatFilters {
+  severity?: string;
+  threat_type?: string;
+  verified?: boolean;
+  acknowledged?: boolean;
+  min_severity?: string;
+  date_from?: string;
+  date_to?: string;
+}
+
+export interface SatelliteImageUpload {
+  file: File;
+  name: string;
+  description?: string;
+  acquisition_date?: string;
+}
+
+export interface UploadOptions {
+  // Fraction of the request body sent so far, between 0 and 1
+  onUploadProgress?: (progress: number) => void;
+  signal?: AbortSignal;
+}
+
+export interface ChunkedUploadInit {
+  filename: string;
+  file_size: number;
+  chunk_size: number;
+  total_chunks: number;
+  name: string;
+  description?: string;
+  acquisition_date?: string;
+}
+
+class ApiClient {
+  private http: AxiosInstance;
+  private authHandlers: AuthHandlers | null = null;
+  private refreshPromise: Promise<string> | null = null;
+
+  constructor(baseUrl: string) {
+    this.http = axios.create({ baseURL: baseUrl });
+
+    this.http.interceptors.request.use((config) => {
+      const token = this.getAccessToken();
+      if (token) {
+        config.headers.Authorization = `Bearer ${token}`;
+      }
+      return config;
+    });
+
+    this.http.interceptors.response.use(
+      (response) => response,
+      (error: AxiosError) => this.handleResponseError(error)
+    );
+  }
+
+  // Shared token refresh: concurrent 401s wait on the same refresh request
+  private async handleResponseError(error: AxiosError) {
+    const originalRequest = error.config as RetryableRequestConfig | undefined;
+
+    if (
+      error.response?.status !== 401 ||
+      !originalRequest ||
+      originalRequest._retry ||
+      originalRequest.skipAuthRefresh ||
+      !this.authHandlers
+    ) {
+      return Promise.reject(toApiError(error));
+    }
+
+    originalRequest._retry = true;
 
     try {
-      const response = await fetch(url, config);
-
-      if (!response.ok) {
-        const error: ApiError = await response.json().catch(() => ({
-          detail: "An error occurred",
-        }));
-        throw new Error(
-          error.detail || error.error || error.message || "Request failed"
-        );
+      if (!this.refreshPromise) {
+        this.refreshPromise = this.authHandlers.refreshToken().finally(() => {
+          this.refreshPromise = null;
+        });
       }
+      const newToken = await this.refreshPromise;
+      originalRequest.headers.Authorization = `Bearer ${newToken}`;
+      return this.http(originalRequest);
+    } catch {
+      this.authHandlers.onSessionExpired();
+      return Promise.reject(toApiError(error));
+    }
+  }
 
-      return await response.json();
+  private async request<T>(config: AxiosRequestConfig): Promise<T> {
+    try {
+      const response = await this.http.request<T>(config);
+      return response.data;
     } catch (error) {
-      console.error("API request failed:", error);
-      throw error;
+      throw toApiError(error);
     }
   }
 
-  // Satellite Images
-  async getSatelliteImages(params?: {
-    status?: string;
-    analyzed?: boolean;
-    date_from?: string;
-    date_to?: string;
-  }): Promise<ApiResponse<SatelliteImage>> {
-    const queryParams = new URLSearchParams();
-    if (params) {
-      Object.entries(params).forEach(([key, value]) => {
-        if (value !== undefined && value !== null) {
-          queryParams.append(key, String(value));
-        }
-      });
+  setAuthHandlers(handlers: AuthHandlers): void {
+    this.authHandlers = handlers;
+  }
+
+  // Authentication tokens
+  getAccessToken(): string | null {
+    return localStorage.getItem(ACCESS_TOKEN_KEY);
+  }
+
+  getRefreshToken(): string | null {
+    return localStorage.getItem(REFRESH_TOKEN_KEY);
+  }
+
+  setTokens(access: string, refresh?: string): void {
+    localStorage.setItem(ACCESS_TOKEN_KEY, access);
+    if (refresh) {
+      localStorage.setItem(REFRESH_TOKEN_KEY, refresh);
     }
+  }
 
-    const endpoint = `/satellite/images/${
-      queryParams.toString() ? `?${queryParams}` : ""
-    }`;
-    return this.request<ApiResponse<SatelliteImage>>(endpoint);
+  clearTokens(): void {
+    localStorage.removeItem(ACCESS_TOKEN_KEY);
+    localStorage.removeItem(REFRESH_TOKEN_KEY);
+  }
+
+  // Authentication
+  async login(credentials: LoginCredentials): Promise<AuthTokens> {
+    return this.request<AuthTokens>({
+      method: "POST",
+      url: "/user/auth/jwt/create/",
+      data: credentials,
+      skipAuthRefresh: true,
+    });
+  }
+
+  async register(data: RegisterData): Promise<User> {
+    return this.request<User>({
+      method: "POST",
+      url: "/user/auth/users/",
+      data,
+      skipAuthRefresh: true,
+    });
+  }
+
+  async refreshAccessToken(refresh: string): Promise<{ access: string }> {
+    return this.request<{ access: string }>({
+      method: "POST",
+      url: "/user/auth/jwt/refresh/",
+      data: { refresh },
+      skipAuthRefresh: true,
+    });
+  }
+
+  // User Profile
+  async getCurrentUser(): Promise<User> {
+    return this.request<User>({ url: "/user/profile/me/" });
+  }
+
+  async updateProfile(data: Partial<User>): Promise<User> {
+    return this.request<User>({
+      method: "PATCH",
+      url: "/user/profile/update_profile/",
+      data,
+    });
+  }
+
+  async uploadAvatar(file: File): Promise<User> {
+    const formData = new FormData();
+    formData.append("avatar", file);
+
+    return this.request<User>({
+      method: "POST",
+      url: "/user/profile/upload_avatar/",
+      data: formData,
+    });
+  }
+
+  async getUserStats(): Promise<UserStats> {
+    return this.request<UserStats>({ url: "/user/profile/stats/" });
+  }
+
+  async getRecentActivity(limit: number = 10): Promise<RecentActivity[]> {
+    const data = await this.request<
+      ApiResponse<RecentActivity> | RecentActivity[]
+    >({ url: "/user/profile/activity/", params: { limit } });
+    return toPage(data).results;
+  }
+
+  async getUserPreferences(): Promise<UserPreferences> {
+    return this.request<UserPreferences>({ url: "/user/profile/preferences/" });
+  }
+
+  async updateUserPreferences(
+    preferences: Partial<UserPreferences>
+  ): Promise<UserPreferences> {
+    return this.request<UserPreferences>({
+      method: "PATCH",
+      url: "/user/profile/preferences/",
+      data: preferences,
+    });
+  }
+
+  // Satellite Images
+  async getSatelliteImages(
+    params?: SatelliteImageFilters
+  ): Promise<ApiResponse<SatelliteImage>> {
+    const data = await this.request<
+      ApiResponse<SatelliteImage> | SatelliteImage[]
+    >({ url: "/satellite/images/", params: toQueryParams({ ...params }) });
+    return toPage(data);
   }
 
   async getSatelliteImage(id: number): Promise<SatelliteImage> {
-    return this.request<SatelliteImage>(`/satellite/images/${id}/`);
+    return this.request<SatelliteImage>({ url: `/satellite/images/${id}/` });
+  }
+
+  async uploadSatelliteImage(
+    data: SatelliteImageUpload,
+    options: UploadOptions = {}
+  ): Promise<SatelliteImage> {
+    const formData = new FormData();
+    formData.append("original_image", data.file);
+    formData.append("name", data.name);
+    if (data.description) formData.append("description", data.description);
+    if (data.acquisition_date)
+      formData.append("acquisition_date", data.acquisition_date);
+
+    return this.request<SatelliteImage>({
+      method: "POST",
+      url: "/satellite/images/",
+      data: formData,
+      signal: options.signal,
+      onUploadProgress: (event) => {
+        if (options.onUploadProgress && event.total) {
+          options.onUploadProgress(event.loaded / event.total);
+        }
+      },
+    });
+  }
+
+  // Resumable chunked uploads for large images
+  async createChunkedUpload(
+    init: ChunkedUploadInit
+  ): Promise<ChunkedUploadSession> {
+    return this.request<ChunkedUploadSession>({
+      method: "POST",
+      url: `${UPLOAD_API_URL}/satellite/uploads/`,
+      data: init,
+    });
+  }
+
+  async getChunkedUpload(uploadId: string): Promise<ChunkedUploadSession> {
+    return this.request<ChunkedUploadSession>({
+      url: `${UPLOAD_API_URL}/satellite/uploads/${uploadId}/`,
+    });
+  }
+
+  async uploadChunk(
+    uploadId: string,
+    index: number,
+    chunk: Blob,
+    checksum: string,
+    options: UploadOptions = {}
+  ): Promise<ChunkedUploadSession> {
+    return this.request<ChunkedUploadSession>({
+      method: "PUT",
+      url: `${UPLOAD_API_URL}/satellite/uploads/${uploadId}/chunks/${index}/`,
+      data: chunk,
+      headers: {
+        "Content-Type": "application/octet-stream",
+        "X-Chunk-Checksum": `sha256=${checksum}`,
+      },
+      signal: options.signal,
+      onUploadProgress: (event) => {
+        if (options.onUploadProgress && event.total) {
+          options.onUploadProgress(event.loaded / event.total);
+        }
+      },
+    });
+  }
+
+  async completeChunkedUpload(uploadId: string): Promise<SatelliteImage> {
+    return this.request<SatelliteImage>({
+      method: "POST",
+      url: `${UPLOAD_API_URL}/satellite/uploads/${uploadId}/complete/`,
+    });
+  }
+
+  async cancelChunkedUpload(uploadId: string): Promise<void> {
+    await this.request<void>({
+      method: "DELETE",
+      url: `${UPLOAD_API_URL}/satellite/uploads/${uploadId}/`,
+    });
   }
 
   async triggerAnalysis(
     imageId: number,
-    analysisType: string = "threat_detection"
-  ): Promise<{
-    message: string;
-    analysis_id: number;
-    task_id: string;
-    status: string;
-  }> {
-    return this.request(`/satellite/images/${imageId}/analyze/`, {
+    analysisType: string = "threat_detection",
+    options: AnalysisOptions = {}
+  ): Promise<AnalysisTriggerResponse> {
+    return this.request<AnalysisTriggerResponse>({
       method: "POST",
-      body: JSON.stringify({ analysis_type: analysisType }),
+      url: `/satellite/images/${imageId}/analyze/`,
+      data: { analysis_type: analysisType, ...options },
     });
   }
 
   async getImageAnalyses(imageId: number): Promise<AnalysisResult[]> {
-    return this.request<AnalysisResult[]>(
-      `/satellite/images/${imageId}/analyses/`
-    );
+    const data = await this.request<
+      ApiResponse<AnalysisResult> | AnalysisResult[]
+    >({ url: `/satellite/images/${imageId}/analyses/` });
+    return toPage(data).results;
   }
 
   // Analysis Results
-  async getAnalyses(params?: {
-    status?: string;
-    analysis_type?: string;
-    satellite_image?: number;
-  }): Promise<ApiResponse<AnalysisResult>> {
-    const queryParams = new URLSearchParams();
-    if (params) {
-      Object.entries(params).forEach(([key, value]) => {
-        if (value !== undefined && value !== null) {
-          queryParams.append(key, String(value));
-        }
-      });
-    }
-
-    const endpoint = `/satellite/analyses/${
-      queryParams.toString() ? `?${queryParams}` : ""
-    }`;
-    return this.request<ApiResponse<AnalysisResult>>(endpoint);
+  async getAnalyses(
+    params?: AnalysisFilters
+  ): Promise<ApiResponse<AnalysisResult>> {
+    const data = await this.request<
+      ApiResponse<AnalysisResult> | AnalysisResult[]
+    >({ url: "/satellite/analyses/", params: toQueryParams({ ...params }) });
+    return toPage(data);
   }
 
   async getAnalysis(id: number): Promise<AnalysisResult> {
-    return this.request<AnalysisResult>(`/satellite/analyses/${id}/`);
+    return this.request<AnalysisResult>({ url: `/satellite/analyses/${id}/` });
   }
 
-  async checkAnalysisStatus(id: number): Promise<{
-    id: number;
-    status: string;
-    threat_count: number;
-    processing_time: number | null;
-    completed_at: string | null;
-  }> {
-    return this.request(`/satellite/analyses/${id}/status_check/`);
+  async checkAnalysisStatus(id: number): Promise<AnalysisStatus> {
+    return this.request<AnalysisStatus>({
+      url: `/satellite/analyses/${id}/status_check/`,
+    });
   }
 
   // Threat Detections
-  async getThreatDetections(params?: {
-    severity?: string;
-    threat_type?: string;
-    verified?: boolean;
-    acknowledged?: boolean;
-    min_severity?: string;
-    date_from?: string;
-    date_to?: string;
-  }): Promise<ApiResponse<ThreatDetection>> {
-    const queryParams = new URLSearchParams();
-    if (params) {
-      Object.entries(params).forEach(([key, value]) => {
-        if (value !== undefined && value !== null) {
-          queryParams.append(key, String(value));
-        }
-      });
-    }
-
-    const endpoint = `/satellite/threats/${
-      queryParams.toString() ? `?${queryParams}` : ""
-    }`;
-    return this.request<ApiResponse<ThreatDetection>>(endpoint);
+  async getThreatDetections(
+    params?: ThreatFilters
+  ): Promise<ApiResponse<ThreatDetection>> {
+    const data = await this.request<ThreatListResponse>({
+      url: "/satellite/threats/",
+      params: toQueryParams({ ...params }),
+    });
+    return toThreatPage(data);
   }
 
   async getThreatDetection(id: number): Promise<ThreatDetection> {
-    return this.request<ThreatDetection>(`/satellite/threats/${id}/`);
+    return this.request<ThreatDetection>({ url: `/satellite/threats/${id}/` });
   }
 
   async verifyThreat(id: number): Promise<ThreatDetection> {
-    return this.request<ThreatDetection>(`/satellite/threats/${id}/verify/`, {
+    return this.request<ThreatDetection>({
       method: "POST",
+      url: `/satellite/threats/${id}/verify/`,
     });
   }
 
@@ -184,28 +565,81 @@ class ApiClient {
     id: number,
     notes?: string
   ): Promise<ThreatDetection> {
-    return this.request<ThreatDetection>(
-      `/satellite/threats/${id}/acknowledge/`,
-      {
-        method: "POST",
-        body: JSON.stringify({ notes: notes || "" }),
-      }
-    );
+    return this.request<ThreatDetection>({
+      method: "POST",
+      url: `/satellite/threats/${id}/acknowledge/`,
+      data: { notes: notes || "" },
+    });
+  }
+
+  async getThreatComments(threatId: number): Promise<ThreatComment[]> {
+    const data = await this.request<
+      ApiResponse<ThreatComment> | ThreatComment[]
+    >({ url: `/satellite/threats/${threatId}/comments/` });
+    return toPage(data).results;
+  }
+
+  async addThreatComment(
+    threatId: number,
+    body: string,
+    parent: number | null = null
+  ): Promise<ThreatComment> {
+    return this.request<ThreatComment>({
+      method: "POST",
+      url: `/satellite/threats/${threatId}/comments/`,
+      data: { body, parent },
+    });
+  }
+
+  async getThreatCorrections(threatId: number): Promise<ThreatCorrection[]> {
+    const data = await this.request<
+      ApiResponse<ThreatCorrection> | ThreatCorrection[]
+    >({ url: `/satellite/threats/${threatId}/corrections/` });
+    return toPage(data).results;
+  }
+
+  async createThreatCorrection(
+    threatId: number,
+    correction: Pick<
+      ThreatCorrection,
+      "kind" | "reason" | "previous" | "corrected" | "comment"
+    >
+  ): Promise<ThreatCorrection> {
+    return this.request<ThreatCorrection>({
+      method: "POST",
+      url: `/satellite/threats/${threatId}/corrections/`,
+      data: correction,
+    });
   }
 
   async getThreatSummary(): Promise<ThreatSummary> {
-    return this.request<ThreatSummary>("/satellite/threats/summary/");
+    return this.request<ThreatSummary>({ url: "/satellite/threats/summary/" });
   }
 
-  // Authentication
-  setAuthToken(token: string): void {
-    this.authToken = token;
-    localStorage.setItem("accessToken", token);
+  // Areas of Interest
+  async getAreasOfInterest(): Promise<AreaOfInterestRecord[]> {
+    const data = await this.request<
+      ApiResponse<AreaOfInterestRecord> | AreaOfInterestRecord[]
+    >({ url: "/satellite/aois/" });
+    return toPage(data).results;
   }
 
-  clearAuthToken(): void {
-    this.authToken = null;
-    localStorage.removeItem("accessToken");
+  async saveAreaOfInterest(
+    aoi: Pick<AreaOfInterestRecord, "client_id" | "name" | "shape">,
+    id?: number
+  ): Promise<AreaOfInterestRecord> {
+    return this.request<AreaOfInterestRecord>({
+      method: id ? "PATCH" : "POST",
+      url: id ? `/satellite/aois/${id}/` : "/satellite/aois/",
+      data: aoi,
+    });
+  }
+
+  async deleteAreaOfInterest(id: number): Promise<void> {
+    await this.request<void>({
+      method: "DELETE",
+      url: `/satellite/aois/${id}/`,
+    });
   }
 }
 
@@ -1,128 +0,0 @@
-// src/lib/axiosInterceptor.ts
-import axios, { AxiosError, type InternalAxiosRequestConfig } from "axios";
-import { store } from "../store";
-import { logout, refreshAccessToken } from "../store/slices/authSlice";
-import { toast } from "react-hot-toast";
-
-const API_BASE_URL =
-  import.meta.env.VITE_API_URL || "http://localhost:8000/api";
-
-// Create axios instance
-export const axiosInstance = axios.create({
-  baseURL: API_BASE_URL,
-  headers: {
-    "Content-Type": "application/json",
-  },
-});
-
-// Track if we're currently refreshing the token
-let isRefreshing = false;
-let failedQueue: Array<{
-  resolve: (value: string) => void;
-  reject: (error: Error) => void;
-}> = [];
-
-const processQueue = (
-  error: Error | null,
-  token: string | null = null
-): void => {
-  failedQueue.forEach((prom) => {
-    if (error) {
-      prom.reject(error);
-    } else if (token) {
-      prom.resolve(token);
-    }
-  });
-
-  failedQueue = [];
-};
-
-// Request interceptor
-axiosInstance.interceptors.request.use(
-  (config: InternalAxiosRequestConfig) => {
-    const token = localStorage.getItem("accessToken");
-    if (token && config.headers) {
-      config.headers.Authorization = `Bearer ${token}`;
-    }
-    return config;
-  },
-  (error: AxiosError) => {
-    return Promise.reject(error);
-  }
-);
-
-// Response interceptor
-axiosInstance.interceptors.response.use(
-  (response) => response,
-  async (error: AxiosError) => {
-    const originalRequest = error.config as InternalAxiosRequestConfig & {
-      _retry?: boolean;
-    };
-
-    // If error is 401 and we haven't retried yet
-    if (error.response?.status === 401 && !originalRequest._retry) {
-      if (isRefreshing) {
-        // If already refreshing, queue this request
-        return new Promise((resolve, reject) => {
-          failedQueue.push({ resolve, reject });
-        })
-          .then((token) => {
-            if (originalRequest.headers) {
-              originalRequest.headers.Authorization = `Bearer ${token}`;
-            }
-            return axiosInstance(originalRequest);
-          })
-          .catch((err) => {
-            return Promise.reject(err);
-          });
-      }
-
-      originalRequest._retry = true;
-      isRefreshing = true;
-
-      try {
-        // Attempt to refresh the token
-        const result = await store.dispatch(refreshAccessToken());
-
-        if (refreshAccessToken.fulfilled.match(result)) {
-          const newToken = result.payload as string;
-          processQueue(null, newToken);
-
-          // Retry original request with new token
-          if (originalRequest.headers) {
-            originalRequest.headers.Authorization = `Bearer ${newToken}`;
-          }
-          return axiosInstance(originalRequest);
-        } else {
-          // Refresh failed, logout user
-          processQueue(new Error("Token refresh failed"), null);
-          store.dispatch(logout());
-          toast.error("Session expired. Please login again.");
-          window.location.href = "/login";
-          return Promise.reject(error);
-        }
-      } catch (refreshError) {
-        processQueue(refreshError as Error, null);
-        store.dispatch(logout());
-        toast.error("Session expired. Please login again.");
-        window.location.href = "/login";
-        return Promise.reject(refreshError);
-      } finally {
-        isRefreshing = false;
-      }
-    }
-
-    // Handle other error codes
-    if (error.response?.status === 403) {
-      toast.error("You don't have permission to perform this action");
-    } else if (error.response?.status === 404) {
-      toast.error("Resource not found");
-    } else if (error.response?.status === 500) {
-      toast.error("Server error. Please try again later");
-    }
-
-    return Promise.reject(error);
-  }
-);
-
-export default axiosInstance;
@@ -0,0 +1,101 @@
+// src/lib/basemapLayer.ts
+//
+// Leaflet tile layer for any basemap source. Tiles saved for offline use
+// are served from Cache Storage; MBTiles and PMTiles are read out of the file.
+import L from "leaflet";
+import {
+  basemapUrlTemplate,
+  fillTileTemplate,
+  isTileArchive,
+  tileArchive,
+} from "./basemaps";
+import { readCachedTile } from "./tileCache";
+import type { BasemapSource } from "../types";
+
+export class BasemapTileLayer extends L.TileLayer {
+  private source: BasemapSource;
+  private template: string | null;
+  private controllers = new WeakMap<HTMLElement, AbortController>();
+
+  constructor(source: BasemapSource) {
+    super("", {
+      attribution: source.attribution,
+      minZoom: source.min_zoom,
+      maxZoom: source.max_zoom,
+      // Past its last level the deepest tiles are scaled up
+      maxNativeZoom: source.max_zoom,
+    });
+    this.source = source;
+    this.template = basemapUrlTemplate(source);
+    this.on("tileunload", ({ tile }: L.TileEvent) => {
+      this.controllers.get(tile)?.abort();
+    });
+  }
+
+  onAdd(map: L.Map): this {
+    super.onAdd(map);
+    // Keep archives from being asked for tiles outside them
+    if (isTileArchive(this.source.kind)) {
+      tileArchive(this.source)
+        .getHeader()
+        .then((header) => {
+          this.options.bounds = L.latLngBounds(header.bounds);
+          this.options.minNativeZoom = header.minZoom;
+          this.options.maxNativeZoom = header.maxZoom;
+          if (this._map) this.redraw();
+        })
+        .catch((error) =>
+          console.warn(`Could not read ${this.source.url}:`, error)
+        );
+    }
+    return this;
+  }
+
+  createTile(coords: L.Coords, done: L.DoneCallback): HTMLElement {
+    const tile = document.createElement("img");
+    tile.alt = "";
+    tile.setAttribute("role", "presentation");
+    const controller = new AbortController();
+    this.controllers.set(tile, controller);
+
+    const showBlob = (blob: Blob) => {
+      const url = URL.createObjectURL(blob);
+      tile.onload = () => {
+        URL.revokeObjectURL(url);
+        done(undefined, tile);
+      };
+      tile.onerror = () => {
+        URL.revokeObjectURL(url);
+        done(new Error("Tile could not be decoded"), tile);
+      };
+      tile.src = url;
+    };
+
+    readCachedTile(this.source, coords)
+      .catch(() => null)
+      .then(async (cached) => {
+        if (cached) return showBlob(cached);
+        if (this.template) {
+          // Plain image requests keep working with servers without CORS
+          tile.onload = () => done(undefined, tile);
+          tile.onerror = () => done(new Error("Tile failed to load"), tile);
+          tile.src = fillTileTemplate(this.template, coords);
+          return;
+        }
+        const blob = await tileArchive(this.source).getTile(
+          coords.z,
+          coords.x,
+          coords.y,
+          controller.signal
+        );
+        // Empty tiles are left transparent
+        if (blob) showBlob(blob);
+        else done(undefined, tile);
+      })
+      .catch((error) => {
+        if (!controller.signal.aborted) done(error, tile);
+      });
+
+    return tile;
+  }
+}
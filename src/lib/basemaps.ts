@@ -0,0 +1,176 @@
+// src/lib/basemaps.ts
+//
+// Basemap tile sources. The built-in list can be replaced per deployment
+// with VITE_BASEMAPS, a JSON array of sources, e.g. to point field kits at
+// a local tile server or at MBTiles and PMTiles files under /media/.
+import { API_BASE_URL } from "./api";
+import { MbtilesArchive } from "./mbtiles";
+import { PmtilesArchive } from "./pmtiles";
+import type { BasemapKind, BasemapSource } from "../types";
+
+export const BASEMAP_KIND_LABELS: Record<BasemapKind, string> = {
+  xyz: "XYZ tile server",
+  tms: "TMS tile server",
+  mbtiles: "MBTiles file",
+  pmtiles: "PMTiles file",
+};
+
+export const BASEMAP_KINDS = Object.keys(BASEMAP_KIND_LABELS) as BasemapKind[];
+
+const DEFAULT_BASEMAPS: BasemapSource[] = [
+  {
+    id: "osm",
+    label: "OpenStreetMap",
+    kind: "xyz",
+    url: "https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png",
+    attribution:
+      '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a>',
+    min_zoom: 0,
+    max_zoom: 19,
+    builtin: true,
+  },
+  {
+    id: "satellite",
+    label: "Satellite",
+    kind: "xyz",
+    url: "https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}",
+    attribution: '&copy; <a href="https://www.esri.com/">Esri</a>',
+    min_zoom: 0,
+    max_zoom: 19,
+    builtin: true,
+  },
+  {
+    id: "terrain",
+    label: "Terrain",
+    kind: "xyz",
+    url: "https://{s}.tile.opentopomap.org/{z}/{x}/{y}.png",
+    attribution: '&copy; <a href="https://opentopomap.org/">OpenTopoMap</a>',
+    min_zoom: 0,
+    max_zoom: 17,
+    builtin: true,
+  },
+];
+
+const configuredBasemaps = (): BasemapSource[] => {
+  const configured = import.meta.env.VITE_BASEMAPS;
+  if (!configured) return DEFAULT_BASEMAPS;
+  try {
+    const sources = JSON.parse(configured) as Partial<BasemapSource>[];
+    const valid = sources.filter(
+      (source) =>
+        source.id && source.url && BASEMAP_KINDS.includes(source.kind!)
+    );
+    if (valid.length === 0) throw new Error("no usable sources");
+    return valid.map((source) => ({
+      id: source.id!,
+      label: source.label ?? source.id!,
+      kind: source.kind!,
+      url: source.url!,
+      attribution: source.attribution ?? "",
+      min_zoom: source.min_zoom ?? 0,
+      max_zoom: source.max_zoom ?? 19,
+      builtin: true,
+    }));
+  } catch (error) {
+    console.warn("Ignoring VITE_BASEMAPS:", error);
+    return DEFAULT_BASEMAPS;
+  }
+};
+
+export const BUILTIN_BASEMAPS = configuredBasemaps();
+
+const STORAGE_KEY = "basemapSources";
+
+// Built-in sources followed by the ones added on this device
+export const loadBasemapSources = (): BasemapSource[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]");
+    // Kinds this version no longer reads are dropped
+    const added = (Array.isArray(stored) ? stored : []).filter(
+      (source: BasemapSource) => BASEMAP_KINDS.includes(source.kind)
+    );
+    return [...BUILTIN_BASEMAPS, ...added];
+  } catch {
+    return BUILTIN_BASEMAPS;
+  }
+};
+
+export const saveBasemapSources = (sources: BasemapSource[]) => {
+  localStorage.setItem(
+    STORAGE_KEY,
+    JSON.stringify(sources.filter((source) => !source.builtin))
+  );
+};
+
+// Paths like /media/basemaps/area.mbtiles are served by the API host
+export const resolveBasemapUrl = (url: string) =>
+  url.startsWith("/") ? new URL(url, API_BASE_URL).toString() : url;
+
+export interface TileCoords {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// Tile URL template, with {s}, {z}, {x} and {y} placeholders like Leaflet's.
+// MBTiles and PMTiles have none as their tiles are read out of the file.
+export const basemapUrlTemplate = (source: BasemapSource): string | null => {
+  switch (source.kind) {
+    case "xyz":
+      return resolveBasemapUrl(source.url);
+    case "tms":
+      return resolveBasemapUrl(source.url).replace("{y}", "{-y}");
+    case "mbtiles":
+    case "pmtiles":
+      return null;
+  }
+};
+
+// Same subdomain choice as Leaflet, so the browser cache is shared
+export const fillTileTemplate = (template: string, { x, y, z }: TileCoords) =>
+  template
+    .replace("{s}", "abc"[Math.abs(x + y) % 3])
+    .replace("{z}", String(z))
+    .replace("{x}", String(x))
+    .replace("{-y}", String(2 ** z - 1 - y))
+    .replace("{y}", String(y))
+    .replace("{r}", "");
+
+export const isTileArchive = (kind: BasemapKind) =>
+  kind === "mbtiles" || kind === "pmtiles";
+
+const archives = new Map<string, MbtilesArchive | PmtilesArchive>();
+
+// Reader of an MBTiles or PMTiles source, shared by everything showing it
+export const tileArchive = (source: BasemapSource) => {
+  const url = resolveBasemapUrl(source.url);
+  let archive = archives.get(url);
+  if (!archive) {
+    archive =
+      source.kind === "mbtiles"
+        ? new MbtilesArchive(url)
+        : new PmtilesArchive(url);
+    archives.set(url, archive);
+  }
+  return archive;
+};
+
+// Downloads a tile from the source, null where it has none
+export const fetchBasemapTile = async (
+  source: BasemapSource,
+  coords: TileCoords,
+  signal?: AbortSignal
+): Promise<Blob | null> => {
+  const template = basemapUrlTemplate(source);
+  if (!template) {
+    return tileArchive(source).getTile(coords.z, coords.x, coords.y, signal);
+  }
+  const response = await fetch(fillTileTemplate(template, coords), {
+    signal,
+  });
+  if (response.status === 404 || response.status === 204) return null;
+  if (!response.ok) {
+    throw new Error(`Tile server returned ${response.status}`);
+  }
+  return response.blob();
+};
@@ -0,0 +1,20 @@
+// src/lib/byteRange.ts
+
+// Reads part of a remote file with an HTTP range request
+export const fetchByteRange = async (
+  url: string,
+  offset: number,
+  length: number,
+  signal?: AbortSignal
+): Promise<ArrayBuffer> => {
+  const response = await fetch(url, {
+    headers: { Range: `bytes=${offset}-${offset + length - 1}` },
+    signal,
+  });
+  if (!response.ok) {
+    throw new Error(`${url} returned ${response.status}`);
+  }
+  const data = await response.arrayBuffer();
+  // Servers without range support send the whole file
+  return response.status === 200 ? data.slice(offset, offset + length) : data;
+};
@@ -0,0 +1,234 @@
+// src/lib/chunkedUpload.ts
+//
+// Resumable uploads for large GeoTIFFs. The file is sent in checksummed
+// chunks and the upload session is remembered in IndexedDB, so selecting the
+// same file again (even after a reload) resumes from the chunks the server
+// has already acknowledged.
+import {
+  apiClient,
+  ApiError,
+  type SatelliteImageUpload,
+  type UploadOptions,
+} from "./api";
+import { runInStore, type IdbStoreConfig } from "./idb";
+import type { ChunkedUploadSession, SatelliteImage } from "../types";
+
+export const CHUNK_SIZE = 8 * 1024 * 1024;
+// Smaller files go through the single multipart request. Kept at the chunk
+// size so no request outgrows the proxy's body limit (nginx.conf).
+export const CHUNKED_UPLOAD_THRESHOLD = CHUNK_SIZE;
+
+const MAX_CHUNK_ATTEMPTS = 5;
+const RETRY_BASE_DELAY = 1000;
+
+const UPLOADS_STORE: IdbStoreConfig = {
+  database: "c2-uploads",
+  version: 1,
+  store: "chunkedUploads",
+  keyPath: "fingerprint",
+};
+
+// Local record of an unfinished chunked upload
+export interface PendingUpload {
+  fingerprint: string;
+  uploadId: string;
+  fileName: string;
+  fileSize: number;
+  chunkSize: number;
+  totalChunks: number;
+  receivedChunks: number;
+  updatedAt: number;
+}
+
+export const fileFingerprint = (file: File): string =>
+  `${file.name}:${file.size}:${file.lastModified}`;
+
+// Persistence is best effort: uploads still work without IndexedDB
+const savePendingUpload = async (upload: PendingUpload): Promise<void> => {
+  try {
+    await runInStore(UPLOADS_STORE, "readwrite", (store) => store.put(upload));
+  } catch (error) {
+    console.warn("Could not save upload progress:", error);
+  }
+};
+
+const loadPendingUpload = async (
+  fingerprint: string
+): Promise<PendingUpload | undefined> => {
+  try {
+    return await runInStore<PendingUpload | undefined>(
+      UPLOADS_STORE,
+      "readonly",
+      (store) => store.get(fingerprint)
+    );
+  } catch {
+    return undefined;
+  }
+};
+
+const deletePendingUpload = async (fingerprint: string): Promise<void> => {
+  try {
+    await runInStore(UPLOADS_STORE, "readwrite", (store) =>
+      store.delete(fingerprint)
+    );
+  } catch (error) {
+    console.warn("Could not clear upload progress:", error);
+  }
+};
+
+export const getPendingUploads = async (): Promise<PendingUpload[]> => {
+  try {
+    const uploads = await runInStore<PendingUpload[]>(
+      UPLOADS_STORE,
+      "readonly",
+      (store) => store.getAll()
+    );
+    return uploads.sort((a, b) => b.updatedAt - a.updatedAt);
+  } catch {
+    return [];
+  }
+};
+
+// Forget an interrupted upload and release it on the server
+export const discardPendingUpload = async (
+  upload: PendingUpload
+): Promise<void> => {
+  await deletePendingUpload(upload.fingerprint);
+  try {
+    await apiClient.cancelChunkedUpload(upload.uploadId);
+  } catch (error) {
+    console.warn("Could not cancel upload on the server:", error);
+  }
+};
+
+const sha256 = async (blob: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    await blob.arrayBuffer()
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+};
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timeout = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timeout);
+        reject(new ApiError("Request cancelled"));
+      },
+      { once: true }
+    );
+  });
+
+// Network failures, server errors and checksum mismatches are worth retrying
+const isRetryable = (error: unknown): boolean =>
+  error instanceof ApiError &&
+  error.message !== "Request cancelled" &&
+  (error.status === null ||
+    error.status >= 500 ||
+    [408, 422, 429].includes(error.status));
+
+// Reuse the stored session when the server still knows about it
+const resumeSession = async (
+  fingerprint: string
+): Promise<ChunkedUploadSession | null> => {
+  const pending = await loadPendingUpload(fingerprint);
+  if (!pending) return null;
+
+  try {
+    return await apiClient.getChunkedUpload(pending.uploadId);
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 404) {
+      await deletePendingUpload(fingerprint);
+      return null;
+    }
+    throw error;
+  }
+};
+
+export const uploadInChunks = async (
+  data: SatelliteImageUpload,
+  options: UploadOptions = {}
+): Promise<SatelliteImage> => {
+  const { file, ...metadata } = data;
+  const { signal, onUploadProgress } = options;
+  const fingerprint = fileFingerprint(file);
+
+  const session =
+    (await resumeSession(fingerprint)) ??
+    (await apiClient.createChunkedUpload({
+      ...metadata,
+      filename: file.name,
+      file_size: file.size,
+      chunk_size: CHUNK_SIZE,
+      total_chunks: Math.ceil(file.size / CHUNK_SIZE),
+    }));
+
+  const { upload_id: uploadId, chunk_size: chunkSize } = session;
+  const totalChunks = Math.ceil(file.size / chunkSize);
+  const received = new Set(session.received_chunks);
+
+  const record: PendingUpload = {
+    fingerprint,
+    uploadId,
+    fileName: file.name,
+    fileSize: file.size,
+    chunkSize,
+    totalChunks,
+    receivedChunks: received.size,
+    updatedAt: Date.now(),
+  };
+  await savePendingUpload(record);
+
+  const chunkBytes = (index: number) =>
+    Math.min(chunkSize, file.size - index * chunkSize);
+  let sentBytes = Array.from(received).reduce(
+    (sum, index) => sum + chunkBytes(index),
+    0
+  );
+  onUploadProgress?.(sentBytes / file.size);
+
+  for (let index = 0; index < totalChunks; index++) {
+    if (received.has(index)) continue;
+
+    const start = index * chunkSize;
+    const chunk = file.slice(start, start + chunkSize);
+    const checksum = await sha256(chunk);
+
+    for (let attempt = 1; ; attempt++) {
+      if (signal?.aborted) {
+        throw new ApiError("Request cancelled");
+      }
+
+      try {
+        await apiClient.uploadChunk(uploadId, index, chunk, checksum, {
+          signal,
+          onUploadProgress: (fraction) =>
+            onUploadProgress?.((sentBytes + fraction * chunk.size) / file.size),
+        });
+        break;
+      } catch (error) {
+        if (attempt >= MAX_CHUNK_ATTEMPTS || !isRetryable(error)) {
+          throw error;
+        }
+        await wait(RETRY_BASE_DELAY * 2 ** (attempt - 1), signal);
+      }
+    }
+
+    received.add(index);
+    sentBytes += chunk.size;
+    await savePendingUpload({
+      ...record,
+      receivedChunks: received.size,
+      updatedAt: Date.now(),
+    });
+  }
+
+  const image = await apiClient.completeChunkedUpload(uploadId);
+  await deletePendingUpload(fingerprint);
+  return image;
+};
@@ -0,0 +1,317 @@
+// src/lib/cogLayer.ts
+//
+// Leaflet layer that streams a Cloud-Optimized GeoTIFF with HTTP range
+// requests. Each map tile reads only the window it covers from the overview
+// closest to the current zoom; the raster worker reprojects it onto a canvas
+// with the layer's band compositing.
+import L from "leaflet";
+import {
+  fromUrl,
+  type GeoTIFF,
+  type GeoTIFFImage,
+  type TypedArray,
+} from "geotiff";
+import { readEpsg, readGeotransform, type Geotransform } from "./geotiffHeader";
+import { fromLatLng, isSupportedCrs } from "./projection";
+import {
+  channelBands,
+  modelToPixel,
+  renderingChannels,
+  type ChannelStats,
+  type RasterChannel,
+} from "./rasterMath";
+import { runRasterTask } from "./rasterWorker";
+import type { LayerRendering } from "../types";
+
+// Overviews this small are read whole for stretch statistics
+const STATS_MAX_PIXELS = 1024 * 1024;
+// Points sampled along each tile edge to find the raster window
+const EDGE_SAMPLES = 8;
+
+export interface CogSource {
+  tiff: GeoTIFF;
+  // Full resolution image first, then overviews from fine to coarse
+  images: GeoTIFFImage[];
+  width: number;
+  height: number;
+  bandCount: number;
+  epsg: number;
+  geotransform: Geotransform;
+  noData: number | null;
+}
+
+export const openCog = async (
+  url: string,
+  signal?: AbortSignal
+): Promise<CogSource> => {
+  const tiff = await fromUrl(url, { allowFullFile: false }, signal);
+  const count = await tiff.getImageCount();
+  const all = await Promise.all(
+    Array.from({ length: count }, (_, i) => tiff.getImage(i))
+  );
+
+  // Skip masks and other sub-images that are not part of the pyramid
+  const [full, ...rest] = all;
+  const images = [
+    full,
+    ...rest
+      .filter(
+        (image) => image.getSamplesPerPixel() === full.getSamplesPerPixel()
+      )
+      .sort((a, b) => b.getWidth() - a.getWidth()),
+  ];
+
+  const geotransform = readGeotransform(full);
+  const epsg = readEpsg(full);
+  if (!geotransform || !epsg) {
+    throw new Error("The image has no georeferencing");
+  }
+  if (!isSupportedCrs(epsg)) {
+    throw new Error(`EPSG:${epsg} cannot be streamed in the browser`);
+  }
+
+  return {
+    tiff,
+    images,
+    width: full.getWidth(),
+    height: full.getHeight(),
+    bandCount: full.getSamplesPerPixel(),
+    epsg,
+    geotransform,
+    noData: full.getGDALNoData(),
+  };
+};
+
+// Stretch range used when no statistics could be computed
+const fallbackStats = (
+  image: GeoTIFFImage,
+  channel: RasterChannel
+): ChannelStats => {
+  let [min, max] = [-1, 1];
+  if (channel.kind === "band") {
+    const bits = image.getBitsPerSample();
+    // Sample format 3 is floating point, usually reflectance
+    [min, max] =
+      image.getSampleFormat() === 3 ? [0, 1] : [0, 2 ** Math.min(bits, 16) - 1];
+  }
+  return { min, max, low: min, high: max, cdf: null };
+};
+
+const readBands = async (
+  image: GeoTIFFImage,
+  bands: number[],
+  window: [number, number, number, number] | undefined,
+  signal?: AbortSignal
+): Promise<Record<number, TypedArray>> => {
+  const rasters = (await image.readRasters({
+    window,
+    samples: bands,
+    interleave: false,
+    signal,
+  })) as TypedArray[];
+  return Object.fromEntries(bands.map((band, i) => [band, rasters[i]]));
+};
+
+export interface CogLayerOptions extends L.GridLayerOptions {
+  rendering: LayerRendering;
+  onLoad?: (source: CogSource) => void;
+  onError?: (error: Error) => void;
+}
+
+export class CogLayer extends L.GridLayer {
+  private url: string;
+  private rendering: LayerRendering;
+  private source: Promise<CogSource> | null = null;
+  // Stretch statistics per channel combination
+  private stats = new Map<string, Promise<ChannelStats[]>>();
+  private controllers = new Map<string, AbortController>();
+  private onLoad?: (source: CogSource) => void;
+  private onError?: (error: Error) => void;
+
+  constructor(url: string, options: CogLayerOptions) {
+    const { rendering, onLoad, onError, ...gridOptions } = options;
+    super(gridOptions);
+    this.url = url;
+    this.rendering = rendering;
+    this.onLoad = onLoad;
+    this.onError = onError;
+
+    this.on("tileunload", (event: L.TileEvent) => {
+      const key = this._tileCoordsToKey(event.coords);
+      this.controllers.get(key)?.abort();
+      this.controllers.delete(key);
+    });
+  }
+
+  setRendering(rendering: LayerRendering): this {
+    this.rendering = rendering;
+    return this.redraw();
+  }
+
+  private getSource(): Promise<CogSource> {
+    if (!this.source) {
+      this.source = openCog(this.url);
+      this.source.then(
+        (source) => this.onLoad?.(source),
+        (error: Error) => this.onError?.(error)
+      );
+    }
+    return this.source;
+  }
+
+  // Stretch statistics for a set of channels, from the coarsest overview
+  private getStats(
+    source: CogSource,
+    channels: RasterChannel[]
+  ): Promise<ChannelStats[]> {
+    const key = JSON.stringify(channels);
+    let stats = this.stats.get(key);
+    if (!stats) {
+      const coarsest = source.images[source.images.length - 1];
+      const fallback = channels.map((channel) =>
+        fallbackStats(coarsest, channel)
+      );
+
+      stats =
+        coarsest.getWidth() * coarsest.getHeight() > STATS_MAX_PIXELS
+          ? Promise.resolve(fallback)
+          : readBands(coarsest, channelBands(channels), undefined)
+              .then((bands) =>
+                runRasterTask({
+                  type: "stats",
+                  bands,
+                  channels,
+                  noData: source.noData,
+                })
+              )
+              .then((result) => result.map((s, i) => s ?? fallback[i]))
+              .catch(() => fallback);
+      this.stats.set(key, stats);
+    }
+    return stats;
+  }
+
+  protected createTile(coords: L.Coords, done: L.DoneCallback): HTMLElement {
+    const tile = L.DomUtil.create(
+      "canvas",
+      "leaflet-tile"
+    ) as HTMLCanvasElement;
+    const size = this.getTileSize();
+    tile.width = size.x;
+    tile.height = size.y;
+
+    const key = this._tileCoordsToKey(coords);
+    const controller = new AbortController();
+    this.controllers.set(key, controller);
+
+    this.drawTile(tile, coords, controller.signal)
+      .then(() => done(undefined, tile))
+      .catch((error: Error) =>
+        done(controller.signal.aborted ? undefined : error, tile)
+      )
+      .finally(() => this.controllers.delete(key));
+
+    return tile;
+  }
+
+  private async drawTile(
+    tile: HTMLCanvasElement,
+    coords: L.Coords,
+    signal: AbortSignal
+  ): Promise<void> {
+    const source = await this.getSource();
+    const rendering = this.rendering;
+    const channels = renderingChannels(rendering, source.bandCount);
+    const { x: width, y: height } = this.getTileSize();
+    const origin = coords.scaleBy(this.getTileSize());
+
+    // Image pixels under the tile edges bound the window to read
+    let minColumn = Infinity;
+    let maxColumn = -Infinity;
+    let minRow = Infinity;
+    let maxRow = -Infinity;
+    for (let step = 0; step <= EDGE_SAMPLES; step++) {
+      const t = step / EDGE_SAMPLES;
+      const edgePoints: [number, number][] = [
+        [t * width, 0],
+        [t * width, height],
+        [0, t * height],
+        [width, t * height],
+      ];
+      for (const [dx, dy] of edgePoints) {
+        const latLng = this._map.unproject(
+          [origin.x + dx, origin.y + dy],
+          coords.z
+        );
+        const model = fromLatLng(source.epsg, latLng.lat, latLng.lng);
+        if (!model) continue;
+
+        const [column, row] = modelToPixel(
+          source.geotransform,
+          model[0],
+          model[1]
+        );
+        minColumn = Math.min(minColumn, column);
+        maxColumn = Math.max(maxColumn, column);
+        minRow = Math.min(minRow, row);
+        maxRow = Math.max(maxRow, row);
+      }
+    }
+
+    // Nothing to draw outside the image
+    if (
+      maxColumn < 0 ||
+      maxRow < 0 ||
+      minColumn >= source.width ||
+      minRow >= source.height
+    ) {
+      return;
+    }
+
+    // Coarsest overview that still has at least one pixel per canvas pixel
+    const needed = Math.max(
+      (maxColumn - minColumn) / width,
+      (maxRow - minRow) / height
+    );
+    let image = source.images[0];
+    for (const candidate of source.images) {
+      if (source.width / candidate.getWidth() <= needed) {
+        image = candidate;
+      }
+    }
+    const scale = source.width / image.getWidth();
+
+    const left = Math.max(0, Math.floor(minColumn / scale) - 1);
+    const top = Math.max(0, Math.floor(minRow / scale) - 1);
+    const right = Math.min(image.getWidth(), Math.ceil(maxColumn / scale) + 2);
+    const bottom = Math.min(image.getHeight(), Math.ceil(maxRow / scale) + 2);
+
+    const [bands, stats] = await Promise.all([
+      readBands(
+        image,
+        channelBands(channels),
+        [left, top, right, bottom],
+        signal
+      ),
+      this.getStats(source, channels),
+    ]);
+
+    const pixels = await runRasterTask({
+      type: "render",
+      bands,
+      channels,
+      stats,
+      noData: source.noData,
+      rendering,
+      epsg: source.epsg,
+      geotransform: source.geotransform,
+      tile: { x: origin.x, y: origin.y, zoom: coords.z, width, height },
+      window: { left, top, width: right - left, height: bottom - top },
+      scale,
+    });
+    if (signal.aborted) return;
+
+    const context = tile.getContext("2d");
+    context?.putImageData(new ImageData(pixels, width, height), 0, 0);
+  }
+}
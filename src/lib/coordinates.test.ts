@@ -0,0 +1,196 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatCoordinate,
+  formatDecimal,
+  formatDms,
+  formatMgrs,
+  formatUtm,
+  latLngToUtmCoordinate,
+  mgrsToLatLng,
+  parseCoordinate,
+} from "./coordinates";
+
+type LatLng = [number, number];
+
+// Ground distance in meters, good enough at the tolerances used here
+const offset = ([lat, lng]: LatLng, [lat2, lng2]: LatLng) =>
+  Math.hypot(lat2 - lat, (lng2 - lng) * Math.cos((lat * Math.PI) / 180)) *
+  111320;
+
+const grid = (): LatLng[] => {
+  const points: LatLng[] = [];
+  for (let lat = -79.5; lat < 84; lat += 3.7) {
+    for (let lng = -179.9; lng < 180; lng += 7.3) points.push([lat, lng]);
+  }
+  return points;
+};
+
+describe("formatMgrs", () => {
+  it("matches known references", () => {
+    expect(formatMgrs(0, 0)).toBe("31N AA 66021 00000");
+    // Central meridian of zone 31 on the equator
+    expect(formatMgrs(0, 3)).toBe("31N EA 00000 00000");
+    // Just south of the equator the false northing wraps to row V
+    expect(formatMgrs(-0.000001, 3)).toBe("31M EV 00000 99999");
+  });
+
+  it("truncates to the requested precision", () => {
+    expect(formatMgrs(0, 0, 3)).toBe("31N AA 660 000");
+    expect(formatMgrs(0, 0, 0)).toBe("31N AA");
+  });
+
+  it("is null outside the UTM grid", () => {
+    expect(formatMgrs(84.01, 0)).toBeNull();
+    expect(formatMgrs(-80.01, 0)).toBeNull();
+  });
+});
+
+describe("latLngToUtmCoordinate", () => {
+  it("picks latitude bands at their boundaries", () => {
+    expect(latLngToUtmCoordinate(0, 0)?.band).toBe("N");
+    expect(latLngToUtmCoordinate(-0.0001, 0)?.band).toBe("M");
+    expect(latLngToUtmCoordinate(-80, 0)?.band).toBe("C");
+    expect(latLngToUtmCoordinate(71.999, 0)?.band).toBe("W");
+    expect(latLngToUtmCoordinate(72, 0)?.band).toBe("X");
+    expect(latLngToUtmCoordinate(84, 0)?.band).toBe("X");
+  });
+
+  it("widens zone 32V over southern Norway", () => {
+    expect(latLngToUtmCoordinate(60, 5)?.zone).toBe(32);
+    expect(latLngToUtmCoordinate(60, 2.9)?.zone).toBe(31);
+    expect(latLngToUtmCoordinate(64, 5)?.zone).toBe(31);
+  });
+
+  it("uses the Svalbard zones 31X to 37X", () => {
+    expect(latLngToUtmCoordinate(78, 8)?.zone).toBe(31);
+    expect(latLngToUtmCoordinate(78, 10)?.zone).toBe(33);
+    expect(latLngToUtmCoordinate(78, 25)?.zone).toBe(35);
+    expect(latLngToUtmCoordinate(78, 35)?.zone).toBe(37);
+    expect(latLngToUtmCoordinate(78, 42)?.zone).toBe(38);
+  });
+
+  it("wraps longitudes past the antimeridian", () => {
+    expect(latLngToUtmCoordinate(0, 181)?.zone).toBe(1);
+    expect(latLngToUtmCoordinate(0, 180)?.zone).toBe(1);
+  });
+});
+
+describe("mgrsToLatLng", () => {
+  it("round-trips references at 1 m precision", () => {
+    for (const point of grid()) {
+      const back = mgrsToLatLng(formatMgrs(...point)!);
+      expect(back).not.toBeNull();
+      expect(offset(point, back!)).toBeLessThan(1.5);
+    }
+  });
+
+  it("picks the row cycle at the southern edge of every band", () => {
+    for (let south = -80; south < 84; south += 8) {
+      for (const lng of [-177, -3, 0.5, 3, 95]) {
+        const point: LatLng = [south + 0.01, lng];
+        // Truncating to 10 km can move the reference below the band
+        for (const digits of [5, 1]) {
+          const back = mgrsToLatLng(formatMgrs(...point, digits)!);
+          expect(back).not.toBeNull();
+          expect(offset(point, back!)).toBeLessThan(digits === 5 ? 1.5 : 15000);
+        }
+      }
+    }
+  });
+
+  it("round-trips in the Norway and Svalbard zones", () => {
+    for (const point of [
+      [60, 5],
+      [63.9, 11.9],
+      [78, 8],
+      [78, 20],
+      [80, 41.9],
+    ] as LatLng[]) {
+      expect(offset(point, mgrsToLatLng(formatMgrs(...point)!)!)).toBeLessThan(
+        1.5
+      );
+    }
+  });
+
+  it("accepts digits run together or split", () => {
+    const joined = mgrsToLatLng("31NAA6602100000")!;
+    const split = mgrsToLatLng("31n aa 66021 00000")!;
+    expect(joined[0]).toBeCloseTo(0, 4);
+    expect(joined[1]).toBeCloseTo(0, 4);
+    expect(split).toEqual(joined);
+  });
+
+  it("rejects malformed references", () => {
+    expect(mgrsToLatLng("31N AA 6602 000")).toBeNull();
+    expect(mgrsToLatLng("31NAA123")).toBeNull();
+    expect(mgrsToLatLng("61N AA 00000 00000")).toBeNull();
+    expect(mgrsToLatLng("31N IA 00000 00000")).toBeNull();
+    // Column letters S-Z belong to zones 3, 6, 9, ...
+    expect(mgrsToLatLng("31N SA 00000 00000")).toBeNull();
+    expect(mgrsToLatLng("31N AA 123456 123456")).toBeNull();
+  });
+});
+
+describe("formatDms", () => {
+  it("formats hemispheres", () => {
+    expect(formatDms(12.5, -45.25)).toBe(`12°30'00.0"N 45°15'00.0"W`);
+    expect(formatDms(-33.8568, 151.2153)).toBe(`33°51'24.5"S 151°12'55.1"E`);
+  });
+
+  it("carries rounded seconds into minutes and degrees", () => {
+    expect(formatDms(59.99999999, 10)).toBe(`60°00'00.0"N 10°00'00.0"E`);
+    expect(formatDms(10 + 59 / 60 + 59.96 / 3600, 0)).toBe(
+      `11°00'00.0"N 0°00'00.0"E`
+    );
+    expect(formatDms(0, 10 + 5 / 60 + 59.97 / 3600)).toBe(
+      `0°00'00.0"N 10°06'00.0"E`
+    );
+  });
+});
+
+describe("parseCoordinate", () => {
+  it("reads decimal degrees", () => {
+    expect(parseCoordinate("12.5, -45.25")).toEqual([12.5, -45.25]);
+    expect(parseCoordinate("12.5 -45.25")).toEqual([12.5, -45.25]);
+    expect(parseCoordinate("12.5N 45.25W")).toEqual([12.5, -45.25]);
+    expect(parseCoordinate("S12.5 E45.25")).toEqual([-12.5, 45.25]);
+  });
+
+  it("reads degrees, minutes and seconds", () => {
+    expect(parseCoordinate(`12°30'00.0"N 45°15'00.0"W`)).toEqual([
+      12.5, -45.25,
+    ]);
+    expect(parseCoordinate("12 30 N 45 15 W")).toEqual([12.5, -45.25]);
+    expect(parseCoordinate("N12 30 W45 15")).toEqual([12.5, -45.25]);
+  });
+
+  it("reads UTM with the latitude band", () => {
+    const [lat, lng] = parseCoordinate("31N 166021 0")!;
+    expect(lat).toBeCloseTo(0, 4);
+    expect(lng).toBeCloseTo(0, 4);
+    // S is the band from 32°N, not the southern hemisphere
+    expect(parseCoordinate("18S 323487 4306483")![0]).toBeCloseTo(38.8895, 3);
+  });
+
+  it("round-trips every display format", () => {
+    for (const point of grid()) {
+      for (const format of ["dd", "dms", "utm", "mgrs"] as const) {
+        const text = formatCoordinate(format, ...point)!;
+        expect(offset(point, parseCoordinate(text)!)).toBeLessThan(5);
+      }
+    }
+    expect(formatDecimal(0, 190)).toBe("0.00000, -170.00000");
+    expect(formatUtm(0, 0)).toBe("31N 166021 0");
+  });
+
+  it("rejects what it cannot read", () => {
+    expect(parseCoordinate("")).toBeNull();
+    expect(parseCoordinate("hello")).toBeNull();
+    expect(parseCoordinate("91 0")).toBeNull();
+    expect(parseCoordinate("0 181")).toBeNull();
+    expect(parseCoordinate("12 61 N 45 W")).toBeNull();
+    expect(parseCoordinate("12N 45N")).toBeNull();
+    expect(parseCoordinate("45W 12N")).toBeNull();
+    expect(parseCoordinate("31N 1000000 0")).toBeNull();
+  });
+});
@@ -0,0 +1,283 @@
+// src/lib/coordinates.ts
+//
+// Coordinate notations operators read and type: decimal degrees, degrees
+// minutes seconds, UTM and MGRS. UTM and MGRS cover 80°S to 84°N, the polar
+// UPS grids are not supported.
+import { latLngToUtm, utmToLatLng, type LatLng } from "./projection";
+
+export type CoordinateFormat = "dd" | "dms" | "utm" | "mgrs";
+
+export const COORDINATE_FORMAT_LABELS: Record<CoordinateFormat, string> = {
+  dd: "DD",
+  dms: "DMS",
+  utm: "UTM",
+  mgrs: "MGRS",
+};
+
+export const COORDINATE_FORMATS = Object.keys(
+  COORDINATE_FORMAT_LABELS
+) as CoordinateFormat[];
+
+export interface UtmCoordinate {
+  zone: number;
+  band: string;
+  easting: number;
+  northing: number;
+}
+
+// Latitude bands of 8°, X spans 12° up to 84°N
+const BANDS = "CDEFGHJKLMNPQRSTUVWX";
+// 100 km square letters, columns cycle every three zones
+const COLUMN_SETS = ["ABCDEFGH", "JKLMNPQR", "STUVWXYZ"];
+const ROW_LETTERS = "ABCDEFGHJKLMNPQRSTUV";
+const MIN_LAT = -80;
+const MAX_LAT = 84;
+
+const normalizeLng = (lng: number) => ((((lng + 180) % 360) + 360) % 360) - 180;
+
+// Standard 6° zone, widened or narrowed around Norway and Svalbard
+const utmZoneOf = (lat: number, lng: number) => {
+  if (lat >= 56 && lat < 64 && lng >= 3 && lng < 12) return 32;
+  if (lat >= 72 && lat < 84 && lng >= 0 && lng < 42) {
+    if (lng < 9) return 31;
+    if (lng < 21) return 33;
+    if (lng < 33) return 35;
+    return 37;
+  }
+  return Math.min(Math.floor((lng + 180) / 6) + 1, 60);
+};
+
+const isNorthernBand = (band: string) => band >= "N";
+
+export const latLngToUtmCoordinate = (
+  lat: number,
+  lng: number
+): UtmCoordinate | null => {
+  if (lat < MIN_LAT || lat > MAX_LAT) return null;
+  const lon = normalizeLng(lng);
+  const zone = utmZoneOf(lat, lon);
+  const band = BANDS[Math.min(Math.floor((lat - MIN_LAT) / 8), 19)];
+  const [easting, northing] = latLngToUtm(lat, lon, zone, lat < 0);
+  return { zone, band, easting, northing };
+};
+
+export const formatUtm = (lat: number, lng: number): string | null => {
+  const utm = latLngToUtmCoordinate(lat, lng);
+  if (!utm) return null;
+  return `${utm.zone}${utm.band} ${Math.floor(utm.easting)} ${Math.floor(
+    utm.northing
+  )}`;
+};
+
+const columnLetters = (zone: number) => COLUMN_SETS[(zone - 1) % 3];
+// Even zones start their row letters at F
+const rowOffset = (zone: number) => (zone % 2 === 0 ? 5 : 0);
+
+// MGRS reference truncated to `digits` per axis, 5 being 1 m
+export const formatMgrs = (
+  lat: number,
+  lng: number,
+  digits = 5
+): string | null => {
+  const utm = latLngToUtmCoordinate(lat, lng);
+  if (!utm) return null;
+  const { zone, band, easting, northing } = utm;
+
+  const column = columnLetters(zone)[Math.floor(easting / 100000) - 1];
+  const row =
+    ROW_LETTERS[(Math.floor(northing / 100000) + rowOffset(zone)) % 20];
+  const scale = 10 ** (5 - digits);
+  const pad = (value: number) =>
+    String(Math.floor((value % 100000) / scale)).padStart(digits, "0");
+  const grid = digits > 0 ? ` ${pad(easting)} ${pad(northing)}` : "";
+  return `${zone}${band} ${column}${row}${grid}`;
+};
+
+export const mgrsToLatLng = (text: string): LatLng | null => {
+  const match = text
+    .toUpperCase()
+    .replace(/\s+/g, " ")
+    .trim()
+    .match(
+      /^(\d{1,2}) ?([C-HJ-NP-X]) ?([A-HJ-NP-Z])([A-HJ-NP-V]) ?(\d*) ?(\d*)$/
+    );
+  if (!match) return null;
+  const [, zoneText, band, columnLetter, rowLetter, first, second] = match;
+  const zone = Number(zoneText);
+  if (zone < 1 || zone > 60) return null;
+
+  // Digits come either split in two or run together
+  const numbers = second ? [first, second] : [first, ""];
+  if (!second) {
+    if (first.length % 2 !== 0) return null;
+    numbers[0] = first.slice(0, first.length / 2);
+    numbers[1] = first.slice(first.length / 2);
+  }
+  if (numbers[0].length !== numbers[1].length || numbers[0].length > 5) {
+    return null;
+  }
+  const scale = 10 ** (5 - numbers[0].length);
+  const offset = (digits: string) => (digits ? Number(digits) * scale : 0);
+
+  const column = columnLetters(zone).indexOf(columnLetter);
+  const row = ROW_LETTERS.indexOf(rowLetter);
+  if (column === -1) return null;
+  const easting = (column + 1) * 100000 + offset(numbers[0]);
+
+  // Row letters repeat every 2000 km, the band picks the cycle. Parallels
+  // bow away from the central meridian, so the band's southern edge there
+  // is only a lower bound within the tolerance.
+  const south = !isNorthernBand(band);
+  const bandSouth = MIN_LAT + BANDS.indexOf(band) * 8;
+  const [, bandNorthing] = latLngToUtm(
+    bandSouth,
+    (zone - 1) * 6 - 180 + 3,
+    zone,
+    south
+  );
+  const minNorthing = bandNorthing - 100000;
+  let northing =
+    ((row - rowOffset(zone) + 20) % 20) * 100000 + offset(numbers[1]);
+  northing += Math.ceil((minNorthing - northing) / 2000000) * 2000000;
+
+  return utmToLatLng(easting, northing, zone, south);
+};
+
+// "33U 389916 5819784"; the letter is the MGRS latitude band, so S is a
+// northern band rather than the southern hemisphere
+const utmToLatLngText = (text: string): LatLng | null => {
+  const match = text
+    .toUpperCase()
+    .trim()
+    .match(/^(\d{1,2}) ?([C-HJ-NP-X])\s+(\d+(?:\.\d+)?)\s+(\d+(?:\.\d+)?)$/);
+  if (!match) return null;
+  const zone = Number(match[1]);
+  const easting = Number(match[3]);
+  const northing = Number(match[4]);
+  if (zone < 1 || zone > 60 || easting <= 0 || easting >= 1000000) {
+    return null;
+  }
+  if (northing < 0 || northing > 10000000) return null;
+  return utmToLatLng(easting, northing, zone, !isNorthernBand(match[2]));
+};
+
+const dmsParts = (value: number) => {
+  const absolute = Math.abs(value);
+  let degrees = Math.floor(absolute);
+  let minutes = Math.floor((absolute - degrees) * 60);
+  let seconds = Math.round(((absolute - degrees) * 60 - minutes) * 600) / 10;
+  // Rounding can carry into the next minute or degree
+  if (seconds >= 60) {
+    seconds = 0;
+    minutes++;
+  }
+  if (minutes >= 60) {
+    minutes = 0;
+    degrees++;
+  }
+  return `${degrees}°${String(minutes).padStart(2, "0")}'${seconds
+    .toFixed(1)
+    .padStart(4, "0")}"`;
+};
+
+export const formatDms = (lat: number, lng: number) => {
+  const lon = normalizeLng(lng);
+  return `${dmsParts(lat)}${lat < 0 ? "S" : "N"} ${dmsParts(lon)}${
+    lon < 0 ? "W" : "E"
+  }`;
+};
+
+export const formatDecimal = (lat: number, lng: number) =>
+  `${lat.toFixed(5)}, ${normalizeLng(lng).toFixed(5)}`;
+
+export const formatCoordinate = (
+  format: CoordinateFormat,
+  lat: number,
+  lng: number
+): string | null => {
+  switch (format) {
+    case "dd":
+      return formatDecimal(lat, lng);
+    case "dms":
+      return formatDms(lat, lng);
+    case "utm":
+      return formatUtm(lat, lng);
+    case "mgrs":
+      return formatMgrs(lat, lng);
+  }
+};
+
+// One angle in decimal degrees or degrees, minutes and seconds, with a
+// sign or a hemisphere letter before or after it
+const parseAngle = (
+  text: string,
+  positive: string,
+  negative: string
+): number | null => {
+  const match = text
+    .trim()
+    .match(
+      /^([NSEW])?\s*(-)?\s*(\d+(?:\.\d+)?)(?:\s+(\d+(?:\.\d+)?))?(?:\s+(\d+(?:\.\d+)?))?\s*([NSEW])?$/
+    );
+  if (!match) return null;
+  const [, before, minus, degrees, minutes, seconds, after] = match;
+  const hemisphere = before ?? after;
+  if (before && after) return null;
+  if (hemisphere && !`${positive}${negative}`.includes(hemisphere)) {
+    return null;
+  }
+  if (Number(minutes ?? 0) >= 60 || Number(seconds ?? 0) >= 60) return null;
+
+  const value =
+    Number(degrees) + Number(minutes ?? 0) / 60 + Number(seconds ?? 0) / 3600;
+  return minus || hemisphere === negative ? -value : value;
+};
+
+// Latitude then longitude, split at a comma, a hemisphere letter or
+// halfway through the numbers
+const geographicToLatLng = (text: string): LatLng | null => {
+  const normalized = text
+    .toUpperCase()
+    .replace(/[°º'′"″]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+  const candidates: string[][] = [];
+  const comma = normalized.split(/[,;]/);
+  if (comma.length === 2) candidates.push(comma);
+  for (const pattern of [
+    /^(.*?[NS])\s*([^NS]*)$/,
+    /^([NS][^EW]*?)\s*([EW].*)$/,
+  ]) {
+    const split = normalized.match(pattern);
+    if (split) candidates.push([split[1], split[2]]);
+  }
+  const numbers = normalized.split(" ");
+  if ([2, 4, 6].includes(numbers.length)) {
+    const half = numbers.length / 2;
+    candidates.push([
+      numbers.slice(0, half).join(" "),
+      numbers.slice(half).join(" "),
+    ]);
+  }
+
+  for (const [latText, lngText] of candidates) {
+    const lat = parseAngle(latText, "N", "S");
+    const lng = parseAngle(lngText, "E", "W");
+    if (lat === null || lng === null) continue;
+    if (Math.abs(lat) > 90 || Math.abs(lng) > 180) continue;
+    return [lat, lng];
+  }
+  return null;
+};
+
+// Reads a position typed in any of the supported formats
+export const parseCoordinate = (text: string): LatLng | null => {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+  return (
+    mgrsToLatLng(trimmed) ??
+    utmToLatLngText(trimmed) ??
+    geographicToLatLng(trimmed)
+  );
+};
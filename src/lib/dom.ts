@@ -0,0 +1,13 @@
+// src/lib/dom.ts
+
+// Element for Leaflet popups and icons, with text set safely
+export const createElement = (
+  tag: string,
+  className: string,
+  text?: string
+): HTMLElement => {
+  const element = document.createElement(tag);
+  element.className = className;
+  if (text !== undefined) element.textContent = text;
+  return element;
+};
@@ -0,0 +1,16 @@
+// src/lib/download.ts
+
+// Save generated content through a temporary link
+export const downloadBlob = (blob: Blob, fileName: string): void => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+// Today's date for file names, e.g. 2024-05-01
+export const fileDate = (): string => new Date().toISOString().split("T")[0];
@@ -0,0 +1,155 @@
+// src/lib/geotiffHeader.ts
+//
+// Reads georeferencing from a GeoTIFF/COG in the browser. Only the header and
+// tag blocks are fetched from the file, so multi-gigabyte scenes are cheap.
+import { fromBlob, type GeoTIFFImage } from "geotiff";
+import { isGeographicCrs, isSupportedCrs, toLatLng } from "./projection";
+import type { GeoTiffHeader } from "../types";
+
+export type Geotransform = NonNullable<GeoTiffHeader["geotransform"]>;
+
+// GeoKey value for a user-defined coordinate system
+const USER_DEFINED = 32767;
+const METRES_PER_DEGREE = 111320;
+
+// GDAL metadata items that carry the capture time, in order of preference
+const DATE_METADATA_KEYS = [
+  "ACQUISITIONDATETIME",
+  "ACQUISITION_DATE",
+  "DATE_ACQUIRED",
+  "DATATAKE_SENSING_START",
+  "TIFFTAG_DATETIME",
+];
+
+export const readGeotransform = (image: GeoTIFFImage): Geotransform | null => {
+  const directory = image.getFileDirectory();
+  const transformation: number[] | undefined = directory.ModelTransformation;
+  if (transformation) {
+    const [a, b, , d, e, f, , h] = transformation;
+    return [d, a, b, h, e, f];
+  }
+
+  const tiepoint: number[] | undefined = directory.ModelTiepoint;
+  const scale: number[] | undefined = directory.ModelPixelScale;
+  if (!tiepoint || !scale) return null;
+
+  const [i, j, , x, y] = tiepoint;
+  return [x - i * scale[0], scale[0], 0, y + j * scale[1], 0, -scale[1]];
+};
+
+export const readEpsg = (image: GeoTIFFImage): number | null => {
+  const geoKeys = image.getGeoKeys() ?? {};
+  const code: number | undefined =
+    geoKeys.ProjectedCSTypeGeoKey ?? geoKeys.GeographicTypeGeoKey;
+  return code && code !== USER_DEFINED ? code : null;
+};
+
+// TIFF dates look like "2024:03:18 10:42:07"; the form wants datetime-local
+const toDateTimeLocal = (value: string): string | null => {
+  const match = value
+    .trim()
+    .match(/^(\d{4})[:-](\d{2})[:-](\d{2})(?:[ T](\d{2}):(\d{2}))?/);
+  if (!match) return null;
+
+  const [, year, month, day, hour = "00", minute = "00"] = match;
+  return `${year}-${month}-${day}T${hour}:${minute}`;
+};
+
+const readAcquisitionDate = (image: GeoTIFFImage): string | null => {
+  let metadata: Record<string, string> | null = null;
+  try {
+    metadata = image.getGDALMetadata();
+  } catch {
+    metadata = null;
+  }
+
+  for (const key of DATE_METADATA_KEYS) {
+    const value = metadata?.[key];
+    const date = value ? toDateTimeLocal(value) : null;
+    if (date) return date;
+  }
+
+  const dateTime: string | undefined = image.getFileDirectory().DateTime;
+  return dateTime ? toDateTimeLocal(dateTime) : null;
+};
+
+const pixelToModel = (
+  [
+    originX,
+    pixelWidth,
+    rowRotation,
+    originY,
+    columnRotation,
+    pixelHeight,
+  ]: Geotransform,
+  column: number,
+  row: number
+): [number, number] => [
+  originX + column * pixelWidth + row * rowRotation,
+  originY + column * columnRotation + row * pixelHeight,
+];
+
+export const readGeoTiffHeader = async (file: File): Promise<GeoTiffHeader> => {
+  const tiff = await fromBlob(file);
+  const image = await tiff.getImage();
+
+  const width = image.getWidth();
+  const height = image.getHeight();
+  const geotransform = readGeotransform(image);
+  const epsg = readEpsg(image);
+  const warnings: string[] = [];
+
+  let footprint: GeoTiffHeader["footprint"] = null;
+  let resolution: number | null = null;
+
+  if (!geotransform) {
+    warnings.push(
+      "No georeferencing found: the image cannot be placed on the map."
+    );
+  } else if (!epsg) {
+    warnings.push(
+      "No EPSG code found: the coordinate system must be set on the server."
+    );
+  } else if (!isSupportedCrs(epsg)) {
+    warnings.push(`EPSG:${epsg} cannot be previewed in the browser.`);
+  } else {
+    const corners: [number, number][] = [
+      [0, 0],
+      [width, 0],
+      [width, height],
+      [0, height],
+    ];
+    footprint = corners.map(([column, row]) => {
+      const [x, y] = pixelToModel(geotransform, column, row);
+      return toLatLng(epsg, x, y) as [number, number];
+    });
+
+    const pixelSize = Math.abs(geotransform[1]);
+    const centerLat =
+      footprint.reduce((sum, [lat]) => sum + lat, 0) / footprint.length;
+    resolution = isGeographicCrs(epsg)
+      ? pixelSize * METRES_PER_DEGREE * Math.cos((centerLat * Math.PI) / 180)
+      : pixelSize;
+  }
+
+  const lats = footprint?.map(([lat]) => lat) ?? [];
+  const lngs = footprint?.map(([, lng]) => lng) ?? [];
+
+  return {
+    width,
+    height,
+    bandCount: image.getSamplesPerPixel(),
+    epsg,
+    geotransform,
+    resolution,
+    footprint,
+    bounds: footprint
+      ? [
+          [Math.min(...lats), Math.min(...lngs)],
+          [Math.max(...lats), Math.max(...lngs)],
+        ]
+      : null,
+    acquisitionDate: readAcquisitionDate(image),
+    warnings,
+  };
+};
@@ -0,0 +1,385 @@
+// src/lib/gisExport.ts
+//
+// Export of threat detections and image footprints for GIS tools and
+// partner systems. Each layer's attributes are listed once and written
+// to every format; shapefile tables get the short column names dBase
+// allows.
+import { createZip, type ZipEntry } from "./zip";
+import {
+  writeShapefile,
+  type ShapefileField,
+  type ShapefileRecord,
+  type ShapefileValue,
+} from "./shapefile";
+import { escapeHtml } from "./mapSnapshot";
+import { SEVERITIES, SEVERITY_COLORS, THREAT_TYPE_LABELS } from "./threatStyle";
+import type { SatelliteImage, ThreatDetection } from "../types";
+
+export type GisFormat = "geojson" | "kml" | "kmz" | "csv" | "shapefile";
+
+export const GIS_FORMAT_LABELS: Record<GisFormat, string> = {
+  geojson: "GeoJSON",
+  kml: "KML",
+  kmz: "KMZ",
+  csv: "CSV",
+  shapefile: "Shapefile (zip)",
+};
+
+export const GIS_FORMATS = Object.keys(GIS_FORMAT_LABELS) as GisFormat[];
+
+// Keys of plain values, which every format can hold
+type AttributeKey<T> = {
+  [K in keyof T]-?: T[K] extends ShapefileValue ? K : never;
+}[keyof T] &
+  string;
+
+interface AttributeField<T> {
+  key: AttributeKey<T>;
+  type: "string" | "number" | "boolean";
+  // Shapefile column name, when the key is longer than 10 characters
+  short?: string;
+  // Shapefile width of text and numbers
+  length?: number;
+  decimals?: number;
+}
+
+const THREAT_FIELDS: AttributeField<ThreatDetection>[] = [
+  { key: "id", type: "number", length: 10 },
+  { key: "satellite_image", type: "number", short: "image_id", length: 10 },
+  { key: "image_name", type: "string", short: "image_name", length: 100 },
+  { key: "threat_type", type: "string", short: "type", length: 40 },
+  { key: "severity", type: "string", length: 10 },
+  { key: "confidence", type: "number", length: 6, decimals: 3 },
+  { key: "description", type: "string", short: "descr", length: 254 },
+  { key: "detected_at", type: "string", short: "detected", length: 32 },
+  { key: "verified", type: "boolean" },
+  { key: "acknowledged", type: "boolean", short: "acknowledg" },
+  { key: "false_positive", type: "boolean", short: "false_pos" },
+  { key: "notes", type: "string", length: 254 },
+];
+
+const FOOTPRINT_FIELDS: AttributeField<SatelliteImage>[] = [
+  { key: "id", type: "number", length: 10 },
+  { key: "name", type: "string", length: 100 },
+  { key: "acquisition_date", type: "string", short: "acquired", length: 32 },
+  { key: "upload_date", type: "string", short: "uploaded", length: 32 },
+  { key: "status", type: "string", length: 12 },
+  // Meters per pixel
+  { key: "resolution", type: "number", length: 12, decimals: 3 },
+  { key: "analyzed", type: "boolean" },
+  { key: "analysis_count", type: "number", short: "analyses", length: 6 },
+];
+
+export interface GisLayers {
+  threats: ThreatDetection[];
+  // Images without bounds are skipped
+  images: SatelliteImage[];
+}
+
+type Bounds = NonNullable<SatelliteImage["bounds"]>;
+type Position = [number, number];
+
+const attributes = <T>(item: T, fields: AttributeField<T>[]) =>
+  Object.fromEntries(fields.map((field) => [field.key, item[field.key]]));
+
+const withBounds = (images: SatelliteImage[]) =>
+  images.filter(
+    (image): image is SatelliteImage & { bounds: Bounds } => !!image.bounds
+  );
+
+// Closed, counterclockwise ring of [lng, lat] positions
+const footprintRing = ([[south, west], [north, east]]: Bounds): Position[] => {
+  const [s, n] = [Math.min(south, north), Math.max(south, north)];
+  const [w, e] = [Math.min(west, east), Math.max(west, east)];
+  return [
+    [w, s],
+    [e, s],
+    [e, n],
+    [w, n],
+    [w, s],
+  ];
+};
+
+// Same layout as the threats endpoint's FeatureCollection results
+export const toGeoJSON = ({ threats, images }: GisLayers) => ({
+  type: "FeatureCollection",
+  features: [
+    ...threats.map((threat) => ({
+      type: "Feature",
+      id: threat.id,
+      geometry: {
+        type: "Point",
+        coordinates: [threat.location_coords[1], threat.location_coords[0]],
+      },
+      properties: {
+        layer: "threat",
+        ...attributes(threat, THREAT_FIELDS),
+      },
+    })),
+    ...withBounds(images).map((image) => ({
+      type: "Feature",
+      id: image.id,
+      geometry: { type: "Polygon", coordinates: [footprintRing(image.bounds)] },
+      properties: {
+        layer: "footprint",
+        ...attributes(image, FOOTPRINT_FIELDS),
+      },
+    })),
+  ],
+});
+
+const csvCell = (value: unknown): string => {
+  let text = value === null || value === undefined ? "" : String(value);
+  // Spreadsheets run text starting with these as a formula, so notes are
+  // prefixed with a quote; numbers like negative coordinates are left alone
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const csvTable = (header: string[], rows: unknown[][]) =>
+  [header, ...rows].map((row) => row.map(csvCell).join(",")).join("\r\n") +
+  "\r\n";
+
+export const threatsToCsv = (threats: ThreatDetection[]): string =>
+  csvTable(
+    ["lat", "lon", ...THREAT_FIELDS.map((field) => field.key)],
+    threats.map((threat) => [
+      threat.location_coords[0],
+      threat.location_coords[1],
+      ...THREAT_FIELDS.map((field) => threat[field.key]),
+    ])
+  );
+
+// Footprints as their centre and extent
+export const footprintsToCsv = (images: SatelliteImage[]): string =>
+  csvTable(
+    [
+      "lat",
+      "lon",
+      "south",
+      "west",
+      "north",
+      "east",
+      ...FOOTPRINT_FIELDS.map((field) => field.key),
+    ],
+    withBounds(images).map((image) => {
+      const [[west, south], , [east, north]] = footprintRing(image.bounds);
+      return [
+        (south + north) / 2,
+        (west + east) / 2,
+        south,
+        west,
+        north,
+        east,
+        ...FOOTPRINT_FIELDS.map((field) => image[field.key]),
+      ];
+    })
+  );
+
+// KML colors are aabbggrr
+const kmlColor = (hex: string, alpha = "ff") =>
+  `${alpha}${hex.slice(5, 7)}${hex.slice(3, 5)}${hex.slice(1, 3)}`;
+
+const extendedData = (values: Record<string, unknown>) =>
+  `<ExtendedData>${Object.entries(values)
+    .map(
+      ([name, value]) =>
+        `<Data name="${name}"><value>${escapeHtml(
+          value === null || value === undefined ? "" : String(value)
+        )}</value></Data>`
+    )
+    .join("")}</ExtendedData>`;
+
+export const toKml = ({ threats, images }: GisLayers): string => {
+  const styles = SEVERITIES.map(
+    (severity) => `
+    <Style id="severity-${severity}">
+      <IconStyle>
+        <color>${kmlColor(SEVERITY_COLORS[severity])}</color>
+        <Icon><href>http://maps.google.com/mapfiles/kml/shapes/placemark_circle.png</href></Icon>
+      </IconStyle>
+    </Style>`
+  ).join("");
+
+  const threatPlacemarks = threats.map(
+    (threat) => `
+      <Placemark>
+        <name>${escapeHtml(
+          `${THREAT_TYPE_LABELS[threat.threat_type] ?? threat.threat_type} #${
+            threat.id
+          }`
+        )}</name>
+        <description>${escapeHtml(threat.description)}</description>
+        <TimeStamp><when>${escapeHtml(threat.detected_at)}</when></TimeStamp>
+        <styleUrl>#severity-${threat.severity}</styleUrl>
+        ${extendedData(attributes(threat, THREAT_FIELDS))}
+        <Point><coordinates>${threat.location_coords[1]},${
+      threat.location_coords[0]
+    }</coordinates></Point>
+      </Placemark>`
+  );
+
+  const footprintPlacemarks = withBounds(images).map(
+    (image) => `
+      <Placemark>
+        <name>${escapeHtml(image.name)}</name>
+        <styleUrl>#footprint</styleUrl>
+        ${extendedData(attributes(image, FOOTPRINT_FIELDS))}
+        <Polygon><outerBoundaryIs><LinearRing><coordinates>${footprintRing(
+          image.bounds
+        )
+          .map(([lng, lat]) => `${lng},${lat}`)
+          .join(" ")}</coordinates></LinearRing></outerBoundaryIs></Polygon>
+      </Placemark>`
+  );
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>Threat detections</name>${styles}
+    <Style id="footprint">
+      <LineStyle><color>${kmlColor(
+        "#3b82f6"
+      )}</color><width>2</width></LineStyle>
+      <PolyStyle><color>${kmlColor("#3b82f6", "33")}</color></PolyStyle>
+    </Style>
+    <Folder><name>Threats</name>${threatPlacemarks.join("")}
+    </Folder>
+    <Folder><name>Image footprints</name>${footprintPlacemarks.join("")}
+    </Folder>
+  </Document>
+</kml>
+`;
+};
+
+const shapefileFields = <T>(fields: AttributeField<T>[]): ShapefileField[] =>
+  fields.map((field) => {
+    const name = field.short ?? field.key;
+    switch (field.type) {
+      case "boolean":
+        return { name, type: "L" };
+      case "number":
+        return {
+          name,
+          type: "N",
+          length: field.length ?? 12,
+          decimals: field.decimals ?? 0,
+        };
+      default:
+        return { name, type: "C", length: field.length ?? 100 };
+    }
+  });
+
+const shapefileEntries = (
+  name: string,
+  files: Record<string, Uint8Array<ArrayBuffer> | string>
+): ZipEntry[] =>
+  Object.entries(files).map(([extension, data]) => ({
+    name: `${name}.${extension}`,
+    data,
+  }));
+
+export const toShapefileZip = ({ threats, images }: GisLayers): Blob => {
+  const entries: ZipEntry[] = [];
+  if (threats.length > 0) {
+    const records: ShapefileRecord[] = threats.map((threat) => ({
+      geometry: {
+        type: "point",
+        coordinates: [threat.location_coords[1], threat.location_coords[0]],
+      },
+      values: THREAT_FIELDS.map((field) => threat[field.key]),
+    }));
+    entries.push(
+      ...shapefileEntries(
+        "threats",
+        writeShapefile("point", shapefileFields(THREAT_FIELDS), records)
+      )
+    );
+  }
+  const footprints = withBounds(images);
+  if (footprints.length > 0) {
+    const records: ShapefileRecord[] = footprints.map((image) => ({
+      geometry: { type: "polygon", rings: [footprintRing(image.bounds)] },
+      values: FOOTPRINT_FIELDS.map((field) => image[field.key]),
+    }));
+    entries.push(
+      ...shapefileEntries(
+        "image_footprints",
+        writeShapefile("polygon", shapefileFields(FOOTPRINT_FIELDS), records)
+      )
+    );
+  }
+  return createZip(entries);
+};
+
+// File for the layers in the given format, named after what it holds
+export const exportGis = (
+  format: GisFormat,
+  layers: GisLayers,
+  date: string
+): { blob: Blob; fileName: string } => {
+  const hasThreats = layers.threats.length > 0;
+  const hasFootprints = withBounds(layers.images).length > 0;
+  const base = `${
+    hasThreats && hasFootprints
+      ? "threats-and-footprints"
+      : hasThreats
+      ? "threats"
+      : "image-footprints"
+  }-${date}`;
+
+  switch (format) {
+    case "geojson":
+      return {
+        blob: new Blob([JSON.stringify(toGeoJSON(layers), null, 2)], {
+          type: "application/geo+json",
+        }),
+        fileName: `${base}.geojson`,
+      };
+    case "kml":
+      return {
+        blob: new Blob([toKml(layers)], {
+          type: "application/vnd.google-earth.kml+xml",
+        }),
+        fileName: `${base}.kml`,
+      };
+    case "kmz":
+      return {
+        blob: createZip([{ name: "doc.kml", data: toKml(layers) }]),
+        fileName: `${base}.kmz`,
+      };
+    case "csv": {
+      // Two tables go into a zip
+      if (hasThreats && hasFootprints) {
+        return {
+          blob: createZip([
+            { name: "threats.csv", data: threatsToCsv(layers.threats) },
+            {
+              name: "image_footprints.csv",
+              data: footprintsToCsv(layers.images),
+            },
+          ]),
+          fileName: `${base}-csv.zip`,
+        };
+      }
+      return {
+        blob: new Blob(
+          [
+            hasThreats
+              ? threatsToCsv(layers.threats)
+              : footprintsToCsv(layers.images),
+          ],
+          { type: "text/csv" }
+        ),
+        fileName: `${base}.csv`,
+      };
+    }
+    case "shapefile":
+      return {
+        blob: toShapefileZip(layers),
+        fileName: `${base}-shapefile.zip`,
+      };
+  }
+};
@@ -0,0 +1,49 @@
+// src/lib/idb.ts
+//
+// Small promise wrapper around IndexedDB for the stores the client keeps
+// across reloads. Each call opens the database and closes it when done.
+
+export interface IdbStoreConfig {
+  database: string;
+  version: number;
+  store: string;
+  keyPath: string;
+}
+
+const openDatabase = ({
+  database,
+  version,
+  store,
+  keyPath,
+}: IdbStoreConfig): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(database, version);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(store)) {
+        request.result.createObjectStore(store, { keyPath });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Runs `operation` in a transaction and resolves with the result of the
+// request it returns once the transaction has committed
+export const runInStore = async <T>(
+  config: IdbStoreConfig,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase(config);
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(config.store, mode);
+      const request = operation(transaction.objectStore(config.store));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+};
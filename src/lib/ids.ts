@@ -0,0 +1,7 @@
+// src/lib/ids.ts
+//
+// Ids for records created on this device before the API has seen them
+
+// Time-ordered and short enough to read in logs and storage keys
+export const createId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
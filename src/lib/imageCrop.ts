@@ -0,0 +1,74 @@
+// src/lib/imageCrop.ts
+//
+// Crop windows into rendered image overlays. Overlays are stretched over
+// their bounds in Web Mercator, as the map draws them, so positions are
+// interpolated in projected meters.
+import L from "leaflet";
+import type { SatelliteImage } from "../types";
+
+// Window into the image, as fractions of its width and height
+export interface CropWindow {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // Point of interest within the window, as fractions of the window
+  pointX: number;
+  pointY: number;
+}
+
+const project = (lat: number, lng: number) =>
+  L.CRS.EPSG3857.project(L.latLng(lat, lng));
+
+// Square window `size` meters across centred on `point`, kept inside the
+// image where the image is large enough
+export const cropWindow = (
+  bounds: NonNullable<SatelliteImage["bounds"]>,
+  point: [number, number],
+  size: number
+): CropWindow | null => {
+  const [[south, west], [north, east]] = bounds;
+  const southWest = project(Math.min(south, north), Math.min(west, east));
+  const northEast = project(Math.max(south, north), Math.max(west, east));
+  const imageWidth = northEast.x - southWest.x;
+  const imageHeight = northEast.y - southWest.y;
+  if (imageWidth <= 0 || imageHeight <= 0) return null;
+
+  // Mercator stretches distances by 1 / cos(latitude)
+  const projectedSize = size / Math.cos((point[0] * Math.PI) / 180);
+  const target = project(point[0], point[1]);
+  const px = (target.x - southWest.x) / imageWidth;
+  // Image rows run north to south
+  const py = (northEast.y - target.y) / imageHeight;
+  if (px < 0 || px > 1 || py < 0 || py > 1) return null;
+
+  const width = Math.min(1, projectedSize / imageWidth);
+  const height = Math.min(1, projectedSize / imageHeight);
+  const x = Math.min(1 - width, Math.max(0, px - width / 2));
+  const y = Math.min(1 - height, Math.max(0, py - height / 2));
+  return {
+    x,
+    y,
+    width,
+    height,
+    pointX: (px - x) / width,
+    pointY: (py - y) / height,
+  };
+};
+
+// CSS background-position for an offset into an image scaled up by 1 / span
+const backgroundOffset = (offset: number, span: number) =>
+  span >= 1 ? "0%" : `${(offset / (1 - span)) * 100}%`;
+
+// CSS background size and position that show the window of an image
+export const cropBackground = (crop: CropWindow) => ({
+  backgroundSize: `${100 / crop.width}% ${100 / crop.height}%`,
+  backgroundPosition: `${backgroundOffset(
+    crop.x,
+    crop.width
+  )} ${backgroundOffset(crop.y, crop.height)}`,
+});
+
+// Rendered image that crops can be taken from
+export const cropSourceUrl = (image: SatelliteImage): string | null =>
+  image.map_overlay_url || image.thumbnail_url || null;
@@ -0,0 +1,175 @@
+// src/lib/mapSnapshot.ts
+//
+// Static map pictures for reports: basemap tiles laid out as plain images
+// with an SVG overlay, so they print and save without canvas access to
+// cross-origin tiles.
+import L from "leaflet";
+import { fillTileTemplate } from "./basemaps";
+import { SEVERITY_COLORS } from "./threatStyle";
+import type { ThreatDetection } from "../types";
+
+type LatLng = [number, number];
+type Bounds = [[number, number], [number, number]];
+
+const TILE_SIZE = 256;
+const MAX_ZOOM = 17;
+// Smallest area shown, in degrees, so single detections get context
+const MIN_SPAN = 0.02;
+// Margin around the fitted bounds, as a fraction of the picture
+const PADDING = 0.08;
+
+export interface SnapshotShape {
+  ring: LatLng[];
+  color: string;
+  dashed?: boolean;
+}
+
+export interface MapSnapshotOptions {
+  bounds: Bounds;
+  width: number;
+  height: number;
+  // Basemap URL template with {s}, {z}, {x} and {y} placeholders, null to
+  // leave the background blank
+  tileUrl: string | null;
+  threats: ThreatDetection[];
+  // Marker labels, e.g. row numbers in the threat table
+  labels?: Map<number, string>;
+  shapes?: SnapshotShape[];
+}
+
+export const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+const toPoint = ([lat, lng]: LatLng, zoom: number) =>
+  L.CRS.EPSG3857.latLngToPoint(L.latLng(lat, lng), zoom);
+
+// Bounds around points and rings, widened to at least MIN_SPAN
+export const snapshotBounds = (points: LatLng[]): Bounds | null => {
+  if (points.length === 0) return null;
+  // Reports can cover more detections than Math.min(...) takes arguments
+  let minLat = Infinity;
+  let minLng = Infinity;
+  let maxLat = -Infinity;
+  let maxLng = -Infinity;
+  points.forEach(([lat, lng]) => {
+    minLat = Math.min(minLat, lat);
+    minLng = Math.min(minLng, lng);
+    maxLat = Math.max(maxLat, lat);
+    maxLng = Math.max(maxLng, lng);
+  });
+  const pad = (min: number, max: number) => {
+    const extra = Math.max(0, MIN_SPAN - (max - min)) / 2;
+    return [min - extra, max + extra];
+  };
+  const [south, north] = pad(minLat, maxLat);
+  const [west, east] = pad(minLng, maxLng);
+  return [
+    [Math.max(-85, south), west],
+    [Math.min(85, north), east],
+  ];
+};
+
+// Highest zoom at which the bounds fit the picture
+const fitZoom = (
+  [[south, west], [north, east]]: Bounds,
+  width: number,
+  height: number
+) => {
+  const usableWidth = width * (1 - 2 * PADDING);
+  const usableHeight = height * (1 - 2 * PADDING);
+  for (let zoom = MAX_ZOOM; zoom > 0; zoom--) {
+    const min = toPoint([north, west], zoom);
+    const max = toPoint([south, east], zoom);
+    if (max.x - min.x <= usableWidth && max.y - min.y <= usableHeight) {
+      return zoom;
+    }
+  }
+  return 0;
+};
+
+// Self-contained HTML for a map picture of `width` by `height` pixels
+export const mapSnapshotHtml = ({
+  bounds,
+  width,
+  height,
+  tileUrl,
+  threats,
+  labels,
+  shapes = [],
+}: MapSnapshotOptions): string => {
+  const zoom = fitZoom(bounds, width, height);
+  const [[south, west], [north, east]] = bounds;
+  const center = toPoint([(south + north) / 2, (west + east) / 2], zoom);
+  const left = center.x - width / 2;
+  const top = center.y - height / 2;
+  const tileCount = 2 ** zoom;
+
+  const tiles: string[] = [];
+  if (tileUrl) {
+    for (
+      let ty = Math.floor(top / TILE_SIZE);
+      ty <= Math.floor((top + height) / TILE_SIZE);
+      ty++
+    ) {
+      if (ty < 0 || ty >= tileCount) continue;
+      for (
+        let tx = Math.floor(left / TILE_SIZE);
+        tx <= Math.floor((left + width) / TILE_SIZE);
+        tx++
+      ) {
+        // Tiles repeat around the antimeridian
+        const wrapped = ((tx % tileCount) + tileCount) % tileCount;
+        tiles.push(
+          `<img src="${escapeHtml(
+            fillTileTemplate(tileUrl, { x: wrapped, y: ty, z: zoom })
+          )}" alt="" style="position:absolute;left:${
+            tx * TILE_SIZE - left
+          }px;top:${
+            ty * TILE_SIZE - top
+          }px;width:${TILE_SIZE}px;height:${TILE_SIZE}px">`
+        );
+      }
+    }
+  }
+
+  const project = (latLng: LatLng) => {
+    const point = toPoint(latLng, zoom);
+    return [point.x - left, point.y - top].map((v) => v.toFixed(1));
+  };
+
+  const outlines = shapes.map(
+    ({ ring, color, dashed }) =>
+      `<polygon points="${ring
+        .map((latLng) => project(latLng).join(","))
+        .join(
+          " "
+        )}" fill="${color}" fill-opacity="0.08" stroke="${color}" stroke-width="2"${
+        dashed ? ' stroke-dasharray="6 4"' : ""
+      }/>`
+  );
+
+  const markers = threats.map((threat) => {
+    const [x, y] = project(threat.location_coords);
+    const label = labels?.get(threat.id);
+    return `<g><circle cx="${x}" cy="${y}" r="7" fill="${
+      SEVERITY_COLORS[threat.severity]
+    }" stroke="#111827" stroke-width="1.5"/>${
+      label
+        ? `<text x="${x}" y="${y}" dx="9" dy="4" font-size="11" font-weight="700" fill="#111827" stroke="#fff" stroke-width="3" paint-order="stroke">${escapeHtml(
+            label
+          )}</text>`
+        : ""
+    }</g>`;
+  });
+
+  return `<div class="snapshot" style="position:relative;overflow:hidden;width:${width}px;height:${height}px;background:#e5e7eb">${tiles.join(
+    ""
+  )}<svg width="${width}" height="${height}" style="position:absolute;left:0;top:0">${outlines.join(
+    ""
+  )}${markers.join("")}</svg></div>`;
+};
@@ -0,0 +1,616 @@
+// src/lib/mbtiles.ts
+//
+// Reader for raster MBTiles, which are SQLite databases, fetching database
+// pages with HTTP range requests. Tiles are found through the unique
+// (zoom_level, tile_column, tile_row) index MBTiles writers create, either
+// on a tiles table or on the map and images tables behind a tiles view.
+// Vector (MVT) tiles and UTF-16 databases are not supported.
+import { fetchByteRange } from "./byteRange";
+
+const HEADER_LENGTH = 100;
+const MAGIC = "SQLite format 3\0";
+
+const PAGE_INDEX_INTERIOR = 2;
+const PAGE_TABLE_INTERIOR = 5;
+const PAGE_INDEX_LEAF = 10;
+const PAGE_TABLE_LEAF = 13;
+
+const MAX_CACHED_PAGES = 512;
+const MAX_TREE_DEPTH = 20;
+
+const TILE_FORMATS: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  webp: "image/webp",
+};
+
+// Web Mercator limits, for files without bounds metadata
+const WORLD_BOUNDS: [[number, number], [number, number]] = [
+  [-85.0511, -180],
+  [85.0511, 180],
+];
+
+type Bytes = Uint8Array<ArrayBuffer>;
+type SqlValue = number | string | Bytes | null;
+
+export interface MbtilesHeader {
+  mimeType: string;
+  minZoom: number;
+  maxZoom: number;
+  // [[south, west], [north, east]]
+  bounds: [[number, number], [number, number]];
+}
+
+interface Cell {
+  // Page with the keys before this cell, on interior pages
+  leftChild: number;
+  rowid: number;
+  payloadSize: number;
+  // Start of the payload; the rest is in the overflow pages
+  local: Bytes;
+  overflowPage: number;
+}
+
+interface Page {
+  type: number;
+  cells: Cell[];
+  rightChild: number;
+}
+
+interface Table {
+  rootPage: number;
+  columns: string[];
+  // INTEGER PRIMARY KEY column, stored as the rowid
+  rowidColumn: number;
+  // Key columns of each index on the table
+  indexes: { rootPage: number; columns: string[] }[];
+}
+
+interface Database {
+  header: MbtilesHeader;
+  tiles: Table;
+  tileIndex: number;
+  // Deduplicated images table when tiles is a view over map and images
+  images: Table | null;
+  imageIndex: number;
+}
+
+const corrupt = () => new Error("the MBTiles database is corrupt");
+
+// Big-endian, up to 9 bytes; returns the value and its length
+const readVarint = (bytes: Bytes, start: number): [number, number] => {
+  let value = 0;
+  for (let i = 0; i < 8; i++) {
+    const byte = bytes[start + i];
+    value = value * 128 + (byte & 0x7f);
+    if (!(byte & 0x80)) return [value, i + 1];
+  }
+  return [value * 256 + bytes[start + 8], 9];
+};
+
+// Bytes of a payload kept on the b-tree page itself
+const localPayloadSize = (size: number, usable: number, table: boolean) => {
+  const max = table ? usable - 35 : Math.floor(((usable - 12) * 64) / 255) - 23;
+  if (size <= max) return size;
+  const min = Math.floor(((usable - 12) * 32) / 255) - 23;
+  const local = min + ((size - min) % (usable - 4));
+  return local <= max ? local : min;
+};
+
+const parsePage = (bytes: Bytes, start: number, usable: number): Page => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const type = bytes[start];
+  if (
+    ![
+      PAGE_INDEX_INTERIOR,
+      PAGE_TABLE_INTERIOR,
+      PAGE_INDEX_LEAF,
+      PAGE_TABLE_LEAF,
+    ].includes(type)
+  ) {
+    throw corrupt();
+  }
+  const interior = type === PAGE_INDEX_INTERIOR || type === PAGE_TABLE_INTERIOR;
+  const table = type === PAGE_TABLE_INTERIOR || type === PAGE_TABLE_LEAF;
+  const pointers = start + (interior ? 12 : 8);
+
+  const cells = Array.from({ length: view.getUint16(start + 3) }, (_, i) => {
+    let position = view.getUint16(pointers + 2 * i);
+    const cell: Cell = {
+      leftChild: 0,
+      rowid: 0,
+      payloadSize: 0,
+      local: bytes.subarray(0, 0),
+      overflowPage: 0,
+    };
+    if (interior) {
+      cell.leftChild = view.getUint32(position);
+      position += 4;
+    }
+    if (type === PAGE_TABLE_INTERIOR) {
+      cell.rowid = readVarint(bytes, position)[0];
+      return cell;
+    }
+    const [size, sizeLength] = readVarint(bytes, position);
+    position += sizeLength;
+    if (table) {
+      const [rowid, rowidLength] = readVarint(bytes, position);
+      cell.rowid = rowid;
+      position += rowidLength;
+    }
+    const local = localPayloadSize(size, usable, table);
+    cell.payloadSize = size;
+    cell.local = bytes.subarray(position, position + local);
+    if (local < size) cell.overflowPage = view.getUint32(position + local);
+    return cell;
+  });
+
+  return {
+    type,
+    cells,
+    rightChild: interior ? view.getUint32(start + 8) : 0,
+  };
+};
+
+const INTEGER_SIZES = [0, 1, 2, 3, 4, 6, 8];
+
+const decodeRecord = (payload: Bytes): SqlValue[] => {
+  const view = new DataView(
+    payload.buffer,
+    payload.byteOffset,
+    payload.byteLength
+  );
+  const [headerSize, headerSizeLength] = readVarint(payload, 0);
+  const types: number[] = [];
+  for (let position = headerSizeLength; position < headerSize; ) {
+    const [type, length] = readVarint(payload, position);
+    types.push(type);
+    position += length;
+  }
+
+  let position = headerSize;
+  return types.map((type): SqlValue => {
+    if (type === 0) return null;
+    if (type === 8 || type === 9) return type - 8;
+    if (type <= 6) {
+      const size = INTEGER_SIZES[type];
+      // Two's complement, from the signed first byte on
+      let value = (payload[position] << 24) >> 24;
+      for (let i = 1; i < size; i++) {
+        value = value * 256 + payload[position + i];
+      }
+      position += size;
+      return value;
+    }
+    if (type === 7) {
+      position += 8;
+      return view.getFloat64(position - 8);
+    }
+    const length = Math.floor((type - 12) / 2);
+    const data = payload.subarray(position, position + length);
+    position += length;
+    return type % 2 === 0 ? data : new TextDecoder().decode(data);
+  });
+};
+
+// SQLite's ordering with the BINARY collation: NULL, numbers, text, blobs
+const typeRank = (value: SqlValue) =>
+  value === null
+    ? 0
+    : typeof value === "number"
+    ? 1
+    : typeof value === "string"
+    ? 2
+    : 3;
+
+const compareValues = (a: SqlValue, b: SqlValue): number => {
+  const rank = typeRank(a) - typeRank(b);
+  if (rank !== 0 || a === null || b === null) return rank;
+  if (a instanceof Uint8Array && b instanceof Uint8Array) {
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+      if (a[i] !== b[i]) return a[i] - b[i];
+    }
+    return a.length - b.length;
+  }
+  return a < b ? -1 : a > b ? 1 : 0;
+};
+
+// Orders an index entry against a key covering its first columns
+const compareKey = (key: SqlValue[], entry: SqlValue[]) => {
+  for (let i = 0; i < key.length; i++) {
+    const order = compareValues(key[i], entry[i]);
+    if (order !== 0) return order;
+  }
+  return 0;
+};
+
+const unquote = (name: string) =>
+  name
+    .trim()
+    .replace(/^(["`[])(.*)["`\]]$/, "$2")
+    .toLowerCase();
+
+// Splits a column list at the commas outside parentheses
+const splitDefinitions = (text: string) => {
+  const parts = [""];
+  let depth = 0;
+  for (const char of text) {
+    if (char === "(") depth++;
+    if (char === ")") depth--;
+    if (char === "," && depth === 0) parts.push("");
+    else parts[parts.length - 1] += char;
+  }
+  return parts.map((part) => part.trim()).filter(Boolean);
+};
+
+const parenthesized = (sql: string) =>
+  sql.slice(sql.indexOf("(") + 1, sql.lastIndexOf(")"));
+
+const firstWord = (definition: string) =>
+  unquote(definition.match(/^("[^"]*"|`[^`]*`|\[[^\]]*\]|\S+)/)?.[1] ?? "");
+
+// Columns of a CREATE TABLE, and the key columns of its UNIQUE and PRIMARY
+// KEY constraints in the order SQLite numbers their automatic indexes
+const parseTable = (sql: string) => {
+  const columns: string[] = [];
+  const keys: string[][] = [];
+  let rowidColumn = -1;
+  for (const definition of splitDefinitions(parenthesized(sql))) {
+    const constraint = definition.match(
+      /^(?:CONSTRAINT\s+\S+\s+)?(?:PRIMARY\s+KEY|UNIQUE)\s*\(([^)]*)\)/i
+    );
+    if (constraint) {
+      keys.push(splitDefinitions(constraint[1]).map(firstWord));
+    } else if (
+      !/^(CONSTRAINT|PRIMARY|UNIQUE|CHECK|FOREIGN)\b/i.test(definition)
+    ) {
+      const name = firstWord(definition);
+      columns.push(name);
+      if (/\bINTEGER\s+PRIMARY\s+KEY\b/i.test(definition)) {
+        rowidColumn = columns.length - 1;
+      } else if (/\b(PRIMARY\s+KEY|UNIQUE)\b/i.test(definition)) {
+        keys.push([name]);
+      }
+    }
+  }
+  return { columns, keys, rowidColumn };
+};
+
+interface SchemaRow {
+  type: string;
+  name: string;
+  table: string;
+  rootPage: number;
+  sql: string;
+}
+
+const readTables = (schema: SchemaRow[]) => {
+  const tables = new Map<string, Table>();
+  const keys = new Map<string, string[][]>();
+  schema
+    .filter((row) => row.type === "table")
+    .forEach((row) => {
+      // Tables without rowids are b-trees of a different shape
+      if (/\bWITHOUT\s+ROWID\b/i.test(row.sql)) return;
+      const parsed = parseTable(row.sql);
+      tables.set(row.name, {
+        rootPage: row.rootPage,
+        columns: parsed.columns,
+        rowidColumn: parsed.rowidColumn,
+        indexes: [],
+      });
+      keys.set(row.name, parsed.keys);
+    });
+
+  schema
+    .filter((row) => row.type === "index")
+    .forEach((row) => {
+      const table = tables.get(row.table);
+      if (!table) return;
+      const automatic = row.name.match(/^sqlite_autoindex_.+_(\d+)$/);
+      const columns = automatic
+        ? keys.get(row.table)?.[Number(automatic[1]) - 1]
+        : splitDefinitions(parenthesized(row.sql)).map(firstWord);
+      if (columns) table.indexes.push({ rootPage: row.rootPage, columns });
+    });
+  return tables;
+};
+
+const findIndex = (table: Table, columns: string[]) => {
+  const index = table.indexes.find((candidate) =>
+    columns.every((column, i) => candidate.columns[i] === column)
+  );
+  if (!index) {
+    throw new Error(`the MBTiles database has no index on ${columns}`);
+  }
+  return index.rootPage;
+};
+
+const column = (table: Table, name: string) => {
+  const position = table.columns.indexOf(name);
+  if (position === -1) {
+    throw new Error(`the MBTiles database has no ${name} column`);
+  }
+  return position;
+};
+
+const TILE_KEY = ["zoom_level", "tile_column", "tile_row"];
+
+export class MbtilesArchive {
+  private database: Promise<Database> | null = null;
+  private pages = new Map<number, Promise<Bytes>>();
+  private pageSize = 0;
+  private usableSize = 0;
+  readonly url: string;
+
+  constructor(url: string) {
+    this.url = url;
+  }
+
+  private async readPages(first: number, count: number, signal?: AbortSignal) {
+    const data = await fetchByteRange(
+      this.url,
+      (first - 1) * this.pageSize,
+      count * this.pageSize,
+      signal
+    );
+    if (data.byteLength < count * this.pageSize) throw corrupt();
+    return Array.from(
+      { length: count },
+      (_, i) => new Uint8Array(data, i * this.pageSize, this.pageSize)
+    );
+  }
+
+  private getPage(number: number): Promise<Bytes> {
+    let page = this.pages.get(number);
+    if (!page) {
+      page = this.readPages(number, 1).then(([bytes]) => bytes);
+      this.pages.set(number, page);
+      page.catch(() => this.pages.delete(number));
+      // Maps keep insertion order, so the first key is the oldest
+      if (this.pages.size > MAX_CACHED_PAGES) {
+        this.pages.delete(this.pages.keys().next().value!);
+      }
+    }
+    return page;
+  }
+
+  private async getTreePage(number: number) {
+    const bytes = await this.getPage(number);
+    // The first page starts with the database header
+    return parsePage(bytes, number === 1 ? HEADER_LENGTH : 0, this.usableSize);
+  }
+
+  private async readPayload(cell: Cell, signal?: AbortSignal) {
+    if (!cell.overflowPage) return cell.local;
+    const payload = new Uint8Array(cell.payloadSize);
+    payload.set(cell.local);
+    const chunk = this.usableSize - 4;
+    const first = cell.overflowPage;
+    // Overflow pages usually follow each other, so fetch them in one go
+    const run = await this.readPages(
+      first,
+      Math.ceil((cell.payloadSize - cell.local.length) / chunk),
+      signal
+    ).catch((error) => {
+      if (signal?.aborted) throw error;
+      return [];
+    });
+
+    let offset = cell.local.length;
+    let number = first;
+    while (offset < cell.payloadSize) {
+      if (!number) throw corrupt();
+      const page = run[number - first] ?? (await this.getPage(number));
+      const length = Math.min(chunk, cell.payloadSize - offset);
+      payload.set(page.subarray(4, 4 + length), offset);
+      offset += length;
+      number = new DataView(page.buffer, page.byteOffset).getUint32(0);
+    }
+    return payload;
+  }
+
+  private async scanTable(rootPage: number) {
+    const rows: { rowid: number; values: SqlValue[] }[] = [];
+    const visit = async (number: number, depth: number): Promise<void> => {
+      if (depth > MAX_TREE_DEPTH) throw corrupt();
+      const page = await this.getTreePage(number);
+      if (page.type === PAGE_TABLE_LEAF) {
+        for (const cell of page.cells) {
+          const values = decodeRecord(await this.readPayload(cell));
+          rows.push({ rowid: cell.rowid, values });
+        }
+        return;
+      }
+      if (page.type !== PAGE_TABLE_INTERIOR) throw corrupt();
+      for (const cell of page.cells) await visit(cell.leftChild, depth + 1);
+      await visit(page.rightChild, depth + 1);
+    };
+    await visit(rootPage, 0);
+    return rows;
+  }
+
+  private async findRow(table: Table, rowid: number, signal?: AbortSignal) {
+    let number = table.rootPage;
+    for (let depth = 0; depth < MAX_TREE_DEPTH; depth++) {
+      const page = await this.getTreePage(number);
+      if (page.type === PAGE_TABLE_LEAF) {
+        const cell = page.cells.find((candidate) => candidate.rowid === rowid);
+        if (!cell) return null;
+        const values = decodeRecord(await this.readPayload(cell, signal));
+        if (table.rowidColumn !== -1) values[table.rowidColumn] = rowid;
+        return values;
+      }
+      if (page.type !== PAGE_TABLE_INTERIOR) throw corrupt();
+      // Interior keys are the largest rowid of their left child
+      const cell = page.cells.find((candidate) => rowid <= candidate.rowid);
+      number = cell ? cell.leftChild : page.rightChild;
+    }
+    throw corrupt();
+  }
+
+  // Entry of a unique index whose first columns equal the key; entries end
+  // with the rowid of their row
+  private async findIndexEntry(rootPage: number, key: SqlValue[]) {
+    let number = rootPage;
+    for (let depth = 0; depth < MAX_TREE_DEPTH; depth++) {
+      const page = await this.getTreePage(number);
+      const leaf = page.type === PAGE_INDEX_LEAF;
+      if (!leaf && page.type !== PAGE_INDEX_INTERIOR) throw corrupt();
+      let low = 0;
+      let high = page.cells.length - 1;
+      while (low <= high) {
+        const middle = (low + high) >> 1;
+        const entry = decodeRecord(await this.readPayload(page.cells[middle]));
+        const order = compareKey(key, entry);
+        if (order === 0) return entry;
+        if (order < 0) high = middle - 1;
+        else low = middle + 1;
+      }
+      if (leaf) return null;
+      number =
+        low < page.cells.length ? page.cells[low].leftChild : page.rightChild;
+    }
+    throw corrupt();
+  }
+
+  // First or last entry of an index
+  private async edgeIndexEntry(rootPage: number, last: boolean) {
+    let number = rootPage;
+    for (let depth = 0; depth < MAX_TREE_DEPTH; depth++) {
+      const page = await this.getTreePage(number);
+      if (page.type === PAGE_INDEX_LEAF) {
+        const cell = page.cells[last ? page.cells.length - 1 : 0];
+        return cell ? decodeRecord(await this.readPayload(cell)) : null;
+      }
+      if (page.type !== PAGE_INDEX_INTERIOR) throw corrupt();
+      number = last ? page.rightChild : page.cells[0].leftChild;
+    }
+    throw corrupt();
+  }
+
+  private async lookup(
+    table: Table,
+    indexRoot: number,
+    key: SqlValue[],
+    signal?: AbortSignal
+  ) {
+    const entry = await this.findIndexEntry(indexRoot, key);
+    const rowid = entry?.[entry.length - 1];
+    return typeof rowid === "number"
+      ? this.findRow(table, rowid, signal)
+      : null;
+  }
+
+  private async open(): Promise<Database> {
+    const data = await fetchByteRange(this.url, 0, HEADER_LENGTH);
+    const view = new DataView(data);
+    const magic = new TextDecoder().decode(new Uint8Array(data, 0, 16));
+    if (data.byteLength < HEADER_LENGTH || magic !== MAGIC) {
+      throw new Error("not an MBTiles (SQLite) file");
+    }
+    const encoding = view.getUint32(56);
+    if (encoding > 1) throw new Error("UTF-16 MBTiles are not supported");
+    // 1 stands for 65536, which does not fit the field
+    this.pageSize = view.getUint16(16) === 1 ? 65536 : view.getUint16(16);
+    this.usableSize = this.pageSize - view.getUint8(20);
+
+    const schema = (await this.scanTable(1)).map(
+      ({ values }): SchemaRow => ({
+        type: String(values[0]),
+        name: String(values[1]).toLowerCase(),
+        table: String(values[2]).toLowerCase(),
+        rootPage: Number(values[3]),
+        sql: String(values[4] ?? ""),
+      })
+    );
+    const tables = readTables(schema);
+
+    const metadata = new Map<string, string>();
+    const metadataTable = tables.get("metadata");
+    if (metadataTable) {
+      const name = column(metadataTable, "name");
+      const value = column(metadataTable, "value");
+      (await this.scanTable(metadataTable.rootPage)).forEach(({ values }) =>
+        metadata.set(String(values[name]).toLowerCase(), String(values[value]))
+      );
+    }
+    const format = metadata.get("format")?.toLowerCase() ?? "png";
+    if (format === "pbf" || format === "mvt") {
+      throw new Error("vector MBTiles cannot be used as a basemap");
+    }
+
+    // Writers that deduplicate tiles make tiles a view over map and images
+    const images = tables.has("tiles") ? null : tables.get("images") ?? null;
+    const tiles = tables.get(images ? "map" : "tiles");
+    if (!tiles) throw new Error("the MBTiles database has no tiles table");
+    const tileIndex = findIndex(tiles, TILE_KEY);
+    const imageIndex = images ? findIndex(images, ["tile_id"]) : 0;
+
+    const first = await this.edgeIndexEntry(tileIndex, false);
+    const last = await this.edgeIndexEntry(tileIndex, true);
+    if (!first || !last) throw new Error("the MBTiles file has no tiles");
+
+    const bounds = metadata.get("bounds")?.split(",").map(Number);
+    return {
+      header: {
+        mimeType: TILE_FORMATS[format] ?? "image/png",
+        minZoom: Number(first[0]),
+        maxZoom: Number(last[0]),
+        bounds:
+          bounds?.length === 4 && bounds.every(Number.isFinite)
+            ? [
+                [bounds[1], bounds[0]],
+                [bounds[3], bounds[2]],
+              ]
+            : WORLD_BOUNDS,
+      },
+      tiles,
+      tileIndex,
+      images,
+      imageIndex,
+    };
+  }
+
+  private getDatabase(): Promise<Database> {
+    if (!this.database) {
+      this.database = this.open();
+      // Let a failed read be retried
+      this.database.catch(() => (this.database = null));
+    }
+    return this.database;
+  }
+
+  async getHeader(): Promise<MbtilesHeader> {
+    return (await this.getDatabase()).header;
+  }
+
+  // Tile image, or null when the file has no tile there
+  async getTile(
+    z: number,
+    x: number,
+    y: number,
+    signal?: AbortSignal
+  ): Promise<Blob | null> {
+    const { header, tiles, tileIndex, images, imageIndex } =
+      await this.getDatabase();
+    if (z < header.minZoom || z > header.maxZoom) return null;
+
+    // Rows count from the bottom, as in TMS
+    const key = [z, x, 2 ** z - 1 - y];
+    let row = await this.lookup(
+      tiles,
+      tileIndex,
+      key,
+      images ? undefined : signal
+    );
+    if (row && images) {
+      const id = row[column(tiles, "tile_id")];
+      row = await this.lookup(images, imageIndex, [id], signal);
+    }
+    const data = row?.[column(images ?? tiles, "tile_data")];
+    if (!(data instanceof Uint8Array) || data.length === 0) return null;
+    return new Blob([data], { type: header.mimeType });
+  }
+}
@@ -0,0 +1,103 @@
+// src/lib/measure.ts
+//
+// Map measurements: path lengths, areas and bearings, shown in the unit the
+// analyst picked. Lengths and bearings are great-circle; areas reuse the
+// local projection of the area of interest tools.
+import { aoiArea, distance } from "./aoiGeometry";
+import type { DistanceUnit } from "../types";
+
+type LatLng = [number, number];
+
+const EARTH_RADIUS = 6371000;
+const RAD = Math.PI / 180;
+
+export const DISTANCE_UNIT_LABELS: Record<DistanceUnit, string> = {
+  km: "Kilometers",
+  nm: "Nautical miles",
+  mi: "Miles",
+};
+
+export const DISTANCE_UNITS = Object.keys(
+  DISTANCE_UNIT_LABELS
+) as DistanceUnit[];
+
+export const METERS_PER_UNIT: Record<DistanceUnit, number> = {
+  km: 1000,
+  nm: 1852,
+  mi: 1609.344,
+};
+
+const formatNumber = (value: number) =>
+  value.toLocaleString(undefined, {
+    maximumFractionDigits: value < 10 ? 2 : value < 100 ? 1 : 0,
+  });
+
+export const formatDistance = (meters: number, unit: DistanceUnit): string =>
+  unit === "km" && meters < 1000
+    ? `${Math.round(meters).toLocaleString()} m`
+    : `${formatNumber(meters / METERS_PER_UNIT[unit])} ${unit}`;
+
+export const formatMeasuredArea = (
+  squareMeters: number,
+  unit: DistanceUnit
+): string =>
+  unit === "km" && squareMeters < 1e6
+    ? `${Math.round(squareMeters).toLocaleString()} m²`
+    : `${formatNumber(squareMeters / METERS_PER_UNIT[unit] ** 2)} ${unit}²`;
+
+export const pathLength = (points: LatLng[]): number =>
+  points.reduce(
+    (total, point, i) => (i === 0 ? 0 : total + distance(points[i - 1], point)),
+    0
+  );
+
+export const polygonArea = (points: LatLng[]): number =>
+  points.length < 3 ? 0 : aoiArea({ type: "polygon", coordinates: points });
+
+// Initial great-circle bearing from `from` to `to`, clockwise from true
+// north in [0, 360)
+export const bearing = (from: LatLng, to: LatLng): number => {
+  const lat1 = from[0] * RAD;
+  const lat2 = to[0] * RAD;
+  const dLng = (to[1] - from[1]) * RAD;
+  const y = Math.sin(dLng) * Math.cos(lat2);
+  const x =
+    Math.cos(lat1) * Math.sin(lat2) -
+    Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLng);
+  return (Math.atan2(y, x) / RAD + 360) % 360;
+};
+
+export const backAzimuth = (azimuth: number) => (azimuth + 180) % 360;
+
+// Degrees and NATO mils (6400 to the circle)
+export const formatBearing = (degrees: number): string => {
+  const rounded = (Math.round(degrees * 10) / 10) % 360;
+  const mils = Math.round((degrees * 6400) / 360) % 6400;
+  return `${rounded.toFixed(1).padStart(5, "0")}° (${String(mils).padStart(
+    4,
+    "0"
+  )} mils)`;
+};
+
+// Point `meters` away from `origin` along a great circle
+export const destination = (
+  origin: LatLng,
+  azimuth: number,
+  meters: number
+): LatLng => {
+  const angular = meters / EARTH_RADIUS;
+  const theta = azimuth * RAD;
+  const lat1 = origin[0] * RAD;
+  const lng1 = origin[1] * RAD;
+  const lat2 = Math.asin(
+    Math.sin(lat1) * Math.cos(angular) +
+      Math.cos(lat1) * Math.sin(angular) * Math.cos(theta)
+  );
+  const lng2 =
+    lng1 +
+    Math.atan2(
+      Math.sin(theta) * Math.sin(angular) * Math.cos(lat1),
+      Math.cos(angular) - Math.sin(lat1) * Math.sin(lat2)
+    );
+  return [lat2 / RAD, lng2 / RAD];
+};
@@ -0,0 +1,261 @@
+// src/lib/pmtiles.ts
+//
+// Reader for raster PMTiles v3 archives, fetching the header, directories
+// and tiles with HTTP range requests. Vector (MVT) archives and brotli or
+// zstd compressed directories are not supported.
+import { fetchByteRange } from "./byteRange";
+
+const HEADER_LENGTH = 127;
+// The header and root directory fit in the first 16 KiB
+const INITIAL_FETCH_LENGTH = 16384;
+
+const COMPRESSION_NONE = 1;
+const COMPRESSION_GZIP = 2;
+
+const TILE_TYPES: Record<number, string> = {
+  2: "image/png",
+  3: "image/jpeg",
+  4: "image/webp",
+  5: "image/avif",
+};
+
+export interface PmtilesHeader {
+  rootDirectoryOffset: number;
+  rootDirectoryLength: number;
+  leafDirectoryOffset: number;
+  tileDataOffset: number;
+  internalCompression: number;
+  tileCompression: number;
+  mimeType: string;
+  minZoom: number;
+  maxZoom: number;
+  // [[south, west], [north, east]]
+  bounds: [[number, number], [number, number]];
+}
+
+interface DirectoryEntry {
+  tileId: number;
+  offset: number;
+  length: number;
+  // 0 for entries pointing at a leaf directory
+  runLength: number;
+}
+
+const readHeader = (buffer: ArrayBuffer): PmtilesHeader => {
+  const view = new DataView(buffer);
+  const magic = new TextDecoder().decode(new Uint8Array(buffer, 0, 7));
+  if (buffer.byteLength < HEADER_LENGTH || magic !== "PMTiles") {
+    throw new Error("not a PMTiles archive");
+  }
+  if (view.getUint8(7) !== 3) {
+    throw new Error(`PMTiles version ${view.getUint8(7)} is not supported`);
+  }
+  const uint64 = (offset: number) => Number(view.getBigUint64(offset, true));
+  const degrees = (offset: number) => view.getInt32(offset, true) / 1e7;
+
+  const tileType = view.getUint8(99);
+  if (!TILE_TYPES[tileType]) {
+    throw new Error(
+      tileType === 1
+        ? "vector PMTiles cannot be used as a basemap"
+        : "unknown PMTiles tile type"
+    );
+  }
+  return {
+    rootDirectoryOffset: uint64(8),
+    rootDirectoryLength: uint64(16),
+    leafDirectoryOffset: uint64(40),
+    tileDataOffset: uint64(56),
+    internalCompression: view.getUint8(97),
+    tileCompression: view.getUint8(98),
+    mimeType: TILE_TYPES[tileType],
+    minZoom: view.getUint8(100),
+    maxZoom: view.getUint8(101),
+    bounds: [
+      [degrees(106), degrees(102)],
+      [degrees(114), degrees(110)],
+    ],
+  };
+};
+
+const decompress = async (
+  data: ArrayBuffer,
+  compression: number
+): Promise<ArrayBuffer> => {
+  if (compression === COMPRESSION_NONE) return data;
+  if (compression !== COMPRESSION_GZIP) {
+    throw new Error("only gzip compressed PMTiles are supported");
+  }
+  const stream = new Blob([data])
+    .stream()
+    .pipeThrough(new DecompressionStream("gzip"));
+  return new Response(stream).arrayBuffer();
+};
+
+const readDirectory = (buffer: ArrayBuffer): DirectoryEntry[] => {
+  const bytes = new Uint8Array(buffer);
+  let position = 0;
+  // Varints may exceed 32 bits, so no bitwise operators
+  const varint = () => {
+    let value = 0;
+    let scale = 1;
+    let byte: number;
+    do {
+      byte = bytes[position++];
+      value += (byte & 0x7f) * scale;
+      scale *= 128;
+    } while (byte & 0x80);
+    return value;
+  };
+
+  const count = varint();
+  const entries: DirectoryEntry[] = Array.from({ length: count }, () => ({
+    tileId: 0,
+    offset: 0,
+    length: 0,
+    runLength: 0,
+  }));
+  let tileId = 0;
+  entries.forEach((entry) => {
+    tileId += varint();
+    entry.tileId = tileId;
+  });
+  entries.forEach((entry) => (entry.runLength = varint()));
+  entries.forEach((entry) => (entry.length = varint()));
+  entries.forEach((entry, i) => {
+    const value = varint();
+    // Zero means the entry directly follows the previous one
+    entry.offset =
+      value === 0 && i > 0
+        ? entries[i - 1].offset + entries[i - 1].length
+        : value - 1;
+  });
+  return entries;
+};
+
+// Position of a tile along the Hilbert curves of zoom levels 0..z
+export const tileId = (z: number, x: number, y: number): number => {
+  let id = (4 ** z - 1) / 3;
+  let tx = x;
+  let ty = y;
+  for (let size = 2 ** (z - 1); size >= 1; size /= 2) {
+    const rx = tx & size ? 1 : 0;
+    const ry = ty & size ? 1 : 0;
+    id += size * size * ((3 * rx) ^ ry);
+    if (ry === 0) {
+      if (rx === 1) {
+        tx = size - 1 - (tx % size);
+        ty = size - 1 - (ty % size);
+      }
+      [tx, ty] = [ty, tx];
+    }
+  }
+  return id;
+};
+
+const findEntry = (
+  entries: DirectoryEntry[],
+  id: number
+): DirectoryEntry | null => {
+  let low = 0;
+  let high = entries.length - 1;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    if (entries[middle].tileId > id) high = middle - 1;
+    else low = middle + 1;
+  }
+  const entry = entries[high];
+  if (!entry) return null;
+  if (entry.runLength === 0) return entry;
+  return id < entry.tileId + entry.runLength ? entry : null;
+};
+
+const MAX_DIRECTORY_DEPTH = 4;
+
+export class PmtilesArchive {
+  private header: Promise<PmtilesHeader> | null = null;
+  private directories = new Map<number, Promise<DirectoryEntry[]>>();
+  readonly url: string;
+
+  constructor(url: string) {
+    this.url = url;
+  }
+
+  private fetchRange(offset: number, length: number, signal?: AbortSignal) {
+    return fetchByteRange(this.url, offset, length, signal);
+  }
+
+  getHeader(): Promise<PmtilesHeader> {
+    if (!this.header) {
+      this.header = this.fetchRange(0, INITIAL_FETCH_LENGTH).then(
+        async (data) => {
+          const header = readHeader(data);
+          // The root directory usually arrived with the header
+          const { rootDirectoryOffset: offset, rootDirectoryLength: length } =
+            header;
+          const root =
+            offset + length <= data.byteLength
+              ? data.slice(offset, offset + length)
+              : await this.fetchRange(offset, length);
+          this.directories.set(
+            offset,
+            decompress(root, header.internalCompression).then(readDirectory)
+          );
+          return header;
+        }
+      );
+      // Let a failed read be retried
+      this.header.catch(() => (this.header = null));
+    }
+    return this.header;
+  }
+
+  private getDirectory(offset: number, length: number, compression: number) {
+    let directory = this.directories.get(offset);
+    if (!directory) {
+      directory = this.fetchRange(offset, length)
+        .then((data) => decompress(data, compression))
+        .then(readDirectory);
+      this.directories.set(offset, directory);
+      directory.catch(() => this.directories.delete(offset));
+    }
+    return directory;
+  }
+
+  // Tile image, or null when the archive has no tile there
+  async getTile(
+    z: number,
+    x: number,
+    y: number,
+    signal?: AbortSignal
+  ): Promise<Blob | null> {
+    const header = await this.getHeader();
+    if (z < header.minZoom || z > header.maxZoom) return null;
+    const id = tileId(z, x, y);
+
+    let offset = header.rootDirectoryOffset;
+    let length = header.rootDirectoryLength;
+    for (let depth = 0; depth < MAX_DIRECTORY_DEPTH; depth++) {
+      const entries = await this.getDirectory(
+        offset,
+        length,
+        header.internalCompression
+      );
+      const entry = findEntry(entries, id);
+      if (!entry) return null;
+      if (entry.runLength > 0) {
+        const data = await this.fetchRange(
+          header.tileDataOffset + entry.offset,
+          entry.length,
+          signal
+        );
+        return new Blob([await decompress(data, header.tileCompression)], {
+          type: header.mimeType,
+        });
+      }
+      offset = header.leafDirectoryOffset + entry.offset;
+      length = entry.length;
+    }
+    throw new Error("PMTiles directories are nested too deeply");
+  }
+}
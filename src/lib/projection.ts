@@ -0,0 +1,167 @@
+// src/lib/projection.ts
+//
+// Projections for the coordinate systems imagery usually arrives in.
+// Anything else has to be reprojected on the server.
+
+export type LatLng = [number, number];
+
+// WGS84 ellipsoid
+const A = 6378137;
+const F = 1 / 298.257223563;
+const E2 = F * (2 - F);
+const EP2 = E2 / (1 - E2);
+const K0 = 0.9996;
+
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+const GEOGRAPHIC_CODES = new Set([4326, 4269, 4258, 4979]);
+const WEB_MERCATOR_CODES = new Set([3857, 3785, 900913, 102100]);
+
+export const webMercatorToLatLng = (x: number, y: number): LatLng => [
+  toDegrees(2 * Math.atan(Math.exp(y / A)) - Math.PI / 2),
+  toDegrees(x / A),
+];
+
+export const latLngToWebMercator = (
+  lat: number,
+  lng: number
+): [number, number] => [
+  A * toRadians(lng),
+  A * Math.log(Math.tan(Math.PI / 4 + toRadians(lat) / 2)),
+];
+
+// Snyder's transverse Mercator series for a UTM zone
+export const latLngToUtm = (
+  lat: number,
+  lng: number,
+  zone: number,
+  south: boolean
+): [number, number] => {
+  const phi = toRadians(lat);
+  const centralMeridian = (zone - 1) * 6 - 180 + 3;
+  const sinPhi = Math.sin(phi);
+  const cosPhi = Math.cos(phi);
+  const tanPhi = Math.tan(phi);
+
+  const n = A / Math.sqrt(1 - E2 * sinPhi ** 2);
+  const t = tanPhi ** 2;
+  const c = EP2 * cosPhi ** 2;
+  const a = cosPhi * toRadians(lng - centralMeridian);
+  const m =
+    A *
+    ((1 - E2 / 4 - (3 * E2 ** 2) / 64 - (5 * E2 ** 3) / 256) * phi -
+      ((3 * E2) / 8 + (3 * E2 ** 2) / 32 + (45 * E2 ** 3) / 1024) *
+        Math.sin(2 * phi) +
+      ((15 * E2 ** 2) / 256 + (45 * E2 ** 3) / 1024) * Math.sin(4 * phi) -
+      ((35 * E2 ** 3) / 3072) * Math.sin(6 * phi));
+
+  const easting =
+    K0 *
+      n *
+      (a +
+        ((1 - t + c) * a ** 3) / 6 +
+        ((5 - 18 * t + t ** 2 + 72 * c - 58 * EP2) * a ** 5) / 120) +
+    500000;
+  const northing =
+    K0 *
+    (m +
+      n *
+        tanPhi *
+        (a ** 2 / 2 +
+          ((5 - t + 9 * c + 4 * c ** 2) * a ** 4) / 24 +
+          ((61 - 58 * t + t ** 2 + 600 * c - 330 * EP2) * a ** 6) / 720));
+
+  return [easting, south ? northing + 10000000 : northing];
+};
+
+// Snyder's inverse transverse Mercator series for a UTM zone
+export const utmToLatLng = (
+  easting: number,
+  northing: number,
+  zone: number,
+  south: boolean
+): LatLng => {
+  const x = easting - 500000;
+  const y = south ? northing - 10000000 : northing;
+
+  const mu =
+    y / K0 / (A * (1 - E2 / 4 - (3 * E2 ** 2) / 64 - (5 * E2 ** 3) / 256));
+  const e1 = (1 - Math.sqrt(1 - E2)) / (1 + Math.sqrt(1 - E2));
+  const phi1 =
+    mu +
+    ((3 * e1) / 2 - (27 * e1 ** 3) / 32) * Math.sin(2 * mu) +
+    ((21 * e1 ** 2) / 16 - (55 * e1 ** 4) / 32) * Math.sin(4 * mu) +
+    ((151 * e1 ** 3) / 96) * Math.sin(6 * mu) +
+    ((1097 * e1 ** 4) / 512) * Math.sin(8 * mu);
+
+  const sinPhi = Math.sin(phi1);
+  const cosPhi = Math.cos(phi1);
+  const tanPhi = Math.tan(phi1);
+  const c1 = EP2 * cosPhi ** 2;
+  const t1 = tanPhi ** 2;
+  const n1 = A / Math.sqrt(1 - E2 * sinPhi ** 2);
+  const r1 = (A * (1 - E2)) / (1 - E2 * sinPhi ** 2) ** 1.5;
+  const d = x / (n1 * K0);
+
+  const lat =
+    phi1 -
+    ((n1 * tanPhi) / r1) *
+      (d ** 2 / 2 -
+        ((5 + 3 * t1 + 10 * c1 - 4 * c1 ** 2 - 9 * EP2) * d ** 4) / 24 +
+        ((61 + 90 * t1 + 298 * c1 + 45 * t1 ** 2 - 252 * EP2 - 3 * c1 ** 2) *
+          d ** 6) /
+          720);
+  const lon =
+    (d -
+      ((1 + 2 * t1 + c1) * d ** 3) / 6 +
+      ((5 - 2 * c1 + 28 * t1 - 3 * c1 ** 2 + 8 * EP2 + 24 * t1 ** 2) * d ** 5) /
+        120) /
+    cosPhi;
+
+  const centralMeridian = (zone - 1) * 6 - 180 + 3;
+  return [toDegrees(lat), centralMeridian + toDegrees(lon)];
+};
+
+// UTM zone encoded in common EPSG codes: WGS84, NAD83 and ETRS89
+const utmZone = (epsg: number): { zone: number; south: boolean } | null => {
+  if (epsg >= 32601 && epsg <= 32660)
+    return { zone: epsg - 32600, south: false };
+  if (epsg >= 32701 && epsg <= 32760)
+    return { zone: epsg - 32700, south: true };
+  if (epsg >= 26901 && epsg <= 26923)
+    return { zone: epsg - 26900, south: false };
+  if (epsg >= 25828 && epsg <= 25838)
+    return { zone: epsg - 25800, south: false };
+  return null;
+};
+
+export const isSupportedCrs = (epsg: number): boolean =>
+  GEOGRAPHIC_CODES.has(epsg) ||
+  WEB_MERCATOR_CODES.has(epsg) ||
+  utmZone(epsg) !== null;
+
+export const isGeographicCrs = (epsg: number): boolean =>
+  GEOGRAPHIC_CODES.has(epsg);
+
+// Project a coordinate in the given CRS to WGS84, or null when unsupported
+export const toLatLng = (epsg: number, x: number, y: number): LatLng | null => {
+  if (GEOGRAPHIC_CODES.has(epsg)) return [y, x];
+  if (WEB_MERCATOR_CODES.has(epsg)) return webMercatorToLatLng(x, y);
+
+  const utm = utmZone(epsg);
+  return utm ? utmToLatLng(x, y, utm.zone, utm.south) : null;
+};
+
+// Project WGS84 into the given CRS as [x, y], or null when unsupported
+export const fromLatLng = (
+  epsg: number,
+  lat: number,
+  lng: number
+): [number, number] | null => {
+  if (GEOGRAPHIC_CODES.has(epsg)) return [lng, lat];
+  if (WEB_MERCATOR_CODES.has(epsg)) return latLngToWebMercator(lat, lng);
+
+  const utm = utmZone(epsg);
+  return utm ? latLngToUtm(lat, lng, utm.zone, utm.south) : null;
+};
@@ -0,0 +1,243 @@
+// src/lib/rasterMath.ts
+//
+// Pixel math shared by the COG layer and the raster worker: band channels,
+// spectral indices, contrast stretches and color ramps.
+import type { TypedArray } from "geotiff";
+import type { Geotransform } from "./geotiffHeader";
+import type {
+  ColorRampName,
+  LayerRendering,
+  SpectralIndex,
+  StretchMode,
+} from "../types";
+
+// A displayed value: a raw band or a normalized difference (a - b) / (a + b)
+export type RasterChannel =
+  | { kind: "band"; band: number }
+  | { kind: "normalizedDifference"; a: number; b: number };
+
+export interface ChannelStats {
+  min: number;
+  max: number;
+  // 2nd and 98th percentiles
+  low: number;
+  high: number;
+  // Cumulative distribution over HISTOGRAM_BINS bins between min and max
+  cdf: number[] | null;
+}
+
+const HISTOGRAM_BINS = 256;
+
+export const INDEX_LABELS: Record<SpectralIndex, string> = {
+  ndvi: "NDVI (vegetation)",
+  ndwi: "NDWI (water)",
+  nbr: "NBR (burn)",
+};
+
+// Color stops, evenly spaced from low to high values
+const COLOR_RAMPS: Record<ColorRampName, [number, number, number][]> = {
+  rdylgn: [
+    [165, 0, 38],
+    [215, 48, 39],
+    [244, 109, 67],
+    [253, 174, 97],
+    [254, 224, 139],
+    [255, 255, 191],
+    [217, 239, 139],
+    [166, 217, 106],
+    [102, 189, 99],
+    [26, 152, 80],
+    [0, 104, 55],
+  ],
+  viridis: [
+    [68, 1, 84],
+    [72, 40, 120],
+    [62, 74, 137],
+    [49, 104, 142],
+    [38, 130, 142],
+    [31, 158, 137],
+    [53, 183, 121],
+    [109, 205, 89],
+    [180, 222, 44],
+    [253, 231, 37],
+  ],
+  blues: [
+    [247, 251, 255],
+    [198, 219, 239],
+    [107, 174, 214],
+    [33, 113, 181],
+    [8, 48, 107],
+  ],
+  magma: [
+    [0, 0, 4],
+    [28, 16, 68],
+    [79, 18, 123],
+    [129, 37, 129],
+    [181, 54, 122],
+    [229, 80, 100],
+    [251, 135, 97],
+    [254, 194, 135],
+    [252, 253, 191],
+  ],
+  greys: [
+    [0, 0, 0],
+    [255, 255, 255],
+  ],
+};
+
+export const COLOR_RAMP_NAMES = Object.keys(COLOR_RAMPS) as ColorRampName[];
+
+// 256 interpolated RGB entries for a ramp
+export const buildRampLut = (name: ColorRampName): Uint8ClampedArray => {
+  const stops = COLOR_RAMPS[name];
+  const lut = new Uint8ClampedArray(256 * 3);
+  for (let i = 0; i < 256; i++) {
+    const position = (i / 255) * (stops.length - 1);
+    const lower = Math.floor(position);
+    const upper = Math.min(lower + 1, stops.length - 1);
+    const t = position - lower;
+    for (let c = 0; c < 3; c++) {
+      lut[i * 3 + c] =
+        stops[lower][c] + (stops[upper][c] - stops[lower][c]) * t;
+    }
+  }
+  return lut;
+};
+
+// CSS gradient preview of a ramp
+export const rampGradient = (name: ColorRampName): string =>
+  `linear-gradient(to right, ${COLOR_RAMPS[name]
+    .map(([r, g, b]) => `rgb(${r}, ${g}, ${b})`)
+    .join(", ")})`;
+
+export const renderingChannels = (
+  rendering: LayerRendering,
+  bandCount: number
+): RasterChannel[] => {
+  const clamp = (band: number) => Math.min(Math.max(band, 0), bandCount - 1);
+  const { red, green, nir, swir } = rendering.bandRoles;
+
+  if (rendering.mode === "composite") {
+    return rendering.composite.map((band) => ({
+      kind: "band",
+      band: clamp(band),
+    }));
+  }
+
+  const [a, b] =
+    rendering.index === "ndvi"
+      ? [nir, red]
+      : rendering.index === "ndwi"
+      ? [green, nir]
+      : [nir, swir];
+  return [{ kind: "normalizedDifference", a: clamp(a), b: clamp(b) }];
+};
+
+export const channelBands = (channels: RasterChannel[]): number[] =>
+  Array.from(
+    new Set(
+      channels.flatMap((channel) =>
+        channel.kind === "band" ? [channel.band] : [channel.a, channel.b]
+      )
+    )
+  ).sort((x, y) => x - y);
+
+// NaN for no-data pixels and undefined ratios
+export const channelValue = (
+  channel: RasterChannel,
+  bands: Record<number, TypedArray>,
+  index: number,
+  noData: number | null
+): number => {
+  if (channel.kind === "band") {
+    const value = bands[channel.band][index];
+    return value === noData ? NaN : value;
+  }
+
+  const a = bands[channel.a][index];
+  const b = bands[channel.b][index];
+  if (a === noData || b === noData || a + b === 0) return NaN;
+  return (a - b) / (a + b);
+};
+
+export const computeChannelStats = (
+  values: Float32Array
+): ChannelStats | null => {
+  const valid = values.filter((v) => Number.isFinite(v)).sort();
+  if (valid.length === 0) return null;
+
+  const min = valid[0];
+  const max = valid[valid.length - 1];
+  const low = valid[Math.floor((valid.length - 1) * 0.02)];
+  const high = valid[Math.floor((valid.length - 1) * 0.98)];
+  if (max <= min) return { min, max, low, high, cdf: null };
+
+  const histogram = new Array<number>(HISTOGRAM_BINS).fill(0);
+  valid.forEach((v) => {
+    const bin = Math.min(
+      HISTOGRAM_BINS - 1,
+      Math.floor(((v - min) / (max - min)) * HISTOGRAM_BINS)
+    );
+    histogram[bin] += 1;
+  });
+
+  let total = 0;
+  const cdf = histogram.map((count) => {
+    total += count;
+    return total / valid.length;
+  });
+  return { min, max, low, high, cdf };
+};
+
+// Map a value into 0..1 with the chosen stretch
+export const stretchValue = (
+  value: number,
+  stats: ChannelStats,
+  mode: StretchMode
+): number => {
+  const { min, max, low, high, cdf } = stats;
+
+  if (mode === "equalize" && cdf && max > min) {
+    const bin = Math.floor(((value - min) / (max - min)) * HISTOGRAM_BINS);
+    return cdf[Math.min(HISTOGRAM_BINS - 1, Math.max(0, bin))];
+  }
+
+  const [from, to] = mode === "percentile" ? [low, high] : [min, max];
+  if (to <= from) return 0.5;
+  return Math.min(1, Math.max(0, (value - from) / (to - from)));
+};
+
+// Model coordinates to full resolution pixel coordinates
+export const modelToPixel = (
+  [
+    originX,
+    pixelWidth,
+    rowRotation,
+    originY,
+    columnRotation,
+    pixelHeight,
+  ]: Geotransform,
+  x: number,
+  y: number
+): [number, number] => {
+  const det = pixelWidth * pixelHeight - rowRotation * columnRotation;
+  const dx = x - originX;
+  const dy = y - originY;
+  return [
+    (pixelHeight * dx - rowRotation * dy) / det,
+    (pixelWidth * dy - columnRotation * dx) / det,
+  ];
+};
+
+// Leaflet's EPSG:3857 pixel coordinates at a zoom level to WGS84
+export const mercatorPixelToLatLng = (
+  x: number,
+  y: number,
+  zoom: number
+): [number, number] => {
+  const worldSize = 256 * 2 ** zoom;
+  const lng = (x / worldSize) * 360 - 180;
+  const lat =
+    (Math.atan(Math.sinh(Math.PI * (1 - (2 * y) / worldSize))) * 180) / Math.PI;
+  return [lat, lng];
+};
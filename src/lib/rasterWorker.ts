@@ -0,0 +1,85 @@
+// src/lib/rasterWorker.ts
+//
+// Promise wrapper around the raster worker, which does the per-pixel work of
+// the COG layer off the main thread.
+import type { TypedArray } from "geotiff";
+import type { Geotransform } from "./geotiffHeader";
+import type { ChannelStats, RasterChannel } from "./rasterMath";
+import type { LayerRendering } from "../types";
+
+export interface StatsTask {
+  type: "stats";
+  bands: Record<number, TypedArray>;
+  channels: RasterChannel[];
+  noData: number | null;
+}
+
+export interface RenderTask {
+  type: "render";
+  bands: Record<number, TypedArray>;
+  channels: RasterChannel[];
+  stats: ChannelStats[];
+  noData: number | null;
+  rendering: Pick<LayerRendering, "mode" | "ramp" | "stretch">;
+  epsg: number;
+  geotransform: Geotransform;
+  // Leaflet pixel origin and zoom of the map tile being drawn
+  tile: { x: number; y: number; zoom: number; width: number; height: number };
+  // Raster window read from the overview, in overview pixels
+  window: { left: number; top: number; width: number; height: number };
+  // Full resolution pixels per overview pixel
+  scale: number;
+}
+
+export type RasterTask = StatsTask | RenderTask;
+
+export interface RasterTaskResults {
+  stats: (ChannelStats | null)[];
+  render: Uint8ClampedArray<ArrayBuffer>;
+}
+
+export type RasterWorkerResponse =
+  | { id: number; result: RasterTaskResults[RasterTask["type"]] }
+  | { id: number; error: string };
+
+let worker: Worker | null = null;
+let nextId = 0;
+const pending = new Map<
+  number,
+  { resolve: (result: never) => void; reject: (error: Error) => void }
+>();
+
+const getWorker = (): Worker => {
+  if (!worker) {
+    worker = new Worker(
+      new URL("../workers/raster.worker.ts", import.meta.url),
+      { type: "module" }
+    );
+    worker.onmessage = (event: MessageEvent<RasterWorkerResponse>) => {
+      const response = event.data;
+      const task = pending.get(response.id);
+      if (!task) return;
+
+      pending.delete(response.id);
+      if ("error" in response) {
+        task.reject(new Error(response.error));
+      } else {
+        task.resolve(response.result as never);
+      }
+    };
+    worker.onerror = (event) => {
+      pending.forEach((task) => task.reject(new Error(event.message)));
+      pending.clear();
+    };
+  }
+  return worker;
+};
+
+export const runRasterTask = <T extends RasterTask>(
+  task: T
+): Promise<RasterTaskResults[T["type"]]> =>
+  new Promise((resolve, reject) => {
+    const id = nextId++;
+    pending.set(id, { resolve, reject });
+    getWorker().postMessage({ id, task });
+  });
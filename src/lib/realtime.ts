@@ -0,0 +1,145 @@
+// src/lib/realtime.ts
+import { API_BASE_URL, apiClient } from "./api";
+import type { RealtimeEvent, RealtimeConnectionStatus } from "../types";
+
+// Derive ws(s)://host/api/ws/feed/ from the REST base unless configured
+const resolveSocketUrl = (): string => {
+  if (import.meta.env.VITE_WS_URL) {
+    return import.meta.env.VITE_WS_URL;
+  }
+
+  const url = new URL(API_BASE_URL, window.location.href);
+  url.protocol = url.protocol === "https:" ? "wss:" : "ws:";
+  url.pathname = `${url.pathname.replace(/\/$/, "")}/ws/feed/`;
+  return url.toString();
+};
+
+const INITIAL_RETRY_DELAY = 1000;
+const MAX_RETRY_DELAY = 30000;
+// After this many failed attempts the feed is reported as unavailable
+const MAX_FAST_RETRIES = 5;
+
+interface RealtimeHandlers {
+  onEvent: (event: RealtimeEvent) => void;
+  onStatusChange: (status: RealtimeConnectionStatus) => void;
+  // Called when events may have been missed and state should be refetched
+  onResync: () => void;
+}
+
+export class RealtimeClient {
+  private handlers: RealtimeHandlers;
+  private socket: WebSocket | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private attempts = 0;
+  private hasConnected = false;
+  private lastSeq: number | null = null;
+  private stopped = false;
+
+  constructor(handlers: RealtimeHandlers) {
+    this.handlers = handlers;
+  }
+
+  connect(): void {
+    this.stopped = false;
+
+    if (typeof WebSocket === "undefined") {
+      this.handlers.onStatusChange("unavailable");
+      return;
+    }
+
+    // Retries keep the status reported by scheduleReconnect
+    if (this.attempts === 0) {
+      this.handlers.onStatusChange("connecting");
+    }
+
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(resolveSocketUrl());
+    } catch (error) {
+      console.error("Realtime feed connection failed:", error);
+      this.scheduleReconnect();
+      return;
+    }
+
+    socket.onopen = () => {
+      // The token goes in the first message rather than the URL, which
+      // ends up in server and proxy logs
+      const token = apiClient.getAccessToken();
+      if (token) {
+        socket.send(JSON.stringify({ type: "auth", token }));
+      }
+
+      this.attempts = 0;
+      this.lastSeq = null;
+      this.handlers.onStatusChange("open");
+
+      // Anything sent while we were disconnected is lost
+      if (this.hasConnected) {
+        this.handlers.onResync();
+      }
+      this.hasConnected = true;
+    };
+
+    socket.onmessage = (message: MessageEvent<string>) => {
+      let event: RealtimeEvent;
+      try {
+        event = JSON.parse(message.data) as RealtimeEvent;
+      } catch {
+        console.warn("Ignoring malformed realtime message:", message.data);
+        return;
+      }
+
+      if (event.seq !== undefined) {
+        if (this.lastSeq !== null && event.seq !== this.lastSeq + 1) {
+          this.handlers.onResync();
+        }
+        this.lastSeq = event.seq;
+      }
+
+      if (event.type !== "ping") {
+        this.handlers.onEvent(event);
+      }
+    };
+
+    socket.onclose = () => {
+      this.socket = null;
+      if (!this.stopped) {
+        this.scheduleReconnect();
+      }
+    };
+
+    this.socket = socket;
+  }
+
+  disconnect(): void {
+    this.stopped = true;
+
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+
+    if (this.socket) {
+      this.socket.onclose = null;
+      this.socket.close();
+      this.socket = null;
+    }
+  }
+
+  // Exponential backoff with jitter, capped at MAX_RETRY_DELAY
+  private scheduleReconnect(): void {
+    this.attempts += 1;
+    this.handlers.onStatusChange(
+      this.attempts > MAX_FAST_RETRIES ? "unavailable" : "reconnecting"
+    );
+
+    const delay = Math.min(
+      MAX_RETRY_DELAY,
+      INITIAL_RETRY_DELAY * 2 ** (this.attempts - 1)
+    );
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.connect();
+    }, delay + Math.random() * 500);
+  }
+}
@@ -0,0 +1,489 @@
+// src/lib/report.ts
+//
+// Intelligence reports built as standalone HTML documents, which can be
+// saved as they are or printed from the browser, PDF included.
+import { aoiArea, aoiContains, aoiRing, formatArea } from "./aoiGeometry";
+import { cropBackground, cropSourceUrl, cropWindow } from "./imageCrop";
+import { escapeHtml, mapSnapshotHtml, snapshotBounds } from "./mapSnapshot";
+import {
+  REVIEW_STATUS_LABELS,
+  SEVERITIES,
+  SEVERITY_COLORS,
+  SEVERITY_RANK,
+  THREAT_TYPE_LABELS,
+  reviewStatus,
+  type ThreatSeverity,
+} from "./threatStyle";
+import type {
+  AreaOfInterest,
+  ReportSection,
+  ReportTemplate,
+  SatelliteImage,
+  ThreatDetection,
+  TimeWindow,
+} from "../types";
+
+export const REPORT_SECTION_LABELS: Record<ReportSection, string> = {
+  cover: "Cover page",
+  summary: "Summary statistics",
+  maps: "Map snapshots",
+  threats: "Threat table",
+  chips: "Image chips in the table",
+  notes: "Analyst notes",
+};
+
+export const REPORT_SECTIONS = Object.keys(
+  REPORT_SECTION_LABELS
+) as ReportSection[];
+
+export const BUILTIN_REPORT_TEMPLATES: ReportTemplate[] = [
+  {
+    id: "intsum",
+    name: "Intelligence summary",
+    title: "Intelligence Summary",
+    classification: "UNCLASSIFIED",
+    classification_color: "#16a34a",
+    sections: REPORT_SECTIONS,
+    builtin: true,
+  },
+  {
+    id: "spot",
+    name: "Spot report",
+    title: "Spot Report",
+    classification: "UNCLASSIFIED",
+    classification_color: "#16a34a",
+    sections: ["summary", "maps", "threats", "notes"],
+    builtin: true,
+  },
+  {
+    id: "threat-list",
+    name: "Threat list",
+    title: "Threat List",
+    classification: "UNCLASSIFIED",
+    classification_color: "#16a34a",
+    sections: ["threats", "chips"],
+    builtin: true,
+  },
+];
+
+// Larger reports list the most severe threats and note the rest
+const MAX_TABLE_ROWS = 500;
+const MAX_IMAGE_MAPS = 4;
+const CHIP_SIZE = 500;
+
+const storageKey = (userId: number) => `reportTemplates:${userId}`;
+
+// Templates saved by the user; the built-in ones are not stored
+export const loadReportTemplates = (userId: number): ReportTemplate[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(storageKey(userId)) ?? "[]");
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveReportTemplates = (
+  userId: number,
+  templates: ReportTemplate[]
+) => {
+  localStorage.setItem(
+    storageKey(userId),
+    JSON.stringify(templates.filter((template) => !template.builtin))
+  );
+};
+
+export interface ReportOptions {
+  window: TimeWindow;
+  aoi: AreaOfInterest | null;
+  minSeverity: ThreatSeverity;
+  // Free text opening the analyst notes
+  summary: string;
+}
+
+export interface ReportInput {
+  template: ReportTemplate;
+  options: ReportOptions;
+  // As picked by reportThreats
+  threats: ThreatDetection[];
+  images: SatelliteImage[];
+  // Basemap URL template for the map snapshots, null for none
+  tileUrl: string | null;
+  author: string;
+  generatedAt: Date;
+}
+
+// Threats a report covers, most severe first. Dismissed detections are
+// left out.
+export const reportThreats = (
+  threats: ThreatDetection[],
+  { window, aoi, minSeverity }: ReportOptions
+): ThreatDetection[] => {
+  const from = Date.parse(window.from);
+  const to = Date.parse(window.to);
+  return threats
+    .filter((threat) => {
+      const detected = Date.parse(threat.detected_at);
+      return (
+        !threat.false_positive &&
+        detected >= from &&
+        detected <= to &&
+        SEVERITY_RANK[threat.severity] >= SEVERITY_RANK[minSeverity] &&
+        (!aoi || aoiContains(aoi.shape, threat.location_coords))
+      );
+    })
+    .sort(
+      (a, b) =>
+        SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity] ||
+        Date.parse(b.detected_at) - Date.parse(a.detected_at)
+    );
+};
+
+const formatTime = (value: string | Date) =>
+  new Date(value).toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+
+const typeLabel = (threat: ThreatDetection) =>
+  threat.threat_type_display ||
+  THREAT_TYPE_LABELS[threat.threat_type] ||
+  threat.threat_type;
+
+// Image links that still work once the report is saved elsewhere
+const absoluteUrl = (url: string) => new URL(url, window.location.href).href;
+
+const countBy = <T>(items: T[], key: (item: T) => string) =>
+  items.reduce<Record<string, number>>((counts, item) => {
+    counts[key(item)] = (counts[key(item)] ?? 0) + 1;
+    return counts;
+  }, {});
+
+const barRows = (counts: [string, number, string?][], total: number) =>
+  counts
+    .map(
+      ([label, count, color]) =>
+        `<tr><td>${escapeHtml(label)}</td><td class="num">${count}</td>
+        <td class="bar"><span style="width:${
+          total > 0 ? (count / total) * 100 : 0
+        }%;background:${color ?? "#6b7280"}"></span></td></tr>`
+    )
+    .join("");
+
+const coverSection = ({
+  template,
+  options,
+  threats,
+  author,
+  generatedAt,
+}: ReportInput) => `
+  <section class="cover">
+    <div class="marking">${escapeHtml(template.classification)}</div>
+    <h1>${escapeHtml(template.title)}</h1>
+    <p class="subtitle">${escapeHtml(
+      options.aoi ? options.aoi.name : "All areas"
+    )}</p>
+    <dl>
+      <dt>Period</dt><dd>${formatTime(options.window.from)} to ${formatTime(
+  options.window.to
+)}</dd>
+      <dt>Severity</dt><dd>${escapeHtml(options.minSeverity)} and above</dd>
+      <dt>Detections</dt><dd>${threats.length}</dd>
+      <dt>Prepared by</dt><dd>${escapeHtml(author)}</dd>
+      <dt>Generated</dt><dd>${formatTime(generatedAt)}</dd>
+    </dl>
+  </section>`;
+
+const summarySection = ({ options, threats }: ReportInput) => {
+  const total = threats.length;
+  const severities = countBy(threats, (threat) => threat.severity);
+  const types = countBy(threats, typeLabel);
+  const statuses = countBy(
+    threats,
+    (threat) => REVIEW_STATUS_LABELS[reviewStatus(threat)]
+  );
+  const imageCount = new Set(threats.map((threat) => threat.satellite_image))
+    .size;
+  const figures: [string, string | number][] = [
+    ["Detections", total],
+    ["Critical", severities.critical ?? 0],
+    ["High", severities.high ?? 0],
+    ["Source images", imageCount],
+  ];
+  if (options.aoi) {
+    figures.push(["Area", formatArea(aoiArea(options.aoi.shape))]);
+  }
+
+  return `
+  <section>
+    <h2>Summary</h2>
+    <div class="figures">${figures
+      .map(
+        ([label, value]) =>
+          `<div><strong>${escapeHtml(String(value))}</strong>${escapeHtml(
+            label
+          )}</div>`
+      )
+      .join("")}</div>
+    <div class="columns">
+      <table><caption>By severity</caption>${barRows(
+        [...SEVERITIES]
+          .reverse()
+          .map((severity): [string, number, string] => [
+            severity,
+            severities[severity] ?? 0,
+            SEVERITY_COLORS[severity],
+          ]),
+        total
+      )}</table>
+      <table><caption>By type</caption>${barRows(
+        Object.entries(types).sort((a, b) => b[1] - a[1]),
+        total
+      )}</table>
+      <table><caption>Review</caption>${barRows(
+        Object.entries(statuses).sort((a, b) => b[1] - a[1]),
+        total
+      )}</table>
+    </div>
+  </section>`;
+};
+
+const mapsSection = (
+  { options, threats, images, tileUrl }: ReportInput,
+  labels: Map<number, string>
+) => {
+  const aoiShapes = options.aoi
+    ? [{ ring: aoiRing(options.aoi.shape), color: "#dc2626" }]
+    : [];
+  const overviewBounds = snapshotBounds([
+    ...aoiShapes.flatMap((shape) => shape.ring),
+    ...threats.map((threat) => threat.location_coords),
+  ]);
+  if (!overviewBounds) return "";
+
+  const maps = [
+    `<figure>${mapSnapshotHtml({
+      bounds: overviewBounds,
+      width: 720,
+      height: 440,
+      tileUrl,
+      threats,
+      labels,
+      shapes: aoiShapes,
+    })}<figcaption>Overview: ${threats.length} detections${
+      options.aoi ? ` in ${escapeHtml(options.aoi.name)}` : ""
+    }</figcaption></figure>`,
+  ];
+
+  // Close-ups of the images with the most detections
+  const byImage = countBy(threats, (threat) => String(threat.satellite_image));
+  images
+    .filter((image) => image.bounds && byImage[image.id])
+    .sort((a, b) => byImage[b.id] - byImage[a.id])
+    .slice(0, MAX_IMAGE_MAPS)
+    .forEach((image) => {
+      const [[south, west], [north, east]] = image.bounds!;
+      const footprint: [number, number][] = [
+        [south, west],
+        [north, west],
+        [north, east],
+        [south, east],
+      ];
+      maps.push(
+        `<figure>${mapSnapshotHtml({
+          bounds: snapshotBounds(footprint)!,
+          width: 350,
+          height: 260,
+          tileUrl,
+          threats: threats.filter(
+            (threat) => threat.satellite_image === image.id
+          ),
+          labels,
+          shapes: [{ ring: footprint, color: "#2563eb", dashed: true }],
+        })}<figcaption>${escapeHtml(image.name)}: ${
+          byImage[image.id]
+        } detections</figcaption></figure>`
+      );
+    });
+
+  return `
+  <section>
+    <h2>Maps</h2>
+    <div class="maps">${maps.join("")}</div>
+  </section>`;
+};
+
+const chipHtml = (threat: ThreatDetection, images: SatelliteImage[]) => {
+  const image = images.find((item) => item.id === threat.satellite_image);
+  const url = image ? cropSourceUrl(image) : null;
+  const crop = image?.bounds
+    ? cropWindow(image.bounds, threat.location_coords, CHIP_SIZE)
+    : null;
+  if (!url || !crop) return `<div class="chip empty">No image</div>`;
+  const { backgroundSize, backgroundPosition } = cropBackground(crop);
+  return `<div class="chip" style="background-image:url('${escapeHtml(
+    absoluteUrl(url)
+  )}');background-size:${backgroundSize};background-position:${backgroundPosition}"><span style="left:${
+    crop.pointX * 100
+  }%;top:${crop.pointY * 100}%"></span></div>`;
+};
+
+const threatsSection = (
+  { template, threats, images }: ReportInput,
+  labels: Map<number, string>
+) => {
+  const chips = template.sections.includes("chips");
+  const rows = threats.slice(0, MAX_TABLE_ROWS).map(
+    (threat) => `
+      <tr>
+        <td class="num">${labels.get(threat.id)}</td>
+        ${chips ? `<td>${chipHtml(threat, images)}</td>` : ""}
+        <td><span class="dot" style="background:${
+          SEVERITY_COLORS[threat.severity]
+        }"></span>${escapeHtml(threat.severity_display || threat.severity)}</td>
+        <td>${escapeHtml(typeLabel(threat))}<div class="muted">#${
+      threat.id
+    }</div></td>
+        <td class="num">${Math.round(threat.confidence * 100)}%</td>
+        <td>${threat.location_coords
+          .map((value) => value.toFixed(5))
+          .join(", ")}</td>
+        <td>${formatTime(threat.detected_at)}</td>
+        <td>${escapeHtml(threat.image_name)}</td>
+        <td>${REVIEW_STATUS_LABELS[reviewStatus(threat)]}</td>
+      </tr>`
+  );
+  const omitted = threats.length - rows.length;
+
+  return `
+  <section>
+    <h2>Detections</h2>
+    <table class="threats">
+      <thead><tr><th>#</th>${
+        chips ? "<th>Image</th>" : ""
+      }<th>Severity</th><th>Type</th><th>Conf.</th><th>Location</th><th>Detected</th><th>Source</th><th>Review</th></tr></thead>
+      <tbody>${rows.join("")}</tbody>
+    </table>
+    ${
+      omitted > 0
+        ? `<p class="muted">${omitted} lower priority detections not listed.</p>`
+        : ""
+    }
+  </section>`;
+};
+
+const notesSection = (
+  { options, threats }: ReportInput,
+  labels: Map<number, string>
+) => {
+  const noted = threats.filter((threat) => threat.notes.trim());
+  if (!options.summary.trim() && noted.length === 0) return "";
+  return `
+  <section>
+    <h2>Analyst notes</h2>
+    ${
+      options.summary.trim()
+        ? `<p class="prose">${escapeHtml(options.summary.trim())}</p>`
+        : ""
+    }
+    ${noted
+      .map(
+        (threat) =>
+          `<div class="note"><strong>#${labels.get(threat.id)} ${escapeHtml(
+            typeLabel(threat)
+          )}</strong><p class="prose">${escapeHtml(
+            threat.notes.trim()
+          )}</p></div>`
+      )
+      .join("")}
+  </section>`;
+};
+
+const STYLES = `
+  @page { margin: 18mm 12mm; }
+  * { box-sizing: border-box; }
+  body { margin: 0; padding: 40px 32px; font: 13px/1.45 system-ui, sans-serif; color: #111827; }
+  .banner { position: fixed; left: 0; right: 0; padding: 3px; text-align: center; font-weight: 700; letter-spacing: .08em; color: #fff; z-index: 10; }
+  .banner.top { top: 0; } .banner.bottom { bottom: 0; }
+  section { margin: 0 auto 28px; max-width: 980px; }
+  h2 { border-bottom: 2px solid #111827; padding-bottom: 4px; }
+  .cover { min-height: 80vh; display: flex; flex-direction: column; justify-content: center; break-after: page; }
+  .cover h1 { font-size: 40px; margin: 16px 0 4px; }
+  .cover .subtitle { font-size: 20px; color: #4b5563; margin: 0 0 32px; }
+  .cover .marking { font-weight: 700; letter-spacing: .1em; }
+  .cover dl { display: grid; grid-template-columns: 140px 1fr; gap: 6px; }
+  .cover dt { color: #6b7280; } .cover dd { margin: 0; }
+  .figures { display: flex; gap: 12px; margin-bottom: 16px; }
+  .figures div { flex: 1; border: 1px solid #d1d5db; border-radius: 6px; padding: 10px; color: #4b5563; }
+  .figures strong { display: block; font-size: 24px; color: #111827; }
+  .columns { display: grid; grid-template-columns: repeat(3, 1fr); gap: 16px; }
+  caption { text-align: left; font-weight: 700; padding-bottom: 4px; }
+  table { border-collapse: collapse; width: 100%; }
+  td, th { padding: 3px 6px; text-align: left; vertical-align: top; }
+  .num { text-align: right; }
+  .bar { width: 45%; } .bar span { display: block; height: 10px; border-radius: 2px; }
+  .maps { display: flex; flex-wrap: wrap; gap: 16px; }
+  figure { margin: 0; break-inside: avoid; }
+  figcaption { color: #4b5563; font-size: 12px; margin-top: 4px; }
+  .threats th { border-bottom: 2px solid #111827; }
+  .threats td { border-bottom: 1px solid #e5e7eb; }
+  .threats tr { break-inside: avoid; }
+  .dot { display: inline-block; width: 9px; height: 9px; border-radius: 50%; margin-right: 5px; }
+  .chip { position: relative; width: 84px; height: 84px; background-repeat: no-repeat; background-color: #e5e7eb; border-radius: 4px; }
+  .chip span { position: absolute; width: 18px; height: 18px; margin: -9px; border: 2px solid #dc2626; border-radius: 50%; }
+  .chip.empty { display: flex; align-items: center; justify-content: center; color: #6b7280; font-size: 11px; }
+  .muted { color: #6b7280; font-size: 11px; }
+  .prose { white-space: pre-wrap; margin: 4px 0 12px; }
+  .note { break-inside: avoid; }
+  .banner, .snapshot, .chip, .dot, .bar span { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+`;
+
+export const buildReportHtml = (input: ReportInput): string => {
+  const { template, threats } = input;
+  const sections = new Set(template.sections);
+  // Row numbers, shared by the table, the maps and the notes
+  const labels = new Map(
+    threats.map((threat, index) => [threat.id, String(index + 1)])
+  );
+  const banner = (position: string) =>
+    `<div class="banner ${position}" style="background:${escapeHtml(
+      template.classification_color
+    )}">${escapeHtml(template.classification)}</div>`;
+
+  const body = [
+    sections.has("cover") ? coverSection(input) : "",
+    sections.has("summary") ? summarySection(input) : "",
+    sections.has("maps") ? mapsSection(input, labels) : "",
+    sections.has("threats") ? threatsSection(input, labels) : "",
+    sections.has("notes") ? notesSection(input, labels) : "",
+  ].join("");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(template.title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+${banner("top")}
+${body || "<p>No sections selected.</p>"}
+${banner("bottom")}
+</body>
+</html>`;
+};
+
+// Opens the report in a new window and prints it once its images have
+// loaded. False when the browser blocked the window.
+export const printReport = (html: string): boolean => {
+  const reportWindow = window.open("", "_blank");
+  if (!reportWindow) return false;
+  reportWindow.document.open();
+  reportWindow.document.write(html);
+  reportWindow.document.close();
+  reportWindow.addEventListener("load", () => {
+    reportWindow.focus();
+    reportWindow.print();
+  });
+  return true;
+};
@@ -0,0 +1,23 @@
+// src/lib/serviceWorker.ts
+//
+// Registers public/sw.js, which keeps the app shell, recent API reads and
+// imagery available offline. Only production builds register it, so the
+// dev server is never served stale modules.
+
+// Must match API_CACHE in public/sw.js
+const API_CACHE = "c2-api-v1";
+
+export const registerServiceWorker = () => {
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+  window.addEventListener("load", () => {
+    navigator.serviceWorker.register("/sw.js").catch((error) => {
+      console.warn("Service worker registration failed:", error);
+    });
+  });
+};
+
+// Drops cached API responses, e.g. when their user signs out
+export const clearApiCache = () => {
+  if (!("caches" in window)) return Promise.resolve(false);
+  return caches.delete(API_CACHE).catch(() => false);
+};
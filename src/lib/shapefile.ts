@@ -0,0 +1,239 @@
+// src/lib/shapefile.ts
+//
+// ESRI Shapefile writer for point and polygon layers in WGS84: the .shp
+// geometry, its .shx index, the .dbf attribute table, and .prj and .cpg
+// files naming the coordinate system and the text encoding.
+
+type Position = [number, number];
+
+export type ShapefileField =
+  | { name: string; type: "C"; length: number }
+  | { name: string; type: "N"; length: number; decimals: number }
+  | { name: string; type: "L" };
+
+export type ShapefileValue = string | number | boolean | null | undefined;
+
+export type ShapefileGeometry =
+  | { type: "point"; coordinates: Position }
+  // Outer rings only, as [lng, lat] positions
+  | { type: "polygon"; rings: Position[][] };
+
+export interface ShapefileRecord {
+  geometry: ShapefileGeometry;
+  values: ShapefileValue[];
+}
+
+const SHAPE_TYPES = { point: 1, polygon: 5 };
+const HEADER_SIZE = 100;
+
+export const WGS84_PRJ =
+  'GEOGCS["GCS_WGS_1984",DATUM["D_WGS_1984",SPHEROID["WGS_1984",6378137.0,298.257223563]],PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]]';
+
+// Shapefile outer rings run clockwise and are closed
+const clockwiseRing = (ring: Position[]): Position[] => {
+  const closed =
+    ring[0][0] === ring[ring.length - 1][0] &&
+    ring[0][1] === ring[ring.length - 1][1]
+      ? ring
+      : [...ring, ring[0]];
+  let area = 0;
+  for (let i = 0; i < closed.length - 1; i++) {
+    area += closed[i][0] * closed[i + 1][1] - closed[i + 1][0] * closed[i][1];
+  }
+  return area > 0 ? [...closed].reverse() : closed;
+};
+
+const positionsOf = (geometry: ShapefileGeometry): Position[] =>
+  geometry.type === "point" ? [geometry.coordinates] : geometry.rings.flat();
+
+// A loop rather than Math.min(...), which overflows the call stack on
+// layers with hundreds of thousands of vertices
+const boundingBox = (positions: Position[]): number[] => {
+  if (positions.length === 0) return [0, 0, 0, 0];
+  const box = [Infinity, Infinity, -Infinity, -Infinity];
+  positions.forEach(([x, y]) => {
+    box[0] = Math.min(box[0], x);
+    box[1] = Math.min(box[1], y);
+    box[2] = Math.max(box[2], x);
+    box[3] = Math.max(box[3], y);
+  });
+  return box;
+};
+
+// Record content: the shape type and its geometry
+const shapeContent = (geometry: ShapefileGeometry): DataView => {
+  if (geometry.type === "point") {
+    const view = new DataView(new ArrayBuffer(20));
+    view.setInt32(0, SHAPE_TYPES.point, true);
+    view.setFloat64(4, geometry.coordinates[0], true);
+    view.setFloat64(12, geometry.coordinates[1], true);
+    return view;
+  }
+
+  const rings = geometry.rings.map(clockwiseRing);
+  const points = rings.flat();
+  const view = new DataView(
+    new ArrayBuffer(44 + 4 * rings.length + 16 * points.length)
+  );
+  view.setInt32(0, SHAPE_TYPES.polygon, true);
+  boundingBox(points).forEach((value, i) =>
+    view.setFloat64(4 + 8 * i, value, true)
+  );
+  view.setInt32(36, rings.length, true);
+  view.setInt32(40, points.length, true);
+  let offset = 44;
+  let start = 0;
+  rings.forEach((ring) => {
+    view.setInt32(offset, start, true);
+    offset += 4;
+    start += ring.length;
+  });
+  points.forEach(([x, y]) => {
+    view.setFloat64(offset, x, true);
+    view.setFloat64(offset + 8, y, true);
+    offset += 16;
+  });
+  return view;
+};
+
+// The .shp and .shx headers differ only in the file length
+const writeHeader = (
+  view: DataView,
+  fileLength: number,
+  shapeType: number,
+  box: number[]
+) => {
+  view.setInt32(0, 9994);
+  view.setInt32(24, fileLength / 2);
+  view.setInt32(28, 1000, true);
+  view.setInt32(32, shapeType, true);
+  box.forEach((value, i) => view.setFloat64(36 + 8 * i, value, true));
+};
+
+const writeGeometry = (
+  type: ShapefileGeometry["type"],
+  records: ShapefileRecord[]
+) => {
+  const contents = records.map((record) => shapeContent(record.geometry));
+  const shpLength =
+    HEADER_SIZE +
+    contents.reduce((sum, content) => sum + 8 + content.byteLength, 0);
+  const shxLength = HEADER_SIZE + 8 * records.length;
+  const box = boundingBox(
+    records.flatMap((record) => positionsOf(record.geometry))
+  );
+
+  const shp = new Uint8Array(shpLength);
+  const shx = new Uint8Array(shxLength);
+  const shpView = new DataView(shp.buffer);
+  const shxView = new DataView(shx.buffer);
+  writeHeader(shpView, shpLength, SHAPE_TYPES[type], box);
+  writeHeader(shxView, shxLength, SHAPE_TYPES[type], box);
+
+  let offset = HEADER_SIZE;
+  contents.forEach((content, i) => {
+    // Offsets and lengths are counted in 16-bit words
+    shxView.setInt32(HEADER_SIZE + 8 * i, offset / 2);
+    shxView.setInt32(HEADER_SIZE + 8 * i + 4, content.byteLength / 2);
+    shpView.setInt32(offset, i + 1);
+    shpView.setInt32(offset + 4, content.byteLength / 2);
+    shp.set(new Uint8Array(content.buffer), offset + 8);
+    offset += 8 + content.byteLength;
+  });
+  return { shp, shx };
+};
+
+const fieldLength = (field: ShapefileField) =>
+  field.type === "L" ? 1 : field.length;
+
+// Text cut to a byte length without splitting a character
+const encodeText = (
+  encoder: TextEncoder,
+  text: string,
+  length: number
+): Uint8Array => {
+  let bytes = encoder.encode(text);
+  while (bytes.length > length) {
+    text = text.slice(0, -1);
+    bytes = encoder.encode(text);
+  }
+  return bytes;
+};
+
+const formatValue = (field: ShapefileField, value: ShapefileValue) => {
+  if (field.type === "L")
+    return value === null || value === undefined ? "?" : value ? "T" : "F";
+  if (value === null || value === undefined || value === "") return "";
+  if (field.type === "N") {
+    return typeof value === "number" && Number.isFinite(value)
+      ? value
+          .toFixed(field.decimals)
+          .padStart(field.length)
+          .slice(-field.length)
+      : "";
+  }
+  return String(value).replace(/[\r\n]+/g, " ");
+};
+
+const writeTable = (
+  fields: ShapefileField[],
+  records: ShapefileRecord[],
+  date: Date
+) => {
+  const encoder = new TextEncoder();
+  const headerLength = 32 + 32 * fields.length + 1;
+  const recordLength =
+    1 + fields.reduce((sum, field) => sum + fieldLength(field), 0);
+  const dbf = new Uint8Array(headerLength + recordLength * records.length + 1);
+  const view = new DataView(dbf.buffer);
+
+  view.setUint8(0, 0x03);
+  view.setUint8(1, date.getFullYear() - 1900);
+  view.setUint8(2, date.getMonth() + 1);
+  view.setUint8(3, date.getDate());
+  view.setUint32(4, records.length, true);
+  view.setUint16(8, headerLength, true);
+  view.setUint16(10, recordLength, true);
+
+  fields.forEach((field, i) => {
+    const offset = 32 + 32 * i;
+    // Names are at most 10 characters
+    dbf.set(encodeText(encoder, field.name, 10), offset);
+    dbf[offset + 11] = field.type.charCodeAt(0);
+    dbf[offset + 16] = fieldLength(field);
+    dbf[offset + 17] = field.type === "N" ? field.decimals : 0;
+  });
+  dbf[headerLength - 1] = 0x0d;
+
+  // Unset bytes are blanks
+  dbf.fill(0x20, headerLength, dbf.length - 1);
+  records.forEach((record, row) => {
+    let offset = headerLength + recordLength * row + 1;
+    fields.forEach((field, i) => {
+      const length = fieldLength(field);
+      dbf.set(
+        encodeText(encoder, formatValue(field, record.values[i]), length),
+        offset
+      );
+      offset += length;
+    });
+  });
+  dbf[dbf.length - 1] = 0x1a;
+  return dbf;
+};
+
+// Files of one layer, keyed by extension
+export const writeShapefile = (
+  type: ShapefileGeometry["type"],
+  fields: ShapefileField[],
+  records: ShapefileRecord[],
+  date = new Date()
+): Record<
+  "shp" | "shx" | "dbf" | "prj" | "cpg",
+  Uint8Array<ArrayBuffer> | string
+> => ({
+  ...writeGeometry(type, records),
+  dbf: writeTable(fields, records, date),
+  prj: WGS84_PRJ,
+  cpg: "UTF-8",
+});
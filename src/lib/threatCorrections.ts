@@ -0,0 +1,79 @@
+// src/lib/threatCorrections.ts
+//
+// Analyst corrections to detections: what each kind changes on the threat,
+// and the before and after values sent to the server as model feedback.
+import { THREAT_TYPE_LABELS } from "./threatStyle";
+import type {
+  FalsePositiveReason,
+  ThreatCorrectionInput,
+  ThreatCorrectionValues,
+  ThreatDetection,
+} from "../types";
+
+export const FALSE_POSITIVE_REASONS: Record<FalsePositiveReason, string> = {
+  terrain: "Terrain or vegetation",
+  civilian: "Civilian object",
+  duplicate: "Duplicate detection",
+  artifact: "Cloud, shadow or image artifact",
+  other: "Other",
+};
+
+export const CORRECTION_LABELS: Record<ThreatCorrectionInput["kind"], string> =
+  {
+    dismiss: "Dismissed as false positive",
+    restore: "Restored",
+    reclassify: "Reclassified",
+    relocate: "Moved",
+  };
+
+export const correctionValues = (
+  threat: ThreatDetection,
+  input: ThreatCorrectionInput
+): { previous: ThreatCorrectionValues; corrected: ThreatCorrectionValues } => {
+  switch (input.kind) {
+    case "dismiss":
+    case "restore":
+      return {
+        previous: { false_positive: !!threat.false_positive },
+        corrected: { false_positive: input.kind === "dismiss" },
+      };
+    case "reclassify": {
+      const previous: ThreatCorrectionValues = {};
+      const corrected: ThreatCorrectionValues = {};
+      if (input.threat_type && input.threat_type !== threat.threat_type) {
+        previous.threat_type = threat.threat_type;
+        corrected.threat_type = input.threat_type;
+      }
+      if (input.severity && input.severity !== threat.severity) {
+        previous.severity = threat.severity;
+        corrected.severity = input.severity;
+      }
+      return { previous, corrected };
+    }
+    case "relocate":
+      return {
+        previous: { location_coords: threat.location_coords },
+        corrected: { location_coords: input.location_coords },
+      };
+  }
+};
+
+// Threat fields to set for corrected values, display names included
+export const correctedFields = (
+  values: ThreatCorrectionValues,
+  reason: FalsePositiveReason | null = null
+): Partial<ThreatDetection> => {
+  const fields: Partial<ThreatDetection> = { ...values };
+  if (values.threat_type) {
+    fields.threat_type_display =
+      THREAT_TYPE_LABELS[values.threat_type] ?? values.threat_type;
+  }
+  if (values.severity) {
+    fields.severity_display =
+      values.severity[0].toUpperCase() + values.severity.slice(1);
+  }
+  if (values.false_positive !== undefined) {
+    fields.false_positive_reason = values.false_positive ? reason : null;
+  }
+  return fields;
+};
@@ -0,0 +1,206 @@
+// src/lib/threatDensity.ts
+//
+// Threat density analysis: heatmap weights and a hex-bin hotspot analysis.
+// Hotspots use the Getis-Ord Gi* statistic over each cell and its six
+// neighbours, so a cell is hot when its neighbourhood holds significantly
+// more detections than the study area as a whole.
+import L from "leaflet";
+import type { ThreatDetection } from "../types";
+import type { ThreatSeverity } from "./threatStyle";
+
+export const SEVERITY_WEIGHTS: Record<ThreatSeverity, number> = {
+  low: 0.25,
+  medium: 0.5,
+  high: 0.75,
+  critical: 1,
+};
+
+// Heatmap intensity of a detection, between 0 and 1
+export const threatWeight = (threat: ThreatDetection): number =>
+  SEVERITY_WEIGHTS[threat.severity] *
+  Math.min(1, Math.max(0, threat.confidence));
+
+export const heatPoints = (threats: ThreatDetection[]): L.HeatLatLngTuple[] =>
+  threats.map((threat) => [...threat.location_coords, threatWeight(threat)]);
+
+// Two-tailed confidence levels of the Gi* z-score, highest first
+export const HOTSPOT_LEVELS = [
+  { confidence: 99, z: 2.576 },
+  { confidence: 95, z: 1.96 },
+  { confidence: 90, z: 1.645 },
+] as const;
+
+export type HotspotConfidence = (typeof HOTSPOT_LEVELS)[number]["confidence"];
+
+export const HOTSPOT_COLORS: Record<HotspotConfidence, string> = {
+  99: "#b91c1c",
+  95: "#ef4444",
+  90: "#fca5a5",
+};
+
+// Cells with detections but no significant concentration
+export const NEUTRAL_CELL_COLOR = "#9ca3af";
+
+// Keeps the grid, and the work per update, bounded on wide extents
+const MAX_CELLS = 20000;
+
+export interface HexCell {
+  id: string;
+  center: L.LatLngTuple;
+  polygon: L.LatLngTuple[];
+  threats: ThreatDetection[];
+  // Gi* z-score, 0 when the study area has no variation
+  z: number;
+  confidence: HotspotConfidence | null;
+}
+
+export interface HotspotResult {
+  // Cells holding detections or significant hotspots
+  cells: HexCell[];
+  // Cell size actually used, in meters, after the MAX_CELLS limit
+  cellSize: number;
+  cellCount: number;
+}
+
+const SQRT3 = Math.sqrt(3);
+const NEIGHBOURS = [
+  [1, 0],
+  [1, -1],
+  [0, -1],
+  [-1, 0],
+  [-1, 1],
+  [0, 1],
+];
+
+// Pointy-top hexagons in axial coordinates, `size` being the center to
+// corner distance in projected units
+const toAxial = (point: L.Point, size: number): [number, number] => {
+  const q = ((SQRT3 / 3) * point.x - point.y / 3) / size;
+  const r = ((2 / 3) * point.y) / size;
+
+  // Round through cube coordinates so points land in the nearest hexagon
+  const s = -q - r;
+  let rq = Math.round(q);
+  let rr = Math.round(r);
+  const rs = Math.round(s);
+  const dq = Math.abs(rq - q);
+  const dr = Math.abs(rr - r);
+  const ds = Math.abs(rs - s);
+  if (dq > dr && dq > ds) rq = -rr - rs;
+  else if (dr > ds) rr = -rq - rs;
+  return [rq, rr];
+};
+
+const toPoint = (q: number, r: number, size: number): L.Point =>
+  L.point(size * (SQRT3 * q + (SQRT3 / 2) * r), size * 1.5 * r);
+
+export const findHotspots = (
+  threats: ThreatDetection[],
+  // Hexagon width in meters
+  cellWidth: number,
+  // Study area, the extent of the detections by default
+  bounds?: L.LatLngBounds
+): HotspotResult => {
+  const area =
+    bounds ??
+    (threats.length > 0
+      ? L.latLngBounds(threats.map((threat) => threat.location_coords))
+      : null);
+  if (!area || !area.isValid())
+    return { cells: [], cellSize: cellWidth, cellCount: 0 };
+
+  const crs = L.CRS.EPSG3857;
+  // Web Mercator stretches distances by 1 / cos(latitude)
+  const scale = 1 / Math.cos((area.getCenter().lat * Math.PI) / 180);
+  const southWest = crs.project(area.getSouthWest());
+  const northEast = crs.project(area.getNorthEast());
+  const [minX, maxX] = [southWest.x, northEast.x];
+  const [minY, maxY] = [
+    Math.min(southWest.y, northEast.y),
+    Math.max(southWest.y, northEast.y),
+  ];
+  const spanX = maxX - minX;
+  const spanY = maxY - minY;
+
+  // Each hexagon covers (sqrt(3) / 2) * width^2
+  let width = cellWidth * scale;
+  const minWidth = Math.sqrt(
+    ((spanX + width) * (spanY + width)) / MAX_CELLS / (SQRT3 / 2)
+  );
+  width = Math.max(width, minWidth);
+  const size = width / SQRT3;
+
+  // Cells of the study area, keyed by axial coordinates
+  const cells = new Map<
+    string,
+    { q: number; r: number; threats: ThreatDetection[] }
+  >();
+  const rowHeight = size * 1.5;
+  for (let y = minY - rowHeight; y <= maxY + rowHeight; y += rowHeight) {
+    for (let x = minX - width; x <= maxX + width; x += width / 2) {
+      const [q, r] = toAxial(L.point(x, y), size);
+      const id = `${q},${r}`;
+      if (!cells.has(id)) cells.set(id, { q, r, threats: [] });
+    }
+  }
+
+  threats.forEach((threat) => {
+    const [q, r] = toAxial(crs.project(L.latLng(threat.location_coords)), size);
+    cells.get(`${q},${r}`)?.threats.push(threat);
+  });
+
+  const n = cells.size;
+  let sum = 0;
+  let sumSquares = 0;
+  cells.forEach((cell) => {
+    sum += cell.threats.length;
+    sumSquares += cell.threats.length ** 2;
+  });
+  const mean = sum / n;
+  const deviation = Math.sqrt(Math.max(0, sumSquares / n - mean ** 2));
+
+  const results: HexCell[] = [];
+  cells.forEach((cell, id) => {
+    let local = cell.threats.length;
+    let weights = 1;
+    NEIGHBOURS.forEach(([dq, dr]) => {
+      const neighbour = cells.get(`${cell.q + dq},${cell.r + dr}`);
+      if (neighbour) {
+        local += neighbour.threats.length;
+        weights += 1;
+      }
+    });
+
+    // Binary weights, so the sum of squared weights equals their sum
+    const denominator =
+      deviation * Math.sqrt((n * weights - weights ** 2) / Math.max(1, n - 1));
+    const z = denominator > 0 ? (local - mean * weights) / denominator : 0;
+    const confidence =
+      HOTSPOT_LEVELS.find((level) => z >= level.z)?.confidence ?? null;
+    if (cell.threats.length === 0 && confidence === null) return;
+
+    const center = toPoint(cell.q, cell.r, size);
+    const polygon = Array.from({ length: 6 }, (_, corner) => {
+      const angle = (Math.PI / 180) * (60 * corner - 30);
+      const latLng = crs.unproject(
+        L.point(
+          center.x + size * Math.cos(angle),
+          center.y + size * Math.sin(angle)
+        )
+      );
+      return [latLng.lat, latLng.lng] as L.LatLngTuple;
+    });
+    const centerLatLng = crs.unproject(center);
+
+    results.push({
+      id,
+      center: [centerLatLng.lat, centerLatLng.lng],
+      polygon,
+      threats: cell.threats,
+      z,
+      confidence,
+    });
+  });
+
+  return { cells: results, cellSize: width / scale, cellCount: n };
+};
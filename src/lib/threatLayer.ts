@@ -0,0 +1,267 @@
+// src/lib/threatLayer.ts
+//
+// Clustered Leaflet layer for threat detections. Clusters take the color of
+// their most severe detection; single detections use the threat symbology,
+// or plain canvas points above CANVAS_THRESHOLD detections. Updates are
+// diffed by threat id so a poll only touches detections that changed.
+import L from "leaflet";
+import "leaflet.markercluster";
+import toast from "react-hot-toast";
+import { formatMgrs } from "./coordinates";
+import { createElement } from "./dom";
+import {
+  SEVERITY_COLORS,
+  SEVERITY_SIZES,
+  confidenceOpacity,
+  maxSeverity,
+  reviewOutline,
+  reviewStatus,
+  threatSymbol,
+  threatSymbolUrl,
+} from "./threatStyle";
+import type { ThreatDetection, ThreatSymbolSet } from "../types";
+
+export const CANVAS_THRESHOLD = 2000;
+
+export interface ThreatLayerOptions {
+  canvasThreshold?: number;
+  symbolSet?: ThreatSymbolSet;
+  onThreatClick?: (threat: ThreatDetection) => void;
+}
+
+// Latest detection drawn by each marker, read by popups and cluster icons
+const layerThreats = new WeakMap<L.Layer, ThreatDetection>();
+
+const clusterThreats = (cluster: L.MarkerCluster): ThreatDetection[] =>
+  cluster
+    .getAllChildMarkers()
+    .map((marker) => layerThreats.get(marker))
+    .filter((threat): threat is ThreatDetection => !!threat);
+
+const createClusterIcon = (cluster: L.MarkerCluster): L.DivIcon => {
+  const count = cluster.getChildCount();
+  const size = count < 10 ? 32 : count < 100 ? 40 : 48;
+  const color = SEVERITY_COLORS[maxSeverity(clusterThreats(cluster))];
+
+  const badge = createElement(
+    "div",
+    "flex items-center justify-center w-full h-full rounded-full border-2 border-white text-white text-xs font-bold shadow-lg",
+    String(count)
+  );
+  badge.style.background = color;
+
+  return L.divIcon({
+    html: badge,
+    className: "threat-cluster",
+    iconSize: L.point(size, size),
+  });
+};
+
+const threatPopup = (threat: ThreatDetection): HTMLElement => {
+  const content = createElement("div", "p-2");
+  content.append(
+    createElement("h4", "font-bold text-sm mb-1", threat.threat_type),
+    createElement("p", "text-xs text-gray-600 mb-2", threat.description)
+  );
+
+  const details = createElement("div", "text-xs");
+  const severity = createElement("div", "", "Severity: ");
+  severity.append(createElement("span", "font-semibold", threat.severity));
+  details.append(
+    severity,
+    createElement(
+      "div",
+      "",
+      `Confidence: ${Math.round(threat.confidence * 100)}%`
+    )
+  );
+
+  const mgrs = formatMgrs(...threat.location_coords);
+  if (mgrs) {
+    const location = createElement("div", "flex items-center gap-1", "MGRS: ");
+    const copy = createElement(
+      "button",
+      "px-1 rounded border border-gray-300 hover:bg-gray-100",
+      "Copy"
+    );
+    copy.title = "Copy MGRS";
+    copy.addEventListener("click", () => {
+      navigator.clipboard
+        .writeText(mgrs)
+        .then(() => toast.success(`Copied ${mgrs}`))
+        .catch(() => toast.error("Could not copy the coordinate"));
+    });
+    location.append(createElement("span", "font-mono", mgrs), copy);
+    details.append(location);
+  }
+  content.append(details);
+  return content;
+};
+
+// Detections in a cluster by type, most frequent first
+const clusterSummary = (cluster: L.MarkerCluster): HTMLElement => {
+  const counts = new Map<string, number>();
+  clusterThreats(cluster).forEach((threat) => {
+    const type = threat.threat_type_display || threat.threat_type;
+    counts.set(type, (counts.get(type) ?? 0) + 1);
+  });
+
+  const content = createElement("div", "p-1 text-xs");
+  content.append(
+    createElement(
+      "div",
+      "font-bold text-sm mb-1",
+      `${cluster.getChildCount()} detections`
+    )
+  );
+  Array.from(counts)
+    .sort((a, b) => b[1] - a[1])
+    .forEach(([type, count]) => {
+      const row = createElement("div", "flex justify-between gap-4");
+      row.append(
+        createElement("span", "", type),
+        createElement("span", "font-semibold", String(count))
+      );
+      content.append(row);
+    });
+  return content;
+};
+
+// Fields that change how a detection is drawn
+const threatKey = (threat: ThreatDetection) =>
+  [
+    ...threat.location_coords,
+    threat.severity,
+    threat.threat_type,
+    threat.confidence,
+    threat.verified,
+    threat.acknowledged,
+  ].join("|");
+
+export class ThreatLayer extends L.MarkerClusterGroup {
+  private entries = new Map<number, { layer: L.Layer; key: string }>();
+  private canvasThreshold: number;
+  private canvasMode = false;
+  private symbolSet: ThreatSymbolSet;
+  private threats: ThreatDetection[] = [];
+  private renderer = L.canvas({ padding: 0.5 });
+  private summaryPopup = L.popup({
+    closeButton: false,
+    autoPan: false,
+    offset: L.point(0, -12),
+  });
+  private onThreatClick?: (threat: ThreatDetection) => void;
+
+  constructor(options: ThreatLayerOptions = {}) {
+    super({
+      chunkedLoading: true,
+      showCoverageOnHover: false,
+      // Clicks zoom into a cluster, or fan it out when zooming cannot split it
+      zoomToBoundsOnClick: true,
+      spiderfyOnMaxZoom: true,
+      maxClusterRadius: 60,
+      iconCreateFunction: createClusterIcon,
+    });
+    this.canvasThreshold = options.canvasThreshold ?? CANVAS_THRESHOLD;
+    this.symbolSet = options.symbolSet ?? "simple";
+    this.onThreatClick = options.onThreatClick;
+
+    this.on("clustermouseover", (event) => {
+      const cluster = event.propagatedFrom as L.MarkerCluster;
+      this.summaryPopup
+        .setLatLng(cluster.getLatLng())
+        .setContent(clusterSummary(cluster));
+      this._map?.openPopup(this.summaryPopup);
+    });
+    this.on("clustermouseout clusterclick", () => {
+      this._map?.closePopup(this.summaryPopup);
+    });
+  }
+
+  setSymbolSet(symbolSet: ThreatSymbolSet): this {
+    if (symbolSet === this.symbolSet) return this;
+    this.symbolSet = symbolSet;
+    this.clearLayers();
+    this.entries.clear();
+    return this.setThreats(this.threats);
+  }
+
+  setThreats(threats: ThreatDetection[]): this {
+    this.threats = threats;
+    const canvasMode = threats.length > this.canvasThreshold;
+    if (canvasMode !== this.canvasMode) {
+      this.clearLayers();
+      this.entries.clear();
+      this.canvasMode = canvasMode;
+    }
+
+    const seen = new Set<number>();
+    const added: L.Layer[] = [];
+    const removed: L.Layer[] = [];
+
+    threats.forEach((threat) => {
+      seen.add(threat.id);
+      const key = threatKey(threat);
+      const entry = this.entries.get(threat.id);
+      if (entry?.key === key) {
+        layerThreats.set(entry.layer, threat);
+        return;
+      }
+
+      if (entry) removed.push(entry.layer);
+      const layer = this.createThreatLayer(threat);
+      this.entries.set(threat.id, { layer, key });
+      added.push(layer);
+    });
+
+    this.entries.forEach((entry, id) => {
+      if (!seen.has(id)) {
+        removed.push(entry.layer);
+        this.entries.delete(id);
+      }
+    });
+
+    if (removed.length > 0) this.removeLayers(removed);
+    if (added.length > 0) this.addLayers(added);
+    return this;
+  }
+
+  private createThreatLayer(threat: ThreatDetection): L.Layer {
+    const size = SEVERITY_SIZES[threat.severity];
+    const opacity = confidenceOpacity(threat.confidence);
+    let layer: L.Layer;
+
+    if (this.canvasMode) {
+      const outline = reviewOutline(reviewStatus(threat));
+      layer = L.circleMarker(threat.location_coords, {
+        renderer: this.renderer,
+        radius: size / 4,
+        color: outline.color,
+        weight: outline.width,
+        dashArray: outline.dash,
+        opacity,
+        fillColor: SEVERITY_COLORS[threat.severity],
+        fillOpacity: opacity,
+      });
+    } else {
+      layer = L.marker(threat.location_coords, {
+        icon: L.icon({
+          iconUrl: threatSymbolUrl(threatSymbol(threat, this.symbolSet)),
+          iconSize: [size, size],
+          iconAnchor: [size / 2, size / 2],
+          popupAnchor: [0, -size / 2],
+        }),
+        opacity,
+        // Severe threats on top of overlapping symbols
+        zIndexOffset: size * 10,
+      });
+    }
+
+    layerThreats.set(layer, threat);
+    layer.bindPopup(() => threatPopup(layerThreats.get(layer) ?? threat));
+    layer.on("click", () =>
+      this.onThreatClick?.(layerThreats.get(layer) ?? threat)
+    );
+    return layer;
+  }
+}
@@ -0,0 +1,191 @@
+// src/lib/threatStyle.ts
+//
+// Threat symbology shared by the map layers and the legend: a glyph per
+// threat type in one of two symbol sets, filled and sized by severity,
+// outlined by review status and faded by confidence.
+import type { ThreatDetection, ThreatSymbolSet } from "../types";
+
+export type ThreatSeverity = ThreatDetection["severity"];
+export type ThreatReviewStatus =
+  | "unreviewed"
+  | "verified"
+  | "acknowledged"
+  | "verifiedAcknowledged";
+
+export const SEVERITY_RANK: Record<ThreatSeverity, number> = {
+  low: 0,
+  medium: 1,
+  high: 2,
+  critical: 3,
+};
+
+export const SEVERITY_COLORS: Record<ThreatSeverity, string> = {
+  low: "#3b82f6",
+  medium: "#eab308",
+  high: "#f97316",
+  critical: "#dc2626",
+};
+
+// Symbol size in pixels
+export const SEVERITY_SIZES: Record<ThreatSeverity, number> = {
+  low: 22,
+  medium: 26,
+  high: 30,
+  critical: 36,
+};
+
+export const SEVERITIES = Object.keys(SEVERITY_RANK) as ThreatSeverity[];
+
+// Threat types with a dedicated glyph; anything else gets the unknown one
+export const THREAT_TYPE_LABELS: Record<string, string> = {
+  vehicle: "Vehicle",
+  aircraft: "Aircraft",
+  vessel: "Vessel",
+  structure: "Structure",
+  troops: "Troops",
+  unknown: "Other",
+};
+
+export const REVIEW_STATUS_LABELS: Record<ThreatReviewStatus, string> = {
+  unreviewed: "Unreviewed",
+  verified: "Verified",
+  acknowledged: "Acknowledged",
+  verifiedAcknowledged: "Verified & acknowledged",
+};
+
+const OUTLINES: Record<
+  ThreatReviewStatus,
+  { color: string; width: number; dash?: string }
+> = {
+  unreviewed: { color: "#111827", width: 1.5 },
+  verified: { color: "#22c55e", width: 3 },
+  acknowledged: { color: "#e5e7eb", width: 2.5, dash: "4 2" },
+  verifiedAcknowledged: { color: "#22c55e", width: 3, dash: "4 2" },
+};
+
+// Glyphs drawn in white on a 40x40 symbol
+const SIMPLE_GLYPHS: Record<string, string> = {
+  vehicle:
+    '<rect x="12" y="15" width="16" height="8" rx="2"/><circle cx="15.5" cy="25.5" r="2"/><circle cx="24.5" cy="25.5" r="2"/>',
+  aircraft:
+    '<path d="M20 10 L20 30 M11 20 L29 20 M15.5 28 L24.5 28 M16 15 L24 15"/>',
+  vessel:
+    '<path d="M11 23 L29 23 L26 28 L14 28 Z M20 11 L20 23 M20 12 L26 19 L20 19"/>',
+  structure:
+    '<path d="M12 28 L12 19 L20 12 L28 19 L28 28 Z M18 28 L18 23 L22 23 L22 28"/>',
+  troops:
+    '<circle cx="20" cy="13.5" r="3"/><path d="M20 16.5 L20 24 M14 19.5 L26 19.5 M20 24 L16 29.5 M20 24 L24 29.5"/>',
+};
+
+const MILITARY_GLYPHS: Record<string, string> = {
+  // Armour
+  vehicle: '<rect x="13" y="16" width="14" height="8" rx="4"/>',
+  // Fixed wing
+  aircraft: '<path d="M12 23 L20 18 L28 23 M20 15 L20 29 M17 28 L23 28"/>',
+  // Surface combatant
+  vessel: '<path d="M12 19 L28 19 L25.5 25 L14.5 25 Z M20 14 L20 19"/>',
+  structure: '<rect x="15" y="17" width="10" height="9"/>',
+  // Infantry
+  troops:
+    '<rect x="12" y="15" width="16" height="10"/><path d="M12 15 L28 25 M28 15 L12 25"/>',
+};
+
+const UNKNOWN_GLYPH =
+  '<text x="20" y="25.5" text-anchor="middle" font-family="sans-serif" font-size="15" font-weight="bold" fill="#ffffff" stroke="none">?</text>';
+
+const DIAMOND = "M20 2 L38 20 L20 38 L2 20 Z";
+// Hostile air frame: the upper half of the diamond, open at the bottom
+const AIR_FRAME = "M4 36 L4 20 L20 4 L36 20 L36 36";
+
+export const maxSeverity = (threats: ThreatDetection[]): ThreatSeverity =>
+  threats.reduce<ThreatSeverity>(
+    (max, threat) =>
+      SEVERITY_RANK[threat.severity] > SEVERITY_RANK[max]
+        ? threat.severity
+        : max,
+    "low"
+  );
+
+export const symbolType = (threatType: string): string =>
+  threatType in SIMPLE_GLYPHS ? threatType : "unknown";
+
+export const reviewStatus = ({
+  verified,
+  acknowledged,
+}: Pick<ThreatDetection, "verified" | "acknowledged">): ThreatReviewStatus =>
+  verified && acknowledged
+    ? "verifiedAcknowledged"
+    : verified
+    ? "verified"
+    : acknowledged
+    ? "acknowledged"
+    : "unreviewed";
+
+export const reviewOutline = (status: ThreatReviewStatus) => OUTLINES[status];
+
+// Low confidence detections fade out but stay visible
+export const confidenceOpacity = (confidence: number): number =>
+  0.35 + 0.65 * Math.min(1, Math.max(0, confidence));
+
+export interface ThreatSymbol {
+  threatType: string;
+  severity: ThreatSeverity;
+  status: ThreatReviewStatus;
+  set: ThreatSymbolSet;
+}
+
+export const threatSymbol = (
+  threat: ThreatDetection,
+  set: ThreatSymbolSet
+): ThreatSymbol => ({
+  threatType: symbolType(threat.threat_type),
+  severity: threat.severity,
+  status: reviewStatus(threat),
+  set,
+});
+
+export const threatSymbolSvg = ({
+  threatType,
+  severity,
+  status,
+  set,
+}: ThreatSymbol): string => {
+  const fill = SEVERITY_COLORS[severity];
+  const outline = OUTLINES[status];
+  const stroke = `stroke="${outline.color}" stroke-width="${outline.width}"${
+    outline.dash ? ` stroke-dasharray="${outline.dash}"` : ""
+  }`;
+  const type = symbolType(threatType);
+
+  let frame: string;
+  let glyph: string;
+  if (set === "military") {
+    const path = type === "aircraft" ? `${AIR_FRAME} Z` : DIAMOND;
+    frame = `<path d="${path}" fill="${fill}" ${stroke}/>`;
+    // Installation indicator above the frame
+    if (type === "structure") {
+      frame += `<rect x="15" y="0" width="10" height="4" fill="${outline.color}"/>`;
+    }
+    glyph = MILITARY_GLYPHS[type] ?? UNKNOWN_GLYPH;
+  } else {
+    frame = `<circle cx="20" cy="20" r="17" fill="${fill}" ${stroke}/>`;
+    glyph = SIMPLE_GLYPHS[type] ?? UNKNOWN_GLYPH;
+  }
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 40 40">${frame}<g fill="none" stroke="#ffffff" stroke-width="2" stroke-linejoin="round" stroke-linecap="round">${glyph}</g></svg>`;
+};
+
+const symbolUrls = new Map<string, string>();
+
+// Data URL of a symbol, cached since thousands of markers share a few symbols
+export const threatSymbolUrl = (symbol: ThreatSymbol): string => {
+  const key = `${symbol.set}:${symbol.threatType}:${symbol.severity}:${symbol.status}`;
+  let url = symbolUrls.get(key);
+  if (!url) {
+    url = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(
+      threatSymbolSvg(symbol)
+    )}`;
+    symbolUrls.set(key, url);
+  }
+  return url;
+};
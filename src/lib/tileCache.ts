@@ -0,0 +1,204 @@
+// src/lib/tileCache.ts
+//
+// Offline basemap packages: the tiles of an area and zoom range saved in
+// Cache Storage, one cache per package, and read back by the basemap layer
+// before going to the network.
+import L from "leaflet";
+import { fetchBasemapTile, type TileCoords } from "./basemaps";
+import { createId } from "./ids";
+import type { BasemapSource, OfflineTilePackage } from "../types";
+
+const CACHE_PREFIX = "c2-tiles:";
+const PACKAGES_KEY = "offlineTilePackages";
+
+// Guess used for size estimates until a package of the basemap is saved
+const DEFAULT_TILE_BYTES = 20 * 1024;
+export const MAX_PACKAGE_TILES = 50000;
+const DOWNLOAD_CONCURRENCY = 4;
+
+export const tileCacheSupported = () =>
+  typeof window !== "undefined" && "caches" in window;
+
+// Cache key independent of tile server subdomains and of the source id
+const tileCacheKey = (source: BasemapSource, { x, y, z }: TileCoords) =>
+  `${
+    window.location.origin
+  }/offline-tiles/${z}/${x}/${y}?source=${encodeURIComponent(source.url)}`;
+
+export const readCachedTile = async (
+  source: BasemapSource,
+  coords: TileCoords
+): Promise<Blob | null> => {
+  if (!tileCacheSupported()) return null;
+  const response = await caches.match(tileCacheKey(source, coords));
+  return response ? response.blob() : null;
+};
+
+export const loadTilePackages = (): OfflineTilePackage[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PACKAGES_KEY) ?? "[]");
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveTilePackages = (packages: OfflineTilePackage[]) => {
+  localStorage.setItem(PACKAGES_KEY, JSON.stringify(packages));
+};
+
+const tileRange = (
+  [[south, west], [north, east]]: OfflineTilePackage["bounds"],
+  z: number
+) => {
+  const northWest = L.CRS.EPSG3857.latLngToPoint(L.latLng(north, west), z);
+  const southEast = L.CRS.EPSG3857.latLngToPoint(L.latLng(south, east), z);
+  const last = 2 ** z - 1;
+  const clamp = (value: number) =>
+    Math.min(last, Math.max(0, Math.floor(value / 256)));
+  return {
+    minX: clamp(northWest.x),
+    maxX: clamp(southEast.x),
+    minY: clamp(northWest.y),
+    maxY: clamp(southEast.y),
+  };
+};
+
+export const countTiles = (
+  bounds: OfflineTilePackage["bounds"],
+  minZoom: number,
+  maxZoom: number
+) => {
+  let count = 0;
+  for (let z = minZoom; z <= maxZoom; z++) {
+    const { minX, maxX, minY, maxY } = tileRange(bounds, z);
+    count += (maxX - minX + 1) * (maxY - minY + 1);
+  }
+  return count;
+};
+
+function* tilesInBounds(
+  bounds: OfflineTilePackage["bounds"],
+  minZoom: number,
+  maxZoom: number
+): Generator<TileCoords> {
+  for (let z = minZoom; z <= maxZoom; z++) {
+    const { minX, maxX, minY, maxY } = tileRange(bounds, z);
+    for (let x = minX; x <= maxX; x++) {
+      for (let y = minY; y <= maxY; y++) yield { x, y, z };
+    }
+  }
+}
+
+// Bytes per tile seen in saved packages of the basemap
+export const averageTileBytes = (basemapId: string) => {
+  const saved = loadTilePackages().filter(
+    (item) =>
+      item.basemap_id === basemapId && item.tile_count > item.failed_count
+  );
+  const tiles = saved.reduce(
+    (sum, item) => sum + item.tile_count - item.failed_count,
+    0
+  );
+  const bytes = saved.reduce((sum, item) => sum + item.bytes, 0);
+  return tiles > 0 ? bytes / tiles : DEFAULT_TILE_BYTES;
+};
+
+export interface TileDownloadProgress {
+  done: number;
+  total: number;
+  bytes: number;
+  failed: number;
+}
+
+// Saves the tiles of a new package; null when aborted, with nothing kept
+export const downloadTilePackage = async (
+  request: Pick<
+    OfflineTilePackage,
+    "name" | "bounds" | "min_zoom" | "max_zoom"
+  >,
+  source: BasemapSource,
+  onProgress: (progress: TileDownloadProgress) => void,
+  signal: AbortSignal
+): Promise<OfflineTilePackage | null> => {
+  const total = countTiles(request.bounds, request.min_zoom, request.max_zoom);
+  if (total > MAX_PACKAGE_TILES) {
+    throw new Error(
+      `${total} tiles is over the ${MAX_PACKAGE_TILES} tile limit; lower the maximum zoom or pick a smaller area`
+    );
+  }
+
+  const id = createId();
+  const cache = await caches.open(CACHE_PREFIX + id);
+  const progress: TileDownloadProgress = {
+    done: 0,
+    total,
+    bytes: 0,
+    failed: 0,
+  };
+  const tiles = tilesInBounds(
+    request.bounds,
+    request.min_zoom,
+    request.max_zoom
+  );
+
+  const worker = async () => {
+    for (const coords of tiles) {
+      if (signal.aborted) return;
+      try {
+        const blob = await fetchBasemapTile(source, coords, signal);
+        if (blob) {
+          await cache.put(tileCacheKey(source, coords), new Response(blob));
+          progress.bytes += blob.size;
+        }
+      } catch {
+        if (signal.aborted) return;
+        progress.failed++;
+      }
+      progress.done++;
+      onProgress({ ...progress });
+    }
+  };
+  // The workers share one generator, so each tile is fetched once
+  await Promise.all(Array.from({ length: DOWNLOAD_CONCURRENCY }, worker));
+  if (signal.aborted) {
+    await caches.delete(CACHE_PREFIX + id);
+    return null;
+  }
+
+  const saved: OfflineTilePackage = {
+    ...request,
+    id,
+    basemap_id: source.id,
+    tile_count: progress.done,
+    failed_count: progress.failed,
+    bytes: progress.bytes,
+    created_at: new Date().toISOString(),
+  };
+  saveTilePackages([saved, ...loadTilePackages()]);
+  return saved;
+};
+
+export const deleteTilePackage = async (id: string) => {
+  if (tileCacheSupported()) await caches.delete(CACHE_PREFIX + id);
+  saveTilePackages(loadTilePackages().filter((item) => item.id !== id));
+};
+
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+  // Granted persistence, so the browser will not evict the tiles
+  persisted: boolean;
+}
+
+export const storageUsage = async (): Promise<StorageUsage | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const [{ usage = 0, quota = 0 }, persisted] = await Promise.all([
+    navigator.storage.estimate(),
+    navigator.storage.persisted?.() ?? Promise.resolve(false),
+  ]);
+  return { usage, quota, persisted };
+};
+
+export const requestPersistentStorage = async () =>
+  navigator.storage?.persist ? navigator.storage.persist() : false;
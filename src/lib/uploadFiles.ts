@@ -0,0 +1,53 @@
+// src/lib/uploadFiles.ts
+import { toast } from "react-hot-toast";
+
+// File objects and abort controllers cannot live in the Redux store, so the
+// upload queue keeps them here keyed by upload item id.
+
+const files = new Map<string, File>();
+const controllers = new Map<string, AbortController>();
+let counter = 0;
+
+export const registerUploadFile = (file: File): string => {
+  counter += 1;
+  const id = `${Date.now()}-${counter}`;
+  files.set(id, file);
+  return id;
+};
+
+export const getUploadFile = (id: string): File | undefined => files.get(id);
+
+export const releaseUploadFile = (id: string): void => {
+  files.delete(id);
+  controllers.delete(id);
+};
+
+export const createUploadController = (id: string): AbortController => {
+  const controller = new AbortController();
+  controllers.set(id, controller);
+  return controller;
+};
+
+export const abortUpload = (id: string): void => {
+  controllers.get(id)?.abort();
+  controllers.delete(id);
+};
+
+export const UPLOAD_FILE_EXTENSIONS = [".tif", ".tiff", ".geotiff"];
+
+export const isUploadableFile = (file: File): boolean =>
+  UPLOAD_FILE_EXTENSIONS.some((ext) => file.name.toLowerCase().endsWith(ext));
+
+// Keep only GeoTIFFs, telling the user about anything skipped
+export const filterUploadableFiles = (files: File[]): File[] => {
+  const accepted = files.filter(isUploadableFile);
+  const skipped = files.length - accepted.length;
+  if (skipped > 0) {
+    toast.error(
+      `Skipped ${skipped} file${
+        skipped > 1 ? "s" : ""
+      }: only GeoTIFF images can be uploaded`
+    );
+  }
+  return accepted;
+};
@@ -0,0 +1,278 @@
+// src/lib/vectorImport.ts
+//
+// Reading of external vector data into GeoJSON: GeoJSON itself, KML from
+// partner systems and GPX waypoints, routes and tracks. KML and GPX are
+// parsed with the browser's XML parser.
+import type {
+  Feature,
+  FeatureCollection,
+  Geometry,
+  GeoJsonProperties,
+  Position,
+} from "geojson";
+import type { VectorFormat } from "../types";
+
+export const VECTOR_FORMAT_LABELS: Record<VectorFormat, string> = {
+  geojson: "GeoJSON",
+  kml: "KML",
+  gpx: "GPX",
+};
+
+export const VECTOR_FILE_EXTENSIONS = ".geojson,.json,.kml,.gpx";
+
+const GEOMETRY_TYPES = new Set([
+  "Point",
+  "MultiPoint",
+  "LineString",
+  "MultiLineString",
+  "Polygon",
+  "MultiPolygon",
+  "GeometryCollection",
+]);
+
+// Format from the file extension, else from the content
+export const detectVectorFormat = (
+  name: string,
+  text: string
+): VectorFormat | null => {
+  const extension = name.toLowerCase().match(/\.(\w+)(?:\?|#|$)/)?.[1];
+  if (extension === "kml") return "kml";
+  if (extension === "gpx") return "gpx";
+  if (extension === "geojson" || extension === "json") return "geojson";
+  const start = text.trimStart();
+  if (start.startsWith("{")) return "geojson";
+  if (/<kml[\s>]/.test(start)) return "kml";
+  if (/<gpx[\s>]/.test(start)) return "gpx";
+  return null;
+};
+
+const isGeometry = (value: unknown): value is Geometry =>
+  !!value &&
+  typeof value === "object" &&
+  GEOMETRY_TYPES.has((value as { type?: string }).type ?? "");
+
+// Features as read, before those without a location are dropped
+type ParsedFeature = Feature<Geometry | null>;
+
+const feature = (
+  geometry: Geometry | null,
+  properties: GeoJsonProperties
+): ParsedFeature => ({ type: "Feature", geometry, properties });
+
+const parseGeoJSON = (text: string): ParsedFeature[] => {
+  const data = JSON.parse(text);
+  switch (data?.type) {
+    case "FeatureCollection":
+      if (!Array.isArray(data.features)) break;
+      return (data.features as ParsedFeature[]).filter(
+        (item) => item?.type === "Feature"
+      );
+    case "Feature":
+      return [data as Feature];
+    default:
+      if (isGeometry(data)) return [feature(data, {})];
+  }
+  throw new Error("not a GeoJSON feature collection, feature or geometry");
+};
+
+const parseXml = (text: string): Document => {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) {
+    throw new Error("malformed XML");
+  }
+  return doc;
+};
+
+// Elements by local name, whatever namespace prefix the file uses
+const elements = (parent: Element | Document, name: string): Element[] =>
+  Array.from(parent.getElementsByTagNameNS("*", name));
+
+const children = (parent: Element, name: string): Element[] =>
+  Array.from(parent.children).filter((child) => child.localName === name);
+
+const childText = (parent: Element, name: string): string | undefined =>
+  children(parent, name)[0]?.textContent?.trim() || undefined;
+
+// KML coordinates are "lng,lat[,alt]" tuples separated by whitespace
+const kmlPositions = (element: Element | undefined): Position[] =>
+  (element?.textContent ?? "")
+    .trim()
+    .split(/\s+/)
+    .map((tuple) => tuple.split(",").map(Number))
+    .filter(
+      (position) =>
+        position.length >= 2 && !Number.isNaN(position[0] + position[1])
+    )
+    .map(([lng, lat]) => [lng, lat]);
+
+const kmlRing = (boundary: Element | undefined): Position[] =>
+  boundary ? kmlPositions(elements(boundary, "coordinates")[0]) : [];
+
+const kmlGeometry = (element: Element): Geometry | null => {
+  const coordinates = () => kmlPositions(children(element, "coordinates")[0]);
+  switch (element.localName) {
+    case "Point": {
+      const [position] = coordinates();
+      return position ? { type: "Point", coordinates: position } : null;
+    }
+    case "LineString":
+      return { type: "LineString", coordinates: coordinates() };
+    case "LinearRing":
+      return { type: "Polygon", coordinates: [coordinates()] };
+    case "Polygon":
+      return {
+        type: "Polygon",
+        coordinates: [
+          kmlRing(children(element, "outerBoundaryIs")[0]),
+          ...children(element, "innerBoundaryIs").map(kmlRing),
+        ],
+      };
+    case "MultiGeometry": {
+      const geometries = Array.from(element.children)
+        .map(kmlGeometry)
+        .filter((geometry): geometry is Geometry => !!geometry);
+      return { type: "GeometryCollection", geometries };
+    }
+    default:
+      return null;
+  }
+};
+
+const kmlProperties = (placemark: Element): GeoJsonProperties => {
+  const properties: Record<string, string> = {};
+  const name = childText(placemark, "name");
+  const description = childText(placemark, "description");
+  if (name) properties.name = name;
+  if (description) properties.description = description;
+  elements(placemark, "Data").forEach((data) => {
+    const key = data.getAttribute("name");
+    if (key) properties[key] = childText(data, "value") ?? "";
+  });
+  elements(placemark, "SimpleData").forEach((data) => {
+    const key = data.getAttribute("name");
+    if (key) properties[key] = data.textContent?.trim() ?? "";
+  });
+  return properties;
+};
+
+const parseKml = (text: string): ParsedFeature[] =>
+  elements(parseXml(text), "Placemark").map((placemark) => {
+    const geometry =
+      Array.from(placemark.children)
+        .map(kmlGeometry)
+        .find((item) => item !== null) ?? null;
+    return feature(geometry, kmlProperties(placemark));
+  });
+
+const gpxPosition = (point: Element): Position => [
+  Number(point.getAttribute("lon")),
+  Number(point.getAttribute("lat")),
+];
+
+const gpxProperties = (element: Element): GeoJsonProperties => {
+  const properties: Record<string, string | number> = {};
+  ["name", "desc", "cmt", "type", "sym", "time"].forEach((key) => {
+    const value = childText(element, key);
+    if (value) properties[key] = value;
+  });
+  const elevation = childText(element, "ele");
+  if (elevation) properties.ele = Number(elevation);
+  return properties;
+};
+
+const parseGpx = (text: string): ParsedFeature[] => {
+  const doc = parseXml(text);
+  const waypoints = elements(doc, "wpt").map((point) =>
+    feature(
+      { type: "Point", coordinates: gpxPosition(point) },
+      gpxProperties(point)
+    )
+  );
+  const routes = elements(doc, "rte").map((route) =>
+    feature(
+      {
+        type: "LineString",
+        coordinates: children(route, "rtept").map(gpxPosition),
+      },
+      gpxProperties(route)
+    )
+  );
+  const tracks = elements(doc, "trk").map((track) => {
+    const segments = children(track, "trkseg").map((segment) =>
+      children(segment, "trkpt").map(gpxPosition)
+    );
+    return feature(
+      segments.length === 1
+        ? { type: "LineString", coordinates: segments[0] }
+        : { type: "MultiLineString", coordinates: segments },
+      gpxProperties(track)
+    );
+  });
+  return [...waypoints, ...routes, ...tracks];
+};
+
+const PARSERS: Record<VectorFormat, (text: string) => ParsedFeature[]> = {
+  geojson: parseGeoJSON,
+  kml: parseKml,
+  gpx: parseGpx,
+};
+
+// Throws with a readable reason when the data cannot be used
+export const parseVectorData = (
+  text: string,
+  format: VectorFormat
+): FeatureCollection => {
+  let features: ParsedFeature[];
+  try {
+    features = PARSERS[format](text);
+  } catch (error) {
+    throw new Error(
+      `Invalid ${VECTOR_FORMAT_LABELS[format]}: ${
+        error instanceof Error ? error.message : "could not be read"
+      }`
+    );
+  }
+  const located = features.filter(
+    (item): item is Feature => item.geometry !== null
+  );
+  if (located.length === 0) {
+    throw new Error(`No features found in the ${VECTOR_FORMAT_LABELS[format]}`);
+  }
+  return { type: "FeatureCollection", features: located };
+};
+
+// [[south, west], [north, east]] of every position in the collection
+export const vectorBounds = (
+  data: FeatureCollection
+): [[number, number], [number, number]] | null => {
+  let south = Infinity;
+  let west = Infinity;
+  let north = -Infinity;
+  let east = -Infinity;
+  const visit = (value: unknown) => {
+    if (!Array.isArray(value)) return;
+    if (typeof value[0] === "number" && typeof value[1] === "number") {
+      west = Math.min(west, value[0]);
+      east = Math.max(east, value[0]);
+      south = Math.min(south, value[1]);
+      north = Math.max(north, value[1]);
+      return;
+    }
+    value.forEach(visit);
+  };
+  const visitGeometry = (geometry: Geometry | null) => {
+    if (!geometry) return;
+    if (geometry.type === "GeometryCollection") {
+      geometry.geometries.forEach(visitGeometry);
+    } else {
+      visit(geometry.coordinates);
+    }
+  };
+  data.features.forEach((item) => visitGeometry(item.geometry));
+  return south <= north
+    ? [
+        [south, west],
+        [north, east],
+      ]
+    : null;
+};
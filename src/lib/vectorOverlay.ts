@@ -0,0 +1,97 @@
+// src/lib/vectorOverlay.ts
+//
+// Leaflet layer drawing the imported vector overlays in layer panel order,
+// with attribute popups. Layers are rebuilt only when their data changes;
+// style changes are applied in place.
+import L from "leaflet";
+import { createElement } from "./dom";
+import type { FeatureCollection, GeoJsonProperties } from "geojson";
+import type { VectorLayer, VectorLayerStyle } from "../types";
+
+export const DEFAULT_VECTOR_STYLE: VectorLayerStyle = {
+  color: "#22d3ee",
+  weight: 2,
+  opacity: 0.9,
+  fill_opacity: 0.2,
+  point_radius: 6,
+};
+
+const pathStyle = (style: VectorLayerStyle): L.CircleMarkerOptions => ({
+  color: style.color,
+  weight: style.weight,
+  opacity: style.opacity,
+  fillColor: style.color,
+  fillOpacity: style.fill_opacity,
+  radius: style.point_radius,
+});
+
+const formatValue = (value: unknown) =>
+  value !== null && typeof value === "object"
+    ? JSON.stringify(value)
+    : String(value ?? "");
+
+const featurePopup = (
+  layerName: string,
+  properties: GeoJsonProperties
+): HTMLElement => {
+  const content = createElement("div", "text-xs max-h-60 overflow-y-auto");
+  const name = properties?.name ?? properties?.Name;
+  content.append(
+    createElement("div", "font-bold text-sm", name ? String(name) : layerName),
+    createElement("div", "text-gray-500 mb-1", layerName)
+  );
+  const table = createElement("table", "");
+  Object.entries(properties ?? {}).forEach(([key, value]) => {
+    const row = createElement("tr", "");
+    row.append(
+      createElement("td", "pr-3 text-gray-500 align-top", key),
+      createElement("td", "break-all", formatValue(value))
+    );
+    table.append(row);
+  });
+  content.append(table);
+  return content;
+};
+
+const createGeoJSON = (layer: VectorLayer): L.GeoJSON =>
+  L.geoJSON(layer.data, {
+    style: () => pathStyle(layer.style),
+    pointToLayer: (_, latlng) => L.circleMarker(latlng, pathStyle(layer.style)),
+    onEachFeature: (feature, featureLayer) =>
+      featureLayer.bindPopup(() =>
+        featurePopup(layer.name, feature.properties)
+      ),
+  });
+
+export class VectorOverlayGroup extends L.LayerGroup {
+  private entries = new Map<
+    string,
+    { data: FeatureCollection; layer: L.GeoJSON }
+  >();
+
+  // Layers listed top first, as in the layers panel
+  setLayers(layers: VectorLayer[]) {
+    const ids = new Set(layers.map((layer) => layer.id));
+    this.entries.forEach((entry, id) => {
+      if (ids.has(id)) return;
+      this.removeLayer(entry.layer);
+      this.entries.delete(id);
+    });
+
+    [...layers].reverse().forEach((layer) => {
+      let entry = this.entries.get(layer.id);
+      if (entry && entry.data !== layer.data) {
+        this.removeLayer(entry.layer);
+        entry = undefined;
+      }
+      if (!entry) {
+        entry = { data: layer.data, layer: createGeoJSON(layer) };
+        this.entries.set(layer.id, entry);
+        this.addLayer(entry.layer);
+      }
+      entry.layer.setStyle(pathStyle(layer.style));
+      // Stacking follows the order layers are brought forward in
+      entry.layer.bringToFront();
+    });
+  }
+}
@@ -1,5 +1,10 @@
 import React, { useState, useEffect } from "react";
-import { useNavigate, Link } from "react-router-dom";
+import {
+  useNavigate,
+  Link,
+  useLocation,
+  type Location,
+} from "react-router-dom";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
@@ -23,6 +28,7 @@ type LoginFormData = z.infer<typeof loginSchema>;
 
 const LoginPage: React.FC = () => {
   const navigate = useNavigate();
+  const location = useLocation();
   const dispatch = useAppDispatch();
   const { isLoading, error, isAuthenticated } = useAppSelector(
     (state) => state.auth
@@ -38,12 +44,18 @@ const LoginPage: React.FC = () => {
     resolver: zodResolver(loginSchema),
   });
 
+  // Back to the page ProtectedRoute sent us here from, e.g. a shared link
+  const from = (location.state as { from?: Location } | null)?.from;
+  const redirectTo = from
+    ? `${from.pathname}${from.search}${from.hash}`
+    : "/dashboard";
+
   // Redirect if already authenticated
   useEffect(() => {
     if (isAuthenticated) {
-      navigate("/dashboard");
+      navigate(redirectTo, { replace: true });
     }
-  }, [isAuthenticated, navigate]);
+  }, [isAuthenticated, navigate, redirectTo]);
 
   // Clear errors on unmount
   useEffect(() => {
@@ -55,7 +67,7 @@ const LoginPage: React.FC = () => {
   const onSubmit = async (data: LoginFormData) => {
     const result = await dispatch(login(data));
     if (login.fulfilled.match(result)) {
-      navigate("/dashboard");
+      navigate(redirectTo, { replace: true });
     }
   };
 
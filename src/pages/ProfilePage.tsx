@@ -16,11 +16,8 @@ import {
   CheckSquare,
 } from "lucide-react";
 import { useAppSelector } from "../store";
-import {
-  userStatsApi,
-  type UserStats,
-  type RecentActivity,
-} from "../services/userStatsApi";
+import { apiClient } from "../lib/api";
+import type { UserStats, RecentActivity } from "../types";
 import { toast } from "react-hot-toast";
 
 const ProfilePage: React.FC = () => {
@@ -36,7 +33,7 @@ const ProfilePage: React.FC = () => {
 
       try {
         setIsLoadingStats(true);
-        const statsData = await userStatsApi.getUserStats();
+        const statsData = await apiClient.getUserStats();
         setStats(statsData);
       } catch (error) {
         console.error("Error fetching stats:", error);
@@ -47,7 +44,7 @@ const ProfilePage: React.FC = () => {
 
       try {
         setIsLoadingActivity(true);
-        const activityData = await userStatsApi.getRecentActivity(3);
+        const activityData = await apiClient.getRecentActivity(3);
         setRecentActivity(activityData);
       } catch (error) {
         console.error("Error fetching activity:", error);
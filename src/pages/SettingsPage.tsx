@@ -15,12 +15,14 @@ import {
   RefreshCw,
 } from "lucide-react";
 import { toast } from "react-hot-toast";
-import { useAppSelector } from "../store";
+import { useAppDispatch, useAppSelector } from "../store";
+import { alertsToggled } from "../store/slices/alertSlice";
 import LogoutButton from "../components/LogoutButton";
-import { userStatsApi } from "../services/userStatsApi";
+import { apiClient } from "../lib/api";
 
 const SettingsPage: React.FC = () => {
   const { user } = useAppSelector((state) => state.auth);
+  const dispatch = useAppDispatch();
 
   // Loading states
   const [isLoadingPreferences, setIsLoadingPreferences] = useState(true);
@@ -44,7 +46,7 @@ const SettingsPage: React.FC = () => {
     const fetchPreferences = async () => {
       try {
         setIsLoadingPreferences(true);
-        const preferences = await userStatsApi.getUserPreferences();
+        const preferences = await apiClient.getUserPreferences();
 
         // Update notification settings
         setEmailNotifications(preferences.notifications.email_notifications);
@@ -72,7 +74,7 @@ const SettingsPage: React.FC = () => {
   const handleSaveNotifications = async () => {
     try {
       setIsSavingNotifications(true);
-      await userStatsApi.updateUserPreferences({
+      await apiClient.updateUserPreferences({
         notifications: {
           email_notifications: emailNotifications,
           push_notifications: pushNotifications,
@@ -80,6 +82,7 @@ const SettingsPage: React.FC = () => {
           weekly_reports: weeklyReports,
         },
       });
+      dispatch(alertsToggled(threatAlerts));
       toast.success("Notification preferences saved");
     } catch (error) {
       console.error("Error saving notifications:", error);
@@ -92,7 +95,7 @@ const SettingsPage: React.FC = () => {
   const handleSaveAppearance = async () => {
     try {
       setIsSavingAppearance(true);
-      await userStatsApi.updateUserPreferences({
+      await apiClient.updateUserPreferences({
         theme,
         language,
         timezone,
@@ -240,7 +243,7 @@ const SettingsPage: React.FC = () => {
                     Critical Threat Alerts
                   </p>
                   <p className="text-xs text-gray-400">
-                    Instant alerts for critical threats
+                    Run your dashboard alert rules on new detections
                   </p>
                 </div>
                 <button
@@ -0,0 +1,539 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { Link, useLocation, useParams } from "react-router-dom";
+import {
+  ArrowLeft,
+  CheckCircle,
+  Clock,
+  Eye,
+  FileText,
+  Link2,
+  Map as MapIcon,
+  Radar,
+  RefreshCw,
+  ShieldAlert,
+  Wrench,
+} from "lucide-react";
+import toast from "react-hot-toast";
+import { useAppDispatch, useAppSelector } from "../store";
+import {
+  acknowledgeThreat,
+  fetchThreat,
+  verifyThreat,
+} from "../store/slices/threatSlice";
+import { queueOfflineWrite } from "../store/slices/offlineSlice";
+import { apiClient, isNetworkError } from "../lib/api";
+import { SEVERITY_COLORS, THREAT_TYPE_LABELS } from "../lib/threatStyle";
+import {
+  CORRECTION_LABELS,
+  FALSE_POSITIVE_REASONS,
+} from "../lib/threatCorrections";
+import UserMenu from "../components/UserMenu";
+import ThreatImageChip from "../components/ThreatImageChip";
+import ThreatNotesThread from "../components/ThreatNotesThread";
+import ThreatCorrectionPanel from "../components/ThreatCorrectionPanel";
+import type {
+  AnalysisResult,
+  SatelliteImage,
+  ThreatComment,
+  ThreatCorrection,
+  ThreatDetection,
+} from "../types";
+
+// Widths of the image chip, in meters
+const CHIP_SIZES = [250, 500, 1000, 2000];
+
+interface TimelineEntry {
+  key: string;
+  label: string;
+  detail?: string;
+  at: string | null;
+  by?: string | null;
+  icon: React.ReactNode;
+}
+
+const correctionDetail = (correction: ThreatCorrection): string => {
+  const { corrected } = correction;
+  const parts: string[] = [];
+  if (correction.reason) parts.push(FALSE_POSITIVE_REASONS[correction.reason]);
+  if (corrected.threat_type) {
+    parts.push(
+      `type ${
+        THREAT_TYPE_LABELS[corrected.threat_type] ?? corrected.threat_type
+      }`
+    );
+  }
+  if (corrected.severity) parts.push(`severity ${corrected.severity}`);
+  if (corrected.location_coords) {
+    parts.push(
+      `to ${corrected.location_coords
+        .map((value) => value.toFixed(5))
+        .join(", ")}`
+    );
+  }
+  if (correction.comment) parts.push(`"${correction.comment}"`);
+  return parts.join(" · ");
+};
+
+// State changes in order; reviews without a reported time go last
+const threatTimeline = (
+  threat: ThreatDetection,
+  analysis: AnalysisResult | null,
+  corrections: ThreatCorrection[]
+): TimelineEntry[] => {
+  const entries: TimelineEntry[] = corrections.map((correction) => ({
+    key: `correction-${correction.id}`,
+    label: CORRECTION_LABELS[correction.kind],
+    detail: correctionDetail(correction),
+    at: correction.created_at,
+    by: correction.author_username,
+    icon: <Wrench className="w-4 h-4 text-orange-500" />,
+  }));
+  if (analysis) {
+    entries.push({
+      key: "analysis",
+      label: `${analysis.analysis_type_display || "Analysis"} started`,
+      at: analysis.started_at ?? analysis.created_at,
+      by: analysis.initiated_by_username,
+      icon: <Radar className="w-4 h-4 text-purple-500" />,
+    });
+  }
+  entries.push({
+    key: "detected",
+    label: "Detected",
+    at: threat.detected_at,
+    icon: <ShieldAlert className="w-4 h-4 text-red-500" />,
+  });
+  if (threat.verified) {
+    entries.push({
+      key: "verified",
+      label: "Verified",
+      at: threat.verified_at ?? null,
+      by: threat.verified_by_username,
+      icon: <CheckCircle className="w-4 h-4 text-green-500" />,
+    });
+  }
+  if (threat.acknowledged) {
+    entries.push({
+      key: "acknowledged",
+      label: "Acknowledged",
+      at: threat.acknowledged_at ?? null,
+      by: threat.acknowledged_by_username,
+      icon: <Eye className="w-4 h-4 text-blue-500" />,
+    });
+  }
+  return entries.sort((a, b) =>
+    a.at && b.at ? Date.parse(a.at) - Date.parse(b.at) : a.at ? -1 : 1
+  );
+};
+
+const ThreatDetailPage = () => {
+  const { id } = useParams<{ id: string }>();
+  const threatId = Number(id);
+  const { hash } = useLocation();
+  const dispatch = useAppDispatch();
+  const { currentThreat, error } = useAppSelector((state) => state.threat);
+  const storedImages = useAppSelector((state) => state.satellite.images);
+  const pendingNotes = useAppSelector(
+    (state) =>
+      state.offline.writes.filter(
+        (write) =>
+          write.kind === "comment" &&
+          write.threat_id === threatId &&
+          write.conflict === null
+      ).length
+  );
+  const threat = currentThreat?.id === threatId ? currentThreat : null;
+
+  const [fetchedAnalysis, setFetchedAnalysis] = useState<AnalysisResult | null>(
+    null
+  );
+  const [fetchedImage, setFetchedImage] = useState<SatelliteImage | null>(null);
+  const [comments, setComments] = useState<ThreatComment[]>([]);
+  const [corrections, setCorrections] = useState<ThreatCorrection[]>([]);
+  const [chipSize, setChipSize] = useState(500);
+  const [reviewing, setReviewing] = useState(false);
+
+  const highlightedId = hash.startsWith("#comment-")
+    ? Number(hash.slice("#comment-".length))
+    : null;
+
+  useEffect(() => {
+    if (Number.isInteger(threatId)) dispatch(fetchThreat(threatId));
+  }, [dispatch, threatId]);
+
+  useEffect(() => {
+    if (!Number.isInteger(threatId)) return;
+    apiClient
+      .getThreatComments(threatId)
+      .then(setComments)
+      .catch((error) => {
+        console.error("Error fetching notes:", error);
+        toast.error("Failed to load notes");
+      });
+    // Reloaded as queued notes are synced
+  }, [threatId, pendingNotes]);
+
+  const loadCorrections = useCallback(() => {
+    if (!Number.isInteger(threatId)) return;
+    apiClient
+      .getThreatCorrections(threatId)
+      .then(setCorrections)
+      .catch((error) => console.error("Error fetching corrections:", error));
+  }, [threatId]);
+
+  useEffect(loadCorrections, [loadCorrections]);
+
+  const analysisId = threat?.analysis;
+  const imageId = threat?.satellite_image;
+
+  useEffect(() => {
+    if (analysisId === undefined) return;
+    apiClient
+      .getAnalysis(analysisId)
+      .then(setFetchedAnalysis)
+      .catch((error) => console.error("Error fetching analysis:", error));
+  }, [analysisId]);
+  const analysis = fetchedAnalysis?.id === analysisId ? fetchedAnalysis : null;
+
+  // The image may already be loaded by the dashboard
+  const storedImage = storedImages.find((image) => image.id === imageId);
+  useEffect(() => {
+    if (imageId === undefined || storedImage) return;
+    apiClient
+      .getSatelliteImage(imageId)
+      .then(setFetchedImage)
+      .catch((error) => console.error("Error fetching image:", error));
+  }, [imageId, storedImage]);
+  const image =
+    storedImage ??
+    (fetchedImage && fetchedImage.id === imageId ? fetchedImage : undefined);
+
+  // Scroll to a linked comment once the thread has loaded
+  useEffect(() => {
+    if (highlightedId === null || comments.length === 0) return;
+    document
+      .getElementById(`comment-${highlightedId}`)
+      ?.scrollIntoView({ behavior: "smooth", block: "center" });
+  }, [highlightedId, comments.length]);
+
+  const timeline = useMemo(
+    () => (threat ? threatTimeline(threat, analysis, corrections) : []),
+    [threat, analysis, corrections]
+  );
+
+  const handleReview = async (action: "verify" | "acknowledge") => {
+    if (!threat) return;
+    setReviewing(true);
+    try {
+      if (action === "verify") {
+        await dispatch(verifyThreat(threat.id)).unwrap();
+        toast.success("Threat verified");
+      } else {
+        await dispatch(acknowledgeThreat({ id: threat.id })).unwrap();
+        toast.success("Threat acknowledged");
+      }
+    } catch (error) {
+      toast.error(error as string);
+    } finally {
+      setReviewing(false);
+    }
+  };
+
+  const handleComment = async (body: string, parent: number | null) => {
+    try {
+      const comment = await apiClient.addThreatComment(threatId, body, parent);
+      setComments((current) => [...current, comment]);
+    } catch (error) {
+      if (isNetworkError(error)) {
+        const queued = await dispatch(
+          queueOfflineWrite({
+            kind: "comment",
+            threat_id: threatId,
+            body,
+            parent,
+          })
+        );
+        if (queueOfflineWrite.fulfilled.match(queued)) {
+          toast.success(
+            "Note saved offline, it will be posted when back online"
+          );
+          return;
+        }
+      }
+      console.error("Error adding note:", error);
+      toast.error("Failed to post note");
+      throw error;
+    }
+  };
+
+  const copyLink = () => {
+    navigator.clipboard
+      .writeText(`${window.location.origin}/threats/${threatId}`)
+      .then(() => toast.success("Link copied"))
+      .catch(() => toast.error("Could not copy the link"));
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-950">
+      {/* Header */}
+      <nav className="bg-gray-900 border-b border-gray-800 px-6 py-4">
+        <div className="max-w-7xl mx-auto flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Link
+              to="/threats"
+              className="p-2 text-gray-400 hover:text-white hover:bg-gray-800 rounded-lg transition-colors"
+              title="Back to triage"
+            >
+              <ArrowLeft className="w-5 h-5" />
+            </Link>
+            <div className="flex items-center gap-3">
+              <div
+                className="w-10 h-10 rounded-lg flex items-center justify-center"
+                style={{
+                  background: threat
+                    ? SEVERITY_COLORS[threat.severity]
+                    : "#374151",
+                }}
+              >
+                <ShieldAlert className="w-6 h-6 text-white" />
+              </div>
+              <div>
+                <h1 className="text-xl font-bold text-white">
+                  {threat
+                    ? `${threat.threat_type_display || threat.threat_type} #${
+                        threat.id
+                      }`
+                    : `Threat #${id}`}
+                </h1>
+                <p className="text-xs text-gray-400">
+                  {threat
+                    ? `${threat.severity_display || threat.severity} · ${
+                        threat.image_name
+                      }`
+                    : "Threat detail"}
+                </p>
+              </div>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <button
+              onClick={copyLink}
+              className="flex items-center gap-2 px-3 py-2 text-gray-300 hover:text-white hover:bg-gray-800 rounded-lg transition-colors"
+              title="Copy link to this threat"
+            >
+              <Link2 className="w-5 h-5" />
+              <span className="hidden sm:inline">Copy link</span>
+            </button>
+            <Link
+              to={`/dashboard?threat=${threatId}`}
+              className="flex items-center gap-2 px-4 py-2 bg-red-600 hover:bg-red-700 text-white font-medium rounded-lg transition-colors"
+            >
+              <MapIcon className="w-5 h-5" />
+              <span className="hidden sm:inline">Open on map</span>
+            </Link>
+            <div className="border-l border-gray-800 pl-4">
+              <UserMenu />
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      <div className="max-w-7xl mx-auto px-6 py-8">
+        {!threat ? (
+          <div className="flex flex-col items-center justify-center py-24 text-gray-400 gap-4">
+            {error ? (
+              <>
+                <p>
+                  Could not load threat #{id}: {error}
+                </p>
+                <Link to="/threats" className="text-red-500 hover:underline">
+                  Back to triage
+                </Link>
+              </>
+            ) : (
+              <RefreshCw className="w-10 h-10 text-red-600 animate-spin" />
+            )}
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            {/* Left column: image and detection */}
+            <div className="space-y-6">
+              <div className="bg-gray-900 border border-gray-800 rounded-2xl p-6 space-y-4">
+                <ThreatImageChip
+                  image={image}
+                  point={threat.location_coords}
+                  size={chipSize}
+                />
+                <div className="flex gap-1">
+                  {CHIP_SIZES.map((size) => (
+                    <button
+                      key={size}
+                      onClick={() => setChipSize(size)}
+                      className={`flex-1 py-1 rounded text-xs transition-colors ${
+                        chipSize === size
+                          ? "bg-red-600 text-white"
+                          : "bg-gray-800 text-gray-300 hover:bg-gray-700"
+                      }`}
+                    >
+                      {size >= 1000 ? `${size / 1000} km` : `${size} m`}
+                    </button>
+                  ))}
+                </div>
+
+                <dl className="grid grid-cols-3 gap-y-2 text-sm">
+                  <dt className="text-gray-400">Confidence</dt>
+                  <dd className="col-span-2 text-white">
+                    {Math.round(threat.confidence * 100)}%
+                  </dd>
+                  <dt className="text-gray-400">Location</dt>
+                  <dd className="col-span-2 text-white">
+                    {threat.location_coords[0].toFixed(5)},{" "}
+                    {threat.location_coords[1].toFixed(5)}
+                  </dd>
+                  <dt className="text-gray-400">Image</dt>
+                  <dd className="col-span-2 text-white truncate">
+                    {threat.image_name}
+                  </dd>
+                </dl>
+                {threat.description && (
+                  <p className="text-sm text-gray-300">{threat.description}</p>
+                )}
+
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => handleReview("verify")}
+                    disabled={reviewing || threat.verified}
+                    className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white text-sm font-medium rounded-lg transition-colors"
+                  >
+                    <CheckCircle className="w-4 h-4" />
+                    {threat.verified ? "Verified" : "Verify"}
+                  </button>
+                  <button
+                    onClick={() => handleReview("acknowledge")}
+                    disabled={reviewing || threat.acknowledged}
+                    className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white text-sm font-medium rounded-lg transition-colors"
+                  >
+                    <Eye className="w-4 h-4" />
+                    {threat.acknowledged ? "Acknowledged" : "Acknowledge"}
+                  </button>
+                </div>
+
+                <ThreatCorrectionPanel
+                  key={threat.id}
+                  threat={threat}
+                  onCorrected={loadCorrections}
+                />
+              </div>
+
+              {/* Originating analysis */}
+              <div className="bg-gray-900 border border-gray-800 rounded-2xl p-6 space-y-3">
+                <div className="flex items-center gap-2">
+                  <FileText className="w-5 h-5 text-purple-500" />
+                  <h2 className="text-lg font-bold text-white">Analysis</h2>
+                </div>
+                {analysis ? (
+                  <>
+                    <dl className="grid grid-cols-3 gap-y-2 text-sm">
+                      <dt className="text-gray-400">Type</dt>
+                      <dd className="col-span-2 text-white">
+                        {analysis.analysis_type_display ||
+                          analysis.analysis_type}
+                      </dd>
+                      <dt className="text-gray-400">Status</dt>
+                      <dd className="col-span-2 text-white">
+                        {analysis.status_display || analysis.status}
+                      </dd>
+                      <dt className="text-gray-400">Confidence</dt>
+                      <dd className="col-span-2 text-white">
+                        {analysis.confidence_score !== null
+                          ? `${Math.round(analysis.confidence_score * 100)}%`
+                          : "—"}
+                      </dd>
+                      <dt className="text-gray-400">Detections</dt>
+                      <dd className="col-span-2 text-white">
+                        {analysis.threat_count}
+                      </dd>
+                      {analysis.completed_at && (
+                        <>
+                          <dt className="text-gray-400">Completed</dt>
+                          <dd className="col-span-2 text-white">
+                            {new Date(analysis.completed_at).toLocaleString()}
+                          </dd>
+                        </>
+                      )}
+                    </dl>
+                    {analysis.summary && (
+                      <p className="text-sm text-gray-300">
+                        {analysis.summary}
+                      </p>
+                    )}
+                  </>
+                ) : (
+                  <p className="text-sm text-gray-500">
+                    Analysis #{threat.analysis}
+                  </p>
+                )}
+              </div>
+            </div>
+
+            {/* Right columns: history and notes */}
+            <div className="lg:col-span-2 space-y-6">
+              <div className="bg-gray-900 border border-gray-800 rounded-2xl p-6">
+                <div className="flex items-center gap-2 mb-4">
+                  <Clock className="w-5 h-5 text-yellow-500" />
+                  <h2 className="text-lg font-bold text-white">History</h2>
+                </div>
+                <ol className="relative border-l border-gray-700 ml-2 space-y-4">
+                  {timeline.map((entry) => (
+                    <li key={entry.key} className="ml-6">
+                      <span className="absolute -left-3 flex items-center justify-center w-6 h-6 bg-gray-900 border border-gray-700 rounded-full">
+                        {entry.icon}
+                      </span>
+                      <div className="text-sm font-medium text-white">
+                        {entry.label}
+                        {entry.by && (
+                          <span className="text-gray-400 font-normal">
+                            {" "}
+                            by {entry.by}
+                          </span>
+                        )}
+                      </div>
+                      {entry.detail && (
+                        <div className="text-xs text-gray-300">
+                          {entry.detail}
+                        </div>
+                      )}
+                      <div className="text-xs text-gray-500">
+                        {entry.at
+                          ? new Date(entry.at).toLocaleString()
+                          : "Time not recorded"}
+                      </div>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+
+              <div className="bg-gray-900 border border-gray-800 rounded-2xl p-6">
+                {pendingNotes > 0 && (
+                  <div className="mb-3 text-xs text-amber-400">
+                    {pendingNotes} note{pendingNotes === 1 ? "" : "s"} waiting
+                    to sync
+                  </div>
+                )}
+                <ThreatNotesThread
+                  comments={comments}
+                  legacyNote={threat.notes}
+                  onSubmit={handleComment}
+                  highlightedId={highlightedId}
+                />
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ThreatDetailPage;
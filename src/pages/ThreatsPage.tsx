@@ -0,0 +1,753 @@
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import { Link } from "react-router-dom";
+import {
+  ArrowDown,
+  ArrowLeft,
+  ArrowUp,
+  CheckCircle,
+  Eye,
+  Keyboard,
+  RefreshCw,
+  Search,
+  ShieldAlert,
+  X,
+} from "lucide-react";
+import toast from "react-hot-toast";
+import { useAppDispatch, useAppSelector } from "../store";
+import { fetchThreats, reviewThreats } from "../store/slices/threatSlice";
+import { fetchSatelliteImages } from "../store/slices/satelliteSlice";
+import { timeWindowChanged } from "../store/slices/timelineSlice";
+import { useVirtualRows } from "../hooks/useVirtualRows";
+import {
+  SEVERITIES,
+  SEVERITY_COLORS,
+  SEVERITY_RANK,
+  THREAT_TYPE_LABELS,
+} from "../lib/threatStyle";
+import UserMenu from "../components/UserMenu";
+import ThreatDetailDrawer from "../components/ThreatDetailDrawer";
+import type { ThreatDetection } from "../types";
+
+type SortKey =
+  | "severity"
+  | "threat_type"
+  | "confidence"
+  | "image_name"
+  | "detected_at"
+  | "verified"
+  | "acknowledged";
+
+type ReviewFilter =
+  | "all"
+  | "unreviewed"
+  | "unverified"
+  | "unacknowledged"
+  | "verified"
+  | "acknowledged"
+  | "dismissed";
+
+const ROW_HEIGHT = 40;
+
+const COLUMNS: { key: SortKey; label: string; className: string }[] = [
+  { key: "severity", label: "Severity", className: "w-28" },
+  { key: "threat_type", label: "Type", className: "w-32" },
+  { key: "confidence", label: "Confidence", className: "w-28" },
+  { key: "image_name", label: "Image", className: "" },
+  { key: "detected_at", label: "Detected", className: "w-48" },
+  { key: "verified", label: "Verified", className: "w-24" },
+  { key: "acknowledged", label: "Acknowledged", className: "w-32" },
+];
+
+const REVIEW_FILTERS: Record<ReviewFilter, string> = {
+  all: "All",
+  unreviewed: "Unreviewed",
+  unverified: "Not verified",
+  unacknowledged: "Not acknowledged",
+  verified: "Verified",
+  acknowledged: "Acknowledged",
+  dismissed: "False positives",
+};
+
+const SHORTCUTS: [string, string][] = [
+  ["j / ↓", "Next threat"],
+  ["k / ↑", "Previous threat"],
+  ["x", "Select or deselect"],
+  ["Shift + x", "Select all or none"],
+  ["v", "Verify selected, or the current threat"],
+  ["a", "Acknowledge selected with the note"],
+  ["n", "Write the note"],
+  ["Enter", "Open details"],
+  ["Esc", "Close details, then clear selection"],
+  ["/", "Search"],
+  ["?", "Show shortcuts"],
+];
+
+const compareThreats = (
+  a: ThreatDetection,
+  b: ThreatDetection,
+  key: SortKey
+): number => {
+  switch (key) {
+    case "severity":
+      return SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity];
+    case "confidence":
+      return a.confidence - b.confidence;
+    case "detected_at":
+      return Date.parse(a.detected_at) - Date.parse(b.detected_at);
+    case "verified":
+    case "acknowledged":
+      return Number(a[key]) - Number(b[key]);
+    default:
+      return a[key].localeCompare(b[key]);
+  }
+};
+
+const matchesReview = (threat: ThreatDetection, filter: ReviewFilter) => {
+  if (filter === "all") return true;
+  // Dismissed threats only show when asked for
+  if (filter === "dismissed" || threat.false_positive) {
+    return filter === "dismissed" && !!threat.false_positive;
+  }
+  switch (filter) {
+    case "unreviewed":
+      return !threat.verified && !threat.acknowledged;
+    case "unverified":
+      return !threat.verified;
+    case "unacknowledged":
+      return !threat.acknowledged;
+    case "verified":
+      return threat.verified;
+    case "acknowledged":
+      return threat.acknowledged;
+  }
+};
+
+// Typing in a field should not trigger shortcuts
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable ||
+    ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+const selectClass =
+  "px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg text-sm text-white focus:outline-none focus:border-red-600";
+
+const StatusCell = ({ value }: { value: boolean }) =>
+  value ? (
+    <CheckCircle className="w-4 h-4 text-green-500" />
+  ) : (
+    <span className="text-gray-600">—</span>
+  );
+
+const ThreatsPage = () => {
+  const dispatch = useAppDispatch();
+  const { threats, isLoading } = useAppSelector((state) => state.threat);
+  const images = useAppSelector((state) => state.satellite.images);
+  // Set on the dashboard timeline; fetches stay within it until cleared
+  const timeWindow = useAppSelector((state) => state.timeline.window);
+
+  const [search, setSearch] = useState("");
+  const [severity, setSeverity] = useState<ThreatDetection["severity"] | "">(
+    ""
+  );
+  const [threatType, setThreatType] = useState("");
+  const [imageId, setImageId] = useState<number | "">("");
+  const [review, setReview] = useState<ReviewFilter>("unreviewed");
+  const [minConfidence, setMinConfidence] = useState(0);
+  const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({
+    key: "detected_at",
+    descending: true,
+  });
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  // Row the keyboard acts on, by threat id so it survives re-sorting
+  const [focusedId, setFocusedId] = useState<number | null>(null);
+  const [drawerOpen, setDrawerOpen] = useState(false);
+  const [note, setNote] = useState("");
+  const [reviewing, setReviewing] = useState(false);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  // Anchor of shift-click range selection
+  const lastClickedRef = useRef<number | null>(null);
+  const searchRef = useRef<HTMLInputElement>(null);
+  const noteRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    dispatch(fetchSatelliteImages());
+  }, [dispatch]);
+
+  useEffect(() => {
+    dispatch(fetchThreats());
+  }, [dispatch, timeWindow]);
+
+  const imagesById = useMemo(
+    () => new Map(images.map((image) => [image.id, image])),
+    [images]
+  );
+
+  const threatTypes = useMemo(
+    () => Array.from(new Set(threats.map((t) => t.threat_type))).sort(),
+    [threats]
+  );
+
+  const imageOptions = useMemo(() => {
+    const names = new Map<number, string>();
+    threats.forEach((t) => names.set(t.satellite_image, t.image_name));
+    return Array.from(names).sort((a, b) => a[1].localeCompare(b[1]));
+  }, [threats]);
+
+  const rows = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    const filtered = threats.filter(
+      (t) =>
+        (!severity || t.severity === severity) &&
+        (!threatType || t.threat_type === threatType) &&
+        (imageId === "" || t.satellite_image === imageId) &&
+        t.confidence >= minConfidence &&
+        matchesReview(t, review) &&
+        (!query ||
+          [t.threat_type_display, t.threat_type, t.image_name, t.description]
+            .join(" ")
+            .toLowerCase()
+            .includes(query) ||
+          String(t.id) === query)
+    );
+    const direction = sort.descending ? -1 : 1;
+    return filtered.sort(
+      (a, b) =>
+        direction * compareThreats(a, b, sort.key) ||
+        // Newest first among equals
+        Date.parse(b.detected_at) - Date.parse(a.detected_at)
+    );
+  }, [
+    threats,
+    search,
+    severity,
+    threatType,
+    imageId,
+    minConfidence,
+    review,
+    sort,
+  ]);
+
+  const {
+    containerRef,
+    onScroll,
+    scrollToRow,
+    start,
+    end,
+    paddingTop,
+    paddingBottom,
+  } = useVirtualRows({ count: rows.length, rowHeight: ROW_HEIGHT });
+
+  const focusedIndex = rows.findIndex((t) => t.id === focusedId);
+  const focusedThreat = focusedIndex !== -1 ? rows[focusedIndex] : null;
+  // Selected threats still shown by the filters
+  const selectedRows = rows.filter((t) => selected.has(t.id));
+
+  const focusRow = useCallback(
+    (index: number) => {
+      const threat = rows[index];
+      if (!threat) return;
+      setFocusedId(threat.id);
+      scrollToRow(index);
+    },
+    [rows, scrollToRow]
+  );
+
+  const toggleSelected = (id: number) =>
+    setSelected((current) => {
+      const next = new Set(current);
+      if (!next.delete(id)) next.add(id);
+      return next;
+    });
+
+  const toggleAll = () =>
+    setSelected(
+      selectedRows.length === rows.length && rows.length > 0
+        ? new Set()
+        : new Set(rows.map((t) => t.id))
+    );
+
+  const handleCheckboxClick = (
+    event: React.MouseEvent<HTMLInputElement>,
+    index: number
+  ) => {
+    const anchor = lastClickedRef.current;
+    lastClickedRef.current = index;
+    if (!event.shiftKey || anchor === null) {
+      toggleSelected(rows[index].id);
+      return;
+    }
+    // Shift-click selects the range from the previous click
+    const range = rows.slice(
+      Math.min(anchor, index),
+      Math.max(anchor, index) + 1
+    );
+    setSelected((current) => {
+      const next = new Set(current);
+      range.forEach((t) => next.add(t.id));
+      return next;
+    });
+  };
+
+  const handleReview = useCallback(
+    async (action: "verify" | "acknowledge", targets: ThreatDetection[]) => {
+      // Skip threats that are already in the requested state
+      const ids = targets
+        .filter((t) => (action === "verify" ? !t.verified : !t.acknowledged))
+        .map((t) => t.id);
+      if (ids.length === 0 || reviewing) return;
+
+      const verb = action === "verify" ? "verified" : "acknowledged";
+      // Reviewing the focused threat on its own moves on to the next one
+      const next =
+        selected.size === 0 && targets[0]?.id === focusedId
+          ? rows[rows.findIndex((t) => t.id === focusedId) + 1]
+          : undefined;
+      setReviewing(true);
+      try {
+        const { updated, failed } = await dispatch(
+          reviewThreats({ ids, action, notes: note.trim() || undefined })
+        ).unwrap();
+        toast.success(
+          `${updated.length} threat${updated.length === 1 ? "" : "s"} ${verb}`
+        );
+        if (failed.length > 0) {
+          toast.error(`${failed.length} could not be ${verb}`);
+        }
+        if (action === "acknowledge") setNote("");
+        if (next && failed.length === 0) setFocusedId(next.id);
+        // Keep failures selected to retry them
+        setSelected(new Set(failed));
+      } catch (error) {
+        toast.error(`Nothing was ${verb}: ${error as string}`);
+      } finally {
+        setReviewing(false);
+      }
+    },
+    [dispatch, note, reviewing, selected, focusedId, rows]
+  );
+
+  // Bulk actions apply to the selection, or to the focused row without one
+  const reviewTargets =
+    selectedRows.length > 0
+      ? selectedRows
+      : focusedThreat
+      ? [focusedThreat]
+      : [];
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.ctrlKey || event.metaKey || event.altKey) return;
+      if (isEditable(event.target)) {
+        if (event.key === "Escape") (event.target as HTMLElement).blur();
+        return;
+      }
+
+      switch (event.key) {
+        case "j":
+        case "ArrowDown":
+          focusRow(Math.min(rows.length - 1, focusedIndex + 1));
+          break;
+        case "k":
+        case "ArrowUp":
+          focusRow(Math.max(0, focusedIndex - 1));
+          break;
+        case "x":
+          if (focusedThreat) toggleSelected(focusedThreat.id);
+          break;
+        case "X":
+          toggleAll();
+          break;
+        case "v":
+          handleReview("verify", reviewTargets);
+          break;
+        case "a":
+          handleReview("acknowledge", reviewTargets);
+          break;
+        case "n":
+          noteRef.current?.focus();
+          break;
+        case "Enter":
+          if (focusedThreat) setDrawerOpen(true);
+          break;
+        case "Escape":
+          if (showShortcuts) setShowShortcuts(false);
+          else if (drawerOpen) setDrawerOpen(false);
+          else setSelected(new Set());
+          break;
+        case "/":
+          searchRef.current?.focus();
+          break;
+        case "?":
+          setShowShortcuts((open) => !open);
+          break;
+        default:
+          return;
+      }
+      event.preventDefault();
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  });
+
+  const handleSort = (key: SortKey) =>
+    setSort((current) => ({
+      key,
+      descending: current.key === key ? !current.descending : true,
+    }));
+
+  return (
+    <div className="h-screen flex flex-col bg-gray-950">
+      {/* Header */}
+      <nav className="bg-gray-900 border-b border-gray-800 px-6 py-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Link
+              to="/dashboard"
+              className="p-2 text-gray-400 hover:text-white hover:bg-gray-800 rounded-lg transition-colors"
+            >
+              <ArrowLeft className="w-5 h-5" />
+            </Link>
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 bg-linear-to-br from-red-600 to-red-800 rounded-lg flex items-center justify-center">
+                <ShieldAlert className="w-6 h-6 text-white" />
+              </div>
+              <div>
+                <h1 className="text-xl font-bold text-white">Threat Triage</h1>
+                <p className="text-xs text-gray-400">
+                  {rows.length} of {threats.length} threats shown
+                </p>
+              </div>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-4">
+            <button
+              onClick={() => setShowShortcuts((open) => !open)}
+              className="p-2 text-gray-400 hover:text-white hover:bg-gray-800 rounded-lg transition-colors"
+              title="Keyboard shortcuts (?)"
+            >
+              <Keyboard className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => dispatch(fetchThreats())}
+              disabled={isLoading}
+              className="p-2 text-gray-400 hover:text-white hover:bg-gray-800 rounded-lg transition-colors disabled:opacity-50"
+              title="Refresh"
+            >
+              <RefreshCw
+                className={`w-5 h-5 ${isLoading ? "animate-spin" : ""}`}
+              />
+            </button>
+            <div className="border-l border-gray-800 pl-4">
+              <UserMenu />
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-3 px-6 py-3 bg-gray-900/50 border-b border-gray-800">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-500" />
+          <input
+            ref={searchRef}
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search type, image, description or id"
+            className={`${selectClass} pl-9 w-72`}
+          />
+        </div>
+        <select
+          value={severity}
+          onChange={(e) =>
+            setSeverity(e.target.value as ThreatDetection["severity"] | "")
+          }
+          className={selectClass}
+        >
+          <option value="">Any severity</option>
+          {SEVERITIES.map((s) => (
+            <option key={s} value={s}>
+              {s[0].toUpperCase() + s.slice(1)}
+            </option>
+          ))}
+        </select>
+        <select
+          value={threatType}
+          onChange={(e) => setThreatType(e.target.value)}
+          className={selectClass}
+        >
+          <option value="">Any type</option>
+          {threatTypes.map((type) => (
+            <option key={type} value={type}>
+              {THREAT_TYPE_LABELS[type] ?? type}
+            </option>
+          ))}
+        </select>
+        <select
+          value={imageId}
+          onChange={(e) =>
+            setImageId(e.target.value ? Number(e.target.value) : "")
+          }
+          className={`${selectClass} max-w-56`}
+        >
+          <option value="">Any image</option>
+          {imageOptions.map(([id, name]) => (
+            <option key={id} value={id}>
+              {name}
+            </option>
+          ))}
+        </select>
+        <select
+          value={review}
+          onChange={(e) => setReview(e.target.value as ReviewFilter)}
+          className={selectClass}
+        >
+          {Object.entries(REVIEW_FILTERS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <label className="flex items-center gap-2 text-sm text-gray-400">
+          Confidence ≥ {Math.round(minConfidence * 100)}%
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={minConfidence}
+            onChange={(e) => setMinConfidence(parseFloat(e.target.value))}
+            className="w-32 accent-red-600"
+          />
+        </label>
+        {timeWindow && (
+          <div className="flex items-center gap-2 ml-auto text-sm text-gray-400">
+            <span>
+              Timeline window {new Date(timeWindow.from).toLocaleDateString()} –{" "}
+              {new Date(timeWindow.to).toLocaleDateString()}
+            </span>
+            <button
+              onClick={() => dispatch(timeWindowChanged(null))}
+              className="px-2 py-0.5 text-xs text-gray-400 hover:text-white bg-gray-800 hover:bg-gray-700 rounded transition-colors"
+            >
+              Show all
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Bulk actions */}
+      <div className="flex items-center gap-3 px-6 py-2 border-b border-gray-800 text-sm">
+        <span className="text-gray-400 w-28">
+          {selectedRows.length > 0
+            ? `${selectedRows.length} selected`
+            : "None selected"}
+        </span>
+        <input
+          ref={noteRef}
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder="Note added when acknowledging (n)"
+          className={`${selectClass} flex-1 max-w-xl py-1`}
+        />
+        <button
+          onClick={() => handleReview("verify", reviewTargets)}
+          disabled={reviewing || reviewTargets.length === 0}
+          className="flex items-center gap-2 px-3 py-1.5 bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white font-medium rounded-lg transition-colors"
+        >
+          <CheckCircle className="w-4 h-4" />
+          Verify
+        </button>
+        <button
+          onClick={() => handleReview("acknowledge", reviewTargets)}
+          disabled={reviewing || reviewTargets.length === 0}
+          className="flex items-center gap-2 px-3 py-1.5 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white font-medium rounded-lg transition-colors"
+        >
+          <Eye className="w-4 h-4" />
+          Acknowledge
+        </button>
+        {reviewing && (
+          <RefreshCw className="w-4 h-4 text-gray-400 animate-spin" />
+        )}
+        {selected.size > 0 && (
+          <button
+            onClick={() => setSelected(new Set())}
+            className="ml-auto text-gray-400 hover:text-white transition-colors"
+          >
+            Clear selection
+          </button>
+        )}
+      </div>
+
+      <div className="flex-1 flex overflow-hidden relative">
+        {/* Table */}
+        <div
+          ref={containerRef}
+          onScroll={onScroll}
+          className="flex-1 overflow-auto"
+        >
+          <table className="w-full text-sm table-fixed">
+            <thead className="sticky top-0 z-10 bg-gray-900 text-left text-xs text-gray-400 uppercase tracking-wider">
+              <tr>
+                <th className="w-10 px-3 py-2">
+                  <input
+                    type="checkbox"
+                    checked={
+                      rows.length > 0 && selectedRows.length === rows.length
+                    }
+                    onChange={toggleAll}
+                    className="accent-red-600"
+                    aria-label="Select all"
+                  />
+                </th>
+                {COLUMNS.map((column) => (
+                  <th
+                    key={column.key}
+                    className={`px-3 py-2 ${column.className}`}
+                  >
+                    <button
+                      onClick={() => handleSort(column.key)}
+                      className="flex items-center gap-1 hover:text-white transition-colors uppercase"
+                    >
+                      {column.label}
+                      {sort.key === column.key &&
+                        (sort.descending ? (
+                          <ArrowDown className="w-3 h-3" />
+                        ) : (
+                          <ArrowUp className="w-3 h-3" />
+                        ))}
+                    </button>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {paddingTop > 0 && (
+                <tr style={{ height: paddingTop }}>
+                  <td colSpan={COLUMNS.length + 1} />
+                </tr>
+              )}
+              {rows.slice(start, end).map((threat, offset) => {
+                const index = start + offset;
+                const focused = threat.id === focusedId;
+                const isSelected = selected.has(threat.id);
+                return (
+                  <tr
+                    key={threat.id}
+                    style={{ height: ROW_HEIGHT }}
+                    onClick={() => {
+                      setFocusedId(threat.id);
+                      setDrawerOpen(true);
+                    }}
+                    className={`border-b border-gray-800/60 cursor-pointer transition-colors ${
+                      threat.false_positive ? "opacity-50 " : ""
+                    }${
+                      focused
+                        ? "bg-gray-800 outline outline-1 -outline-offset-1 outline-red-600"
+                        : isSelected
+                        ? "bg-red-950/40"
+                        : "hover:bg-gray-900"
+                    }`}
+                  >
+                    <td className="px-3" onClick={(e) => e.stopPropagation()}>
+                      <input
+                        type="checkbox"
+                        checked={isSelected}
+                        onChange={() => undefined}
+                        onClick={(e) => handleCheckboxClick(e, index)}
+                        className="accent-red-600"
+                        aria-label={`Select threat ${threat.id}`}
+                      />
+                    </td>
+                    <td className="px-3">
+                      <span
+                        className="px-2 py-0.5 rounded text-xs font-bold uppercase text-white"
+                        style={{ background: SEVERITY_COLORS[threat.severity] }}
+                      >
+                        {threat.severity}
+                      </span>
+                    </td>
+                    <td className="px-3 text-white truncate">
+                      {threat.threat_type_display || threat.threat_type}
+                    </td>
+                    <td className="px-3 text-gray-300">
+                      {Math.round(threat.confidence * 100)}%
+                    </td>
+                    <td className="px-3 text-gray-300 truncate">
+                      {threat.image_name}
+                    </td>
+                    <td className="px-3 text-gray-400">
+                      {new Date(threat.detected_at).toLocaleString()}
+                    </td>
+                    <td className="px-3">
+                      <StatusCell value={threat.verified} />
+                    </td>
+                    <td className="px-3">
+                      <StatusCell value={threat.acknowledged} />
+                    </td>
+                  </tr>
+                );
+              })}
+              {paddingBottom > 0 && (
+                <tr style={{ height: paddingBottom }}>
+                  <td colSpan={COLUMNS.length + 1} />
+                </tr>
+              )}
+            </tbody>
+          </table>
+          {rows.length === 0 && (
+            <p className="text-center text-gray-500 py-12">
+              {isLoading ? "Loading threats…" : "No threats match the filters"}
+            </p>
+          )}
+        </div>
+
+        {drawerOpen && focusedThreat && (
+          <ThreatDetailDrawer
+            threat={focusedThreat}
+            image={imagesById.get(focusedThreat.satellite_image)}
+            reviewing={reviewing}
+            onVerify={() => handleReview("verify", [focusedThreat])}
+            onAcknowledge={() => handleReview("acknowledge", [focusedThreat])}
+            onClose={() => setDrawerOpen(false)}
+          />
+        )}
+
+        {showShortcuts && (
+          <div className="absolute top-4 right-4 z-20 w-80 bg-gray-900 border border-gray-700 rounded-lg shadow-2xl p-4">
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-white font-bold">Keyboard shortcuts</h3>
+              <button
+                onClick={() => setShowShortcuts(false)}
+                className="text-gray-400 hover:text-white transition-colors"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+            <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+              {SHORTCUTS.map(([keys, action]) => (
+                <React.Fragment key={keys}>
+                  <dt>
+                    <kbd className="px-1.5 py-0.5 bg-gray-800 border border-gray-700 rounded text-xs text-gray-200">
+                      {keys}
+                    </kbd>
+                  </dt>
+                  <dd className="text-gray-400">{action}</dd>
+                </React.Fragment>
+              ))}
+            </dl>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ThreatsPage;
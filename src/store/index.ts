@@ -1,5 +1,9 @@
 // src/store/index.ts
-import { configureStore } from "@reduxjs/toolkit";
+import {
+  configureStore,
+  createListenerMiddleware,
+  isAnyOf,
+} from "@reduxjs/toolkit";
 import {
   type TypedUseSelectorHook,
   useDispatch,
@@ -8,7 +12,37 @@ import {
 import authReducer from "@/store/slices/authSlice";
 import satelliteReducer from "@/store/slices/satelliteSlice";
 import analysisReducer from "@/store/slices/analysisSlice";
-import threatReducer from "@/store/slices/threatSlice";
+import threatReducer, {
+  fetchThreats,
+  threatReceived,
+} from "@/store/slices/threatSlice";
+import jobsReducer from "@/store/slices/jobsSlice";
+import uploadReducer from "@/store/slices/uploadSlice";
+import timelineReducer from "@/store/slices/timelineSlice";
+import aoiReducer, { loadAois, persistAois } from "@/store/slices/aoiSlice";
+import alertReducer, {
+  checkThreatAlerts,
+  loadAlerts,
+  persistAlerts,
+} from "@/store/slices/alertSlice";
+import vectorLayerReducer, {
+  persistVectorLayers,
+} from "@/store/slices/vectorLayerSlice";
+import offlineReducer, {
+  connectivityChanged,
+  loadOfflineWrites,
+  replayOfflineWrites,
+} from "@/store/slices/offlineSlice";
+import {
+  logout,
+  persistCurrentUser,
+  refreshAccessToken,
+} from "@/store/slices/authSlice";
+import { apiClient } from "@/lib/api";
+import { clearApiCache } from "@/lib/serviceWorker";
+import { toast } from "react-hot-toast";
+
+const listenerMiddleware = createListenerMiddleware();
 
 export const store = configureStore({
   reducer: {
@@ -16,6 +50,13 @@ export const store = configureStore({
     satellite: satelliteReducer,
     analysis: analysisReducer,
     threat: threatReducer,
+    jobs: jobsReducer,
+    uploads: uploadReducer,
+    timeline: timelineReducer,
+    aoi: aoiReducer,
+    alert: alertReducer,
+    vectorLayer: vectorLayerReducer,
+    offline: offlineReducer,
   },
   middleware: (getDefaultMiddleware) =>
     getDefaultMiddleware({
@@ -23,11 +64,129 @@ export const store = configureStore({
         // Ignore these action types
         ignoredActions: ["satellite/uploadImage/fulfilled"],
         // Ignore these field paths in all actions
-        ignoredActionPaths: ["payload.file"],
+        ignoredActionPaths: [
+          "payload.file",
+          "meta.arg.file",
+          "meta.arg.onUploadProgress",
+          "meta.arg.signal",
+        ],
         // Ignore these paths in the state
         ignoredPaths: ["satellite.uploadingFile"],
       },
-    }),
+    }).prepend(listenerMiddleware.middleware),
+});
+
+// Wire the API client's shared 401 refresh flow into the auth slice
+apiClient.setAuthHandlers({
+  refreshToken: () => store.dispatch(refreshAccessToken()).unwrap(),
+  onSessionExpired: () => {
+    store.dispatch(logout());
+    toast.error("Session expired. Please login again.", {
+      id: "session-expired",
+    });
+  },
+});
+
+// Keep the signed-in profile for reloads without a connection
+let persistedUser = store.getState().auth.user;
+store.subscribe(() => {
+  const { user } = store.getState().auth;
+  if (user === persistedUser) return;
+  persistedUser = user;
+  persistCurrentUser(user);
+});
+
+// Alert rules, and the areas they can refer to, are checked on every page,
+// so they load as soon as the user is known
+let loadedUserId = store.getState().auth.user?.id;
+store.subscribe(() => {
+  const userId = store.getState().auth.user?.id;
+  if (userId === loadedUserId) return;
+  loadedUserId = userId;
+  if (userId === undefined) return;
+  store.dispatch(loadAois(userId));
+  store.dispatch(loadAlerts(userId));
+});
+
+// Keep the current user's areas of interest in local storage
+let persistedAois = store.getState().aoi;
+store.subscribe(() => {
+  const { aoi } = store.getState();
+  if (aoi === persistedAois) return;
+  persistedAois = aoi;
+  persistAois(aoi);
+});
+
+// Keep their alert rules and history too
+let persistedAlerts = store.getState().alert;
+store.subscribe(() => {
+  const { alert } = store.getState();
+  if (alert === persistedAlerts) return;
+  persistedAlerts = alert;
+  persistAlerts(alert);
+});
+
+// Imported map overlays can be large, so they go to IndexedDB
+let persistedVectorLayers = store.getState().vectorLayer;
+store.subscribe(() => {
+  const { vectorLayer } = store.getState();
+  if (vectorLayer === persistedVectorLayers) return;
+  persistedVectorLayers = vectorLayer;
+  persistVectorLayers(vectorLayer);
+});
+
+// Replay writes queued while offline once the connection is back
+window.addEventListener("online", () => {
+  store.dispatch(connectivityChanged(true));
+  store.dispatch(replayOfflineWrites());
+});
+window.addEventListener("offline", () =>
+  store.dispatch(connectivityChanged(false))
+);
+
+listenerMiddleware.startListening.withTypes<RootState, AppDispatch>()({
+  actionCreator: loadOfflineWrites.fulfilled,
+  effect: (_, { dispatch }) => {
+    dispatch(replayOfflineWrites());
+  },
+});
+
+listenerMiddleware.startListening.withTypes<RootState, AppDispatch>()({
+  actionCreator: replayOfflineWrites.fulfilled,
+  effect: ({ payload: { applied, conflicts } }) => {
+    if (applied > 0) {
+      toast.success(
+        `Synced ${applied} offline change${applied === 1 ? "" : "s"}`
+      );
+    }
+    if (conflicts > 0) {
+      toast.error(
+        `${conflicts} offline change${
+          conflicts === 1 ? " was" : "s were"
+        } rejected by the server`
+      );
+    }
+  },
+});
+
+// Cached API responses belong to the user who fetched them
+listenerMiddleware.startListening({
+  actionCreator: logout,
+  effect: () => {
+    clearApiCache();
+  },
+});
+
+// Check alert rules against every batch of threats that reaches the store
+listenerMiddleware.startListening.withTypes<RootState, AppDispatch>()({
+  matcher: isAnyOf(fetchThreats.fulfilled, threatReceived),
+  effect: (action, { dispatch }) => {
+    if (fetchThreats.fulfilled.match(action)) {
+      dispatch(checkThreatAlerts(action.payload.threats, true));
+    } else if (threatReceived.match(action)) {
+      dispatch(checkThreatAlerts([action.payload], false));
+    }
+  },
 });
 
 export type RootState = ReturnType<typeof store.getState>;
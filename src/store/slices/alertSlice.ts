@@ -0,0 +1,233 @@
+// src/store/slices/alertSlice.ts
+import {
+  createSlice,
+  createAsyncThunk,
+  type PayloadAction,
+} from "@reduxjs/toolkit";
+import { toast } from "react-hot-toast";
+import { apiClient, getErrorMessage } from "@/lib/api";
+import { describeRule, evaluateRules } from "@/lib/alertRules";
+import { playAlarm, showNotification } from "@/lib/alertActions";
+import { createId } from "@/lib/ids";
+import { logout } from "@/store/slices/authSlice";
+import type { AppDispatch, RootState } from "@/store";
+import type {
+  AlertEvent,
+  AlertRule,
+  AreaOfInterest,
+  ThreatDetection,
+} from "@/types";
+
+// Oldest firings are dropped past this many
+const HISTORY_LIMIT = 200;
+
+interface AlertState {
+  rules: AlertRule[];
+  history: AlertEvent[];
+  // Owner of the loaded rules, null until the current user is known
+  userId: number | null;
+  // The user's threat_alerts preference
+  enabled: boolean;
+  // Highest threat id already checked; ids grow as detections are created,
+  // so anything at or below it is old. Null until the first batch arrives.
+  watermark: number | null;
+}
+
+const initialState: AlertState = {
+  rules: [],
+  history: [],
+  userId: null,
+  enabled: true,
+  watermark: null,
+};
+
+type StoredAlerts = Pick<AlertState, "rules" | "history">;
+
+const storageKey = (userId: number) => `alerts:${userId}`;
+
+const readStoredAlerts = (userId: number): StoredAlerts => {
+  const empty = { rules: [], history: [] };
+  try {
+    const stored = localStorage.getItem(storageKey(userId));
+    return stored ? { ...empty, ...JSON.parse(stored) } : empty;
+  } catch {
+    return empty;
+  }
+};
+
+// Saves the rules and history of the loaded user, called by the store
+export const persistAlerts = ({ userId, rules, history }: AlertState) => {
+  if (userId === null) return;
+  const stored: StoredAlerts = { rules, history };
+  localStorage.setItem(storageKey(userId), JSON.stringify(stored));
+};
+
+export const fetchAlertPreference = createAsyncThunk(
+  "alert/fetchPreference",
+  async (_, { rejectWithValue }) => {
+    try {
+      const preferences = await apiClient.getUserPreferences();
+      return preferences.notifications.threat_alerts;
+    } catch (error) {
+      return rejectWithValue(getErrorMessage(error));
+    }
+  }
+);
+
+export const loadAlerts =
+  (userId: number) => (dispatch: AppDispatch, getState: () => RootState) => {
+    if (getState().alert.userId === userId) return;
+    dispatch(alertsLoaded({ userId, ...readStoredAlerts(userId) }));
+    dispatch(fetchAlertPreference());
+  };
+
+export const addAlertRule =
+  (rule: Omit<AlertRule, "id" | "created_at">) =>
+  (dispatch: AppDispatch): AlertRule => {
+    const created = {
+      ...rule,
+      id: createId(),
+      created_at: new Date().toISOString(),
+    };
+    dispatch(ruleAdded(created));
+    return created;
+  };
+
+const runActions = (
+  event: AlertEvent,
+  threats: ThreatDetection[],
+  aois: AreaOfInterest[],
+  rule: AlertRule
+) => {
+  const count = threats.length;
+  const title = `${event.rule_name}: ${count} new detection${
+    count === 1 ? "" : "s"
+  }`;
+  const body =
+    count === 1
+      ? `${threats[0].severity.toUpperCase()} ${
+          threats[0].threat_type_display || threats[0].threat_type
+        } at ${threats[0].location_coords
+          .map((value) => value.toFixed(4))
+          .join(", ")}`
+      : describeRule(rule, aois);
+
+  if (event.actions.includes("toast")) {
+    toast.error(`${title}\n${body}`, { id: event.id, duration: 8000 });
+  }
+  if (event.actions.includes("notification")) {
+    showNotification(title, body, event.rule_id);
+  }
+  if (event.actions.includes("sound")) {
+    playAlarm();
+  }
+};
+
+// Check rules against a batch that reached the threat slice. The first
+// full fetch only records what already exists.
+export const checkThreatAlerts =
+  (threats: ThreatDetection[], isFullFetch: boolean) =>
+  (dispatch: AppDispatch, getState: () => RootState) => {
+    const { alert, aoi } = getState();
+    const maxId = (batch: ThreatDetection[], floor: number) =>
+      batch.reduce((max, threat) => Math.max(max, threat.id), floor);
+
+    if (alert.watermark === null && isFullFetch) {
+      dispatch(alertWatermarkRaised(maxId(threats, 0)));
+      return;
+    }
+
+    const fresh = threats.filter(
+      (threat) => alert.watermark === null || threat.id > alert.watermark
+    );
+    if (fresh.length === 0) return;
+    dispatch(alertWatermarkRaised(maxId(fresh, alert.watermark ?? 0)));
+    if (!alert.enabled) return;
+
+    evaluateRules(alert.rules, fresh, aoi.items).forEach((match) => {
+      const event: AlertEvent = {
+        id: createId(),
+        rule_id: match.rule.id,
+        rule_name: match.rule.name,
+        threat_ids: match.threats.map((threat) => threat.id),
+        fired_at: new Date().toISOString(),
+        actions: match.rule.actions,
+        dismissed: false,
+      };
+      dispatch(alertFired(event));
+      runActions(event, match.threats, aoi.items, match.rule);
+    });
+  };
+
+const alertSlice = createSlice({
+  name: "alert",
+  initialState,
+  reducers: {
+    alertsLoaded: (
+      state,
+      action: PayloadAction<StoredAlerts & { userId: number }>
+    ) => ({
+      ...initialState,
+      // Detections already seen stay old for the next user too
+      watermark: state.watermark,
+      ...action.payload,
+    }),
+    alertsToggled: (state, action: PayloadAction<boolean>) => {
+      state.enabled = action.payload;
+    },
+    ruleAdded: (state, action: PayloadAction<AlertRule>) => {
+      state.rules.push(action.payload);
+    },
+    ruleUpdated: (
+      state,
+      action: PayloadAction<{
+        id: string;
+        changes: Partial<Omit<AlertRule, "id" | "created_at">>;
+      }>
+    ) => {
+      const rule = state.rules.find((item) => item.id === action.payload.id);
+      if (rule) Object.assign(rule, action.payload.changes);
+    },
+    ruleRemoved: (state, action: PayloadAction<string>) => {
+      state.rules = state.rules.filter((rule) => rule.id !== action.payload);
+    },
+    alertWatermarkRaised: (state, action: PayloadAction<number>) => {
+      state.watermark = Math.max(state.watermark ?? 0, action.payload);
+    },
+    alertFired: (state, action: PayloadAction<AlertEvent>) => {
+      state.history.unshift(action.payload);
+      state.history.splice(HISTORY_LIMIT);
+    },
+    alertDismissed: (state, action: PayloadAction<string>) => {
+      const event = state.history.find((item) => item.id === action.payload);
+      if (event) event.dismissed = true;
+    },
+    allAlertsDismissed: (state) => {
+      state.history.forEach((event) => {
+        event.dismissed = true;
+      });
+    },
+    historyCleared: (state) => {
+      state.history = [];
+    },
+  },
+  extraReducers: (builder) => {
+    builder.addCase(fetchAlertPreference.fulfilled, (state, action) => {
+      state.enabled = action.payload;
+    });
+
+    builder.addCase(logout, () => initialState);
+  },
+});
+
+export const {
+  alertsToggled,
+  ruleUpdated,
+  ruleRemoved,
+  alertDismissed,
+  allAlertsDismissed,
+  historyCleared,
+} = alertSlice.actions;
+const { alertsLoaded, ruleAdded, alertWatermarkRaised, alertFired } =
+  alertSlice.actions;
+export default alertSlice.reducer;
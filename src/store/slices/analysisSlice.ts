@@ -1,58 +1,19 @@
 // src/store/slices/analysisSlice.ts
-import { createSlice, createAsyncThunk } from "@reduxjs/toolkit";
-import axios, { AxiosError } from "axios";
-
-const API_URL = import.meta.env.VITE_API_URL || "http://localhost:8000/api";
-
-interface Analysis {
-  id: number;
-  satellite_image: number;
-  image_name: string;
-  analysis_type: string;
-  analysis_type_display: string;
-  status: "pending" | "processing" | "completed" | "failed";
-  status_display: string;
-  created_at: string;
-  started_at?: string;
-  completed_at?: string;
-  summary: string;
-  raw_data: Record<string, unknown>;
-  confidence_score?: number;
-  threat_count: number;
-  processing_time?: number | null;
-  error_message?: string;
-  initiated_by_username: string;
-  detections: unknown[];
-  logs: unknown[];
-}
+import {
+  createSlice,
+  createAsyncThunk,
+  type PayloadAction,
+} from "@reduxjs/toolkit";
+import { apiClient, getErrorMessage, type AnalysisFilters } from "@/lib/api";
+import type { AnalysisResult, AnalysisStatus } from "@/types";
 
 interface AnalysisState {
-  analyses: Analysis[];
-  currentAnalysis: Analysis | null;
+  analyses: AnalysisResult[];
+  currentAnalysis: AnalysisResult | null;
   isLoading: boolean;
   error: string | null;
 }
 
-interface ApiErrorResponse {
-  detail?: string;
-  error?: string;
-}
-
-interface PaginatedResponse<T> {
-  results?: T[];
-  count?: number;
-  next?: string | null;
-  previous?: string | null;
-}
-
-interface StatusCheckResponse {
-  id: number;
-  status: Analysis["status"];
-  threat_count: number;
-  processing_time: number | null;
-  completed_at: string | null;
-}
-
 const initialState: AnalysisState = {
   analyses: [],
   currentAnalysis: null,
@@ -60,55 +21,33 @@ const initialState: AnalysisState = {
   error: null,
 };
 
-// Helper function to get auth headers
-const getAuthHeaders = () => ({
-  Authorization: `Bearer ${localStorage.getItem("accessToken")}`,
-});
+// Copy a status_check style update onto a stored analysis
+const applyStatus = (analysis: AnalysisResult, update: AnalysisStatus) => {
+  analysis.status = update.status;
+  analysis.threat_count = update.threat_count;
+  analysis.processing_time = update.processing_time;
+  analysis.completed_at = update.completed_at;
+};
 
-// Helper function to extract error message
-const extractErrorMessage = (error: unknown): string => {
-  if (axios.isAxiosError(error)) {
-    const axiosError = error as AxiosError<ApiErrorResponse>;
-    return (
-      axiosError.response?.data?.detail ||
-      axiosError.response?.data?.error ||
-      axiosError.message ||
-      "An error occurred"
-    );
+const applyStatusToState = (state: AnalysisState, update: AnalysisStatus) => {
+  const analysis = state.analyses.find((a) => a.id === update.id);
+  if (analysis) {
+    applyStatus(analysis, update);
   }
 
-  if (error instanceof Error) {
-    return error.message;
+  if (state.currentAnalysis && state.currentAnalysis.id === update.id) {
+    applyStatus(state.currentAnalysis, update);
   }
-
-  return "An unexpected error occurred";
 };
 
 export const fetchAnalyses = createAsyncThunk(
   "analysis/fetchAnalyses",
-  async (
-    params: { status?: string; analysis_type?: string } = {},
-    { rejectWithValue }
-  ) => {
+  async (params: AnalysisFilters | undefined, { rejectWithValue }) => {
     try {
-      const queryParams = new URLSearchParams();
-      if (params?.status) queryParams.append("status", params.status);
-      if (params?.analysis_type)
-        queryParams.append("analysis_type", params.analysis_type);
-
-      const response = await axios.get<
-        PaginatedResponse<Analysis> | Analysis[]
-      >(`${API_URL}/satellite/analyses/?${queryParams.toString()}`, {
-        headers: getAuthHeaders(),
-      });
-
-      // Handle both paginated and array responses
-      if (Array.isArray(response.data)) {
-        return response.data;
-      }
-      return response.data.results || [];
+      const response = await apiClient.getAnalyses(params);
+      return response.results;
     } catch (error) {
-      return rejectWithValue(extractErrorMessage(error));
+      return rejectWithValue(getErrorMessage(error));
     }
   }
 );
@@ -117,14 +56,9 @@ export const fetchAnalysis = createAsyncThunk(
   "analysis/fetchAnalysis",
   async (id: number, { rejectWithValue }) => {
     try {
-      const response = await axios.get<Analysis>(
-        `${API_URL}/satellite/analyses/${id}/`,
-        { headers: getAuthHeaders() }
-      );
-
-      return response.data;
+      return await apiClient.getAnalysis(id);
     } catch (error) {
-      return rejectWithValue(extractErrorMessage(error));
+      return rejectWithValue(getErrorMessage(error));
     }
   }
 );
@@ -133,14 +67,9 @@ export const checkAnalysisStatus = createAsyncThunk(
   "analysis/checkStatus",
   async (id: number, { rejectWithValue }) => {
     try {
-      const response = await axios.get<StatusCheckResponse>(
-        `${API_URL}/satellite/analyses/${id}/status_check/`,
-        { headers: getAuthHeaders() }
-      );
-
-      return response.data;
+      return await apiClient.checkAnalysisStatus(id);
     } catch (error) {
-      return rejectWithValue(extractErrorMessage(error));
+      return rejectWithValue(getErrorMessage(error));
     }
   }
 );
@@ -155,6 +84,10 @@ const analysisSlice = createSlice({
     clearCurrentAnalysis: (state) => {
       state.currentAnalysis = null;
     },
+    // Status change pushed by the realtime feed
+    analysisStatusReceived: (state, action: PayloadAction<AnalysisStatus>) => {
+      applyStatusToState(state, action.payload);
+    },
   },
   extraReducers: (builder) => {
     builder
@@ -186,19 +119,11 @@ const analysisSlice = createSlice({
       });
 
     builder.addCase(checkAnalysisStatus.fulfilled, (state, action) => {
-      if (
-        state.currentAnalysis &&
-        state.currentAnalysis.id === action.payload.id
-      ) {
-        state.currentAnalysis.status = action.payload.status;
-        state.currentAnalysis.threat_count = action.payload.threat_count;
-        state.currentAnalysis.processing_time = action.payload.processing_time;
-        state.currentAnalysis.completed_at =
-          action.payload.completed_at ?? undefined;
-      }
+      applyStatusToState(state, action.payload);
     });
   },
 });
 
-export const { clearError, clearCurrentAnalysis } = analysisSlice.actions;
+export const { clearError, clearCurrentAnalysis, analysisStatusReceived } =
+  analysisSlice.actions;
 export default analysisSlice.reducer;
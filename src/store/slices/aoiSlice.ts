@@ -0,0 +1,275 @@
+// src/store/slices/aoiSlice.ts
+import {
+  createSlice,
+  createAsyncThunk,
+  type PayloadAction,
+} from "@reduxjs/toolkit";
+import { apiClient, getErrorMessage } from "@/lib/api";
+import { createId } from "@/lib/ids";
+import { logout } from "@/store/slices/authSlice";
+import type { AppDispatch, RootState } from "@/store";
+import type { AoiShape, AreaOfInterest } from "@/types";
+
+interface AoiState {
+  items: AreaOfInterest[];
+  selectedId: string | null;
+  // Owner of the loaded areas, null until the current user is known
+  userId: number | null;
+  syncEnabled: boolean;
+  // Server ids of areas deleted since the last sync
+  pendingDeletes: number[];
+  syncing: boolean;
+  lastSyncedAt: string | null;
+  error: string | null;
+}
+
+const initialState: AoiState = {
+  items: [],
+  selectedId: null,
+  userId: null,
+  syncEnabled: false,
+  pendingDeletes: [],
+  syncing: false,
+  lastSyncedAt: null,
+  error: null,
+};
+
+type StoredAois = Pick<
+  AoiState,
+  "items" | "syncEnabled" | "pendingDeletes" | "lastSyncedAt"
+>;
+
+const storageKey = (userId: number) => `aois:${userId}`;
+
+const readStoredAois = (userId: number): StoredAois => {
+  const empty = {
+    items: [],
+    syncEnabled: false,
+    pendingDeletes: [],
+    lastSyncedAt: null,
+  };
+  try {
+    const stored = localStorage.getItem(storageKey(userId));
+    return stored ? { ...empty, ...JSON.parse(stored) } : empty;
+  } catch {
+    return empty;
+  }
+};
+
+// Saves the areas of the loaded user, called by the store on every change
+export const persistAois = ({
+  userId,
+  items,
+  syncEnabled,
+  pendingDeletes,
+  lastSyncedAt,
+}: AoiState) => {
+  if (userId === null) return;
+  const stored: StoredAois = {
+    items,
+    syncEnabled,
+    pendingDeletes,
+    lastSyncedAt,
+  };
+  localStorage.setItem(storageKey(userId), JSON.stringify(stored));
+};
+
+// Push local changes and deletions, then pull areas saved elsewhere
+export const syncAois = createAsyncThunk(
+  "aoi/sync",
+  async (_, { getState, rejectWithValue }) => {
+    const { items, pendingDeletes, lastSyncedAt } = (getState() as RootState)
+      .aoi;
+    // Edits made while this sync runs are pushed by the next one
+    const startedAt = new Date().toISOString();
+
+    try {
+      await Promise.all(
+        pendingDeletes.map((id) => apiClient.deleteAreaOfInterest(id))
+      );
+
+      const remote = await apiClient.getAreasOfInterest();
+      const remoteById = new Map(remote.map((record) => [record.id, record]));
+      const synced = await Promise.all(
+        items.map(async (aoi) => {
+          const record =
+            aoi.server_id !== null ? remoteById.get(aoi.server_id) : undefined;
+          const changed =
+            !record ||
+            !lastSyncedAt ||
+            Date.parse(aoi.updated_at) > Date.parse(lastSyncedAt);
+          if (!changed) return aoi;
+
+          // Areas deleted on the server are recreated from the local copy
+          const saved = await apiClient.saveAreaOfInterest(
+            { client_id: aoi.id, name: aoi.name, shape: aoi.shape },
+            record?.id
+          );
+          return { ...aoi, server_id: saved.id };
+        })
+      );
+
+      const local = new Set(items.map((aoi) => aoi.id));
+      const pulled: AreaOfInterest[] = remote
+        .filter((record) => !local.has(record.client_id))
+        .map((record) => ({
+          id: record.client_id,
+          name: record.name,
+          shape: record.shape,
+          created_at: record.created_at,
+          updated_at: record.updated_at,
+          server_id: record.id,
+        }));
+
+      return { synced, pulled, deleted: pendingDeletes, syncedAt: startedAt };
+    } catch (error) {
+      return rejectWithValue(getErrorMessage(error));
+    }
+  },
+  {
+    condition: (_, { getState }) => {
+      const { aoi } = getState() as RootState;
+      return aoi.syncEnabled && !aoi.syncing && aoi.userId !== null;
+    },
+  }
+);
+
+const syncIfEnabled = (dispatch: AppDispatch, getState: () => RootState) => {
+  if (getState().aoi.syncEnabled) dispatch(syncAois());
+};
+
+export const loadAois =
+  (userId: number) => (dispatch: AppDispatch, getState: () => RootState) => {
+    if (getState().aoi.userId === userId) return;
+    dispatch(aoisLoaded({ userId, ...readStoredAois(userId) }));
+    syncIfEnabled(dispatch, getState);
+  };
+
+export const addAois =
+  (areas: { name: string; shape: AoiShape }[]) =>
+  (dispatch: AppDispatch, getState: () => RootState): AreaOfInterest[] => {
+    const now = new Date().toISOString();
+    const items = areas.map(({ name, shape }) => ({
+      id: createId(),
+      name,
+      shape,
+      created_at: now,
+      updated_at: now,
+      server_id: null,
+    }));
+    dispatch(aoisAdded(items));
+    syncIfEnabled(dispatch, getState);
+    return items;
+  };
+
+export const updateAoi =
+  (id: string, changes: Partial<Pick<AreaOfInterest, "name" | "shape">>) =>
+  (dispatch: AppDispatch, getState: () => RootState) => {
+    dispatch(aoiUpdated({ id, changes, updated_at: new Date().toISOString() }));
+    syncIfEnabled(dispatch, getState);
+  };
+
+export const removeAoi =
+  (id: string) => (dispatch: AppDispatch, getState: () => RootState) => {
+    dispatch(aoiRemoved(id));
+    syncIfEnabled(dispatch, getState);
+  };
+
+export const setAoiSync =
+  (enabled: boolean) => (dispatch: AppDispatch, getState: () => RootState) => {
+    dispatch(aoiSyncToggled(enabled));
+    syncIfEnabled(dispatch, getState);
+  };
+
+const aoiSlice = createSlice({
+  name: "aoi",
+  initialState,
+  reducers: {
+    aoisLoaded: (
+      _,
+      action: PayloadAction<StoredAois & { userId: number }>
+    ) => ({
+      ...initialState,
+      ...action.payload,
+    }),
+    aoisAdded: (state, action: PayloadAction<AreaOfInterest[]>) => {
+      state.items.push(...action.payload);
+      // Show a single new area straight away
+      if (action.payload.length === 1) {
+        state.selectedId = action.payload[0].id;
+      }
+    },
+    aoiUpdated: (
+      state,
+      action: PayloadAction<{
+        id: string;
+        changes: Partial<Pick<AreaOfInterest, "name" | "shape">>;
+        updated_at: string;
+      }>
+    ) => {
+      const aoi = state.items.find((item) => item.id === action.payload.id);
+      if (aoi) {
+        Object.assign(aoi, action.payload.changes);
+        aoi.updated_at = action.payload.updated_at;
+      }
+    },
+    aoiRemoved: (state, action: PayloadAction<string>) => {
+      const aoi = state.items.find((item) => item.id === action.payload);
+      if (aoi?.server_id) state.pendingDeletes.push(aoi.server_id);
+      state.items = state.items.filter((item) => item.id !== action.payload);
+      if (state.selectedId === action.payload) state.selectedId = null;
+    },
+    aoiSelected: (state, action: PayloadAction<string | null>) => {
+      state.selectedId = action.payload;
+    },
+    aoiSyncToggled: (state, action: PayloadAction<boolean>) => {
+      state.syncEnabled = action.payload;
+      state.error = null;
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(syncAois.pending, (state) => {
+        state.syncing = true;
+        state.error = null;
+      })
+      .addCase(syncAois.fulfilled, (state, action) => {
+        state.syncing = false;
+        state.lastSyncedAt = action.payload.syncedAt;
+        state.pendingDeletes = state.pendingDeletes.filter(
+          (id) => !action.payload.deleted.includes(id)
+        );
+
+        // Apply server ids without overwriting edits made during the sync
+        const serverIds = new Map(
+          action.payload.synced.map((aoi) => [aoi.id, aoi.server_id])
+        );
+        state.items = state.items.map((aoi) => ({
+          ...aoi,
+          server_id: serverIds.get(aoi.id) ?? aoi.server_id,
+        }));
+
+        const current = new Set(state.items.map((aoi) => aoi.id));
+        action.payload.synced.forEach((aoi) => {
+          // Removed locally while being created on the server
+          if (!current.has(aoi.id) && aoi.server_id !== null) {
+            state.pendingDeletes.push(aoi.server_id);
+          }
+        });
+        state.items.push(
+          ...action.payload.pulled.filter((aoi) => !current.has(aoi.id))
+        );
+      })
+      .addCase(syncAois.rejected, (state, action) => {
+        state.syncing = false;
+        state.error = action.payload as string;
+      });
+
+    builder.addCase(logout, () => initialState);
+  },
+});
+
+export const { aoiSelected } = aoiSlice.actions;
+const { aoisLoaded, aoisAdded, aoiUpdated, aoiRemoved, aoiSyncToggled } =
+  aoiSlice.actions;
+export default aoiSlice.reducer;
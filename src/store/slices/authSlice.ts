@@ -1,29 +1,12 @@
 // src/store/slices/authSlice.ts
+import { createSlice, createAsyncThunk } from "@reduxjs/toolkit";
 import {
-  createSlice,
-  createAsyncThunk,
-  type SerializedError,
-} from "@reduxjs/toolkit";
-import axios, { AxiosError } from "axios";
-
-const API_URL = import.meta.env.VITE_API_URL || "http://localhost:8000/api";
-
-interface User {
-  id: number;
-  email: string;
-  first_name: string;
-  last_name: string;
-  full_name: string;
-  rank?: string;
-  unit?: string;
-  phone_number?: string;
-  avatar?: string;
-  avatar_url?: string;
-  is_verified: boolean;
-  is_staff: boolean;
-  date_joined: string;
-  last_login?: string;
-}
+  ApiError,
+  apiClient,
+  getErrorMessage,
+  isNetworkError,
+} from "@/lib/api";
+import type { User, LoginCredentials, RegisterData } from "@/types";
 
 interface AuthState {
   user: User | null;
@@ -34,112 +17,51 @@ interface AuthState {
   error: string | null;
 }
 
-interface LoginCredentials {
-  email: string;
-  password: string;
-}
-
-interface RegisterData {
-  email: string;
-  password: string;
-  re_password: string;
-  first_name: string;
-  last_name: string;
-  rank?: string;
-  unit?: string;
-  phone_number?: string;
-}
-
-interface ApiErrorResponse {
-  detail?: string;
-  email?: string[];
-  password?: string[];
-  error?: string;
-}
-
-// Load tokens from localStorage
-const loadTokens = () => {
-  const accessToken = localStorage.getItem("accessToken");
-  const refreshToken = localStorage.getItem("refreshToken");
-  return { accessToken, refreshToken };
-};
-
 const initialState: AuthState = {
   user: null,
-  ...loadTokens(),
-  isAuthenticated: !!localStorage.getItem("accessToken"),
+  accessToken: apiClient.getAccessToken(),
+  refreshToken: apiClient.getRefreshToken(),
+  isAuthenticated: !!apiClient.getAccessToken(),
   isLoading: false,
   error: null,
 };
 
-// Helper function to extract error message
-const extractErrorMessage = (error: unknown): string => {
-  if (axios.isAxiosError(error)) {
-    const axiosError = error as AxiosError<ApiErrorResponse>;
-    const data = axiosError.response?.data;
-
-    if (data?.detail) return data.detail;
-    if (data?.email?.[0]) return data.email[0];
-    if (data?.password?.[0]) return data.password[0];
-    if (data?.error) return data.error;
-
-    return axiosError.message || "An error occurred";
-  }
+// Last signed-in user, so a reload without a connection stays signed in
+const CURRENT_USER_KEY = "currentUser";
 
-  if (error instanceof Error) {
-    return error.message;
+const storedCurrentUser = (): User | null => {
+  try {
+    return JSON.parse(localStorage.getItem(CURRENT_USER_KEY) ?? "null");
+  } catch {
+    return null;
   }
-
-  return "An unexpected error occurred";
 };
 
-// Create axios instance with interceptor
-const createAxiosInstance = () => {
-  const instance = axios.create({
-    baseURL: API_URL,
-  });
-
-  instance.interceptors.request.use(
-    (config) => {
-      const token = localStorage.getItem("accessToken");
-      if (token) {
-        config.headers.Authorization = `Bearer ${token}`;
-      }
-      return config;
-    },
-    (error) => Promise.reject(error)
-  );
-
-  return instance;
+export const persistCurrentUser = (user: User | null) => {
+  if (user) localStorage.setItem(CURRENT_USER_KEY, JSON.stringify(user));
+  else localStorage.removeItem(CURRENT_USER_KEY);
 };
 
-const axiosInstance = createAxiosInstance();
-
 // Async thunks
 export const login = createAsyncThunk(
   "auth/login",
   async (credentials: LoginCredentials, { rejectWithValue }) => {
     try {
-      const response = await axios.post(
-        `${API_URL}/user/auth/jwt/create/`,
-        credentials
-      );
-      const { access, refresh } = response.data;
+      const { access, refresh } = await apiClient.login(credentials);
 
       // Store tokens
-      localStorage.setItem("accessToken", access);
-      localStorage.setItem("refreshToken", refresh);
+      apiClient.setTokens(access, refresh);
 
       // Get user data
-      const userResponse = await axiosInstance.get(`/user/profile/me/`);
+      const user = await apiClient.getCurrentUser();
 
       return {
         accessToken: access,
         refreshToken: refresh,
-        user: userResponse.data as User,
+        user,
       };
     } catch (error) {
-      return rejectWithValue(extractErrorMessage(error));
+      return rejectWithValue(getErrorMessage(error));
     }
   }
 );
@@ -149,33 +71,27 @@ export const register = createAsyncThunk(
   async (data: RegisterData, { rejectWithValue }) => {
     try {
       // Register user
-      await axios.post(`${API_URL}/user/auth/users/`, data);
+      await apiClient.register(data);
 
       // Auto-login after registration
-      const loginResponse = await axios.post(
-        `${API_URL}/user/auth/jwt/create/`,
-        {
-          email: data.email,
-          password: data.password,
-        }
-      );
-
-      const { access, refresh } = loginResponse.data;
+      const { access, refresh } = await apiClient.login({
+        email: data.email,
+        password: data.password,
+      });
 
       // Store tokens
-      localStorage.setItem("accessToken", access);
-      localStorage.setItem("refreshToken", refresh);
+      apiClient.setTokens(access, refresh);
 
       // Get user data
-      const userResponse = await axiosInstance.get(`/user/profile/me/`);
+      const user = await apiClient.getCurrentUser();
 
       return {
         accessToken: access,
         refreshToken: refresh,
-        user: userResponse.data as User,
+        user,
       };
     } catch (error) {
-      return rejectWithValue(extractErrorMessage(error));
+      return rejectWithValue(getErrorMessage(error));
     }
   }
 );
@@ -184,18 +100,21 @@ export const fetchCurrentUser = createAsyncThunk(
   "auth/fetchCurrentUser",
   async (_, { rejectWithValue }) => {
     try {
-      const accessToken = localStorage.getItem("accessToken");
-      if (!accessToken) {
+      if (!apiClient.getAccessToken()) {
         return rejectWithValue("No access token found");
       }
 
-      const response = await axiosInstance.get(`/user/profile/me/`);
-      return response.data as User;
+      return await apiClient.getCurrentUser();
     } catch (error) {
-      // Clear tokens if fetch fails
-      localStorage.removeItem("accessToken");
-      localStorage.removeItem("refreshToken");
-      return rejectWithValue(extractErrorMessage(error));
+      // Only an expired session signs the user out; while the server is
+      // unreachable the last known profile is used
+      if (error instanceof ApiError && error.status === 401) {
+        apiClient.clearTokens();
+        return rejectWithValue(getErrorMessage(error));
+      }
+      const stored = isNetworkError(error) ? storedCurrentUser() : null;
+      if (stored) return stored;
+      return rejectWithValue(getErrorMessage(error));
     }
   }
 );
@@ -204,13 +123,9 @@ export const updateProfile = createAsyncThunk(
   "auth/updateProfile",
   async (data: Partial<User>, { rejectWithValue }) => {
     try {
-      const response = await axiosInstance.patch(
-        `/user/profile/update_profile/`,
-        data
-      );
-      return response.data as User;
+      return await apiClient.updateProfile(data);
     } catch (error) {
-      return rejectWithValue(extractErrorMessage(error));
+      return rejectWithValue(getErrorMessage(error));
     }
   }
 );
@@ -219,22 +134,9 @@ export const uploadAvatar = createAsyncThunk(
   "auth/uploadAvatar",
   async (file: File, { rejectWithValue }) => {
     try {
-      const formData = new FormData();
-      formData.append("avatar", file);
-
-      const response = await axiosInstance.post(
-        `/user/profile/upload_avatar/`,
-        formData,
-        {
-          headers: {
-            "Content-Type": "multipart/form-data",
-          },
-        }
-      );
-
-      return response.data as User;
+      return await apiClient.uploadAvatar(file);
     } catch (error) {
-      return rejectWithValue(extractErrorMessage(error));
+      return rejectWithValue(getErrorMessage(error));
     }
   }
 );
@@ -243,25 +145,19 @@ export const refreshAccessToken = createAsyncThunk(
   "auth/refreshToken",
   async (_, { rejectWithValue }) => {
     try {
-      const refreshToken = localStorage.getItem("refreshToken");
+      const refreshToken = apiClient.getRefreshToken();
       if (!refreshToken) {
         return rejectWithValue("No refresh token found");
       }
 
-      const response = await axios.post(`${API_URL}/user/auth/jwt/refresh/`, {
-        refresh: refreshToken,
-      });
-
-      const { access } = response.data;
-      localStorage.setItem("accessToken", access);
+      const { access } = await apiClient.refreshAccessToken(refreshToken);
+      apiClient.setTokens(access);
 
       return access;
     } catch (error) {
-      const err = error as SerializedError;
-      console.error("Token refresh failed:", err);
+      console.error("Token refresh failed:", error);
       // Clear tokens on refresh failure
-      localStorage.removeItem("accessToken");
-      localStorage.removeItem("refreshToken");
+      apiClient.clearTokens();
       return rejectWithValue("Session expired. Please login again.");
     }
   }
@@ -278,8 +174,8 @@ const authSlice = createSlice({
       state.refreshToken = null;
       state.isAuthenticated = false;
       state.error = null;
-      localStorage.removeItem("accessToken");
-      localStorage.removeItem("refreshToken");
+      apiClient.clearTokens();
+      persistCurrentUser(null);
     },
     clearError: (state) => {
       state.error = null;
@@ -0,0 +1,340 @@
+// src/store/slices/jobsSlice.ts
+import {
+  createSlice,
+  createAsyncThunk,
+  type PayloadAction,
+} from "@reduxjs/toolkit";
+import { apiClient, getErrorMessage } from "@/lib/api";
+import {
+  analyzeImage,
+  fetchSatelliteImages,
+  imageUpdated,
+  uploadSatelliteImage,
+} from "@/store/slices/satelliteSlice";
+import {
+  analysisStatusReceived,
+  checkAnalysisStatus,
+  fetchAnalyses,
+} from "@/store/slices/analysisSlice";
+import { logout } from "@/store/slices/authSlice";
+import type {
+  AnalysisResult,
+  AnalysisStatus,
+  Job,
+  JobStatus,
+  SatelliteImage,
+} from "@/types";
+
+interface JobsState {
+  jobs: Job[];
+  isPolling: boolean;
+}
+
+const initialState: JobsState = {
+  jobs: [],
+  isPolling: false,
+};
+
+const INITIAL_POLL_DELAY = 2000;
+const MAX_POLL_DELAY = 30000;
+
+const analysisJobId = (id: number) => `analysis:${id}`;
+const imageJobId = (id: number) => `image:${id}`;
+
+const analysisJobStatus = (status: AnalysisResult["status"]): JobStatus => {
+  switch (status) {
+    case "pending":
+      return "queued";
+    case "processing":
+      return "running";
+    default:
+      return status;
+  }
+};
+
+const imageJobStatus = (status: SatelliteImage["status"]): JobStatus => {
+  switch (status) {
+    case "uploaded":
+      return "queued";
+    case "processing":
+      return "running";
+    case "optimized":
+      return "completed";
+    default:
+      return "failed";
+  }
+};
+
+const isActiveStatus = (status: JobStatus): boolean =>
+  status === "queued" || status === "running";
+
+export const isJobActive = (job: Job): boolean => isActiveStatus(job.status);
+
+const newJob = (
+  kind: Job["kind"],
+  targetId: number,
+  label: string,
+  status: JobStatus
+): Job => {
+  const now = Date.now();
+  return {
+    id: kind === "analysis" ? analysisJobId(targetId) : imageJobId(targetId),
+    kind,
+    targetId,
+    label,
+    status,
+    createdAt: now,
+    finishedAt: null,
+    processingTime: null,
+    error: null,
+    attempts: 0,
+    nextCheckAt: now + INITIAL_POLL_DELAY,
+  };
+};
+
+// Add a job unless an active one already follows the same target
+const addJob = (state: JobsState, job: Job) => {
+  const index = state.jobs.findIndex((j) => j.id === job.id);
+  if (index !== -1) {
+    if (isJobActive(state.jobs[index])) return;
+    state.jobs.splice(index, 1);
+  }
+  state.jobs.unshift(job);
+};
+
+const setJobStatus = (
+  state: JobsState,
+  id: string,
+  status: JobStatus,
+  changes: Partial<Job> = {}
+) => {
+  const job = state.jobs.find((j) => j.id === id);
+  if (!job) return;
+
+  Object.assign(job, changes);
+  if (job.status !== status) {
+    job.status = status;
+    if (!isJobActive(job)) {
+      job.finishedAt = Date.now();
+    }
+  }
+};
+
+const applyAnalysisStatus = (
+  state: JobsState,
+  update: Pick<AnalysisStatus, "id" | "status" | "processing_time">
+) => {
+  setJobStatus(
+    state,
+    analysisJobId(update.id),
+    analysisJobStatus(update.status),
+    { processingTime: update.processing_time }
+  );
+};
+
+const analysisLabel = (analysisType: string, imageName?: string) => {
+  const type = analysisType.replace(/_/g, " ");
+  return imageName ? `${type} · ${imageName}` : type;
+};
+
+// Check every job whose backoff has elapsed
+export const pollJobs = createAsyncThunk(
+  "jobs/poll",
+  async (_, { getState, dispatch }) => {
+    const { jobs } = (getState() as { jobs: JobsState }).jobs;
+    const now = Date.now();
+
+    // Start analyses queued behind image optimization
+    const followUps = jobs.filter(
+      (job) => job.status === "completed" && job.followUpAnalysis
+    );
+    for (const job of followUps) {
+      dispatch(
+        jobUpdated({ id: job.id, changes: { followUpAnalysis: undefined } })
+      );
+      dispatch(
+        analyzeImage({ id: job.targetId, analysis_type: job.followUpAnalysis })
+      );
+    }
+
+    const due = jobs.filter(
+      (job) => isJobActive(job) && job.nextCheckAt <= now
+    );
+    await Promise.all(
+      due.map(async (job) => {
+        if (job.kind === "analysis") {
+          await dispatch(checkAnalysisStatus(job.targetId));
+        } else {
+          try {
+            const image = await apiClient.getSatelliteImage(job.targetId);
+            dispatch(imageUpdated(image));
+          } catch (error) {
+            console.error("Job status check failed:", getErrorMessage(error));
+          }
+        }
+        dispatch(jobChecked(job.id));
+      })
+    );
+  },
+  {
+    condition: (_, { getState }) =>
+      !(getState() as { jobs: JobsState }).jobs.isPolling,
+  }
+);
+
+const jobsSlice = createSlice({
+  name: "jobs",
+  initialState,
+  reducers: {
+    trackImage: (
+      state,
+      action: PayloadAction<{
+        image: SatelliteImage;
+        followUpAnalysis?: string;
+      }>
+    ) => {
+      const { image, followUpAnalysis } = action.payload;
+
+      // Uploads are tracked automatically; just attach the follow-up
+      const existing = state.jobs.find((j) => j.id === imageJobId(image.id));
+      if (existing && isJobActive(existing)) {
+        existing.followUpAnalysis = followUpAnalysis;
+        return;
+      }
+
+      addJob(state, {
+        ...newJob("image", image.id, image.name, imageJobStatus(image.status)),
+        followUpAnalysis,
+      });
+    },
+    jobUpdated: (
+      state,
+      action: PayloadAction<{ id: string; changes: Partial<Job> }>
+    ) => {
+      const job = state.jobs.find((j) => j.id === action.payload.id);
+      if (job) {
+        Object.assign(job, action.payload.changes);
+      }
+    },
+    // Back off exponentially between status checks of the same job
+    jobChecked: (state, action: PayloadAction<string>) => {
+      const job = state.jobs.find((j) => j.id === action.payload);
+      if (!job) return;
+
+      job.attempts += 1;
+      job.nextCheckAt =
+        Date.now() +
+        Math.min(MAX_POLL_DELAY, INITIAL_POLL_DELAY * 1.5 ** job.attempts);
+    },
+    jobDismissed: (state, action: PayloadAction<string>) => {
+      state.jobs = state.jobs.filter((j) => j.id !== action.payload);
+    },
+    finishedJobsCleared: (state) => {
+      state.jobs = state.jobs.filter(isJobActive);
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(pollJobs.pending, (state) => {
+        state.isPolling = true;
+      })
+      .addCase(pollJobs.fulfilled, (state) => {
+        state.isPolling = false;
+      })
+      .addCase(pollJobs.rejected, (state) => {
+        state.isPolling = false;
+      });
+
+    builder.addCase(logout, () => initialState);
+
+    // Pick up work started elsewhere or before the page loaded
+    builder.addCase(fetchAnalyses.fulfilled, (state, action) => {
+      action.payload.forEach((analysis) => {
+        const status = analysisJobStatus(analysis.status);
+        if (isActiveStatus(status)) {
+          addJob(
+            state,
+            newJob(
+              "analysis",
+              analysis.id,
+              analysisLabel(analysis.analysis_type, analysis.image_name),
+              status
+            )
+          );
+        } else {
+          applyAnalysisStatus(state, analysis);
+        }
+      });
+    });
+
+    builder.addCase(fetchSatelliteImages.fulfilled, (state, action) => {
+      action.payload.results.forEach((image) => {
+        const status = imageJobStatus(image.status);
+        if (isActiveStatus(status)) {
+          addJob(state, newJob("image", image.id, image.name, status));
+        } else {
+          setJobStatus(state, imageJobId(image.id), status);
+        }
+      });
+    });
+
+    builder.addCase(uploadSatelliteImage.fulfilled, (state, action) => {
+      const image = action.payload;
+      addJob(
+        state,
+        newJob("image", image.id, image.name, imageJobStatus(image.status))
+      );
+    });
+
+    builder.addCase(analyzeImage.fulfilled, (state, action) => {
+      const { analysis_id, imageId } = action.payload;
+      const imageJob = state.jobs.find((j) => j.id === imageJobId(imageId));
+      addJob(
+        state,
+        newJob(
+          "analysis",
+          analysis_id,
+          analysisLabel(
+            action.meta.arg.analysis_type || "threat_detection",
+            imageJob?.label
+          ),
+          "queued"
+        )
+      );
+    });
+
+    builder.addCase(analyzeImage.rejected, (state, action) => {
+      const imageJob = state.jobs.find(
+        (j) => j.id === imageJobId(action.meta.arg.id)
+      );
+      if (imageJob) {
+        imageJob.error = `Analysis could not be started: ${action.payload}`;
+      }
+    });
+
+    builder.addCase(imageUpdated, (state, action) => {
+      setJobStatus(
+        state,
+        imageJobId(action.payload.id),
+        imageJobStatus(action.payload.status)
+      );
+    });
+
+    builder.addCase(checkAnalysisStatus.fulfilled, (state, action) => {
+      applyAnalysisStatus(state, action.payload);
+    });
+
+    builder.addCase(analysisStatusReceived, (state, action) => {
+      applyAnalysisStatus(state, action.payload);
+    });
+  },
+});
+
+export const {
+  trackImage,
+  jobUpdated,
+  jobChecked,
+  jobDismissed,
+  finishedJobsCleared,
+} = jobsSlice.actions;
+export default jobsSlice.reducer;
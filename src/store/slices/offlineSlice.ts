@@ -0,0 +1,252 @@
+// src/store/slices/offlineSlice.ts
+import {
+  createSlice,
+  createAsyncThunk,
+  type PayloadAction,
+} from "@reduxjs/toolkit";
+import {
+  ApiError,
+  apiClient,
+  getErrorMessage,
+  isNetworkError,
+} from "@/lib/api";
+import { createId } from "@/lib/ids";
+import { runInStore, type IdbStoreConfig } from "@/lib/idb";
+import { logout } from "@/store/slices/authSlice";
+import type { RootState } from "@/store";
+import type { OfflineWrite, OfflineWriteInput, ThreatDetection } from "@/types";
+
+interface OfflineState {
+  online: boolean;
+  // Queued writes of the current user, oldest first
+  writes: OfflineWrite[];
+  // Owner of the loaded writes, null until the current user is known
+  userId: number | null;
+  replaying: boolean;
+}
+
+const initialState: OfflineState = {
+  online: navigator.onLine,
+  writes: [],
+  userId: null,
+  replaying: false,
+};
+
+const WRITES_STORE: IdbStoreConfig = {
+  database: "c2-offline-writes",
+  version: 1,
+  store: "writes",
+  keyPath: "id",
+};
+
+// The server state no longer allows a queued write
+class WriteConflict extends Error {}
+
+export const loadOfflineWrites = createAsyncThunk(
+  "offline/load",
+  async (userId: number) => {
+    try {
+      const stored = await runInStore<OfflineWrite[]>(
+        WRITES_STORE,
+        "readonly",
+        (store) => store.getAll()
+      );
+      const writes = stored
+        .filter((write) => write.user_id === userId)
+        .sort((a, b) => a.queued_at.localeCompare(b.queued_at));
+      return { userId, writes };
+    } catch {
+      return { userId, writes: [] };
+    }
+  },
+  {
+    condition: (userId, { getState }) =>
+      (getState() as RootState).offline.userId !== userId,
+  }
+);
+
+// Stores a write made while offline, for replayOfflineWrites to send
+export const queueOfflineWrite = createAsyncThunk(
+  "offline/queue",
+  async (input: OfflineWriteInput, { getState, rejectWithValue }) => {
+    const userId = (getState() as RootState).auth.user?.id;
+    if (userId === undefined) return rejectWithValue("Not signed in");
+    const write: OfflineWrite = {
+      ...input,
+      id: createId(),
+      user_id: userId,
+      queued_at: new Date().toISOString(),
+      conflict: null,
+    };
+    try {
+      await runInStore(WRITES_STORE, "readwrite", (store) => store.put(write));
+      return write;
+    } catch (error) {
+      return rejectWithValue(getErrorMessage(error));
+    }
+  }
+);
+
+// Checks a review against the current server state before sending it
+const reviewConflict = (write: OfflineWrite, threat: ThreatDetection) => {
+  if (threat.false_positive) {
+    return "The threat was dismissed as a false positive";
+  }
+  if (write.kind === "verify" && threat.verified) {
+    return `Already verified by ${
+      threat.verified_by_username ?? "another analyst"
+    }`;
+  }
+  if (write.kind === "acknowledge" && threat.acknowledged) {
+    return `Already acknowledged by ${
+      threat.acknowledged_by_username ?? "another analyst"
+    }`;
+  }
+  return null;
+};
+
+const sendWrite = async (
+  write: OfflineWrite
+): Promise<ThreatDetection | null> => {
+  let threat: ThreatDetection;
+  try {
+    threat = await apiClient.getThreatDetection(write.threat_id);
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 404) {
+      throw new WriteConflict("The threat no longer exists");
+    }
+    throw error;
+  }
+
+  if (write.kind === "comment") {
+    await apiClient.addThreatComment(write.threat_id, write.body, write.parent);
+    return null;
+  }
+  const conflict = reviewConflict(write, threat);
+  if (conflict) throw new WriteConflict(conflict);
+  return write.kind === "verify"
+    ? apiClient.verifyThreat(write.threat_id)
+    : apiClient.acknowledgeThreat(write.threat_id, write.notes);
+};
+
+// Sends queued writes in order, stopping while the server is unreachable.
+// Writes the server refuses are kept with the reason until dismissed.
+export const replayOfflineWrites = createAsyncThunk(
+  "offline/replay",
+  async (_: void, { dispatch, getState }) => {
+    const pending = (getState() as RootState).offline.writes.filter(
+      (write) => write.conflict === null
+    );
+    let applied = 0;
+    let conflicts = 0;
+
+    for (const write of pending) {
+      try {
+        const threat = await sendWrite(write);
+        await runInStore(WRITES_STORE, "readwrite", (store) =>
+          store.delete(write.id)
+        ).catch(() => undefined);
+        dispatch(offlineWriteApplied({ id: write.id, threat }));
+        applied++;
+      } catch (error) {
+        const refused =
+          error instanceof WriteConflict ||
+          (error instanceof ApiError &&
+            error.status !== null &&
+            error.status >= 400 &&
+            error.status < 500);
+        if (!refused || isNetworkError(error)) break;
+
+        const conflicted = { ...write, conflict: getErrorMessage(error) };
+        await runInStore(WRITES_STORE, "readwrite", (store) =>
+          store.put(conflicted)
+        ).catch(() => undefined);
+        dispatch(offlineWriteConflicted(conflicted));
+        conflicts++;
+      }
+    }
+    return { applied, conflicts };
+  },
+  {
+    condition: (_, { getState }) => {
+      const { online, replaying, writes } = (getState() as RootState).offline;
+      return (
+        online && !replaying && writes.some((write) => write.conflict === null)
+      );
+    },
+  }
+);
+
+export const dismissOfflineWrite = createAsyncThunk(
+  "offline/dismiss",
+  async (id: string) => {
+    await runInStore(WRITES_STORE, "readwrite", (store) =>
+      store.delete(id)
+    ).catch(() => undefined);
+    return id;
+  }
+);
+
+const offlineSlice = createSlice({
+  name: "offline",
+  initialState,
+  reducers: {
+    connectivityChanged: (state, action: PayloadAction<boolean>) => {
+      state.online = action.payload;
+    },
+    offlineWriteApplied: (
+      state,
+      action: PayloadAction<{ id: string; threat: ThreatDetection | null }>
+    ) => {
+      state.writes = state.writes.filter(
+        (write) => write.id !== action.payload.id
+      );
+    },
+    offlineWriteConflicted: (state, action: PayloadAction<OfflineWrite>) => {
+      const index = state.writes.findIndex(
+        (write) => write.id === action.payload.id
+      );
+      if (index !== -1) state.writes[index] = action.payload;
+    },
+  },
+  extraReducers: (builder) => {
+    builder.addCase(loadOfflineWrites.fulfilled, (state, action) => ({
+      ...initialState,
+      online: state.online,
+      ...action.payload,
+    }));
+
+    builder.addCase(queueOfflineWrite.fulfilled, (state, action) => {
+      state.writes.push(action.payload);
+    });
+
+    builder
+      .addCase(replayOfflineWrites.pending, (state) => {
+        state.replaying = true;
+      })
+      .addCase(replayOfflineWrites.fulfilled, (state) => {
+        state.replaying = false;
+      })
+      .addCase(replayOfflineWrites.rejected, (state) => {
+        state.replaying = false;
+      });
+
+    builder.addCase(dismissOfflineWrite.fulfilled, (state, action) => {
+      state.writes = state.writes.filter(
+        (write) => write.id !== action.payload
+      );
+    });
+
+    builder.addCase(logout, (state) => ({
+      ...initialState,
+      online: state.online,
+    }));
+  },
+});
+
+export const {
+  connectivityChanged,
+  offlineWriteApplied,
+  offlineWriteConflicted,
+} = offlineSlice.actions;
+export default offlineSlice.reducer;
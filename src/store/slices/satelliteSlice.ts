@@ -1,23 +1,19 @@
 // src/store/slices/satelliteSlice.ts
-import { createSlice, createAsyncThunk } from "@reduxjs/toolkit";
-import axios, { AxiosError } from "axios";
-
-const API_URL = import.meta.env.VITE_API_URL || "http://localhost:8000/api";
-
-interface SatelliteImage {
-  id: number;
-  name: string;
-  upload_date: string;
-  acquisition_date?: string;
-  status: "uploaded" | "processing" | "optimized" | "failed";
-  analyzed: boolean;
-  analysis_count: number;
-  image_url?: string;
-  thumbnail_url?: string;
-  bounds?: [[number, number], [number, number]];
-  resolution?: number;
-  file_size?: number;
-}
+import {
+  createSlice,
+  createAsyncThunk,
+  type PayloadAction,
+} from "@reduxjs/toolkit";
+import {
+  apiClient,
+  getErrorMessage,
+  type AnalysisOptions,
+  type SatelliteImageFilters,
+  type SatelliteImageUpload,
+  type UploadOptions,
+} from "@/lib/api";
+import { CHUNKED_UPLOAD_THRESHOLD, uploadInChunks } from "@/lib/chunkedUpload";
+import type { SatelliteImage } from "@/types";
 
 interface SatelliteState {
   images: SatelliteImage[];
@@ -31,18 +27,6 @@ interface SatelliteState {
   };
 }
 
-interface ApiErrorResponse {
-  detail?: string;
-  error?: string;
-}
-
-interface PaginatedResponse<T> {
-  count: number;
-  next: string | null;
-  previous: string | null;
-  results: T[];
-}
-
 const initialState: SatelliteState = {
   images: [],
   currentImage: null,
@@ -55,55 +39,14 @@ const initialState: SatelliteState = {
   },
 };
 
-// Helper function to get auth headers
-const getAuthHeaders = () => {
-  const token = localStorage.getItem("accessToken");
-  return {
-    Authorization: `Bearer ${token}`,
-  };
-};
-
-// Helper function to extract error message
-const extractErrorMessage = (error: unknown): string => {
-  if (axios.isAxiosError(error)) {
-    const axiosError = error as AxiosError<ApiErrorResponse>;
-    return (
-      axiosError.response?.data?.detail ||
-      axiosError.response?.data?.error ||
-      axiosError.message ||
-      "An error occurred"
-    );
-  }
-
-  if (error instanceof Error) {
-    return error.message;
-  }
-
-  return "An unexpected error occurred";
-};
-
 // Async thunks
 export const fetchSatelliteImages = createAsyncThunk(
   "satellite/fetchImages",
-  async (
-    params: { status?: string; search?: string; page?: number } | undefined,
-    { rejectWithValue }
-  ) => {
+  async (params: SatelliteImageFilters | undefined, { rejectWithValue }) => {
     try {
-      const queryParams = new URLSearchParams();
-      if (params?.status) queryParams.append("status", params.status);
-      if (params?.search) queryParams.append("search", params.search);
-      if (params?.page) queryParams.append("page", params.page.toString());
-
-      const response = await axios.get<
-        PaginatedResponse<SatelliteImage> | SatelliteImage[]
-      >(`${API_URL}/satellite/images/?${queryParams.toString()}`, {
-        headers: getAuthHeaders(),
-      });
-
-      return response.data;
+      return await apiClient.getSatelliteImages(params);
     } catch (error) {
-      return rejectWithValue(extractErrorMessage(error));
+      return rejectWithValue(getErrorMessage(error));
     }
   }
 );
@@ -112,14 +55,9 @@ export const fetchSatelliteImage = createAsyncThunk(
   "satellite/fetchImage",
   async (id: number, { rejectWithValue }) => {
     try {
-      const response = await axios.get<SatelliteImage>(
-        `${API_URL}/satellite/images/${id}/`,
-        { headers: getAuthHeaders() }
-      );
-
-      return response.data;
+      return await apiClient.getSatelliteImage(id);
     } catch (error) {
-      return rejectWithValue(extractErrorMessage(error));
+      return rejectWithValue(getErrorMessage(error));
     }
   }
 );
@@ -127,36 +65,20 @@ export const fetchSatelliteImage = createAsyncThunk(
 export const uploadSatelliteImage = createAsyncThunk(
   "satellite/uploadImage",
   async (
-    data: {
-      file: File;
-      name: string;
-      description?: string;
-      acquisition_date?: string;
-    },
+    { onUploadProgress, signal, ...data }: SatelliteImageUpload & UploadOptions,
     { rejectWithValue }
   ) => {
     try {
-      const formData = new FormData();
-      formData.append("original_image", data.file);
-      formData.append("name", data.name);
-      if (data.description) formData.append("description", data.description);
-      if (data.acquisition_date)
-        formData.append("acquisition_date", data.acquisition_date);
-
-      const response = await axios.post<SatelliteImage>(
-        `${API_URL}/satellite/images/`,
-        formData,
-        {
-          headers: {
-            ...getAuthHeaders(),
-            "Content-Type": "multipart/form-data",
-          },
-        }
-      );
-
-      return response.data;
+      // Large scenes go up in resumable chunks
+      if (data.file.size >= CHUNKED_UPLOAD_THRESHOLD) {
+        return await uploadInChunks(data, { onUploadProgress, signal });
+      }
+      return await apiClient.uploadSatelliteImage(data, {
+        onUploadProgress,
+        signal,
+      });
     } catch (error) {
-      return rejectWithValue(extractErrorMessage(error));
+      return rejectWithValue(getErrorMessage(error));
     }
   }
 );
@@ -164,24 +86,22 @@ export const uploadSatelliteImage = createAsyncThunk(
 export const analyzeImage = createAsyncThunk(
   "satellite/analyzeImage",
   async (
-    { id, analysis_type }: { id: number; analysis_type?: string },
+    {
+      id,
+      analysis_type,
+      ...options
+    }: { id: number; analysis_type?: string } & AnalysisOptions,
     { rejectWithValue }
   ) => {
     try {
-      const response = await axios.post<{
-        message: string;
-        analysis_id: number;
-        task_id: string;
-        status: string;
-      }>(
-        `${API_URL}/satellite/images/${id}/analyze/`,
-        { analysis_type: analysis_type || "threat_detection" },
-        { headers: getAuthHeaders() }
+      const response = await apiClient.triggerAnalysis(
+        id,
+        analysis_type,
+        options
       );
-
-      return { ...response.data, imageId: id };
+      return { ...response, imageId: id };
     } catch (error) {
-      return rejectWithValue(extractErrorMessage(error));
+      return rejectWithValue(getErrorMessage(error));
     }
   }
 );
@@ -190,14 +110,9 @@ export const fetchImageAnalyses = createAsyncThunk(
   "satellite/fetchImageAnalyses",
   async (imageId: number, { rejectWithValue }) => {
     try {
-      const response = await axios.get(
-        `${API_URL}/satellite/images/${imageId}/analyses/`,
-        { headers: getAuthHeaders() }
-      );
-
-      return response.data;
+      return await apiClient.getImageAnalyses(imageId);
     } catch (error) {
-      return rejectWithValue(extractErrorMessage(error));
+      return rejectWithValue(getErrorMessage(error));
     }
   }
 );
@@ -213,6 +128,21 @@ const satelliteSlice = createSlice({
     clearCurrentImage: (state) => {
       state.currentImage = null;
     },
+    // Replace a single image in place, e.g. after a status poll
+    imageUpdated: (state, action: PayloadAction<SatelliteImage>) => {
+      const index = state.images.findIndex(
+        (img) => img.id === action.payload.id
+      );
+      if (index !== -1) {
+        state.images[index] = action.payload;
+      } else {
+        state.images.unshift(action.payload);
+      }
+
+      if (state.currentImage?.id === action.payload.id) {
+        state.currentImage = action.payload;
+      }
+    },
   },
   extraReducers: (builder) => {
     // Fetch images
@@ -223,23 +153,12 @@ const satelliteSlice = createSlice({
       })
       .addCase(fetchSatelliteImages.fulfilled, (state, action) => {
         state.isLoading = false;
-
-        // Handle both paginated and non-paginated responses
-        if (Array.isArray(action.payload)) {
-          state.images = action.payload;
-          state.pagination = {
-            count: action.payload.length,
-            next: null,
-            previous: null,
-          };
-        } else {
-          state.images = action.payload.results;
-          state.pagination = {
-            count: action.payload.count,
-            next: action.payload.next,
-            previous: action.payload.previous,
-          };
-        }
+        state.images = action.payload.results;
+        state.pagination = {
+          count: action.payload.count,
+          next: action.payload.next,
+          previous: action.payload.previous,
+        };
       })
       .addCase(fetchSatelliteImages.rejected, (state, action) => {
         state.isLoading = false;
@@ -296,5 +215,6 @@ const satelliteSlice = createSlice({
   },
 });
 
-export const { clearError, clearCurrentImage } = satelliteSlice.actions;
+export const { clearError, clearCurrentImage, imageUpdated } =
+  satelliteSlice.actions;
 export default satelliteSlice.reducer;
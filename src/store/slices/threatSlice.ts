@@ -1,50 +1,32 @@
-import { createSlice, createAsyncThunk } from "@reduxjs/toolkit";
-import axios, { AxiosError } from "axios";
-
-const API_URL = import.meta.env.VITE_API_URL || "http://localhost:8000/api";
-
-interface Threat {
-  id: number;
-  analysis: number;
-  satellite_image: number;
-  image_name: string;
-  threat_type: string;
-  threat_type_display: string;
-  severity: "low" | "medium" | "high" | "critical";
-  severity_display: string;
-  location_coords: [number, number];
-  confidence: number;
-  description: string;
-  detected_at: string;
-  verified: boolean;
-  acknowledged: boolean;
-  notes: string;
-}
+import {
+  createSlice,
+  createAsyncThunk,
+  type PayloadAction,
+} from "@reduxjs/toolkit";
+import {
+  apiClient,
+  getErrorMessage,
+  isNetworkError,
+  type ThreatFilters,
+} from "@/lib/api";
+import { correctedFields, correctionValues } from "@/lib/threatCorrections";
+import {
+  offlineWriteApplied,
+  queueOfflineWrite,
+} from "@/store/slices/offlineSlice";
+import type { AppDispatch, RootState } from "@/store";
+import type {
+  ThreatCorrectionInput,
+  ThreatDetection,
+  ThreatSummary,
+} from "@/types";
 
 interface ThreatState {
-  threats: Threat[];
-  currentThreat: Threat | null;
+  threats: ThreatDetection[];
+  currentThreat: ThreatDetection | null;
   isLoading: boolean;
   error: string | null;
-  summary: {
-    total: number;
-    by_severity: Record<string, number>;
-    by_type: Record<string, number>;
-    verified_count: number;
-    acknowledged_count: number;
-  } | null;
-}
-
-interface ApiErrorResponse {
-  detail?: string;
-  error?: string;
-}
-
-interface PaginatedResponse<T> {
-  results?: T[];
-  count?: number;
-  next?: string | null;
-  previous?: string | null;
+  summary: ThreatSummary | null;
 }
 
 const threatInitialState: ThreatState = {
@@ -55,66 +37,33 @@ const threatInitialState: ThreatState = {
   summary: null,
 };
 
-// Helper function to get auth headers
-const getAuthHeaders = () => {
-  const token = localStorage.getItem("accessToken");
-  return {
-    Authorization: `Bearer ${token}`,
-  };
-};
-
-// Helper function to extract error message
-const extractErrorMessage = (error: unknown): string => {
-  if (axios.isAxiosError(error)) {
-    const axiosError = error as AxiosError<ApiErrorResponse>;
-    return (
-      axiosError.response?.data?.detail ||
-      axiosError.response?.data?.error ||
-      axiosError.message ||
-      "An error occurred"
-    );
-  }
-
-  if (error instanceof Error) {
-    return error.message;
-  }
-
-  return "An unexpected error occurred";
-};
-
+// The result replaces the loaded threats, so polls and resyncs stay within
+// the timeline window unless a caller passes its own dates. The filters the
+// request used come back with the results.
 export const fetchThreats = createAsyncThunk(
   "threat/fetchThreats",
-  async (
-    params: {
-      severity?: string;
-      threat_type?: string;
-      verified?: boolean;
-      min_severity?: string;
-    } = {},
-    { rejectWithValue }
-  ) => {
+  async (params: ThreatFilters | undefined, { getState, rejectWithValue }) => {
+    const { window } = (getState() as RootState).timeline;
+    const filters: ThreatFilters = {
+      ...(window && { date_from: window.from, date_to: window.to }),
+      ...params,
+    };
     try {
-      const queryParams = new URLSearchParams();
-      if (params.severity) queryParams.append("severity", params.severity);
-      if (params.threat_type)
-        queryParams.append("threat_type", params.threat_type);
-      if (params.verified !== undefined)
-        queryParams.append("verified", params.verified.toString());
-      if (params.min_severity)
-        queryParams.append("min_severity", params.min_severity);
-
-      const response = await axios.get<PaginatedResponse<Threat> | Threat[]>(
-        `${API_URL}/satellite/threats/?${queryParams.toString()}`,
-        { headers: getAuthHeaders() }
-      );
-
-      // Handle both paginated and array responses
-      if (Array.isArray(response.data)) {
-        return response.data;
-      }
-      return response.data.results || [];
+      const response = await apiClient.getThreatDetections(filters);
+      return { threats: response.results, filters };
     } catch (error) {
-      return rejectWithValue(extractErrorMessage(error));
+      return rejectWithValue(getErrorMessage(error));
+    }
+  }
+);
+
+export const fetchThreat = createAsyncThunk(
+  "threat/fetchThreat",
+  async (id: number, { rejectWithValue }) => {
+    try {
+      return await apiClient.getThreatDetection(id);
+    } catch (error) {
+      return rejectWithValue(getErrorMessage(error));
     }
   }
 );
@@ -123,31 +72,59 @@ export const fetchThreatSummary = createAsyncThunk(
   "threat/fetchSummary",
   async (_, { rejectWithValue }) => {
     try {
-      const response = await axios.get<ThreatState["summary"]>(
-        `${API_URL}/satellite/threats/summary/`,
-        { headers: getAuthHeaders() }
-      );
-
-      return response.data;
+      return await apiClient.getThreatSummary();
     } catch (error) {
-      return rejectWithValue(extractErrorMessage(error));
+      return rejectWithValue(getErrorMessage(error));
     }
   }
 );
 
+type ReviewAction = "verify" | "acknowledge";
+
+// Offline reviews are queued and shown straight away; null when the
+// threat is not loaded to show the review on
+const queueReview = async (
+  dispatch: AppDispatch,
+  getState: () => RootState,
+  { id, action, notes }: { id: number; action: ReviewAction; notes?: string }
+): Promise<ThreatDetection | null> => {
+  const { threats, currentThreat } = getState().threat;
+  const threat =
+    threats.find((t) => t.id === id) ??
+    (currentThreat?.id === id ? currentThreat : null);
+  if (!threat) return null;
+
+  if (action === "verify") {
+    await dispatch(
+      queueOfflineWrite({ kind: "verify", threat_id: id })
+    ).unwrap();
+    return { ...threat, verified: true };
+  }
+  await dispatch(
+    queueOfflineWrite({
+      kind: "acknowledge",
+      threat_id: id,
+      notes: notes ?? "",
+    })
+  ).unwrap();
+  return { ...threat, acknowledged: true, notes: notes || threat.notes };
+};
+
 export const verifyThreat = createAsyncThunk(
   "threat/verify",
-  async (id: number, { rejectWithValue }) => {
+  async (id: number, { dispatch, getState, rejectWithValue }) => {
     try {
-      const response = await axios.post<Threat>(
-        `${API_URL}/satellite/threats/${id}/verify/`,
-        {},
-        { headers: getAuthHeaders() }
-      );
-
-      return response.data;
+      return await apiClient.verifyThreat(id);
     } catch (error) {
-      return rejectWithValue(extractErrorMessage(error));
+      const queued =
+        isNetworkError(error) &&
+        (await queueReview(
+          dispatch as AppDispatch,
+          getState as () => RootState,
+          { id, action: "verify" }
+        ).catch(() => null));
+      if (queued) return queued;
+      return rejectWithValue(getErrorMessage(error));
     }
   }
 );
@@ -156,22 +133,108 @@ export const acknowledgeThreat = createAsyncThunk(
   "threat/acknowledge",
   async (
     { id, notes }: { id: number; notes?: string },
-    { rejectWithValue }
+    { dispatch, getState, rejectWithValue }
   ) => {
     try {
-      const response = await axios.post<Threat>(
-        `${API_URL}/satellite/threats/${id}/acknowledge/`,
-        { notes },
-        { headers: getAuthHeaders() }
-      );
+      return await apiClient.acknowledgeThreat(id, notes);
+    } catch (error) {
+      const queued =
+        isNetworkError(error) &&
+        (await queueReview(
+          dispatch as AppDispatch,
+          getState as () => RootState,
+          { id, action: "acknowledge", notes }
+        ).catch(() => null));
+      if (queued) return queued;
+      return rejectWithValue(getErrorMessage(error));
+    }
+  }
+);
+
+// Verify or acknowledge several threats, keeping whatever succeeded
+export const reviewThreats = createAsyncThunk(
+  "threat/review",
+  async (
+    {
+      ids,
+      action,
+      notes,
+    }: { ids: number[]; action: ReviewAction; notes?: string },
+    { dispatch, getState, rejectWithValue }
+  ) => {
+    const results = await Promise.allSettled(
+      ids.map((id) =>
+        (action === "verify"
+          ? apiClient.verifyThreat(id)
+          : apiClient.acknowledgeThreat(id, notes)
+        ).catch(async (error) => {
+          if (!isNetworkError(error)) throw error;
+          const queued = await queueReview(
+            dispatch as AppDispatch,
+            getState as () => RootState,
+            { id, action, notes }
+          );
+          if (!queued) throw error;
+          return queued;
+        })
+      )
+    );
+    const updated: ThreatDetection[] = [];
+    const failed: number[] = [];
+    let error: unknown = null;
+    results.forEach((result, i) => {
+      if (result.status === "fulfilled") {
+        updated.push(result.value);
+      } else {
+        failed.push(ids[i]);
+        error = result.reason;
+      }
+    });
 
-      return response.data;
+    if (updated.length === 0 && failed.length > 0) {
+      return rejectWithValue(getErrorMessage(error));
+    }
+    return { updated, failed };
+  }
+);
+
+// Dismiss, reclassify or move a threat. The change shows straight away
+// and is undone if the server does not record it.
+export const correctThreat = createAsyncThunk(
+  "threat/correct",
+  async (
+    {
+      threat,
+      correction,
+    }: { threat: ThreatDetection; correction: ThreatCorrectionInput },
+    { rejectWithValue }
+  ) => {
+    const { previous, corrected } = correctionValues(threat, correction);
+    try {
+      return await apiClient.createThreatCorrection(threat.id, {
+        kind: correction.kind,
+        reason: correction.kind === "dismiss" ? correction.reason : null,
+        previous,
+        corrected,
+        comment: correction.comment ?? "",
+      });
     } catch (error) {
-      return rejectWithValue(extractErrorMessage(error));
+      return rejectWithValue(getErrorMessage(error));
     }
   }
 );
 
+const patchThreat = (
+  state: ThreatState,
+  id: number,
+  fields: Partial<ThreatDetection>
+) => {
+  const threat = state.threats.find((t) => t.id === id);
+  if (threat) Object.assign(threat, fields);
+  if (state.currentThreat?.id === id)
+    Object.assign(state.currentThreat, fields);
+};
+
 const threatSlice = createSlice({
   name: "threat",
   initialState: threatInitialState,
@@ -179,6 +242,19 @@ const threatSlice = createSlice({
     clearError: (state) => {
       state.error = null;
     },
+    // Insert or replace a threat pushed by the realtime feed
+    threatReceived: (state, action: PayloadAction<ThreatDetection>) => {
+      const index = state.threats.findIndex((t) => t.id === action.payload.id);
+      if (index !== -1) {
+        state.threats[index] = action.payload;
+      } else {
+        state.threats.unshift(action.payload);
+      }
+
+      if (state.currentThreat?.id === action.payload.id) {
+        state.currentThreat = action.payload;
+      }
+    },
   },
   extraReducers: (builder) => {
     builder
@@ -188,13 +264,27 @@ const threatSlice = createSlice({
       })
       .addCase(fetchThreats.fulfilled, (state, action) => {
         state.isLoading = false;
-        state.threats = action.payload;
+        state.threats = action.payload.threats;
       })
       .addCase(fetchThreats.rejected, (state, action) => {
         state.isLoading = false;
         state.error = action.payload as string;
       });
 
+    builder
+      .addCase(fetchThreat.pending, (state, action) => {
+        state.error = null;
+        if (state.currentThreat?.id !== action.meta.arg) {
+          state.currentThreat = null;
+        }
+      })
+      .addCase(fetchThreat.fulfilled, (state, action) => {
+        state.currentThreat = action.payload;
+      })
+      .addCase(fetchThreat.rejected, (state, action) => {
+        state.error = action.payload as string;
+      });
+
     builder.addCase(fetchThreatSummary.fulfilled, (state, action) => {
       state.summary = action.payload;
     });
@@ -204,6 +294,14 @@ const threatSlice = createSlice({
       if (index !== -1) {
         state.threats[index] = action.payload;
       }
+      if (state.currentThreat?.id === action.payload.id) {
+        state.currentThreat = action.payload;
+      }
+    });
+
+    builder.addCase(offlineWriteApplied, (state, action) => {
+      const { threat } = action.payload;
+      if (threat) patchThreat(state, threat.id, threat);
     });
 
     builder.addCase(acknowledgeThreat.fulfilled, (state, action) => {
@@ -211,9 +309,59 @@ const threatSlice = createSlice({
       if (index !== -1) {
         state.threats[index] = action.payload;
       }
+      if (state.currentThreat?.id === action.payload.id) {
+        state.currentThreat = action.payload;
+      }
+    });
+
+    builder
+      .addCase(correctThreat.pending, (state, action) => {
+        const { threat, correction } = action.meta.arg;
+        const { corrected } = correctionValues(threat, correction);
+        patchThreat(
+          state,
+          threat.id,
+          correctedFields(
+            corrected,
+            correction.kind === "dismiss" ? correction.reason : null
+          )
+        );
+      })
+      .addCase(correctThreat.rejected, (state, action) => {
+        const { threat, correction } = action.meta.arg;
+        const { previous, corrected } = correctionValues(threat, correction);
+        const current =
+          state.threats.find((t) => t.id === threat.id) ??
+          (state.currentThreat?.id === threat.id ? state.currentThreat : null);
+        if (!current) return;
+
+        // Roll back only fields no later change has touched
+        const untouched = Object.fromEntries(
+          Object.entries(previous).filter(
+            ([key]) =>
+              JSON.stringify(current[key as keyof ThreatDetection]) ===
+              JSON.stringify(corrected[key as keyof typeof corrected])
+          )
+        );
+        patchThreat(
+          state,
+          threat.id,
+          correctedFields(untouched, threat.false_positive_reason ?? null)
+        );
+        state.error = action.payload as string;
+      });
+
+    builder.addCase(reviewThreats.fulfilled, (state, action) => {
+      const updated = new Map(action.payload.updated.map((t) => [t.id, t]));
+      state.threats = state.threats.map((t) => updated.get(t.id) ?? t);
+      if (state.currentThreat) {
+        state.currentThreat =
+          updated.get(state.currentThreat.id) ?? state.currentThreat;
+      }
     });
   },
 });
 
-export const { clearError: clearThreatError } = threatSlice.actions;
+export const { clearError: clearThreatError, threatReceived } =
+  threatSlice.actions;
 export default threatSlice.reducer;
@@ -0,0 +1,158 @@
+// src/store/slices/timelineSlice.ts
+import { createSlice, type PayloadAction } from "@reduxjs/toolkit";
+import {
+  fetchSatelliteImages,
+  imageUpdated,
+  uploadSatelliteImage,
+} from "@/store/slices/satelliteSlice";
+import { fetchThreats, threatReceived } from "@/store/slices/threatSlice";
+import { logout } from "@/store/slices/authSlice";
+import type { AppDispatch, RootState } from "@/store";
+import type { SatelliteImage, ThreatDetection, TimeWindow } from "@/types";
+
+interface TimelineState {
+  window: TimeWindow | null;
+  // Dates of everything seen so far, kept when a fetch is narrowed to the
+  // window so the histogram still covers the whole timeline
+  imageDates: Record<number, string>;
+  threatDates: Record<number, string>;
+}
+
+const initialState: TimelineState = {
+  window: null,
+  imageDates: {},
+  threatDates: {},
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export const imageTime = (image: SatelliteImage): number =>
+  Date.parse(image.acquisition_date ?? image.upload_date);
+
+export const isInTimeWindow = (
+  time: number,
+  window: TimeWindow | null
+): boolean =>
+  !window || (time >= Date.parse(window.from) && time <= Date.parse(window.to));
+
+export const timeWindowParams = (window: TimeWindow | null) =>
+  window ? { date_from: window.from, date_to: window.to } : undefined;
+
+// Sorted, distinct times of all acquisitions and detections
+const timelineEvents = ({ imageDates, threatDates }: TimelineState) =>
+  Array.from(
+    new Set(
+      [...Object.values(imageDates), ...Object.values(threatDates)].map(
+        Date.parse
+      )
+    )
+  )
+    .filter((time) => !Number.isNaN(time))
+    .sort((a, b) => a - b);
+
+// Slide the window to the next or previous date with imagery or detections,
+// keeping its width. Returns false at either end of the timeline.
+export const stepTimeWindow =
+  (direction: 1 | -1) =>
+  (dispatch: AppDispatch, getState: () => RootState): boolean => {
+    const { timeline } = getState();
+    const events = timelineEvents(timeline);
+    if (events.length === 0) return false;
+
+    const current = timeline.window;
+    const first = events[0];
+    const last = events[events.length - 1];
+    const width = current
+      ? Date.parse(current.to) - Date.parse(current.from)
+      : Math.max((last - first) / 10, DAY);
+
+    let from: number;
+    if (!current) {
+      from = direction === 1 ? first : last - width;
+    } else if (direction === 1) {
+      const next = events.find((time) => time > Date.parse(current.to));
+      if (next === undefined) return false;
+      from = next - width;
+    } else {
+      const previous = [...events]
+        .reverse()
+        .find((time) => time < Date.parse(current.from));
+      if (previous === undefined) return false;
+      from = previous;
+    }
+
+    dispatch(
+      timeWindowChanged({
+        from: new Date(from).toISOString(),
+        to: new Date(from + width).toISOString(),
+      })
+    );
+    return true;
+  };
+
+// Windowed fetches only add dates; unfiltered ones replace them
+const hasDateFilter = (params?: { date_from?: string; date_to?: string }) =>
+  !!params && (!!params.date_from || !!params.date_to);
+
+const recordImages = (
+  state: TimelineState,
+  images: SatelliteImage[],
+  replace: boolean
+) => {
+  if (replace) state.imageDates = {};
+  images.forEach((image) => {
+    state.imageDates[image.id] = image.acquisition_date ?? image.upload_date;
+  });
+};
+
+const recordThreats = (
+  state: TimelineState,
+  threats: ThreatDetection[],
+  replace: boolean
+) => {
+  if (replace) state.threatDates = {};
+  threats.forEach((threat) => {
+    state.threatDates[threat.id] = threat.detected_at;
+  });
+};
+
+const timelineSlice = createSlice({
+  name: "timeline",
+  initialState,
+  reducers: {
+    timeWindowChanged: (state, action: PayloadAction<TimeWindow | null>) => {
+      state.window = action.payload;
+    },
+  },
+  extraReducers: (builder) => {
+    builder.addCase(fetchSatelliteImages.fulfilled, (state, action) => {
+      recordImages(
+        state,
+        action.payload.results,
+        !hasDateFilter(action.meta.arg)
+      );
+    });
+
+    builder.addCase(fetchThreats.fulfilled, (state, action) => {
+      const { threats, filters } = action.payload;
+      recordThreats(state, threats, !hasDateFilter(filters));
+    });
+
+    builder.addCase(uploadSatelliteImage.fulfilled, (state, action) => {
+      recordImages(state, [action.payload], false);
+    });
+
+    builder.addCase(imageUpdated, (state, action) => {
+      recordImages(state, [action.payload], false);
+    });
+
+    builder.addCase(threatReceived, (state, action) => {
+      recordThreats(state, [action.payload], false);
+    });
+
+    builder.addCase(logout, () => initialState);
+  },
+});
+
+export const { timeWindowChanged } = timelineSlice.actions;
+export default timelineSlice.reducer;
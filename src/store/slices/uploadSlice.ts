@@ -0,0 +1,270 @@
+// src/store/slices/uploadSlice.ts
+import {
+  createSlice,
+  createAsyncThunk,
+  type PayloadAction,
+} from "@reduxjs/toolkit";
+import { getErrorMessage } from "@/lib/api";
+import {
+  abortUpload,
+  createUploadController,
+  getUploadFile,
+  registerUploadFile,
+  releaseUploadFile,
+} from "@/lib/uploadFiles";
+import { readGeoTiffHeader } from "@/lib/geotiffHeader";
+import { uploadSatelliteImage } from "@/store/slices/satelliteSlice";
+import { trackImage } from "@/store/slices/jobsSlice";
+import { logout } from "@/store/slices/authSlice";
+import type { AppDispatch, RootState } from "@/store";
+import type { GeoTiffHeader, UploadItem } from "@/types";
+
+interface UploadState {
+  items: UploadItem[];
+  maxConcurrent: number;
+}
+
+const initialState: UploadState = {
+  items: [],
+  maxConcurrent: 2,
+};
+
+const stripExtension = (fileName: string) => fileName.replace(/\.[^.]+$/, "");
+
+const isUploadActive = (item: UploadItem) =>
+  item.status === "queued" || item.status === "uploading";
+
+export const startUpload = createAsyncThunk(
+  "uploads/start",
+  async (id: string, { getState, dispatch, rejectWithValue }) => {
+    const item = (getState() as { uploads: UploadState }).uploads.items.find(
+      (i) => i.id === id
+    );
+    const file = getUploadFile(id);
+    if (!item || !file) {
+      return rejectWithValue("File is no longer available");
+    }
+
+    const controller = createUploadController(id);
+
+    try {
+      const image = await dispatch(
+        uploadSatelliteImage({
+          file,
+          name: item.name.trim() || stripExtension(item.fileName),
+          description: item.description || undefined,
+          acquisition_date: item.acquisitionDate || undefined,
+          signal: controller.signal,
+          onUploadProgress: (progress) =>
+            dispatch(uploadProgressed({ id, progress })),
+        })
+      ).unwrap();
+
+      if (item.analysisType) {
+        dispatch(trackImage({ image, followUpAnalysis: item.analysisType }));
+      }
+      releaseUploadFile(id);
+
+      return image;
+    } catch (error) {
+      return rejectWithValue(getErrorMessage(error));
+    }
+  }
+);
+
+// Start queued uploads until the concurrency limit is reached
+export const processUploadQueue =
+  () => (dispatch: AppDispatch, getState: () => RootState) => {
+    const { items, maxConcurrent } = getState().uploads;
+    let running = items.filter((i) => i.status === "uploading").length;
+
+    for (const item of items) {
+      if (running >= maxConcurrent) break;
+      if (item.status !== "queued") continue;
+
+      running += 1;
+      dispatch(startUpload(item.id)).finally(() =>
+        dispatch(processUploadQueue())
+      );
+    }
+  };
+
+export const addUploadFiles = (files: File[]) => (dispatch: AppDispatch) => {
+  const items: UploadItem[] = files.map((file) => ({
+    id: registerUploadFile(file),
+    fileName: file.name,
+    fileSize: file.size,
+    name: stripExtension(file.name),
+    description: "",
+    acquisitionDate: "",
+    analysisType: "threat_detection",
+    header: null,
+    headerError: null,
+    status: "staged",
+    progress: 0,
+    error: null,
+    imageId: null,
+  }));
+  dispatch(uploadsAdded(items));
+
+  // Preview georeferencing while the user fills in the metadata
+  items.forEach((item, index) => {
+    readGeoTiffHeader(files[index])
+      .then((header) => dispatch(uploadHeaderRead({ id: item.id, header })))
+      .catch((error) =>
+        dispatch(
+          uploadUpdated({
+            id: item.id,
+            changes: {
+              headerError: `Could not read the GeoTIFF header: ${getErrorMessage(
+                error
+              )}`,
+            },
+          })
+        )
+      );
+  });
+};
+
+export const startStagedUploads = () => (dispatch: AppDispatch) => {
+  dispatch(uploadsQueued());
+  dispatch(processUploadQueue());
+};
+
+export const cancelUpload = (id: string) => (dispatch: AppDispatch) => {
+  abortUpload(id);
+  dispatch(uploadCancelled(id));
+  dispatch(processUploadQueue());
+};
+
+export const retryUpload = (id: string) => (dispatch: AppDispatch) => {
+  dispatch(uploadRetried(id));
+  dispatch(processUploadQueue());
+};
+
+export const removeUpload = (id: string) => (dispatch: AppDispatch) => {
+  abortUpload(id);
+  releaseUploadFile(id);
+  dispatch(uploadRemoved(id));
+  dispatch(processUploadQueue());
+};
+
+export const setMaxConcurrentUploads =
+  (maxConcurrent: number) => (dispatch: AppDispatch) => {
+    dispatch(maxConcurrentSet(maxConcurrent));
+    dispatch(processUploadQueue());
+  };
+
+const uploadSlice = createSlice({
+  name: "uploads",
+  initialState,
+  reducers: {
+    uploadsAdded: (state, action: PayloadAction<UploadItem[]>) => {
+      state.items.push(...action.payload);
+    },
+    uploadUpdated: (
+      state,
+      action: PayloadAction<{ id: string; changes: Partial<UploadItem> }>
+    ) => {
+      const item = state.items.find((i) => i.id === action.payload.id);
+      if (item) {
+        Object.assign(item, action.payload.changes);
+      }
+    },
+    uploadHeaderRead: (
+      state,
+      action: PayloadAction<{ id: string; header: GeoTiffHeader }>
+    ) => {
+      const item = state.items.find((i) => i.id === action.payload.id);
+      if (!item) return;
+
+      item.header = action.payload.header;
+      // Pre-fill the capture time unless the user already entered one
+      if (!item.acquisitionDate && action.payload.header.acquisitionDate) {
+        item.acquisitionDate = action.payload.header.acquisitionDate;
+      }
+    },
+    uploadProgressed: (
+      state,
+      action: PayloadAction<{ id: string; progress: number }>
+    ) => {
+      const item = state.items.find((i) => i.id === action.payload.id);
+      if (item && item.status === "uploading") {
+        item.progress = action.payload.progress;
+      }
+    },
+    uploadsQueued: (state) => {
+      state.items.forEach((item) => {
+        if (item.status === "staged") {
+          item.status = "queued";
+        }
+      });
+    },
+    uploadCancelled: (state, action: PayloadAction<string>) => {
+      const item = state.items.find((i) => i.id === action.payload);
+      if (item && (isUploadActive(item) || item.status === "staged")) {
+        item.status = "cancelled";
+      }
+    },
+    uploadRetried: (state, action: PayloadAction<string>) => {
+      const item = state.items.find((i) => i.id === action.payload);
+      if (item && (item.status === "failed" || item.status === "cancelled")) {
+        item.status = "queued";
+        item.progress = 0;
+        item.error = null;
+      }
+    },
+    uploadRemoved: (state, action: PayloadAction<string>) => {
+      state.items = state.items.filter((i) => i.id !== action.payload);
+    },
+    finishedUploadsCleared: (state) => {
+      state.items = state.items.filter((i) => i.status !== "completed");
+    },
+    maxConcurrentSet: (state, action: PayloadAction<number>) => {
+      state.maxConcurrent = Math.max(1, action.payload);
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(startUpload.pending, (state, action) => {
+        const item = state.items.find((i) => i.id === action.meta.arg);
+        if (item) {
+          item.status = "uploading";
+          item.progress = 0;
+          item.error = null;
+        }
+      })
+      .addCase(startUpload.fulfilled, (state, action) => {
+        const item = state.items.find((i) => i.id === action.meta.arg);
+        if (item) {
+          item.status = "completed";
+          item.progress = 1;
+          item.imageId = action.payload.id;
+        }
+      })
+      .addCase(startUpload.rejected, (state, action) => {
+        const item = state.items.find((i) => i.id === action.meta.arg);
+        // A cancelled upload rejects too; keep it marked as cancelled
+        if (item && item.status !== "cancelled") {
+          item.status = "failed";
+          item.error = action.payload as string;
+        }
+      });
+
+    builder.addCase(logout, () => initialState);
+  },
+});
+
+export const {
+  uploadsAdded,
+  uploadUpdated,
+  uploadHeaderRead,
+  uploadProgressed,
+  uploadsQueued,
+  uploadCancelled,
+  uploadRetried,
+  uploadRemoved,
+  finishedUploadsCleared,
+  maxConcurrentSet,
+} = uploadSlice.actions;
+export default uploadSlice.reducer;
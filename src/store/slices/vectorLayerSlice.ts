@@ -0,0 +1,180 @@
+// src/store/slices/vectorLayerSlice.ts
+import {
+  createSlice,
+  createAsyncThunk,
+  type PayloadAction,
+} from "@reduxjs/toolkit";
+import { getErrorMessage } from "@/lib/api";
+import { runInStore, type IdbStoreConfig } from "@/lib/idb";
+import { createId } from "@/lib/ids";
+import { detectVectorFormat, parseVectorData } from "@/lib/vectorImport";
+import { DEFAULT_VECTOR_STYLE } from "@/lib/vectorOverlay";
+import { logout } from "@/store/slices/authSlice";
+import type { RootState } from "@/store";
+import type { VectorLayer } from "@/types";
+
+interface VectorLayerState {
+  // Top layer first
+  items: VectorLayer[];
+  // Owner of the loaded layers, null until the current user is known
+  userId: number | null;
+  importing: boolean;
+  error: string | null;
+}
+
+const initialState: VectorLayerState = {
+  items: [],
+  userId: null,
+  importing: false,
+  error: null,
+};
+
+const LAYERS_STORE: IdbStoreConfig = {
+  database: "c2-vector-layers",
+  version: 1,
+  store: "layers",
+  keyPath: "user_id",
+};
+
+// Style sliders change the layers many times a second
+const PERSIST_DELAY = 500;
+
+interface StoredLayers {
+  user_id: number;
+  layers: VectorLayer[];
+}
+
+let persistTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Saves the layers of the loaded user, called by the store on every change
+export const persistVectorLayers = ({ userId, items }: VectorLayerState) => {
+  if (userId === null) return;
+  if (persistTimer) clearTimeout(persistTimer);
+  persistTimer = setTimeout(() => {
+    persistTimer = null;
+    const stored: StoredLayers = { user_id: userId, layers: items };
+    runInStore(LAYERS_STORE, "readwrite", (store) => store.put(stored)).catch(
+      (error) => console.warn("Could not save map overlays:", error)
+    );
+  }, PERSIST_DELAY);
+};
+
+export const loadVectorLayers = createAsyncThunk(
+  "vectorLayer/load",
+  async (userId: number) => {
+    try {
+      const stored = await runInStore<StoredLayers | undefined>(
+        LAYERS_STORE,
+        "readonly",
+        (store) => store.get(userId)
+      );
+      return { userId, items: stored?.layers ?? [] };
+    } catch {
+      // Without IndexedDB overlays last for the session only
+      return { userId, items: [] };
+    }
+  },
+  {
+    condition: (userId, { getState }) =>
+      (getState() as RootState).vectorLayer.userId !== userId,
+  }
+);
+
+// Adds a layer from file contents, or from a URL when no text is given
+export const importVectorLayer = createAsyncThunk(
+  "vectorLayer/import",
+  async (
+    { source, text }: { source: string; text?: string },
+    { rejectWithValue }
+  ) => {
+    try {
+      let body = text;
+      if (body === undefined) {
+        const response = await fetch(source);
+        if (!response.ok) {
+          throw new Error(`${source} returned ${response.status}`);
+        }
+        body = await response.text();
+      }
+
+      const format = detectVectorFormat(source, body);
+      if (!format) throw new Error("Unrecognised format");
+
+      const name =
+        decodeURIComponent(source.split(/[?#]/)[0].split("/").pop() || "") ||
+        source;
+      const layer: VectorLayer = {
+        id: createId(),
+        name: name.replace(/\.\w+$/, ""),
+        format,
+        source,
+        data: parseVectorData(body, format),
+        visible: true,
+        style: DEFAULT_VECTOR_STYLE,
+        created_at: new Date().toISOString(),
+      };
+      return layer;
+    } catch (error) {
+      return rejectWithValue(getErrorMessage(error));
+    }
+  }
+);
+
+const vectorLayerSlice = createSlice({
+  name: "vectorLayer",
+  initialState,
+  reducers: {
+    vectorLayerUpdated: (
+      state,
+      action: PayloadAction<{
+        id: string;
+        changes: Partial<Pick<VectorLayer, "name" | "visible" | "style">>;
+      }>
+    ) => {
+      const layer = state.items.find((item) => item.id === action.payload.id);
+      if (layer) Object.assign(layer, action.payload.changes);
+    },
+    // Moves a layer up (-1) or down (1) the stack
+    vectorLayerMoved: (
+      state,
+      action: PayloadAction<{ id: string; offset: number }>
+    ) => {
+      const from = state.items.findIndex(
+        (item) => item.id === action.payload.id
+      );
+      const to = from + action.payload.offset;
+      if (from < 0 || to < 0 || to >= state.items.length) return;
+      const [layer] = state.items.splice(from, 1);
+      state.items.splice(to, 0, layer);
+    },
+    vectorLayerRemoved: (state, action: PayloadAction<string>) => {
+      state.items = state.items.filter((item) => item.id !== action.payload);
+    },
+  },
+  extraReducers: (builder) => {
+    builder.addCase(loadVectorLayers.fulfilled, (_, action) => ({
+      ...initialState,
+      ...action.payload,
+    }));
+
+    builder
+      .addCase(importVectorLayer.pending, (state) => {
+        state.importing = true;
+        state.error = null;
+      })
+      .addCase(importVectorLayer.fulfilled, (state, action) => {
+        state.importing = false;
+        state.items.unshift(action.payload);
+      })
+      .addCase(importVectorLayer.rejected, (state, action) => {
+        state.importing = false;
+        state.error = action.payload as string;
+      });
+
+    builder.addCase(logout, () => initialState);
+  },
+});
+
+export const { vectorLayerUpdated, vectorLayerMoved, vectorLayerRemoved } =
+  vectorLayerSlice.actions;
+export default vectorLayerSlice.reducer;
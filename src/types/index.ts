@@ -1,14 +1,15 @@
+import type { FeatureCollection } from "geojson";
+
 export interface SatelliteImage {
   id: number;
   name: string;
+  description?: string;
   upload_date: string;
   acquisition_date: string | null;
-  bounds: [[number, number], [number, number]];
+  bounds: [[number, number], [number, number]] | null;
   image_url: string;
   thumbnail_url: string;
   map_overlay_url: string;
-  opacity: number;
-  visible: boolean;
   status: "uploaded" | "processing" | "optimized" | "failed";
   analyzed: boolean;
   analysis_count: number;
@@ -16,6 +17,41 @@ export interface SatelliteImage {
   file_size: number | null;
 }
 
+// Satellite image with the client-side display settings used by the map
+export interface SatelliteImageLayer extends SatelliteImage {
+  opacity: number;
+  visible: boolean;
+  // Static rendered overlay or the streamed Cloud-Optimized GeoTIFF
+  renderMode: LayerRenderMode;
+  // Band compositing applied to streamed COGs
+  rendering: LayerRendering;
+}
+
+export type LayerRenderMode = "overlay" | "cog";
+
+export type SpectralIndex = "ndvi" | "ndwi" | "nbr";
+export type StretchMode = "minmax" | "percentile" | "equalize";
+export type ColorRampName = "rdylgn" | "viridis" | "blues" | "magma" | "greys";
+
+// Zero-based band numbers of the spectral regions indices are computed from
+export interface BandRoles {
+  red: number;
+  green: number;
+  blue: number;
+  nir: number;
+  swir: number;
+}
+
+export interface LayerRendering {
+  mode: "composite" | "index";
+  // Zero-based bands shown as red, green and blue
+  composite: [number, number, number];
+  index: SpectralIndex;
+  bandRoles: BandRoles;
+  ramp: ColorRampName;
+  stretch: StretchMode;
+}
+
 export interface ThreatDetection {
   id: number;
   analysis: number;
@@ -33,6 +69,231 @@ export interface ThreatDetection {
   verified: boolean;
   acknowledged: boolean;
   notes: string;
+  // Review history, when the server reports it
+  verified_at?: string | null;
+  verified_by_username?: string | null;
+  acknowledged_at?: string | null;
+  acknowledged_by_username?: string | null;
+  // Dismissed by an analyst as not a real threat
+  false_positive?: boolean;
+  false_positive_reason?: FalsePositiveReason | null;
+}
+
+export type FalsePositiveReason =
+  | "terrain"
+  | "civilian"
+  | "duplicate"
+  | "artifact"
+  | "other";
+
+// Fields an analyst can correct, as detected and as corrected
+export type ThreatCorrectionValues = Partial<
+  Pick<
+    ThreatDetection,
+    "threat_type" | "severity" | "location_coords" | "false_positive"
+  >
+>;
+
+export type ThreatCorrectionInput =
+  | { kind: "dismiss"; reason: FalsePositiveReason; comment?: string }
+  | { kind: "restore"; comment?: string }
+  | {
+      kind: "reclassify";
+      threat_type?: string;
+      severity?: ThreatDetection["severity"];
+      comment?: string;
+    }
+  | { kind: "relocate"; location_coords: [number, number]; comment?: string };
+
+// Analyst correction stored with the detection, kept as model feedback
+export interface ThreatCorrection {
+  id: number;
+  threat: number;
+  kind: ThreatCorrectionInput["kind"];
+  reason: FalsePositiveReason | null;
+  previous: ThreatCorrectionValues;
+  corrected: ThreatCorrectionValues;
+  comment: string;
+  author_username: string;
+  created_at: string;
+}
+
+// Analyst note on a threat, replying to another note when parent is set
+export interface ThreatComment {
+  id: number;
+  threat: number;
+  parent: number | null;
+  author_username: string;
+  author_full_name?: string;
+  body: string;
+  created_at: string;
+}
+
+// Threat marker glyphs: plain pictograms or APP-6 / MIL-STD-2525 style frames
+export type ThreatSymbolSet = "simple" | "military";
+
+export type DensityMode = "off" | "heatmap" | "hotspots";
+
+export interface DensitySettings {
+  mode: DensityMode;
+  // Heatmap point radius and blur, in pixels
+  radius: number;
+  blur: number;
+  // Hotspot hexagon width, in kilometers
+  cellSize: number;
+}
+
+export type DistanceUnit = "km" | "nm" | "mi";
+
+export type MeasureMode = "distance" | "area" | "bearing";
+
+// Rings around the selected threat, `interval` apart in the current unit
+export interface RangeRingSettings {
+  count: number;
+  interval: number;
+}
+
+// Area of interest geometry, in [lat, lng] order like the rest of the map.
+// Distances are in meters.
+export type AoiShape =
+  | { type: "polygon"; coordinates: [number, number][] }
+  | { type: "rectangle"; bounds: [[number, number], [number, number]] }
+  | { type: "circle"; center: [number, number]; radius: number }
+  | { type: "line"; coordinates: [number, number][]; buffer: number };
+
+export type AoiShapeType = AoiShape["type"];
+
+export interface AreaOfInterest {
+  // Client generated, so areas can be created offline
+  id: string;
+  name: string;
+  shape: AoiShape;
+  created_at: string;
+  updated_at: string;
+  // Set once the area has been saved to the server
+  server_id: number | null;
+}
+
+// Area of interest as stored by the server
+export interface AreaOfInterestRecord {
+  id: number;
+  client_id: string;
+  name: string;
+  shape: AoiShape;
+  created_at: string;
+  updated_at: string;
+}
+
+export type AlertAction = "toast" | "notification" | "sound" | "banner";
+
+// Geofence rule checked against incoming threat detections.
+// Empty severity or type lists match any value.
+export interface AlertRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  severities: ThreatDetection["severity"][];
+  threat_types: string[];
+  // Area of interest the detection must fall in, null for anywhere
+  aoi_id: string | null;
+  min_confidence: number;
+  actions: AlertAction[];
+  created_at: string;
+}
+
+// One firing of a rule, covering every match in a batch
+export interface AlertEvent {
+  id: string;
+  rule_id: string;
+  rule_name: string;
+  threat_ids: number[];
+  fired_at: string;
+  actions: AlertAction[];
+  // Banner closed by the user
+  dismissed: boolean;
+}
+
+export type ReportSection =
+  | "cover"
+  | "summary"
+  | "maps"
+  | "threats"
+  | "chips"
+  | "notes";
+
+// Layout and markings of a generated intelligence report
+export interface ReportTemplate {
+  id: string;
+  name: string;
+  title: string;
+  classification: string;
+  // Banner background, as a CSS color
+  classification_color: string;
+  sections: ReportSection[];
+  // Shipped with the app, so it cannot be changed or deleted
+  builtin: boolean;
+}
+
+export type VectorFormat = "geojson" | "kml" | "gpx";
+
+export interface VectorLayerStyle {
+  color: string;
+  weight: number;
+  opacity: number;
+  fill_opacity: number;
+  // Radius of point features, in pixels
+  point_radius: number;
+}
+
+// External vector data drawn over the map, kept in IndexedDB
+export interface VectorLayer {
+  id: string;
+  name: string;
+  format: VectorFormat;
+  // File name or URL the data was loaded from
+  source: string;
+  data: FeatureCollection;
+  visible: boolean;
+  style: VectorLayerStyle;
+  created_at: string;
+}
+
+// Tile server with z/x/y or TMS (y flipped) URLs, or a single raster
+// MBTiles or PMTiles file
+export type BasemapKind = "xyz" | "tms" | "mbtiles" | "pmtiles";
+
+export interface BasemapSource {
+  id: string;
+  label: string;
+  kind: BasemapKind;
+  // URL template for xyz and tms, file URL for mbtiles and pmtiles
+  url: string;
+  attribution: string;
+  min_zoom: number;
+  max_zoom: number;
+  // From the deployment configuration, so it cannot be edited or deleted
+  builtin: boolean;
+}
+
+// Basemap tiles of an area saved in Cache Storage for offline use
+export interface OfflineTilePackage {
+  id: string;
+  name: string;
+  basemap_id: string;
+  bounds: [[number, number], [number, number]];
+  min_zoom: number;
+  max_zoom: number;
+  tile_count: number;
+  // Tiles that could not be downloaded
+  failed_count: number;
+  bytes: number;
+  created_at: string;
+}
+
+// Inclusive ISO 8601 time range
+export interface TimeWindow {
+  from: string;
+  to: string;
 }
 
 export interface AnalysisResult {
@@ -56,6 +317,21 @@ export interface AnalysisResult {
   detections: ThreatDetection[];
 }
 
+export interface AnalysisStatus {
+  id: number;
+  status: AnalysisResult["status"];
+  threat_count: number;
+  processing_time: number | null;
+  completed_at: string | null;
+}
+
+export interface AnalysisTriggerResponse {
+  message: string;
+  analysis_id: number;
+  task_id: string;
+  status: string;
+}
+
 export interface ApiResponse<T> {
   count: number;
   next: string | null;
@@ -63,20 +339,199 @@ export interface ApiResponse<T> {
   results: T[];
 }
 
-export interface ApiError {
+export interface ApiErrorResponse {
   detail?: string;
   error?: string;
   message?: string;
+  [field: string]: unknown;
 }
 
 export interface ThreatSummary {
   total: number;
-  by_severity: {
-    critical: number;
-    high: number;
-    low: number;
-  };
+  by_severity: Record<ThreatDetection["severity"], number>;
   by_type: Record<string, number>;
   verified_count: number;
   acknowledged_count: number;
 }
+
+// Background jobs followed by the job tracker
+export type JobStatus = "queued" | "running" | "completed" | "failed";
+
+export interface Job {
+  id: string;
+  kind: "analysis" | "image";
+  targetId: number;
+  label: string;
+  status: JobStatus;
+  createdAt: number;
+  finishedAt: number | null;
+  // Seconds reported by the server once an analysis finishes
+  processingTime: number | null;
+  error: string | null;
+  attempts: number;
+  nextCheckAt: number;
+  // Image jobs: analysis type to start once the image is optimized
+  followUpAnalysis?: string;
+}
+
+// Georeferencing read from a GeoTIFF header before upload
+export interface GeoTiffHeader {
+  width: number;
+  height: number;
+  bandCount: number;
+  epsg: number | null;
+  // GDAL order: originX, pixelWidth, rowRotation, originY, columnRotation, pixelHeight
+  geotransform: [number, number, number, number, number, number] | null;
+  // Ground sample distance in metres
+  resolution: number | null;
+  // Image corners in WGS84, clockwise from the top left
+  footprint: [number, number][] | null;
+  bounds: [[number, number], [number, number]] | null;
+  acquisitionDate: string | null;
+  warnings: string[];
+}
+
+// Client-side satellite image upload queue
+export type UploadStatus =
+  | "staged"
+  | "queued"
+  | "uploading"
+  | "completed"
+  | "failed"
+  | "cancelled";
+
+export interface UploadItem {
+  id: string;
+  fileName: string;
+  fileSize: number;
+  name: string;
+  description: string;
+  acquisitionDate: string;
+  // Analysis to start once the image is optimized, empty for none
+  analysisType: string;
+  // Read in the browser once the file is added; null until then
+  header: GeoTiffHeader | null;
+  headerError: string | null;
+  status: UploadStatus;
+  progress: number;
+  error: string | null;
+  imageId: number | null;
+}
+
+// Server-side state of a resumable chunked upload
+export interface ChunkedUploadSession {
+  upload_id: string;
+  chunk_size: number;
+  total_chunks: number;
+  // Indexes of the chunks the server has stored and verified
+  received_chunks: number[];
+}
+
+// Review or note made while offline, replayed once the connection is back
+export type OfflineWriteInput =
+  | { kind: "verify"; threat_id: number }
+  | { kind: "acknowledge"; threat_id: number; notes: string }
+  | {
+      kind: "comment";
+      threat_id: number;
+      body: string;
+      parent: number | null;
+    };
+
+export type OfflineWrite = OfflineWriteInput & {
+  id: string;
+  user_id: number;
+  queued_at: string;
+  // Why the server state no longer allows the write, once replayed
+  conflict: string | null;
+};
+
+// Real-time feed events pushed over the WebSocket channel
+export type ThreatEventType =
+  | "threat.created"
+  | "threat.updated"
+  | "threat.verified"
+  | "threat.acknowledged";
+
+export type RealtimeEvent =
+  | { type: ThreatEventType; seq?: number; threat: ThreatDetection }
+  | { type: "analysis.status"; seq?: number; analysis: AnalysisStatus }
+  | { type: "ping"; seq?: number };
+
+export type RealtimeConnectionStatus =
+  | "connecting"
+  | "open"
+  | "reconnecting"
+  | "unavailable";
+
+// User & Authentication
+export interface User {
+  id: number;
+  email: string;
+  first_name: string;
+  last_name: string;
+  full_name: string;
+  rank?: string;
+  unit?: string;
+  phone_number?: string;
+  avatar?: string;
+  avatar_url?: string;
+  is_verified: boolean;
+  is_staff: boolean;
+  date_joined: string;
+  last_login?: string;
+}
+
+export interface LoginCredentials {
+  email: string;
+  password: string;
+}
+
+export interface RegisterData {
+  email: string;
+  password: string;
+  re_password: string;
+  first_name: string;
+  last_name: string;
+  rank?: string;
+  unit?: string;
+  phone_number?: string;
+}
+
+export interface AuthTokens {
+  access: string;
+  refresh: string;
+}
+
+// User Profile
+export interface UserStats {
+  images_uploaded: number;
+  threats_detected: number;
+  analyses_completed: number;
+  days_active: number;
+  account_age_days: number;
+  profile_completion: number;
+  recent_activity: RecentActivity[];
+}
+
+export interface RecentActivity {
+  id: number;
+  type: "upload" | "analysis" | "threat" | "verification";
+  description: string;
+  timestamp: string;
+  created_at: string;
+}
+
+export interface UserNotificationSettings {
+  email_notifications: boolean;
+  push_notifications: boolean;
+  threat_alerts: boolean;
+  weekly_reports: boolean;
+}
+
+export interface UserPreferences {
+  theme: "light" | "dark" | "system";
+  language: string;
+  timezone: string;
+  notifications: UserNotificationSettings;
+}
@@ -0,0 +1,104 @@
+// src/workers/raster.worker.ts
+//
+// Band math for the COG layer: statistics for stretches and rendering of
+// decoded raster windows into map tiles.
+import {
+  buildRampLut,
+  channelValue,
+  computeChannelStats,
+  mercatorPixelToLatLng,
+  modelToPixel,
+  stretchValue,
+} from "../lib/rasterMath";
+import { fromLatLng } from "../lib/projection";
+import type {
+  RasterTask,
+  RasterWorkerResponse,
+  RenderTask,
+  StatsTask,
+} from "../lib/rasterWorker";
+
+const computeStats = ({ bands, channels, noData }: StatsTask) => {
+  const length = Object.values(bands)[0]?.length ?? 0;
+  return channels.map((channel) => {
+    const values = new Float32Array(length);
+    for (let i = 0; i < length; i++) {
+      values[i] = channelValue(channel, bands, i, noData);
+    }
+    return computeChannelStats(values);
+  });
+};
+
+const renderTile = (task: RenderTask): Uint8ClampedArray<ArrayBuffer> => {
+  const { bands, channels, stats, noData, rendering, tile, window, scale } =
+    task;
+  const output = new Uint8ClampedArray(tile.width * tile.height * 4);
+  const lut = rendering.mode === "index" ? buildRampLut(rendering.ramp) : null;
+
+  for (let j = 0; j < tile.height; j++) {
+    for (let i = 0; i < tile.width; i++) {
+      const [lat, lng] = mercatorPixelToLatLng(
+        tile.x + i + 0.5,
+        tile.y + j + 0.5,
+        tile.zoom
+      );
+      const model = fromLatLng(task.epsg, lat, lng);
+      if (!model) continue;
+
+      const [column, row] = modelToPixel(task.geotransform, model[0], model[1]);
+      const x = Math.floor(column / scale) - window.left;
+      const y = Math.floor(row / scale) - window.top;
+      if (x < 0 || y < 0 || x >= window.width || y >= window.height) continue;
+
+      const sample = y * window.width + x;
+      const offset = (j * tile.width + i) * 4;
+
+      if (lut) {
+        const value = channelValue(channels[0], bands, sample, noData);
+        if (Number.isNaN(value)) continue;
+
+        const level = Math.round(
+          stretchValue(value, stats[0], rendering.stretch) * 255
+        );
+        output[offset] = lut[level * 3];
+        output[offset + 1] = lut[level * 3 + 1];
+        output[offset + 2] = lut[level * 3 + 2];
+      } else {
+        let valid = true;
+        for (let c = 0; c < 3; c++) {
+          const value = channelValue(channels[c], bands, sample, noData);
+          if (Number.isNaN(value)) {
+            valid = false;
+            break;
+          }
+          output[offset + c] =
+            stretchValue(value, stats[c], rendering.stretch) * 255;
+        }
+        if (!valid) continue;
+      }
+      output[offset + 3] = 255;
+    }
+  }
+
+  return output;
+};
+
+self.onmessage = (event: MessageEvent<{ id: number; task: RasterTask }>) => {
+  const { id, task } = event.data;
+  try {
+    if (task.type === "stats") {
+      const response: RasterWorkerResponse = { id, result: computeStats(task) };
+      self.postMessage(response);
+    } else {
+      const result = renderTile(task);
+      const response: RasterWorkerResponse = { id, result };
+      self.postMessage(response, { transfer: [result.buffer] });
+    }
+  } catch (error) {
+    const response: RasterWorkerResponse = {
+      id,
+      error: error instanceof Error ? error.message : String(error),
+    };
+    self.postMessage(response);
+  }
+};
@@ -17,6 +17,7 @@ export default defineConfig({
       "/api": {
         target: "http://localhost:8000",
         changeOrigin: true,
+        ws: true,
       },
       "/media": {
         target: "http://localhost:8000",